@@ -1,26 +1,60 @@
 
-import React, { useState, useCallback, useEffect } from 'react';
+import React, { useState, useCallback, useEffect, useRef } from 'react';
 import Header from './components/Header';
 import Controls from './components/Controls';
 import OutputDisplay from './components/OutputDisplay';
 import HistoryPanel from './components/HistoryPanel';
-import { GenerationType, GenerationOptions, GenerationResult, PostLength, Persona, DifficultyLevel, HistoryItem, ImageStyle, ImageAspectRatio, TextOverlayOptions, Tone, VideoQuality, PdfExportQuality } from './types';
-import { generateContent, humanifyText } from './services/geminiService';
+import KnowledgeBasePanel from './components/KnowledgeBasePanel';
+import ContentCalendar from './components/ContentCalendar';
+import ProspectBoard from './components/ProspectBoard';
+import PersonaEditorModal from './components/PersonaEditorModal';
+import BrandKitModal from './components/BrandKitModal';
+import { GenerationType, GenerationOptions, GenerationResult, PostLength, Persona, PersonaId, CustomPersona, DifficultyLevel, HistoryItem, ImageStyle, ImageAspectRatio, TextOverlayOptions, Tone, VideoQuality, PdfExportQuality, VideoJob, CarouselTemplate, CarouselSize, BrandKit, InlineEditAction, TextRange, VariantMode, PlanDayRun, RepurposeFormat, RepurposeRun, ScheduleSlot, ResumeInput, SourceMaterial, InterviewMode, InterviewSession, CompanySuggestion, Prospect, ContentLanguage } from './types';
+import { generateContent, generateContentStream, supportsStreaming, humanifyText, editSelection, trimToLength, answerInterviewQuestion, summarizeInterview, translateContent, planRepurposeAngles, checkFaithfulness } from './services/geminiService';
+import { videoJobManager } from './services/videoJobManager';
+import { loadCustomPersonas, saveCustomPersonas, isCustomPersonaId, getPersonaDisplayName } from './services/personaStore';
+import { loadHistory, addHistoryItem, updateHistoryItem, deleteHistoryItem, clearHistory, resolveHistoryMedia } from './services/historyStore';
+import { getRevisions, addRevision, restoreRevision } from './services/revisions';
+import { createPlanDayOptions } from './services/contentPlan';
+import { createRepurposeOptions, groupRepurposedItems } from './services/repurpose';
+import { isSourceGenerationType, prepareSource } from './services/sourceMaterial';
+import { getOpenTurn } from './services/mockInterview';
+import { loadProspects, saveProspects, createProspect, findProspect } from './services/prospectStore';
+import { outreachGenerationTypes } from './services/outreachMessages';
+import { CalendarEntrySource } from './services/calendar';
+import { loadBrandKits, saveBrandKits, loadActiveBrandKitId, saveActiveBrandKitId } from './services/brandKitStore';
+
+// Each day of a weekly plan gets one automatic retry before it is marked as failed.
+const MAX_PLAN_DAY_ATTEMPTS = 2;
+// Likewise for each generation that repurposes a document.
+const MAX_REPURPOSE_ATTEMPTS = 2;
 
 const App: React.FC = () => {
     const [generationType, setGenerationType] = useState<GenerationType>(GenerationType.ExamplePost);
     const [topic, setTopic] = useState<string>('');
     const [pageCount, setPageCount] = useState<number>(1);
     const [postLength, setPostLength] = useState<PostLength>(PostLength.Medium);
-    const [persona, setPersona] = useState<Persona>(Persona.GanapathiKakarla);
+    const [persona, setPersona] = useState<PersonaId>(Persona.GanapathiKakarla);
+    const [customPersonas, setCustomPersonas] = useState<CustomPersona[]>(() => loadCustomPersonas());
+    const [isPersonaEditorOpen, setIsPersonaEditorOpen] = useState<boolean>(false);
     const [difficultyLevel, setDifficultyLevel] = useState<DifficultyLevel>(DifficultyLevel.Intermediate);
     const [tone, setTone] = useState<Tone>(Tone.Formal);
+    const [language, setLanguage] = useState<ContentLanguage>(ContentLanguage.English);
     const [company, setCompany] = useState<string>('');
     const [dayNumber, setDayNumber] = useState<number>(1);
     const [videoQuality, setVideoQuality] = useState<VideoQuality>(VideoQuality.SD);
     const [pdfExportQuality, setPdfExportQuality] = useState<PdfExportQuality>(PdfExportQuality.Standard);
     const [generationResult, setGenerationResult] = useState<GenerationResult | null>(null);
     const [isLoading, setIsLoading] = useState<boolean>(false);
+    const [isStreaming, setIsStreaming] = useState<boolean>(false);
+    const streamAbortRef = useRef<AbortController | null>(null);
+
+    // Video jobs run in the background; the active one is the job shown in the output pane.
+    const [videoJobs, setVideoJobs] = useState<VideoJob[]>(() => videoJobManager.getJobs());
+    const [activeVideoJobId, setActiveVideoJobId] = useState<string | null>(
+        () => videoJobManager.getJobs().find(job => job.status === 'running')?.id ?? null
+    );
+    const activeVideoJobIdRef = useRef<string | null>(activeVideoJobId);
     const [error, setError] = useState<string | null>(null);
 
     // Image customization state
@@ -36,34 +70,120 @@ const App: React.FC = () => {
         placement: 'center',
     });
 
+    // Carousel state
+    const [slideCount, setSlideCount] = useState<number>(6);
+    const [carouselTemplate, setCarouselTemplate] = useState<CarouselTemplate>(CarouselTemplate.Bold);
+    const [carouselSize, setCarouselSize] = useState<CarouselSize>(CarouselSize.Portrait);
+    const [variantMode, setVariantMode] = useState<VariantMode>(VariantMode.Off);
+    const [variantCount, setVariantCount] = useState<number>(3);
+    const [resumeInput, setResumeInput] = useState<ResumeInput>({ resumeText: '', jobDescription: '' });
+    const [sourceMaterial, setSourceMaterial] = useState<SourceMaterial | null>(null);
+    const [interviewMode, setInterviewMode] = useState<InterviewMode>(InterviewMode.QuestionList);
+    // The options of the mock interview in progress; it's saved to history once it ends.
+    const interviewOptionsRef = useRef<GenerationOptions | null>(null);
+
+    // Brand kits
+    const [brandKits, setBrandKits] = useState<BrandKit[]>(() => loadBrandKits());
+    const [activeBrandKitId, setActiveBrandKitId] = useState<string>(() => loadActiveBrandKitId() ?? '');
+    const [isBrandKitModalOpen, setIsBrandKitModalOpen] = useState<boolean>(false);
+    const activeBrandKit = brandKits.find(kit => kit.id === activeBrandKitId) ?? brandKits[0];
+
     const [history, setHistory] = useState<HistoryItem[]>([]);
-    const [activeTab, setActiveTab] = useState<'controls' | 'history'>('controls');
+    const historyRef = useRef<HistoryItem[]>(history);
+    // The history item whose content is shown in the output pane; its revisions are tracked there.
+    const [activeHistoryId, setActiveHistoryId] = useState<string | null>(null);
+    // Progress of "Generate all days" runs, per weekly plan item and day.
+    const [planRuns, setPlanRuns] = useState<Record<string, Record<number, PlanDayRun>>>({});
+    // Progress of repurposing runs, per source document and format.
+    const [repurposeRuns, setRepurposeRuns] = useState<Record<string, Partial<Record<RepurposeFormat, RepurposeRun>>>>({});
+    const [activeTab, setActiveTab] = useState<'controls' | 'history' | 'knowledge' | 'calendar' | 'prospects'>('controls');
+    const [prospects, setProspects] = useState<Prospect[]>(() => loadProspects());
 
     useEffect(() => {
+        loadHistory()
+            .then(setHistory)
+            .catch(e => console.error("Failed to load history from IndexedDB:", e));
+    }, []);
+
+    useEffect(() => {
+        historyRef.current = history;
+    }, [history]);
+
+    // Persists a new item and adds the stored copy (with media references) to the list.
+    const recordHistory = useCallback(async (item: HistoryItem) => {
         try {
-            const savedHistory = localStorage.getItem('generationHistory');
-            if (savedHistory) {
-                setHistory(JSON.parse(savedHistory));
-            }
+            const stored = await addHistoryItem({ ...item, ...getRevisions(item) });
+            setHistory(prev => [stored, ...prev]);
         } catch (e) {
-            console.error("Failed to load history from localStorage:", e);
+            console.error("Failed to save history to IndexedDB:", e);
         }
     }, []);
 
+    // Applies a change to the latest copy of a history item and persists it.
+    const reviseHistoryItem = useCallback((id: string | null, revise: (item: HistoryItem) => HistoryItem): HistoryItem | null => {
+        const item = historyRef.current.find(i => i.id === id);
+        if (!item) return null;
+        const updated = revise(item);
+        setHistory(prev => prev.map(i => i.id === updated.id ? updated : i));
+        updateHistoryItem(updated).catch(e => console.error("Failed to update history item in IndexedDB:", e));
+        return updated;
+    }, []);
+
     useEffect(() => {
-        try {
-            localStorage.setItem('generationHistory', JSON.stringify(history));
-        } catch (e) {
-            console.error("Failed to save history to localStorage:", e);
+        saveCustomPersonas(customPersonas);
+        // Fall back to the default persona if the selected custom persona was deleted.
+        if (isCustomPersonaId(persona) && !customPersonas.some(p => p.id === persona)) {
+            setPersona(Persona.GanapathiKakarla);
         }
-    }, [history]);
+    }, [customPersonas, persona]);
+
+    useEffect(() => {
+        saveBrandKits(brandKits);
+    }, [brandKits]);
+
+    useEffect(() => {
+        saveProspects(prospects);
+    }, [prospects]);
+
+    useEffect(() => {
+        saveActiveBrandKitId(activeBrandKit.id);
+    }, [activeBrandKit.id]);
+
+    useEffect(() => {
+        activeVideoJobIdRef.current = activeVideoJobId;
+    }, [activeVideoJobId]);
+
+    useEffect(() => {
+        const unsubscribe = videoJobManager.subscribe(setVideoJobs);
+        videoJobManager.onComplete((job, result) => {
+            const newHistoryItem: HistoryItem = {
+                id: crypto.randomUUID(),
+                timestamp: Date.now(),
+                options: job.options,
+                result,
+            };
+            recordHistory(newHistoryItem);
+            if (activeVideoJobIdRef.current === job.id) {
+                setGenerationResult(result);
+                setActiveHistoryId(newHistoryItem.id);
+            }
+        });
+        // Pick up any job that was still rendering when the page was last closed.
+        videoJobManager.resumeUnfinished();
+
+        return () => {
+            unsubscribe();
+            videoJobManager.onComplete(null);
+        };
+    }, [recordHistory]);
 
     useEffect(() => {
         // Clear company when switching away from career types
          const isCareerType = [
             GenerationType.InterviewQuestions,
             GenerationType.CvEnhancement,
-            GenerationType.ResumeTailoring
+            GenerationType.ResumeTailoring,
+            ...outreachGenerationTypes
         ].includes(generationType);
 
         if (!isCareerType) {
@@ -72,13 +192,19 @@ const App: React.FC = () => {
     }, [generationType]);
 
     const handleGenerate = useCallback(async (overrideOptions?: Partial<GenerationOptions>) => {
-        const finalTopic = overrideOptions?.topic ?? topic;
+        const effectiveType = overrideOptions?.type ?? generationType;
+        const hasSource = isSourceGenerationType(effectiveType) && !!sourceMaterial?.text.trim();
+        // With source material the topic is optional; the source's title stands in for it.
+        const finalTopic = overrideOptions?.topic ?? (topic.trim() || (hasSource ? sourceMaterial!.title.trim() || 'the source material' : ''));
         if (!finalTopic.trim()) return;
 
         setIsLoading(true);
         setError(null);
         setGenerationResult(null);
+        setActiveVideoJobId(null);
+        setActiveHistoryId(null);
 
+        const isResumeType = generationType === GenerationType.CvEnhancement || generationType === GenerationType.ResumeTailoring;
         const options: GenerationOptions = {
             type: generationType,
             topic: topic,
@@ -86,6 +212,7 @@ const App: React.FC = () => {
             postLength,
             persona,
             tone,
+            language,
             difficultyLevel,
             company,
             dayNumber,
@@ -96,13 +223,53 @@ const App: React.FC = () => {
             logoImage,
             imageAspectRatio,
             textOverlay,
+            slideCount,
+            carouselTemplate,
+            carouselSize,
+            variantMode,
+            variantCount,
+            resume: isResumeType && resumeInput.resumeText.trim() ? resumeInput : undefined,
+            interviewMode: generationType === GenerationType.InterviewQuestions ? interviewMode : undefined,
             ...overrideOptions,
         };
         // Ensure the topic used for the actual generation call is the final, effective topic
         options.topic = finalTopic;
 
         try {
-            const result = await generateContent(options);
+            if (hasSource) {
+                options.source = prepareSource(sourceMaterial!);
+            }
+            if (options.type === GenerationType.Video) {
+                // The history item is added by the job manager once the video is ready.
+                const job = await videoJobManager.start(options);
+                activeVideoJobIdRef.current = job.id;
+                setActiveVideoJobId(job.id);
+                return;
+            }
+
+            let result: GenerationResult;
+            if (supportsStreaming(options)) {
+                const controller = new AbortController();
+                streamAbortRef.current = controller;
+                setIsStreaming(true);
+                result = await generateContentStream(options, text => setGenerationResult({ text }), controller.signal);
+            } else {
+                result = await generateContent(options);
+            }
+
+            // A mock interview has only asked its first question; it's saved once it ends.
+            if (result.interview) {
+                interviewOptionsRef.current = options;
+                setGenerationResult(result);
+                return;
+            }
+
+            // A stream stopped before any text arrived leaves nothing worth keeping.
+            if (!result.text) {
+                setGenerationResult(null);
+                return;
+            }
+
             setGenerationResult(result);
             const newHistoryItem: HistoryItem = {
                 id: crypto.randomUUID(),
@@ -110,7 +277,8 @@ const App: React.FC = () => {
                 options,
                 result,
             };
-            setHistory(prev => [newHistoryItem, ...prev]);
+            recordHistory(newHistoryItem);
+            setActiveHistoryId(newHistoryItem.id);
         } catch (e: unknown) {
             if (e instanceof Error) {
                 setError(e.message);
@@ -118,13 +286,20 @@ const App: React.FC = () => {
                 setError('An unknown error occurred.');
             }
         } finally {
+            streamAbortRef.current = null;
+            setIsStreaming(false);
             setIsLoading(false);
         }
     }, [
-        generationType, topic, pageCount, postLength, persona, tone, difficultyLevel, 
-        company, dayNumber, videoQuality, pdfExportQuality, imageBackgroundColor, imageStyle, logoImage, imageAspectRatio, textOverlay
+        generationType, topic, pageCount, postLength, persona, tone, language, difficultyLevel, 
+        company, dayNumber, videoQuality, pdfExportQuality, imageBackgroundColor, imageStyle, logoImage, imageAspectRatio, textOverlay,
+        slideCount, carouselTemplate, carouselSize, variantMode, variantCount, resumeInput, sourceMaterial, interviewMode, recordHistory
     ]);
     
+    const handleStopGeneration = useCallback(() => {
+        streamAbortRef.current?.abort();
+    }, []);
+
     const handleFollowUpAction = useCallback(async (newType: GenerationType) => {
         if (!topic.trim()) return;
 
@@ -146,6 +321,7 @@ const App: React.FC = () => {
 
     const handleHumanify = useCallback(async () => {
         if (!generationResult?.text) return;
+        const historyId = activeHistoryId;
 
         setIsLoading(true);
         setError(null);
@@ -156,6 +332,7 @@ const App: React.FC = () => {
                 ...(prevResult as GenerationResult),
                 text: humanified,
             }));
+            reviseHistoryItem(historyId, item => addRevision(item, 'humanified', humanified));
         } catch (e: unknown) {
             if (e instanceof Error) {
                 setError(e.message);
@@ -166,9 +343,284 @@ const App: React.FC = () => {
             setIsLoading(false);
         }
 
-    }, [generationResult, persona]);
+    }, [generationResult, persona, activeHistoryId, reviseHistoryItem]);
 
-     const handleLoadFromHistory = (item: HistoryItem) => {
+    // Translating also switches the item's language, so regenerating it stays in the new language.
+    const handleTranslate = useCallback(async (targetLanguage: ContentLanguage) => {
+        if (!generationResult?.text) return;
+        const historyId = activeHistoryId;
+        // The output is translated in the voice and to the limits it was generated with, whatever the controls say now.
+        const options = historyRef.current.find(item => item.id === historyId)?.options;
+
+        setIsLoading(true);
+        setError(null);
+
+        try {
+            const translated = await translateContent(generationResult.text, targetLanguage, options?.persona ?? persona, options?.type ?? generationType);
+            setGenerationResult(prevResult => prevResult ? { ...prevResult, text: translated } : prevResult);
+            reviseHistoryItem(historyId, item => addRevision({ ...item, options: { ...item.options, language: targetLanguage } }, 'translated', translated));
+        } catch (e: unknown) {
+            if (e instanceof Error) {
+                setError(e.message);
+            } else {
+                setError('An unknown error occurred while translating the text.');
+            }
+        } finally {
+            setIsLoading(false);
+        }
+    }, [generationResult, persona, generationType, activeHistoryId, reviseHistoryItem]);
+
+    // Generates the shown content again with its original options, as a new revision of the same item.
+    const handleRegenerate = useCallback(async () => {
+        const historyId = activeHistoryId;
+        const storedItem = historyRef.current.find(item => item.id === historyId);
+        if (!storedItem) return;
+
+        setIsLoading(true);
+        setError(null);
+
+        try {
+            const { options } = await resolveHistoryMedia(storedItem);
+            const { text, carouselSlides, sources, retrievedSnippets, variants, contentPlan, resumeAnalysis, companyProspects, faithfulness } = await generateContent(options);
+            setGenerationResult(prevResult => ({
+                ...(prevResult as GenerationResult),
+                text,
+                carouselSlides,
+                sources,
+                retrievedSnippets,
+                variants,
+                contentPlan,
+                resumeAnalysis,
+                companyProspects,
+                faithfulness,
+            }));
+            reviseHistoryItem(historyId, item => addRevision(
+                { ...item, result: { ...item.result, sources, retrievedSnippets, variants, contentPlan, resumeAnalysis, companyProspects, faithfulness } },
+                'regenerated',
+                text,
+                carouselSlides
+            ));
+        } catch (e: unknown) {
+            if (e instanceof Error) {
+                setError(e.message);
+            } else {
+                setError('An unknown error occurred while regenerating the content.');
+            }
+        } finally {
+            setIsLoading(false);
+        }
+    }, [activeHistoryId, reviseHistoryItem]);
+
+    const handleSaveEdit = (text: string) => {
+        setGenerationResult(prevResult => prevResult ? { ...prevResult, text } : prevResult);
+        reviseHistoryItem(activeHistoryId, item => addRevision(item, 'edited', text));
+    };
+
+    const handleInlineEdit = (text: string, range: TextRange, action: InlineEditAction, tone?: Tone) => {
+        return editSelection(text, range, action, persona, tone);
+    };
+
+    const handleApplyInlineEdit = (text: string) => {
+        setGenerationResult(prevResult => prevResult ? { ...prevResult, text } : prevResult);
+        reviseHistoryItem(activeHistoryId, item => addRevision(item, 'inlineEdit', text));
+    };
+
+    // Generates days of a weekly plan one after another, each saved as its own history item.
+    const handleGeneratePlanDays = useCallback(async (planItemId: string, days: number[]) => {
+        const planItem = historyRef.current.find(item => item.id === planItemId);
+        const plan = planItem?.result.contentPlan;
+        if (!planItem || !plan) return;
+
+        const setRun = (day: number, run: PlanDayRun) => {
+            setPlanRuns(prev => ({ ...prev, [planItemId]: { ...prev[planItemId], [day]: run } }));
+        };
+        days.forEach(day => setRun(day, { status: 'queued', attempts: 0 }));
+
+        for (const dayNumber of days) {
+            const day = plan.find(d => d.day === dayNumber);
+            if (!day) continue;
+            for (let attempt = 1; attempt <= MAX_PLAN_DAY_ATTEMPTS; attempt++) {
+                setRun(dayNumber, { status: 'running', attempts: attempt });
+                try {
+                    const { options: planOptions } = await resolveHistoryMedia(planItem);
+                    const options = createPlanDayOptions(planOptions, plan, day);
+                    const result = await generateContent(options);
+                    // A day already on the calendar keeps its slot; the new post takes it over from the previous one.
+                    const previous = historyRef.current.find(item => item.sourceItemId === planItemId && item.options.planDay?.day.day === dayNumber);
+                    const plannedDay = historyRef.current.find(item => item.id === planItemId)?.result.contentPlan?.find(d => d.day === dayNumber);
+                    const schedule = previous?.schedule ?? plannedDay?.schedule;
+                    await recordHistory({ id: crypto.randomUUID(), timestamp: Date.now(), options, result, sourceItemId: planItemId, schedule });
+                    if (previous?.schedule) reviseHistoryItem(previous.id, item => ({ ...item, schedule: undefined }));
+                    setRun(dayNumber, { status: 'done', attempts: attempt });
+                    break;
+                } catch (e: unknown) {
+                    if (attempt === MAX_PLAN_DAY_ATTEMPTS) {
+                        const message = e instanceof Error ? e.message : 'An unknown error occurred.';
+                        setRun(dayNumber, { status: 'failed', attempts: attempt, error: message });
+                    }
+                }
+            }
+        }
+    }, [recordHistory, reviseHistoryItem]);
+
+    // Derives assets from a document one format after another, each saved as its own history item
+    // linked back to the document. Posts are planned as a set of distinct angles first.
+    const handleRepurpose = useCallback(async (sourceItemId: string, formats: RepurposeFormat[], postCount: number) => {
+        const sourceItem = historyRef.current.find(item => item.id === sourceItemId);
+        const sourceText = sourceItem?.result.text;
+        if (!sourceItem || !sourceText) return;
+
+        const setRun = (format: RepurposeFormat, run: RepurposeRun) => {
+            setRepurposeRuns(prev => ({ ...prev, [sourceItemId]: { ...prev[sourceItemId], [format]: run } }));
+        };
+        formats.forEach(format => setRun(format, { status: 'queued', attempts: 0 }));
+
+        // The most attempts any step of each format has needed so far.
+        const attempts: Partial<Record<RepurposeFormat, number>> = {};
+
+        // Runs one step of a format, retrying it before giving up on the whole format.
+        const runWithRetry = async <T,>(format: RepurposeFormat, step: () => Promise<T>): Promise<T> => {
+            for (let attempt = 1; ; attempt++) {
+                attempts[format] = Math.max(attempts[format] ?? 0, attempt);
+                setRun(format, { status: 'running', attempts: attempt });
+                try {
+                    return await step();
+                } catch (e: unknown) {
+                    if (attempt === MAX_REPURPOSE_ATTEMPTS) throw e;
+                }
+            }
+        };
+        const generateAsset = async (format: RepurposeFormat, options: GenerationOptions) => {
+            const result = await runWithRetry(format, () => generateContent(options));
+            await recordHistory({ id: crypto.randomUUID(), timestamp: Date.now(), options, result, sourceItemId });
+        };
+
+        for (const format of formats) {
+            try {
+                const { options: sourceOptions } = await resolveHistoryMedia(sourceItem);
+                if (format === 'post') {
+                    const angles = await runWithRetry(format, () => planRepurposeAngles(sourceText, postCount, sourceOptions.language));
+                    for (const angle of angles) {
+                        const otherAngles = angles.filter(other => other !== angle);
+                        await generateAsset(format, createRepurposeOptions(sourceOptions, sourceText, format, angle, otherAngles));
+                    }
+                } else {
+                    await generateAsset(format, createRepurposeOptions(sourceOptions, sourceText, format));
+                }
+                setRun(format, { status: 'done', attempts: attempts[format] ?? 1 });
+            } catch (e: unknown) {
+                // Mark the format as failed and move on to the next one.
+                const message = e instanceof Error ? e.message : 'An unknown error occurred.';
+                setRun(format, { status: 'failed', attempts: attempts[format] ?? 0, error: message });
+                console.error(`Failed to repurpose the document as ${format}:`, e);
+            }
+        }
+    }, [recordHistory]);
+
+    // Calendar changes go to the same history store the History tab reads. Plan days that
+    // aren't generated yet keep their slot on the plan item.
+    const handleScheduleEntry = (source: CalendarEntrySource, schedule: ScheduleSlot | undefined) => {
+        if (source.kind === 'item') {
+            reviseHistoryItem(source.itemId, item => ({ ...item, schedule }));
+            return;
+        }
+        reviseHistoryItem(source.planItemId, item => ({
+            ...item,
+            result: {
+                ...item.result,
+                contentPlan: item.result.contentPlan?.map(day => day.day === source.day ? { ...day, schedule } : day),
+            },
+        }));
+    };
+
+    // The picked (or merged) text becomes a revision; the other variants stay on the item for later.
+    const handlePickVariant = (text: string, variantId: string | null) => {
+        const pendingVariants = generationResult?.variants ?? [];
+        setGenerationResult(prevResult => prevResult ? { ...prevResult, text, variants: undefined } : prevResult);
+        reviseHistoryItem(activeHistoryId, item => {
+            const revised = addRevision(item, 'variant', text);
+            const candidates = [...(item.variants ?? []), ...pendingVariants];
+            return {
+                ...revised,
+                result: { ...revised.result, variants: undefined },
+                variants: candidates.filter((v, index) => v.id !== variantId && candidates.findIndex(c => c.id === v.id) === index),
+            };
+        });
+    };
+
+    // Errors are left to the caller, which shows them next to the trim button.
+    const handleTrimToLimit = async (maxChars: number) => {
+        if (!generationResult?.text) return;
+        const historyId = activeHistoryId;
+        const trimmed = await trimToLength(generationResult.text, maxChars, persona);
+        setGenerationResult(prevResult => prevResult ? { ...prevResult, text: trimmed } : prevResult);
+        reviseHistoryItem(historyId, item => addRevision(item, 'trimmed', trimmed));
+    };
+
+    // Checks the content on show against the source it was generated from. Errors are left to the caller.
+    const handleCheckFaithfulness = async () => {
+        const historyId = activeHistoryId;
+        const storedItem = historyRef.current.find(item => item.id === historyId);
+        const source = storedItem?.options.source;
+        if (!generationResult?.text || !source) return;
+        const faithfulness = await checkFaithfulness(generationResult.text, source, storedItem.options.language);
+        setGenerationResult(prevResult => prevResult ? { ...prevResult, faithfulness } : prevResult);
+        reviseHistoryItem(historyId, item => ({ ...item, result: { ...item.result, faithfulness } }));
+    };
+
+    // Writes the report of a mock interview and saves the session to history.
+    const finishInterview = async (options: GenerationOptions, session: InterviewSession) => {
+        const ended: InterviewSession = { ...session, endedAt: Date.now() };
+        const report = await summarizeInterview(options, ended);
+        const result: GenerationResult = { text: report, interview: ended };
+        interviewOptionsRef.current = null;
+        setGenerationResult(result);
+        const newHistoryItem: HistoryItem = {
+            id: crypto.randomUUID(),
+            timestamp: Date.now(),
+            options,
+            result,
+        };
+        recordHistory(newHistoryItem);
+        setActiveHistoryId(newHistoryItem.id);
+    };
+
+    // Errors are left to the caller, which shows them in the interview chat.
+    const handleAnswerInterview = async (answer: string) => {
+        const options = interviewOptionsRef.current;
+        const session = generationResult?.interview;
+        if (!options || !session) return;
+        const updated = await answerInterviewQuestion(options, session, answer);
+        setGenerationResult(prevResult => prevResult ? { ...prevResult, interview: updated } : prevResult);
+        if (!getOpenTurn(updated)) {
+            await finishInterview(options, updated);
+        }
+    };
+
+    const handleEndInterview = async () => {
+        const options = interviewOptionsRef.current;
+        const session = generationResult?.interview;
+        if (!options || !session) return;
+        await finishInterview(options, session);
+    };
+
+    const handleRestoreRevision = (revisionId: string) => {
+        const updated = reviseHistoryItem(activeHistoryId, item => restoreRevision(item, revisionId));
+        if (updated) {
+            setGenerationResult(prevResult => prevResult
+                ? { ...prevResult, text: updated.result.text, carouselSlides: updated.result.carouselSlides }
+                : prevResult);
+        }
+    };
+
+     // `tab` is where the user lands once the item has loaded; the calendar opens items alongside history.
+     const handleLoadFromHistory = async (storedItem: HistoryItem, tab: typeof activeTab = 'controls') => {
+        let item = storedItem;
+        try {
+            item = await resolveHistoryMedia(storedItem);
+        } catch (e) {
+            console.error("Failed to load history media from IndexedDB:", e);
+        }
         const defaultTextOverlay: TextOverlayOptions = {
             text: '', fontFamily: 'Inter', fontSize: 48, color: '#FFFFFF', placement: 'center'
         };
@@ -189,27 +641,84 @@ const App: React.FC = () => {
         setImageAspectRatio(item.options.imageAspectRatio || ImageAspectRatio.Square);
         setLogoImage(item.options.logoImage);
         setTextOverlay(item.options.textOverlay || defaultTextOverlay);
+        setSlideCount(item.options.slideCount || 6);
+        setCarouselTemplate(item.options.carouselTemplate || CarouselTemplate.Bold);
+        setCarouselSize(item.options.carouselSize || CarouselSize.Portrait);
+        setVariantMode(item.options.variantMode || VariantMode.Off);
+        setVariantCount(item.options.variantCount || 3);
+        setInterviewMode(item.options.interviewMode || InterviewMode.QuestionList);
+        setLanguage(item.options.language || ContentLanguage.English);
+        // Keep the current resume when opening something that wasn't generated from one.
+        if (item.options.resume) setResumeInput(item.options.resume);
+        if (item.options.source) setSourceMaterial(item.options.source);
         setGenerationResult(item.result);
+        setActiveHistoryId(item.id);
+        setActiveVideoJobId(null);
         setError(null);
+        setActiveTab(tab);
+    };
+
+    // Companies already on the board are left as they are.
+    const handleSaveProspect = (company: CompanySuggestion & { reason?: string }, targetRole: string) => {
+        setProspects(prev => findProspect(prev, company.name)
+            ? prev
+            : [createProspect({ company: company.name, industry: company.industry, reason: company.reason, targetRole }), ...prev]);
+    };
+
+    // Fills in the controls for a generation for the prospect's company; the user reviews them and generates.
+    const handlePrepareForProspect = (type: GenerationType, prospect: Prospect) => {
+        setGenerationType(type);
+        setCompany(prospect.company);
+        if (prospect.targetRole.trim()) setTopic(prospect.targetRole);
         setActiveTab('controls');
+        window.scrollTo({ top: 0, behavior: 'smooth' });
+    };
+
+    const handleDismissVideoJob = (id: string) => {
+        videoJobManager.dismiss(id);
+        setActiveVideoJobId(null);
     };
 
     const handleDeleteFromHistory = (id: string) => {
         setHistory(prev => prev.filter(item => item.id !== id));
+        deleteHistoryItem(id).catch(e => console.error("Failed to delete history item from IndexedDB:", e));
+    };
+
+    const handleUpdateHistoryItem = (updated: HistoryItem) => {
+        setHistory(prev => prev.map(item => item.id === updated.id ? updated : item));
+        updateHistoryItem(updated).catch(e => console.error("Failed to update history item in IndexedDB:", e));
     };
 
     const handleClearHistory = () => {
         if (window.confirm("Are you sure you want to delete all history? This action cannot be undone.")) {
             setHistory([]);
+            clearHistory().catch(e => console.error("Failed to clear history from IndexedDB:", e));
         }
     };
     
+    const activeHistoryItem = history.find(item => item.id === activeHistoryId);
+    const activeRevisions = activeHistoryItem ? getRevisions(activeHistoryItem) : null;
+    const activePlanDayItems = activeHistoryItem?.result.contentPlan ? history.filter(item => item.sourceItemId === activeHistoryItem.id) : undefined;
+    // A generated document can be repurposed; what was derived from one links back to it.
+    const activeRepurposedItems = activeHistoryItem?.options.type === GenerationType.Document && !activeHistoryItem.options.repurpose
+        ? groupRepurposedItems(activeHistoryItem.id, history)
+        : undefined;
+    const activeRepurposeContext = activeHistoryItem?.options.repurpose;
+    const activeRepurposedFrom = activeRepurposeContext
+        ? { title: activeRepurposeContext.sourceTitle, item: history.find(item => item.id === activeHistoryItem?.sourceItemId) }
+        : undefined;
+
     return (
         <div className="min-h-screen bg-gray-900 text-white font-sans">
-            <Header />
-            <main className="pt-24 pb-8 container mx-auto px-4">
+            <Header
+                brandKits={brandKits}
+                activeBrandKit={activeBrandKit}
+                onSelectBrandKit={setActiveBrandKitId}
+                onManageBrandKits={() => setIsBrandKitModalOpen(true)}
+            />
+            <main className="pt-32 md:pt-24 pb-8 container mx-auto px-4">
                 <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
-                    <div className="lg:col-span-1">
+                    <div className={activeTab === 'calendar' || activeTab === 'prospects' ? 'lg:col-span-3' : 'lg:col-span-1'}>
                         <div className="flex mb-4 border-b border-gray-700">
                             <button
                                 onClick={() => setActiveTab('controls')}
@@ -223,6 +732,24 @@ const App: React.FC = () => {
                             >
                                 History ({history.length})
                             </button>
+                            <button
+                                onClick={() => setActiveTab('knowledge')}
+                                className={`px-4 py-2 text-sm font-semibold transition-colors duration-200 ${activeTab === 'knowledge' ? 'border-b-2 border-blue-500 text-white' : 'text-gray-400 hover:text-white'}`}
+                            >
+                                Knowledge Base
+                            </button>
+                            <button
+                                onClick={() => setActiveTab('calendar')}
+                                className={`px-4 py-2 text-sm font-semibold transition-colors duration-200 ${activeTab === 'calendar' ? 'border-b-2 border-blue-500 text-white' : 'text-gray-400 hover:text-white'}`}
+                            >
+                                Calendar
+                            </button>
+                            <button
+                                onClick={() => setActiveTab('prospects')}
+                                className={`px-4 py-2 text-sm font-semibold transition-colors duration-200 ${activeTab === 'prospects' ? 'border-b-2 border-blue-500 text-white' : 'text-gray-400 hover:text-white'}`}
+                            >
+                                Prospects
+                            </button>
                         </div>
 
                          {activeTab === 'controls' ? (
@@ -237,6 +764,8 @@ const App: React.FC = () => {
                                 setPostLength={setPostLength}
                                 persona={persona}
                                 setPersona={setPersona}
+                                customPersonas={customPersonas}
+                                onManagePersonas={() => setIsPersonaEditorOpen(true)}
                                 tone={tone}
                                 setTone={setTone}
                                 difficultyLevel={difficultyLevel}
@@ -261,32 +790,126 @@ const App: React.FC = () => {
                                 setImageAspectRatio={setImageAspectRatio}
                                 textOverlay={textOverlay}
                                 setTextOverlay={setTextOverlay}
+                                slideCount={slideCount}
+                                setSlideCount={setSlideCount}
+                                carouselTemplate={carouselTemplate}
+                                setCarouselTemplate={setCarouselTemplate}
+                                carouselSize={carouselSize}
+                                setCarouselSize={setCarouselSize}
+                                variantMode={variantMode}
+                                setVariantMode={setVariantMode}
+                                variantCount={variantCount}
+                                setVariantCount={setVariantCount}
+                                resumeInput={resumeInput}
+                                setResumeInput={setResumeInput}
+                                sourceMaterial={sourceMaterial}
+                                setSourceMaterial={setSourceMaterial}
+                                interviewMode={interviewMode}
+                                setInterviewMode={setInterviewMode}
+                                prospects={prospects}
+                                onSaveProspect={(suggestion) => handleSaveProspect(suggestion, topic)}
+                                language={language}
+                                setLanguage={setLanguage}
                             />
-                        ) : (
+                        ) : activeTab === 'history' ? (
                             <HistoryPanel
                                 history={history}
                                 onLoad={handleLoadFromHistory}
                                 onDelete={handleDeleteFromHistory}
+                                onUpdate={handleUpdateHistoryItem}
                                 onClear={handleClearHistory}
                             />
+                        ) : activeTab === 'knowledge' ? (
+                            <KnowledgeBasePanel />
+                        ) : activeTab === 'prospects' ? (
+                            <div className="h-[calc(100vh-12rem)] min-h-[36rem]">
+                                <ProspectBoard
+                                    prospects={prospects}
+                                    onProspectsChange={setProspects}
+                                    history={history}
+                                    onOpenItem={handleLoadFromHistory}
+                                    onPrepare={handlePrepareForProspect}
+                                />
+                            </div>
+                        ) : (
+                            <div className="h-[calc(100vh-12rem)] min-h-[36rem]">
+                                <ContentCalendar
+                                    history={history}
+                                    onSchedule={handleScheduleEntry}
+                                    onOpenItem={(item) => handleLoadFromHistory(item, 'history')}
+                                />
+                            </div>
                         )}
                     </div>
-                    <div className="lg:col-span-2 h-[calc(100vh-8rem)]">
+                    <div className={`lg:col-span-2 h-[calc(100vh-8rem)] ${activeTab === 'calendar' || activeTab === 'prospects' ? 'hidden' : ''}`}>
                        <OutputDisplay
                             result={generationResult}
                             isLoading={isLoading}
+                            isStreaming={isStreaming}
+                            onStop={handleStopGeneration}
+                            videoJob={videoJobs.find(job => job.id === activeVideoJobId) ?? null}
+                            onCancelVideoJob={(id) => videoJobManager.cancel(id)}
+                            onDismissVideoJob={handleDismissVideoJob}
                             error={error}
                             topic={topic}
                             onHumanify={handleHumanify}
+                            onTranslate={handleTranslate}
+                            language={activeHistoryItem?.options.language ?? language}
+                            onRegenerate={handleRegenerate}
+                            onSaveEdit={handleSaveEdit}
+                            revisions={activeRevisions?.revisions}
+                            currentRevisionId={activeRevisions?.currentRevisionId}
+                            onRestoreRevision={handleRestoreRevision}
+                            onInlineEdit={handleInlineEdit}
+                            onApplyInlineEdit={handleApplyInlineEdit}
+                            onTrimToLimit={handleTrimToLimit}
+                            onPickVariant={handlePickVariant}
+                            storedVariants={activeHistoryItem?.variants}
+                            planDayItems={activePlanDayItems}
+                            resumeInput={activeHistoryItem?.options.resume}
+                            sourceMaterial={activeHistoryItem?.options.source}
+                            onCheckFaithfulness={handleCheckFaithfulness}
+                            company={company}
+                            onAnswerInterview={handleAnswerInterview}
+                            onEndInterview={handleEndInterview}
+                            prospects={prospects}
+                            onSaveProspect={(company) => handleSaveProspect(company, activeHistoryItem?.options.topic ?? topic)}
+                            planRuns={activeHistoryId ? planRuns[activeHistoryId] : undefined}
+                            onGeneratePlanDays={(days) => activeHistoryId && handleGeneratePlanDays(activeHistoryId, days)}
+                            onOpenHistoryItem={handleLoadFromHistory}
+                            repurposedItems={activeRepurposedItems}
+                            repurposeRuns={activeHistoryId ? repurposeRuns[activeHistoryId] : undefined}
+                            onRepurpose={(formats, postCount) => activeHistoryId && handleRepurpose(activeHistoryId, formats, postCount)}
+                            repurposedFrom={activeRepurposedFrom}
                             onFollowUp={handleFollowUpAction}
                             generationType={generationType}
+                            authorName={getPersonaDisplayName(persona)}
+                            imageAspectRatio={imageAspectRatio}
                             pdfExportQuality={pdfExportQuality}
                             textOverlay={textOverlay}
                             onIdeaClick={handleIdeaClick}
+                            voiceFingerprint={customPersonas.find(p => p.id === persona)?.voiceFingerprint}
+                            carouselTemplate={carouselTemplate}
+                            carouselSize={carouselSize}
+                            brandKit={activeBrandKit}
                         />
                     </div>
                 </div>
             </main>
+            <PersonaEditorModal
+                isOpen={isPersonaEditorOpen}
+                onClose={() => setIsPersonaEditorOpen(false)}
+                personas={customPersonas}
+                onPersonasChange={setCustomPersonas}
+            />
+            <BrandKitModal
+                isOpen={isBrandKitModalOpen}
+                onClose={() => setIsBrandKitModalOpen(false)}
+                brandKits={brandKits}
+                onBrandKitsChange={setBrandKits}
+                activeBrandKitId={activeBrandKit.id}
+                onActivate={setActiveBrandKitId}
+            />
         </div>
     );
 };
@@ -0,0 +1,96 @@
+import React, { useMemo } from 'react';
+import { scoreResumeAgainstJob, AtsTerm } from '../services/atsScore';
+
+interface AtsScorePanelProps {
+    resumeText: string;
+    jobDescription: string;
+    // When given, the score is shown next to this earlier version's, e.g. the resume before tailoring.
+    baselineText?: string;
+    compact?: boolean;
+}
+
+const scoreColor = (score: number): string => (score >= 75 ? 'text-green-400' : score >= 50 ? 'text-yellow-400' : 'text-red-400');
+const barColor = (score: number): string => (score >= 75 ? 'bg-green-500' : score >= 50 ? 'bg-yellow-500' : 'bg-red-500');
+
+const TermList: React.FC<{ title: string; terms: AtsTerm[]; chipClass: string; count: (term: AtsTerm) => string; empty: string }> = ({ title, terms, chipClass, count, empty }) => (
+    <div>
+        <h5 className="text-xs font-semibold text-gray-400 mb-1">{title} ({terms.length})</h5>
+        {terms.length === 0 ? (
+            <p className="text-xs text-gray-500">{empty}</p>
+        ) : (
+            <div className="flex flex-wrap gap-1">
+                {terms.map(term => (
+                    <span key={term.term} className={`px-2 py-0.5 text-xs rounded-full ${chipClass}`}>
+                        {term.term} <span className="opacity-60">{count(term)}</span>
+                    </span>
+                ))}
+            </div>
+        )}
+    </div>
+);
+
+/**
+ * Deterministic ATS-style match between a resume and a job description, recalculated on
+ * every change: the score, and which keywords are matched, missing or over-used.
+ */
+const AtsScorePanel: React.FC<AtsScorePanelProps> = ({ resumeText, jobDescription, baselineText, compact = false }) => {
+    const report = useMemo(() => scoreResumeAgainstJob(resumeText, jobDescription), [resumeText, jobDescription]);
+    const baseline = useMemo(
+        () => (baselineText !== undefined ? scoreResumeAgainstJob(baselineText, jobDescription) : null),
+        [baselineText, jobDescription]
+    );
+
+    if (!jobDescription.trim()) {
+        return <p className="text-xs text-gray-500">Add a job description to see the ATS match score.</p>;
+    }
+
+    return (
+        <div className={`not-prose bg-gray-900/60 rounded-lg border border-gray-700 ${compact ? 'p-3 space-y-2' : 'p-4 space-y-3'}`}>
+            <div className="flex items-center justify-between gap-3">
+                <div>
+                    <h4 className="text-sm font-semibold text-gray-200">ATS Match</h4>
+                    <p className="text-xs text-gray-500">
+                        {report.matched.length} of {report.matched.length + report.missing.length} job description keywords found, weighted by how often the posting uses them.
+                    </p>
+                </div>
+                <div className="text-right flex-shrink-0">
+                    <span className={`text-2xl font-bold ${scoreColor(report.score)}`}>{report.score}</span>
+                    <span className="text-sm text-gray-500">/100</span>
+                    {baseline && baseline.score !== report.score && (
+                        <p className="text-xs text-gray-500">was {baseline.score}</p>
+                    )}
+                </div>
+            </div>
+            <div className="h-1.5 bg-gray-700 rounded-full overflow-hidden">
+                <div className={`h-full transition-all ${barColor(report.score)}`} style={{ width: `${report.score}%` }} />
+            </div>
+            <TermList
+                title="Missing"
+                terms={report.missing}
+                chipClass="text-red-200 bg-red-900/50"
+                count={term => `×${term.weight} in JD`}
+                empty="Every keyword is covered."
+            />
+            {!compact && (
+                <TermList
+                    title="Matched"
+                    terms={report.matched}
+                    chipClass="text-green-200 bg-green-900/50"
+                    count={term => `×${term.resumeCount}`}
+                    empty="No keywords matched yet."
+                />
+            )}
+            {report.overused.length > 0 && (
+                <TermList
+                    title="Over-used"
+                    terms={report.overused}
+                    chipClass="text-yellow-200 bg-yellow-900/40"
+                    count={term => `×${term.resumeCount}`}
+                    empty=""
+                />
+            )}
+        </div>
+    );
+};
+
+export default AtsScorePanel;
@@ -0,0 +1,296 @@
+import React, { useState, useEffect } from 'react';
+import { BrandKit, TextOverlayFont } from '../types';
+import { createBrandKit, readBrandImage, brandFontStacks } from '../services/brandKitStore';
+
+interface BrandKitModalProps {
+    isOpen: boolean;
+    onClose: () => void;
+    brandKits: BrandKit[];
+    onBrandKitsChange: (kits: BrandKit[]) => void;
+    activeBrandKitId: string;
+    onActivate: (id: string) => void;
+}
+
+type BrandKitDraft = Omit<BrandKit, 'id' | 'createdAt' | 'updatedAt'>;
+
+const toDraft = ({ id, createdAt, updatedAt, ...fields }: BrandKit): BrandKitDraft => fields;
+
+const brandFonts = Object.keys(brandFontStacks) as TextOverlayFont[];
+
+const inputClass = "w-full bg-gray-900 text-gray-200 rounded-lg border border-gray-600 px-3 py-2 text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none";
+
+const BrandKitModal: React.FC<BrandKitModalProps> = ({ isOpen, onClose, brandKits, onBrandKitsChange, activeBrandKitId, onActivate }) => {
+    const [selectedId, setSelectedId] = useState<string | null>(null);
+    const [draft, setDraft] = useState<BrandKitDraft | null>(null);
+    const [error, setError] = useState<string | null>(null);
+
+    useEffect(() => {
+        if (isOpen) {
+            const initial = brandKits.find(kit => kit.id === activeBrandKitId) ?? brandKits[0];
+            setSelectedId(initial?.id ?? null);
+            setDraft(initial ? toDraft(initial) : null);
+            setError(null);
+        }
+        // Only reset the selection when the modal opens.
+    }, [isOpen]);
+
+    // Prevent body scroll when modal is open
+    useEffect(() => {
+        if (isOpen) {
+            document.body.style.overflow = 'hidden';
+        } else {
+            document.body.style.overflow = 'auto';
+        }
+        return () => { document.body.style.overflow = 'auto' };
+    }, [isOpen]);
+
+    if (!isOpen) return null;
+
+    const selectKit = (kit: BrandKit) => {
+        setSelectedId(kit.id);
+        setDraft(toDraft(kit));
+        setError(null);
+    };
+
+    const addKit = (kit: BrandKit) => {
+        onBrandKitsChange([...brandKits, kit]);
+        selectKit(kit);
+    };
+
+    const handleDuplicate = () => {
+        if (!draft) return;
+        addKit(createBrandKit({ ...draft, name: `${draft.name} (Copy)` }));
+    };
+
+    const handleSave = () => {
+        if (!selected || !draft) return;
+        const updated: BrandKit = { ...selected, ...draft, name: draft.name.trim() || 'Untitled Brand Kit', updatedAt: Date.now() };
+        onBrandKitsChange(brandKits.map(kit => kit.id === updated.id ? updated : kit));
+        setDraft(toDraft(updated));
+    };
+
+    const handleDelete = () => {
+        // At least one kit must remain for the renderers to use.
+        if (!selectedId || brandKits.length <= 1) return;
+        const remaining = brandKits.filter(kit => kit.id !== selectedId);
+        onBrandKitsChange(remaining);
+        selectKit(remaining[0]);
+    };
+
+    const handleImageUpload = async (field: 'avatarDataUrl' | 'logoDataUrl', event: React.ChangeEvent<HTMLInputElement>) => {
+        const file = event.target.files?.[0];
+        event.target.value = ''; // Allow re-uploading the same file
+        if (!file) return;
+        try {
+            const dataUrl = await readBrandImage(file);
+            setDraft(prev => prev ? { ...prev, [field]: dataUrl } : prev);
+            setError(null);
+        } catch (e: unknown) {
+            setError(e instanceof Error ? e.message : "Failed to read the image.");
+        }
+    };
+
+    const updateDraft = <K extends keyof BrandKitDraft>(field: K, value: BrandKitDraft[K]) => {
+        setDraft(prev => prev ? { ...prev, [field]: value } : prev);
+    };
+
+    const selected = brandKits.find(kit => kit.id === selectedId);
+    const isDirty = !!selected && !!draft && JSON.stringify(toDraft(selected)) !== JSON.stringify(draft);
+
+    const renderImageField = (field: 'avatarDataUrl' | 'logoDataUrl', label: string, previewClass: string) => (
+        <div>
+            <span className="block text-sm font-medium text-gray-300 mb-1">{label}</span>
+            <div className="flex items-center gap-3">
+                <div className={`flex-shrink-0 bg-gray-900 border border-gray-600 flex items-center justify-center overflow-hidden ${previewClass}`}>
+                    {draft?.[field] ? <img src={draft[field]} alt="" className="w-full h-full object-contain" /> : <span className="text-xs text-gray-500">None</span>}
+                </div>
+                <label htmlFor={`brand-${field}`} className="px-3 py-1 text-xs font-semibold text-gray-300 bg-gray-700 hover:bg-gray-600 rounded-full transition-colors duration-200 cursor-pointer">
+                    Upload
+                </label>
+                <input id={`brand-${field}`} type="file" accept="image/*" className="sr-only" onChange={(e) => handleImageUpload(field, e)} />
+                {draft?.[field] && (
+                    <button onClick={() => updateDraft(field, undefined)} className="text-xs text-red-300 hover:text-red-200">
+                        Remove
+                    </button>
+                )}
+            </div>
+        </div>
+    );
+
+    return (
+        <div
+            className="fixed inset-0 bg-gray-900/80 backdrop-blur-sm z-50 flex flex-col p-4 sm:p-6 lg:p-8"
+            aria-modal="true"
+            role="dialog"
+        >
+            <header className="flex-shrink-0 flex items-center justify-between pb-4 border-b border-gray-700 mb-4">
+                <div>
+                    <h2 className="text-xl sm:text-2xl font-bold text-white">Brand Kits</h2>
+                    <p className="text-sm text-gray-400 mt-1">The active kit brands every PDF, image and carousel export. Kits are saved in this browser.</p>
+                </div>
+                <button
+                    onClick={onClose}
+                    className="p-2 text-gray-400 hover:text-white hover:bg-gray-700 rounded-full transition-colors"
+                    aria-label="Close brand kits"
+                >
+                    <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                    </svg>
+                </button>
+            </header>
+
+            <main className="flex-grow grid grid-cols-1 md:grid-cols-3 gap-4 min-h-0">
+                {/* Left column: kit list and actions */}
+                <div className="flex flex-col gap-3 min-h-0">
+                    <div className="flex flex-wrap gap-2">
+                        <button onClick={() => addKit(createBrandKit())} className="px-3 py-1 text-xs font-semibold text-blue-300 bg-blue-800/50 hover:bg-blue-800/80 rounded-full transition-colors duration-200">
+                            New
+                        </button>
+                        <button
+                            onClick={handleDuplicate}
+                            disabled={!draft}
+                            className="px-3 py-1 text-xs font-semibold text-gray-300 bg-gray-700 hover:bg-gray-600 rounded-full transition-colors duration-200 disabled:opacity-50"
+                        >
+                            Duplicate
+                        </button>
+                    </div>
+
+                    {error && <p className="text-xs text-red-400">{error}</p>}
+
+                    <ul className="space-y-2 overflow-y-auto flex-grow pr-2">
+                        {brandKits.map(kit => (
+                            <li key={kit.id}>
+                                <button
+                                    onClick={() => selectKit(kit)}
+                                    className={`w-full text-left px-3 py-2 rounded-lg text-sm transition-colors flex items-center gap-3 ${kit.id === selectedId ? 'bg-blue-600 text-white' : 'bg-gray-700/50 text-gray-300 hover:bg-gray-700'}`}
+                                >
+                                    <span className="flex-shrink-0 flex">
+                                        <span className="w-3 h-6 rounded-l" style={{ background: kit.primaryColor }} />
+                                        <span className="w-3 h-6 rounded-r" style={{ background: kit.secondaryColor }} />
+                                    </span>
+                                    <span className="min-w-0">
+                                        <span className="font-semibold block truncate">{kit.name}</span>
+                                        <span className="text-xs opacity-75 block truncate">
+                                            {kit.id === activeBrandKitId ? 'Active · ' : ''}{kit.authorName || 'No author'}
+                                        </span>
+                                    </span>
+                                </button>
+                            </li>
+                        ))}
+                    </ul>
+                </div>
+
+                {/* Right columns: kit form */}
+                <div className="md:col-span-2 overflow-y-auto pr-2">
+                    {draft ? (
+                        <div className="space-y-4">
+                            <div>
+                                <label htmlFor="brand-name" className="block text-sm font-medium text-gray-300 mb-1">Kit Name</label>
+                                <input id="brand-name" type="text" value={draft.name} onChange={(e) => updateDraft('name', e.target.value)} className={inputClass} />
+                            </div>
+                            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                                <div>
+                                    <label htmlFor="brand-author" className="block text-sm font-medium text-gray-300 mb-1">Author Name</label>
+                                    <input id="brand-author" type="text" value={draft.authorName} onChange={(e) => updateDraft('authorName', e.target.value)} className={inputClass} placeholder="e.g., Priya Sharma" />
+                                </div>
+                                <div>
+                                    <label htmlFor="brand-headline" className="block text-sm font-medium text-gray-300 mb-1">Headline</label>
+                                    <input id="brand-headline" type="text" value={draft.headline} onChange={(e) => updateDraft('headline', e.target.value)} className={inputClass} placeholder="e.g., Staff Engineer at Acme" />
+                                </div>
+                            </div>
+                            <div>
+                                <label htmlFor="brand-url" className="block text-sm font-medium text-gray-300 mb-1">Profile URL</label>
+                                <input id="brand-url" type="url" value={draft.profileUrl} onChange={(e) => updateDraft('profileUrl', e.target.value)} className={inputClass} placeholder="https://www.linkedin.com/in/your-profile/" />
+                            </div>
+                            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                                {renderImageField('avatarDataUrl', 'Avatar', 'w-12 h-12 rounded-full')}
+                                {renderImageField('logoDataUrl', 'Logo', 'w-24 h-12 rounded-lg')}
+                            </div>
+                            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                                {(['primaryColor', 'secondaryColor'] as const).map(field => (
+                                    <div key={field}>
+                                        <label htmlFor={`brand-${field}`} className="block text-sm font-medium text-gray-300 mb-1">
+                                            {field === 'primaryColor' ? 'Primary Color' : 'Secondary Color'}
+                                        </label>
+                                        <div className="flex items-center gap-2">
+                                            <input
+                                                id={`brand-${field}`}
+                                                type="color"
+                                                value={draft[field]}
+                                                onChange={(e) => updateDraft(field, e.target.value)}
+                                                className="h-9 w-12 bg-gray-900 border border-gray-600 rounded-lg cursor-pointer"
+                                            />
+                                            <span className="text-sm font-mono text-gray-400">{draft[field]}</span>
+                                        </div>
+                                    </div>
+                                ))}
+                            </div>
+                            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                                {(['headingFont', 'bodyFont'] as const).map(field => (
+                                    <div key={field}>
+                                        <label htmlFor={`brand-${field}`} className="block text-sm font-medium text-gray-300 mb-1">
+                                            {field === 'headingFont' ? 'Heading Font' : 'Body Font'}
+                                        </label>
+                                        <select
+                                            id={`brand-${field}`}
+                                            value={draft[field]}
+                                            onChange={(e) => updateDraft(field, e.target.value as TextOverlayFont)}
+                                            className={inputClass}
+                                            style={{ fontFamily: brandFontStacks[draft[field]] }}
+                                        >
+                                            {brandFonts.map(font => <option key={font} value={font}>{font}</option>)}
+                                        </select>
+                                    </div>
+                                ))}
+                            </div>
+                            <div>
+                                <label htmlFor="brand-cta" className="block text-sm font-medium text-gray-300 mb-1">CTA Footer Text</label>
+                                <input id="brand-cta" type="text" value={draft.ctaText} onChange={(e) => updateDraft('ctaText', e.target.value)} className={inputClass} />
+                            </div>
+                        </div>
+                    ) : (
+                        <div className="h-full flex items-center justify-center text-center text-gray-400">
+                            <p className="text-sm">Select or create a brand kit to edit it.</p>
+                        </div>
+                    )}
+                </div>
+            </main>
+
+            <footer className="flex-shrink-0 flex items-center justify-between gap-4 pt-4 mt-4 border-t border-gray-700">
+                <div className="flex gap-2">
+                    <button
+                        onClick={handleDelete}
+                        disabled={!selectedId || brandKits.length <= 1}
+                        className="px-4 py-2 text-sm font-semibold text-red-300 bg-red-800/50 hover:bg-red-800/80 rounded-lg transition-colors disabled:opacity-50"
+                    >
+                        Delete
+                    </button>
+                    <button
+                        onClick={() => selectedId && onActivate(selectedId)}
+                        disabled={!selectedId || selectedId === activeBrandKitId}
+                        className="px-4 py-2 text-sm font-semibold text-gray-300 bg-gray-700 hover:bg-gray-600 rounded-lg transition-colors disabled:opacity-50"
+                    >
+                        {selectedId === activeBrandKitId ? 'Active' : 'Use This Kit'}
+                    </button>
+                </div>
+                <div className="flex gap-4">
+                    <button
+                        onClick={onClose}
+                        className="px-6 py-2 text-sm font-semibold text-gray-300 bg-gray-700 hover:bg-gray-600 rounded-lg transition-colors"
+                    >
+                        Close
+                    </button>
+                    <button
+                        onClick={handleSave}
+                        disabled={!isDirty}
+                        className="px-6 py-2 text-sm font-semibold text-white bg-blue-600 hover:bg-blue-700 rounded-lg transition-colors disabled:opacity-50"
+                    >
+                        Save Brand Kit
+                    </button>
+                </div>
+            </footer>
+        </div>
+    );
+};
+
+export default BrandKitModal;
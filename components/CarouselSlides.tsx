@@ -0,0 +1,211 @@
+import React from 'react';
+import { BrandKit, CarouselSlide, CarouselSize, CarouselTemplate } from '../types';
+import { brandFontStacks } from '../services/brandKitStore';
+
+export const CAROUSEL_DIMENSIONS: Record<CarouselSize, { width: number; height: number }> = {
+    [CarouselSize.Portrait]: { width: 1080, height: 1350 },
+    [CarouselSize.Square]: { width: 1080, height: 1080 },
+};
+
+interface TemplateStyle {
+    background: string;
+    title: string;
+    body: string;
+    accent: string;
+    muted: string;
+    titleFont: string;
+    bodyFont: string;
+}
+
+const TEMPLATE_STYLES: Record<CarouselTemplate, TemplateStyle> = {
+    [CarouselTemplate.Bold]: {
+        background: '#0f172a',
+        title: '#ffffff',
+        body: '#cbd5e1',
+        accent: '#3b82f6',
+        muted: '#64748b',
+        titleFont: "'Inter', sans-serif",
+        bodyFont: "'Inter', sans-serif",
+    },
+    [CarouselTemplate.Minimal]: {
+        background: '#fafaf9',
+        title: '#111827',
+        body: '#374151',
+        accent: '#111827',
+        muted: '#9ca3af',
+        titleFont: "'Playfair Display', serif",
+        bodyFont: "'Inter', sans-serif",
+    },
+    [CarouselTemplate.Gradient]: {
+        background: 'linear-gradient(135deg, #4f46e5 0%, #7c3aed 50%, #db2777 100%)',
+        title: '#ffffff',
+        body: '#f5f3ff',
+        accent: '#fde68a',
+        muted: '#e9d5ff',
+        titleFont: "'Inter', sans-serif",
+        bodyFont: "'Inter', sans-serif",
+    },
+};
+
+// Templates keep their layout and contrast; the brand kit supplies the accent colors and fonts.
+const getTemplateStyle = (template: CarouselTemplate, brandKit: BrandKit): TemplateStyle => {
+    const base = TEMPLATE_STYLES[template];
+    const fonts = { titleFont: brandFontStacks[brandKit.headingFont], bodyFont: brandFontStacks[brandKit.bodyFont] };
+    switch (template) {
+        case CarouselTemplate.Bold:
+            return { ...base, ...fonts, accent: brandKit.primaryColor };
+        case CarouselTemplate.Minimal:
+            return { ...base, ...fonts, accent: brandKit.secondaryColor };
+        case CarouselTemplate.Gradient:
+            return { ...base, ...fonts, background: `linear-gradient(135deg, ${brandKit.primaryColor} 0%, ${brandKit.secondaryColor} 100%)` };
+        default:
+            return base;
+    }
+};
+
+export const carouselTemplateNames: Record<CarouselTemplate, string> = {
+    [CarouselTemplate.Bold]: 'Bold',
+    [CarouselTemplate.Minimal]: 'Minimal',
+    [CarouselTemplate.Gradient]: 'Gradient',
+};
+
+interface CarouselSlideCardProps {
+    slide: CarouselSlide;
+    index: number;
+    total: number;
+    template: CarouselTemplate;
+    size: CarouselSize;
+    brandKit: BrandKit;
+}
+
+// Renders body text, treating lines that start with "- " or "• " as bullets.
+const SlideBody: React.FC<{ body: string; style: TemplateStyle; fontSize: number }> = ({ body, style, fontSize }) => {
+    const lines = body.split('\n').map(line => line.trim()).filter(Boolean);
+    return (
+        <div style={{ color: style.body, fontSize, lineHeight: 1.45 }}>
+            {lines.map((line, i) => {
+                const bullet = line.match(/^[-•*]\s+(.*)$/);
+                return bullet ? (
+                    <div key={i} style={{ display: 'flex', gap: 20, marginTop: 16 }}>
+                        <span style={{ color: style.accent, fontWeight: 700 }}>&#x2022;</span>
+                        <span>{bullet[1]}</span>
+                    </div>
+                ) : (
+                    <p key={i} style={{ marginTop: i === 0 ? 0 : 20 }}>{line}</p>
+                );
+            })}
+        </div>
+    );
+};
+
+/**
+ * A single carousel slide at its native export resolution (1080px wide).
+ */
+export const CarouselSlideCard: React.FC<CarouselSlideCardProps> = ({ slide, index, total, template, size, brandKit }) => {
+    const style = getTemplateStyle(template, brandKit);
+    const { width, height } = CAROUSEL_DIMENSIONS[size];
+    const isCover = slide.kind !== 'content';
+
+    return (
+        <div
+            className="carousel-slide"
+            style={{
+                width,
+                height,
+                background: style.background,
+                padding: 96,
+                boxSizing: 'border-box',
+                display: 'flex',
+                flexDirection: 'column',
+                fontFamily: style.bodyFont,
+                position: 'relative',
+                overflow: 'hidden',
+            }}
+        >
+            <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', height: 72, marginBottom: 40 }}>
+                <div style={{ width: 120, height: 12, background: style.accent, borderRadius: 6 }} />
+                {brandKit.logoDataUrl && <img src={brandKit.logoDataUrl} alt="" style={{ height: 72, maxWidth: 320, objectFit: 'contain' }} />}
+            </div>
+            <div style={{ flexGrow: 1, display: 'flex', flexDirection: 'column', justifyContent: isCover ? 'center' : 'flex-start' }}>
+                {slide.kind === 'content' && (
+                    <p style={{ color: style.accent, fontSize: 36, fontWeight: 700, marginBottom: 24 }}>
+                        {String(index).padStart(2, '0')}
+                    </p>
+                )}
+                <h2
+                    style={{
+                        color: style.title,
+                        fontFamily: style.titleFont,
+                        fontSize: isCover ? 96 : 72,
+                        fontWeight: 700,
+                        lineHeight: 1.1,
+                        marginBottom: 48,
+                    }}
+                >
+                    {slide.title}
+                </h2>
+                <SlideBody body={slide.body} style={style} fontSize={isCover ? 44 : 40} />
+            </div>
+            <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', color: style.muted, fontSize: 30 }}>
+                {brandKit.authorName ? (
+                    <div style={{ display: 'flex', alignItems: 'center', gap: 24 }}>
+                        {brandKit.avatarDataUrl && (
+                            <img src={brandKit.avatarDataUrl} alt="" style={{ width: 80, height: 80, borderRadius: '50%', objectFit: 'cover' }} />
+                        )}
+                        <div>
+                            <p style={{ color: style.title, fontWeight: 700 }}>{brandKit.authorName}</p>
+                            {brandKit.headline && <p style={{ fontSize: 24 }}>{brandKit.headline}</p>}
+                        </div>
+                    </div>
+                ) : (
+                    <span />
+                )}
+                {slide.kind === 'hook' && <span style={{ color: style.accent, fontWeight: 700 }}>Swipe &rarr;</span>}
+                {slide.kind === 'content' && <span>{index + 1} / {total}</span>}
+                {slide.kind === 'cta' && <span style={{ color: style.accent, fontWeight: 700 }}>&#x267B; Repost to share</span>}
+            </div>
+        </div>
+    );
+};
+
+interface CarouselPreviewProps {
+    slides: CarouselSlide[];
+    template: CarouselTemplate;
+    size: CarouselSize;
+    brandKit: BrandKit;
+}
+
+const PREVIEW_SCALE = 0.3;
+
+/** Scaled-down, on-screen preview of every slide. */
+export const CarouselPreview: React.FC<CarouselPreviewProps> = ({ slides, template, size, brandKit }) => {
+    const { width, height } = CAROUSEL_DIMENSIONS[size];
+    return (
+        <div className="not-prose flex gap-4 overflow-x-auto pb-4 snap-x">
+            {slides.map((slide, index) => (
+                <div
+                    key={index}
+                    className="flex-shrink-0 snap-start rounded-lg overflow-hidden shadow-lg"
+                    style={{ width: width * PREVIEW_SCALE, height: height * PREVIEW_SCALE }}
+                >
+                    <div style={{ transform: `scale(${PREVIEW_SCALE})`, transformOrigin: 'top left' }}>
+                        <CarouselSlideCard slide={slide} index={index} total={slides.length} template={template} size={size} brandKit={brandKit} />
+                    </div>
+                </div>
+            ))}
+        </div>
+    );
+};
+
+/** Full-resolution slides, rendered off-screen for PDF export. */
+const CarouselPages = React.forwardRef<HTMLDivElement, CarouselPreviewProps>(({ slides, template, size, brandKit }, ref) => {
+    return (
+        <div ref={ref}>
+            {slides.map((slide, index) => (
+                <CarouselSlideCard key={index} slide={slide} index={index} total={slides.length} template={template} size={size} brandKit={brandKit} />
+            ))}
+        </div>
+    );
+});
+
+export default CarouselPages;
@@ -0,0 +1,59 @@
+import React from 'react';
+import { CompanyProspect, Prospect } from '../types';
+import { findProspect, prospectStageLabels } from '../services/prospectStore';
+
+interface CompanyProspectListProps {
+    companies: CompanyProspect[];
+    prospects: Prospect[];
+    onSave: (company: CompanyProspect) => void;
+}
+
+/** The prospector's suggested companies, each of which can be saved to the prospects board. */
+const CompanyProspectList: React.FC<CompanyProspectListProps> = ({ companies, prospects, onSave }) => {
+    const unsaved = companies.filter(company => !findProspect(prospects, company.name));
+
+    return (
+        <div className="not-prose space-y-3">
+            <div className="flex justify-between items-center gap-3">
+                <p className="text-sm text-gray-400">Save the companies you want to pursue to your prospects board.</p>
+                {unsaved.length > 1 && (
+                    <button
+                        onClick={() => unsaved.forEach(onSave)}
+                        className="flex-shrink-0 px-3 py-1 text-xs font-semibold text-blue-300 bg-blue-800/50 hover:bg-blue-800/80 rounded-full transition-colors duration-200"
+                    >
+                        Save All ({unsaved.length})
+                    </button>
+                )}
+            </div>
+            <ol className="space-y-2">
+                {companies.map((company, index) => {
+                    const saved = findProspect(prospects, company.name);
+                    return (
+                        <li key={company.name} className="bg-gray-900/60 rounded-lg border border-gray-700 p-3 flex items-start gap-3">
+                            <span className="text-sm font-bold text-gray-500 w-5 flex-shrink-0">{index + 1}.</span>
+                            <div className="min-w-0 flex-grow">
+                                <p className="font-semibold text-gray-100">
+                                    {company.name}
+                                    <span className="ml-2 px-2 py-0.5 text-xs font-normal rounded-full text-gray-300 bg-gray-700">{company.industry}</span>
+                                </p>
+                                {company.reason && <p className="text-sm text-gray-400 mt-1">{company.reason}</p>}
+                            </div>
+                            {saved ? (
+                                <span className="flex-shrink-0 px-3 py-1 text-xs font-semibold text-green-300">✓ {prospectStageLabels[saved.stage]}</span>
+                            ) : (
+                                <button
+                                    onClick={() => onSave(company)}
+                                    className="flex-shrink-0 px-3 py-1 text-xs font-semibold text-blue-300 bg-blue-800/50 hover:bg-blue-800/80 rounded-full transition-colors duration-200"
+                                >
+                                    Save
+                                </button>
+                            )}
+                        </li>
+                    );
+                })}
+            </ol>
+        </div>
+    );
+};
+
+export default CompanyProspectList;
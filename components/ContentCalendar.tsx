@@ -0,0 +1,282 @@
+import React, { useState, useMemo } from 'react';
+import { HistoryItem, ScheduleSlot, ScheduleStatus } from '../types';
+import { getCalendarEntries, buildIcs, toDateKey, scheduleStatuses, scheduleStatusLabels, CalendarEntry, CalendarEntrySource } from '../services/calendar';
+
+type CalendarView = 'month' | 'week';
+
+interface ContentCalendarProps {
+    history: HistoryItem[];
+    // `schedule` is undefined when the entry is taken off the calendar.
+    onSchedule: (source: CalendarEntrySource, schedule: ScheduleSlot | undefined) => void;
+    onOpenItem: (item: HistoryItem) => void;
+}
+
+const WEEKDAYS = ['Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat', 'Sun'];
+// Entries dropped on a day without a time yet are scheduled for the morning.
+const DEFAULT_HOUR = 9;
+
+const statusStyles: Record<ScheduleStatus, string> = {
+    idea: 'border-gray-500 bg-gray-700/80 text-gray-200',
+    draft: 'border-yellow-600 bg-yellow-900/40 text-yellow-100',
+    approved: 'border-blue-500 bg-blue-900/50 text-blue-100',
+    published: 'border-green-600 bg-green-900/40 text-green-100',
+};
+
+const startOfWeek = (date: Date): Date => {
+    const start = new Date(date.getFullYear(), date.getMonth(), date.getDate());
+    start.setDate(start.getDate() - ((start.getDay() + 6) % 7));
+    return start;
+};
+
+const addDays = (date: Date, days: number): Date => {
+    return new Date(date.getFullYear(), date.getMonth(), date.getDate() + days);
+};
+
+// Six full weeks, so every month fits and the grid doesn't change height.
+const getVisibleDays = (anchor: Date, view: CalendarView): Date[] => {
+    const first = view === 'month' ? startOfWeek(new Date(anchor.getFullYear(), anchor.getMonth(), 1)) : startOfWeek(anchor);
+    return Array.from({ length: view === 'month' ? 42 : 7 }, (_, i) => addDays(first, i));
+};
+
+const formatTime = (time: number): string => {
+    return new Intl.DateTimeFormat('en-US', { hour: 'numeric', minute: '2-digit' }).format(new Date(time));
+};
+
+const toDateTimeInput = (time: number): string => {
+    const date = new Date(time);
+    return `${toDateKey(date)}T${String(date.getHours()).padStart(2, '0')}:${String(date.getMinutes()).padStart(2, '0')}`;
+};
+
+/**
+ * Month and week calendar of history items and planned days. Entries are dragged onto a day to
+ * schedule them; the time and workflow status are set on the selected entry. Exports to .ics.
+ */
+const ContentCalendar: React.FC<ContentCalendarProps> = ({ history, onSchedule, onOpenItem }) => {
+    const [view, setView] = useState<CalendarView>('month');
+    const [anchor, setAnchor] = useState(() => new Date());
+    const [selectedKey, setSelectedKey] = useState<string | null>(null);
+    const [dropTarget, setDropTarget] = useState<string | null>(null);
+
+    const entries = useMemo(() => getCalendarEntries(history), [history]);
+    const unscheduled = entries.filter(entry => !entry.schedule);
+    const entriesByDay = useMemo(() => {
+        const byDay = new Map<string, CalendarEntry[]>();
+        entries
+            .filter(entry => entry.schedule)
+            .sort((a, b) => a.schedule!.at - b.schedule!.at)
+            .forEach(entry => {
+                const key = toDateKey(new Date(entry.schedule!.at));
+                byDay.set(key, [...(byDay.get(key) ?? []), entry]);
+            });
+        return byDay;
+    }, [entries]);
+
+    const days = getVisibleDays(anchor, view);
+    const todayKey = toDateKey(new Date());
+    const selected = entries.find(entry => entry.key === selectedKey) ?? null;
+    const scheduledCount = entries.length - unscheduled.length;
+
+    const title = view === 'month'
+        ? new Intl.DateTimeFormat('en-US', { month: 'long', year: 'numeric' }).format(anchor)
+        : `${new Intl.DateTimeFormat('en-US', { month: 'short', day: 'numeric' }).format(days[0])} – ${new Intl.DateTimeFormat('en-US', { month: 'short', day: 'numeric', year: 'numeric' }).format(days[6])}`;
+
+    const move = (direction: number) => {
+        setAnchor(prev => view === 'month'
+            ? new Date(prev.getFullYear(), prev.getMonth() + direction, 1)
+            : addDays(prev, direction * 7));
+    };
+
+    // Keeps the entry's time of day and status when it moves to another day.
+    const scheduleOnDay = (entry: CalendarEntry, day: Date) => {
+        const previous = entry.schedule ? new Date(entry.schedule.at) : null;
+        const at = new Date(day.getFullYear(), day.getMonth(), day.getDate(), previous?.getHours() ?? DEFAULT_HOUR, previous?.getMinutes() ?? 0).getTime();
+        const status = entry.schedule?.status ?? (entry.source.kind === 'planDay' ? 'idea' : 'draft');
+        onSchedule(entry.source, { at, status });
+        setSelectedKey(entry.key);
+    };
+
+    const handleDrop = (e: React.DragEvent, day: Date | null) => {
+        e.preventDefault();
+        setDropTarget(null);
+        const entry = entries.find(en => en.key === e.dataTransfer.getData('text/plain'));
+        if (!entry) return;
+        if (day) {
+            scheduleOnDay(entry, day);
+        } else if (entry.schedule) {
+            onSchedule(entry.source, undefined);
+        }
+    };
+
+    const dropProps = (targetKey: string, day: Date | null) => ({
+        onDragOver: (e: React.DragEvent) => {
+            e.preventDefault();
+            e.dataTransfer.dropEffect = 'move';
+            if (dropTarget !== targetKey) setDropTarget(targetKey);
+        },
+        onDragLeave: () => setDropTarget(null),
+        onDrop: (e: React.DragEvent) => handleDrop(e, day),
+    });
+
+    const handleExport = () => {
+        const blob = new Blob([buildIcs(entries)], { type: 'text/calendar;charset=utf-8' });
+        const url = URL.createObjectURL(blob);
+        const link = document.createElement('a');
+        link.href = url;
+        link.download = 'linkedin-content-calendar.ics';
+        document.body.appendChild(link);
+        link.click();
+        document.body.removeChild(link);
+        URL.revokeObjectURL(url);
+    };
+
+    const handleOpen = (entry: CalendarEntry) => {
+        const id = entry.source.kind === 'item' ? entry.source.itemId : entry.source.planItemId;
+        const item = history.find(i => i.id === id);
+        if (item) onOpenItem(item);
+    };
+
+    const renderChip = (entry: CalendarEntry, compact: boolean) => (
+        <button
+            key={entry.key}
+            draggable
+            onDragStart={(e) => { e.dataTransfer.setData('text/plain', entry.key); e.dataTransfer.effectAllowed = 'move'; }}
+            onClick={() => setSelectedKey(entry.key)}
+            title={`${entry.title} (${entry.label})`}
+            className={`block w-full text-left rounded border-l-2 px-1.5 py-0.5 text-xs cursor-grab active:cursor-grabbing ${compact ? 'truncate' : ''} ${entry.schedule ? statusStyles[entry.schedule.status] : 'border-gray-500 bg-gray-700/80 text-gray-200'} ${entry.key === selectedKey ? 'ring-1 ring-white' : ''}`}
+        >
+            {entry.schedule && <span className="font-semibold mr-1">{formatTime(entry.schedule.at)}</span>}
+            {entry.title}
+            {!compact && <span className="block text-[10px] opacity-75">{entry.label}</span>}
+        </button>
+    );
+
+    return (
+        <div className="bg-gray-800 p-4 rounded-2xl shadow-lg h-full flex flex-col">
+            <div className="flex flex-wrap justify-between items-center gap-3 mb-4 px-2">
+                <div>
+                    <h2 className="text-xl font-bold">Content Calendar</h2>
+                    <p className="text-xs text-gray-400">{scheduledCount} scheduled · {unscheduled.length} unscheduled. Drag entries onto a day to schedule them.</p>
+                </div>
+                <div className="flex flex-wrap items-center gap-2">
+                    <div className="grid grid-cols-2 gap-1 bg-gray-700 p-1 rounded-lg">
+                        {(['month', 'week'] as const).map(option => (
+                            <button
+                                key={option}
+                                onClick={() => setView(option)}
+                                className={`px-3 py-1 text-xs font-semibold rounded-md transition-colors ${view === option ? 'bg-blue-600 text-white' : 'text-gray-300 hover:bg-gray-600'}`}
+                            >
+                                {option === 'month' ? 'Month' : 'Week'}
+                            </button>
+                        ))}
+                    </div>
+                    <button onClick={() => move(-1)} className="px-2 py-1 text-sm text-gray-300 bg-gray-700 hover:bg-gray-600 rounded-lg" aria-label="Previous">&lsaquo;</button>
+                    <button onClick={() => setAnchor(new Date())} className="px-3 py-1 text-xs font-semibold text-gray-300 bg-gray-700 hover:bg-gray-600 rounded-lg">Today</button>
+                    <button onClick={() => move(1)} className="px-2 py-1 text-sm text-gray-300 bg-gray-700 hover:bg-gray-600 rounded-lg" aria-label="Next">&rsaquo;</button>
+                    <span className="min-w-[10rem] text-center text-sm font-semibold text-gray-200">{title}</span>
+                    <button
+                        onClick={handleExport}
+                        disabled={scheduledCount === 0}
+                        className="px-3 py-1 text-xs font-semibold text-blue-300 bg-blue-800/50 hover:bg-blue-800/80 rounded-full transition-colors duration-200 disabled:opacity-50"
+                    >
+                        Export .ics
+                    </button>
+                </div>
+            </div>
+
+            <div className="flex-grow min-h-0 grid grid-cols-1 lg:grid-cols-4 gap-4">
+                <div
+                    {...dropProps('unscheduled', null)}
+                    className={`flex flex-col min-h-0 bg-gray-900/40 rounded-lg p-2 border ${dropTarget === 'unscheduled' ? 'border-blue-500' : 'border-transparent'}`}
+                >
+                    <h3 className="text-sm font-semibold text-gray-300 mb-2 px-1">Unscheduled</h3>
+                    {unscheduled.length === 0 ? (
+                        <p className="text-xs text-gray-500 px-1">Everything is on the calendar. Drop an entry here to unschedule it.</p>
+                    ) : (
+                        <div className="space-y-1.5 overflow-y-auto pr-1">
+                            {unscheduled.map(entry => renderChip(entry, false))}
+                        </div>
+                    )}
+                </div>
+
+                <div className="lg:col-span-3 flex flex-col min-h-0 overflow-y-auto">
+                    <div className="grid grid-cols-7 gap-1 mb-1">
+                        {WEEKDAYS.map(day => <div key={day} className="text-center text-xs font-semibold text-gray-400">{day}</div>)}
+                    </div>
+                    <div className={`grid grid-cols-7 gap-1 ${view === 'week' ? 'flex-grow' : ''}`}>
+                        {days.map(day => {
+                            const key = toDateKey(day);
+                            const dayEntries = entriesByDay.get(key) ?? [];
+                            const isOutsideMonth = view === 'month' && day.getMonth() !== anchor.getMonth();
+                            return (
+                                <div
+                                    key={key}
+                                    {...dropProps(key, day)}
+                                    className={`flex flex-col gap-1 rounded-md p-1 border ${view === 'month' ? 'min-h-[6rem]' : 'min-h-[20rem]'} ${dropTarget === key ? 'border-blue-500 bg-blue-900/20' : 'border-gray-700 bg-gray-900/30'} ${isOutsideMonth ? 'opacity-50' : ''}`}
+                                >
+                                    <span className={`text-xs font-semibold self-end px-1 rounded ${key === todayKey ? 'bg-blue-600 text-white' : 'text-gray-400'}`}>
+                                        {view === 'week' ? `${WEEKDAYS[(day.getDay() + 6) % 7]} ${day.getDate()}` : day.getDate()}
+                                    </span>
+                                    {dayEntries.map(entry => renderChip(entry, view === 'month'))}
+                                </div>
+                            );
+                        })}
+                    </div>
+                </div>
+            </div>
+
+            {selected && (
+                <div className="mt-4 pt-4 border-t border-gray-700 flex flex-wrap items-end gap-3 px-2">
+                    <div className="min-w-0 flex-grow">
+                        <p className="text-xs font-semibold uppercase tracking-wide text-blue-300">{selected.label}</p>
+                        <p className="font-semibold text-gray-200 truncate">{selected.title}</p>
+                    </div>
+                    <label className="text-xs text-gray-400">
+                        Publish at
+                        <input
+                            type="datetime-local"
+                            value={selected.schedule ? toDateTimeInput(selected.schedule.at) : ''}
+                            onChange={(e) => {
+                                const at = new Date(e.target.value).getTime();
+                                if (!Number.isNaN(at)) {
+                                    onSchedule(selected.source, { at, status: selected.schedule?.status ?? (selected.source.kind === 'planDay' ? 'idea' : 'draft') });
+                                }
+                            }}
+                            className="block mt-1 bg-gray-700 text-white rounded-lg border border-gray-600 px-2 py-1 text-sm outline-none"
+                        />
+                    </label>
+                    <label className="text-xs text-gray-400">
+                        Status
+                        <select
+                            value={selected.schedule?.status ?? ''}
+                            disabled={!selected.schedule}
+                            onChange={(e) => onSchedule(selected.source, { at: selected.schedule!.at, status: e.target.value as ScheduleStatus })}
+                            className="block mt-1 bg-gray-700 text-white rounded-lg border border-gray-600 px-2 py-1 text-sm outline-none disabled:opacity-50"
+                        >
+                            {!selected.schedule && <option value="">Not scheduled</option>}
+                            {scheduleStatuses.map(status => <option key={status} value={status}>{scheduleStatusLabels[status]}</option>)}
+                        </select>
+                    </label>
+                    <div className="flex gap-2">
+                        <button
+                            onClick={() => handleOpen(selected)}
+                            className="px-3 py-1 text-xs font-semibold text-blue-300 bg-blue-800/50 hover:bg-blue-800/80 rounded-full transition-colors duration-200"
+                        >
+                            {selected.source.kind === 'planDay' ? 'Open Plan' : 'Open'}
+                        </button>
+                        {selected.schedule && (
+                            <button
+                                onClick={() => onSchedule(selected.source, undefined)}
+                                className="px-3 py-1 text-xs font-semibold text-red-300 bg-red-800/50 hover:bg-red-800/80 rounded-full transition-colors duration-200"
+                            >
+                                Unschedule
+                            </button>
+                        )}
+                        <button onClick={() => setSelectedKey(null)} className="px-3 py-1 text-xs font-semibold text-gray-300 bg-gray-700 hover:bg-gray-600 rounded-full">Close</button>
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default ContentCalendar;
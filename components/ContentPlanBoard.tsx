@@ -0,0 +1,129 @@
+import React from 'react';
+import { ContentPlanDay, HistoryItem, PlanDayRun } from '../types';
+import { planDayFormatLabels } from '../services/contentPlan';
+
+interface ContentPlanBoardProps {
+    plan: ContentPlanDay[];
+    dayItems: Map<number, HistoryItem>;
+    runs: Record<number, PlanDayRun>;
+    onGenerateDays: (days: number[]) => void;
+    onOpenItem: (item: HistoryItem) => void;
+    onExportMarkdown: () => void;
+    onExportPdf: () => void;
+    isExporting: boolean;
+}
+
+const statusStyles: Record<string, string> = {
+    queued: 'text-gray-300 bg-gray-700',
+    running: 'text-blue-200 bg-blue-800/70',
+    done: 'text-green-200 bg-green-800/60',
+    failed: 'text-red-200 bg-red-800/60',
+    idle: 'text-gray-400 bg-gray-800',
+};
+
+const statusLabels: Record<string, string> = {
+    queued: 'Queued',
+    running: 'Generating...',
+    done: 'Ready',
+    failed: 'Failed',
+    idle: 'Not generated',
+};
+
+/**
+ * The weekly plan as a list of days, with a queue that generates every day's post
+ * and shows per-day progress, retries and a combined export.
+ */
+const ContentPlanBoard: React.FC<ContentPlanBoardProps> = ({ plan, dayItems, runs, onGenerateDays, onOpenItem, onExportMarkdown, onExportPdf, isExporting }) => {
+    const isBusy = plan.some(day => runs[day.day]?.status === 'running' || runs[day.day]?.status === 'queued');
+    const remainingDays = plan.filter(day => !dayItems.has(day.day)).map(day => day.day);
+    const readyCount = plan.filter(day => dayItems.has(day.day)).length;
+
+    const getStatus = (day: number): string => {
+        const run = runs[day];
+        if (run && run.status !== 'done') return run.status;
+        return dayItems.has(day) ? 'done' : 'idle';
+    };
+
+    return (
+        <div className="not-prose space-y-4">
+            <div className="flex flex-wrap items-center justify-between gap-2">
+                <div>
+                    <h3 className="text-lg font-semibold text-gray-200">Weekly Plan</h3>
+                    <p className="text-sm text-gray-400">{readyCount} of {plan.length} days generated. Each day is saved to history as its own item.</p>
+                </div>
+                <div className="flex flex-wrap gap-2">
+                    <button
+                        onClick={() => onGenerateDays(remainingDays.length > 0 ? remainingDays : plan.map(day => day.day))}
+                        disabled={isBusy}
+                        className="px-4 py-2 text-sm font-semibold text-white bg-blue-600 hover:bg-blue-700 rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                    >
+                        {isBusy ? 'Generating...' : remainingDays.length === plan.length ? 'Generate All Days' : remainingDays.length > 0 ? `Generate Remaining ${remainingDays.length}` : 'Regenerate All Days'}
+                    </button>
+                    <button
+                        onClick={onExportMarkdown}
+                        disabled={readyCount === 0}
+                        className="px-3 py-2 text-sm font-semibold text-gray-300 bg-gray-700 hover:bg-gray-600 rounded-lg transition-colors disabled:opacity-50"
+                    >
+                        Export .md
+                    </button>
+                    <button
+                        onClick={onExportPdf}
+                        disabled={readyCount === 0 || isExporting}
+                        className="px-3 py-2 text-sm font-semibold text-gray-300 bg-gray-700 hover:bg-gray-600 rounded-lg transition-colors disabled:opacity-50"
+                    >
+                        {isExporting ? 'Generating...' : 'Export PDF'}
+                    </button>
+                </div>
+            </div>
+
+            <ol className="space-y-2">
+                {plan.map(day => {
+                    const status = getStatus(day.day);
+                    const run = runs[day.day];
+                    const item = dayItems.get(day.day);
+                    return (
+                        <li key={day.day} className="bg-gray-900/60 rounded-lg border border-gray-700 p-4">
+                            <div className="flex flex-wrap items-start justify-between gap-3">
+                                <div className="min-w-0 flex-1">
+                                    <p className="text-xs font-semibold uppercase tracking-wide text-blue-300">
+                                        Day {day.day} · {planDayFormatLabels[day.format]}
+                                    </p>
+                                    <p className="font-semibold text-gray-200">{day.subTopic}</p>
+                                    <p className="text-sm text-gray-400 mt-1">{day.talkingPoint}</p>
+                                    {status === 'failed' && run?.error && (
+                                        <p className="text-xs text-red-400 mt-2">{run.error} ({run.attempts} attempt{run.attempts === 1 ? '' : 's'})</p>
+                                    )}
+                                </div>
+                                <div className="flex items-center gap-2 flex-shrink-0">
+                                    <span className={`px-2 py-0.5 text-xs font-semibold rounded-full ${statusStyles[status]}`}>
+                                        {statusLabels[status]}
+                                        {status === 'running' && run && run.attempts > 1 ? ` (retry ${run.attempts - 1})` : ''}
+                                    </span>
+                                    {item && status !== 'running' && (
+                                        <button
+                                            onClick={() => onOpenItem(item)}
+                                            className="px-3 py-1 text-xs font-semibold text-blue-300 bg-blue-800/50 hover:bg-blue-800/80 rounded-full transition-colors duration-200"
+                                        >
+                                            Open
+                                        </button>
+                                    )}
+                                    {(status === 'failed' || status === 'idle' || status === 'done') && (
+                                        <button
+                                            onClick={() => onGenerateDays([day.day])}
+                                            disabled={isBusy}
+                                            className="px-3 py-1 text-xs font-semibold text-gray-300 bg-gray-700 hover:bg-gray-600 rounded-full transition-colors duration-200 disabled:opacity-50"
+                                        >
+                                            {status === 'failed' ? 'Retry' : status === 'done' ? 'Regenerate' : 'Generate'}
+                                        </button>
+                                    )}
+                                </div>
+                            </div>
+                        </li>
+                    );
+                })}
+            </ol>
+        </div>
+    );
+};
+
+export default ContentPlanBoard;
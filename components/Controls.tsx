@@ -1,7 +1,14 @@
 
 import React, { useState, useEffect } from 'react';
-import { GenerationType, PostLength, Persona, DifficultyLevel, CompanySuggestion, ImageStyle, ImageAspectRatio, TextOverlayOptions, TextOverlayFont, TextOverlayPlacement, Tone, personaDisplayNames, VideoQuality, PdfExportQuality } from '../types';
-import { getTopicSuggestions, getCompanySuggestions } from '../services/geminiService';
+import { GenerationType, PostLength, Persona, PersonaId, CustomPersona, DifficultyLevel, CompanySuggestion, ImageStyle, ImageAspectRatio, TextOverlayOptions, TextOverlayFont, TextOverlayPlacement, Tone, personaDisplayNames, VideoQuality, PdfExportQuality, CarouselTemplate, CarouselSize, VariantMode, ResumeInput, SourceMaterial, InterviewMode, Prospect, ContentLanguage } from '../types';
+import { carouselTemplateNames } from './CarouselSlides';
+import ResumeInputPanel from './ResumeInputPanel';
+import SourceMaterialPanel from './SourceMaterialPanel';
+import { getTopicSuggestions, getCompanySuggestions, supportsVariants } from '../services/geminiService';
+import { findProspect } from '../services/prospectStore';
+import { outreachGenerationTypes } from '../services/outreachMessages';
+import { isSourceGenerationType } from '../services/sourceMaterial';
+import { contentLanguages, languageLabels, languageNames } from '../services/language';
 
 interface ControlsProps {
     generationType: GenerationType;
@@ -12,8 +19,10 @@ interface ControlsProps {
     setPageCount: (count: number) => void;
     postLength: PostLength;
     setPostLength: (length: PostLength) => void;
-    persona: Persona;
-    setPersona: (persona: Persona) => void;
+    persona: PersonaId;
+    setPersona: (persona: PersonaId) => void;
+    customPersonas: CustomPersona[];
+    onManagePersonas: () => void;
     tone: Tone;
     setTone: (tone: Tone) => void;
     difficultyLevel: DifficultyLevel;
@@ -38,6 +47,26 @@ interface ControlsProps {
     setImageAspectRatio: (ratio: ImageAspectRatio) => void;
     textOverlay: TextOverlayOptions;
     setTextOverlay: (options: TextOverlayOptions) => void;
+    slideCount: number;
+    setSlideCount: (count: number) => void;
+    carouselTemplate: CarouselTemplate;
+    setCarouselTemplate: (template: CarouselTemplate) => void;
+    carouselSize: CarouselSize;
+    setCarouselSize: (size: CarouselSize) => void;
+    variantMode: VariantMode;
+    setVariantMode: (mode: VariantMode) => void;
+    variantCount: number;
+    setVariantCount: (count: number) => void;
+    resumeInput: ResumeInput;
+    setResumeInput: (input: ResumeInput) => void;
+    sourceMaterial: SourceMaterial | null;
+    setSourceMaterial: (source: SourceMaterial | null) => void;
+    interviewMode: InterviewMode;
+    setInterviewMode: (mode: InterviewMode) => void;
+    prospects: Prospect[];
+    onSaveProspect: (company: CompanySuggestion) => void;
+    language: ContentLanguage;
+    setLanguage: (language: ContentLanguage) => void;
 }
 
 const topicPlaceholders: Record<GenerationType, string> = {
@@ -59,6 +88,11 @@ const topicPlaceholders: Record<GenerationType, string> = {
     [GenerationType.CvEnhancement]: "e.g., 'AI/ML Engineer Role' or 'Data Scientist Position'",
     [GenerationType.ResumeTailoring]: "e.g., 'Healthcare Data Analyst Role' or 'Clinical NLP Specialist Position'",
     [GenerationType.CompanyProspector]: "e.g., 'AI Research Scientist Role' or 'ML Ops Position'",
+    [GenerationType.CoverLetter]: "e.g., 'Senior Data Scientist Role'",
+    [GenerationType.ConnectionRequest]: "e.g., 'Machine Learning Engineer Role'",
+    [GenerationType.RecruiterInMail]: "e.g., 'Clinical Data Analyst Role'",
+    [GenerationType.ReferralRequest]: "e.g., 'AI Product Manager Role'",
+    [GenerationType.Carousel]: "e.g., '5 Mistakes Teams Make When Deploying LLMs'",
 };
 
 enum Industry {
@@ -100,6 +134,8 @@ const Controls: React.FC<ControlsProps> = ({
     setPostLength,
     persona,
     setPersona,
+    customPersonas,
+    onManagePersonas,
     tone,
     setTone,
     difficultyLevel,
@@ -124,12 +160,32 @@ const Controls: React.FC<ControlsProps> = ({
     setImageAspectRatio,
     textOverlay,
     setTextOverlay,
+    slideCount,
+    setSlideCount,
+    carouselTemplate,
+    setCarouselTemplate,
+    carouselSize,
+    setCarouselSize,
+    variantMode,
+    setVariantMode,
+    variantCount,
+    setVariantCount,
+    resumeInput,
+    setResumeInput,
+    sourceMaterial,
+    setSourceMaterial,
+    interviewMode,
+    setInterviewMode,
+    prospects,
+    onSaveProspect,
+    language,
+    setLanguage,
 }) => {
     const [suggestions, setSuggestions] = useState<string[]>([]);
     const [suggestionsLoading, setSuggestionsLoading] = useState<boolean>(false);
     const [moreSuggestionsLoading, setMoreSuggestionsLoading] = useState<boolean>(false);
     const [suggestionsVisible, setSuggestionsVisible] = useState<boolean>(false);
-    const [fetchedConfig, setFetchedConfig] = useState<{type: GenerationType, persona: Persona} | null>(null);
+    const [fetchedConfig, setFetchedConfig] = useState<{type: GenerationType, persona: PersonaId} | null>(null);
     const [suggestionsError, setSuggestionsError] = useState<string | null>(null);
     
     const [companySuggestions, setCompanySuggestions] = useState<CompanySuggestion[]>([]);
@@ -263,19 +319,25 @@ const Controls: React.FC<ControlsProps> = ({
         GenerationType.InterviewQuestions,
         GenerationType.CvEnhancement,
         GenerationType.ResumeTailoring,
-        GenerationType.CompanyProspector
+        GenerationType.CompanyProspector,
+        ...outreachGenerationTypes
     ].includes(generationType);
 
     const isCareerInputType = [
         GenerationType.InterviewQuestions,
         GenerationType.CvEnhancement,
-        GenerationType.ResumeTailoring
+        GenerationType.ResumeTailoring,
+        ...outreachGenerationTypes
     ].includes(generationType);
 
+    // With source material the topic is optional; it only says what to focus on.
+    const hasSourceMaterial = isSourceGenerationType(generationType) && !!sourceMaterial?.text.trim();
+
     const showToneSelector = [
         GenerationType.Post,
         GenerationType.ImagePost,
         GenerationType.Document,
+        GenerationType.Carousel,
         GenerationType.ExamplePost,
         GenerationType.DayWiseContentPlan,
         GenerationType.WeeklyContentPlan,
@@ -284,6 +346,7 @@ const Controls: React.FC<ControlsProps> = ({
         GenerationType.TutorialOutline,
         GenerationType.CvEnhancement,
         GenerationType.ResumeTailoring,
+        ...outreachGenerationTypes,
     ].includes(generationType);
 
     const filteredCompanies = companySuggestions.filter(suggestion => {
@@ -322,6 +385,7 @@ const Controls: React.FC<ControlsProps> = ({
                     <button onClick={() => setGenerationType(GenerationType.ImagePost)} className={`px-2 py-2 text-sm font-semibold rounded-md transition-colors duration-200 ${generationType === GenerationType.ImagePost ? 'bg-blue-600 text-white' : 'text-gray-300 hover:bg-gray-600'}`}>Post + Image</button>
                     <button onClick={() => setGenerationType(GenerationType.Video)} className={`px-2 py-2 text-sm font-semibold rounded-md transition-colors duration-200 ${generationType === GenerationType.Video ? 'bg-blue-600 text-white' : 'text-gray-300 hover:bg-gray-600'}`}>Video</button>
                     <button onClick={() => setGenerationType(GenerationType.Document)} className={`px-2 py-2 text-sm font-semibold rounded-md transition-colors duration-200 ${generationType === GenerationType.Document ? 'bg-blue-600 text-white' : 'text-gray-300 hover:bg-gray-600'}`}>Document</button>
+                    <button onClick={() => setGenerationType(GenerationType.Carousel)} className={`px-2 py-2 text-sm font-semibold rounded-md transition-colors duration-200 ${generationType === GenerationType.Carousel ? 'bg-blue-600 text-white' : 'text-gray-300 hover:bg-gray-600'}`}>Carousel</button>
                     <button onClick={() => setGenerationType(GenerationType.WeeklyContentPlan)} className={`px-2 py-2 text-sm font-semibold rounded-md transition-colors duration-200 ${generationType === GenerationType.WeeklyContentPlan ? 'bg-blue-600 text-white' : 'text-gray-300 hover:bg-gray-600'}`}>Weekly Plan</button>
                     <button onClick={() => setGenerationType(GenerationType.ContentIdeas)} className={`px-2 py-2 text-sm font-semibold rounded-md transition-colors duration-200 ${generationType === GenerationType.ContentIdeas ? 'bg-blue-600 text-white' : 'text-gray-300 hover:bg-gray-600'}`}>Content Ideas</button>
                     <button onClick={() => setGenerationType(GenerationType.Top10Ideas)} className={`px-2 py-2 text-sm font-semibold rounded-md transition-colors duration-200 ${generationType === GenerationType.Top10Ideas ? 'bg-blue-600 text-white' : 'text-gray-300 hover:bg-gray-600'}`}>Top 10 Ideas</button>
@@ -336,6 +400,10 @@ const Controls: React.FC<ControlsProps> = ({
                     <button onClick={() => setGenerationType(GenerationType.CvEnhancement)} className={`px-2 py-2 text-sm font-semibold rounded-md transition-colors duration-200 ${generationType === GenerationType.CvEnhancement ? 'bg-blue-600 text-white' : 'text-gray-300 hover:bg-gray-600'}`}>CV Enhancement</button>
                     <button onClick={() => setGenerationType(GenerationType.ResumeTailoring)} className={`px-2 py-2 text-sm font-semibold rounded-md transition-colors duration-200 ${generationType === GenerationType.ResumeTailoring ? 'bg-blue-600 text-white' : 'text-gray-300 hover:bg-gray-600'}`}>Resume Tailoring</button>
                     <button onClick={() => setGenerationType(GenerationType.CompanyProspector)} className={`px-2 py-2 text-sm font-semibold rounded-md transition-colors duration-200 ${generationType === GenerationType.CompanyProspector ? 'bg-blue-600 text-white' : 'text-gray-300 hover:bg-gray-600'}`}>Prospect Companies</button>
+                    <button onClick={() => setGenerationType(GenerationType.CoverLetter)} className={`px-2 py-2 text-sm font-semibold rounded-md transition-colors duration-200 ${generationType === GenerationType.CoverLetter ? 'bg-blue-600 text-white' : 'text-gray-300 hover:bg-gray-600'}`}>Cover Letter</button>
+                    <button onClick={() => setGenerationType(GenerationType.ConnectionRequest)} className={`px-2 py-2 text-sm font-semibold rounded-md transition-colors duration-200 ${generationType === GenerationType.ConnectionRequest ? 'bg-blue-600 text-white' : 'text-gray-300 hover:bg-gray-600'}`}>Connection Note</button>
+                    <button onClick={() => setGenerationType(GenerationType.RecruiterInMail)} className={`px-2 py-2 text-sm font-semibold rounded-md transition-colors duration-200 ${generationType === GenerationType.RecruiterInMail ? 'bg-blue-600 text-white' : 'text-gray-300 hover:bg-gray-600'}`}>Recruiter InMail</button>
+                    <button onClick={() => setGenerationType(GenerationType.ReferralRequest)} className={`px-2 py-2 text-sm font-semibold rounded-md transition-colors duration-200 ${generationType === GenerationType.ReferralRequest ? 'bg-blue-600 text-white' : 'text-gray-300 hover:bg-gray-600'}`}>Referral Ask</button>
                 </div>
             </div>
 
@@ -351,30 +419,78 @@ const Controls: React.FC<ControlsProps> = ({
                         <button
                             onClick={() => setVideoQuality(VideoQuality.HD)}
                             className={`px-4 py-2 text-sm font-semibold rounded-md transition-colors duration-200 ${videoQuality === VideoQuality.HD ? 'bg-blue-600 text-white' : 'text-gray-300 hover:bg-gray-600'}`}>
-                            High Quality (&gt; 100MB)
+                            High Quality
                         </button>
                     </div>
                 </div>
             )}
 
-            {generationType === GenerationType.Document && (
+            {generationType === GenerationType.Carousel && (
+                <>
                 <div>
-                    <label className="block text-sm font-medium text-gray-300 mb-2">PDF Export Quality (Target Size)</label>
+                    <label htmlFor="slideCount" className="block text-sm font-medium text-gray-300 mb-2">
+                        Content Slides ({slideCount}, plus hook and call-to-action)
+                    </label>
+                    <input
+                        type="range"
+                        id="slideCount"
+                        min="3"
+                        max="12"
+                        value={slideCount}
+                        onChange={(e) => setSlideCount(Number(e.target.value))}
+                        className="w-full h-2 bg-gray-700 rounded-lg appearance-none cursor-pointer accent-blue-500"
+                    />
+                </div>
+                <div>
+                    <label className="block text-sm font-medium text-gray-300 mb-2">Slide Template</label>
+                    <div className="grid grid-cols-3 gap-2 bg-gray-700 p-1 rounded-lg">
+                        {(Object.values(CarouselTemplate) as CarouselTemplate[]).map((template) => (
+                            <button
+                                key={template}
+                                onClick={() => setCarouselTemplate(template)}
+                                className={`px-4 py-2 text-sm font-semibold rounded-md transition-colors duration-200 ${carouselTemplate === template ? 'bg-blue-600 text-white' : 'text-gray-300 hover:bg-gray-600'}`}
+                            >
+                                {carouselTemplateNames[template]}
+                            </button>
+                        ))}
+                    </div>
+                </div>
+                <div>
+                    <label className="block text-sm font-medium text-gray-300 mb-2">Slide Size</label>
+                    <div className="grid grid-cols-2 gap-2 bg-gray-700 p-1 rounded-lg">
+                        <button
+                            onClick={() => setCarouselSize(CarouselSize.Portrait)}
+                            className={`px-4 py-2 text-sm font-semibold rounded-md transition-colors duration-200 ${carouselSize === CarouselSize.Portrait ? 'bg-blue-600 text-white' : 'text-gray-300 hover:bg-gray-600'}`}>
+                            Portrait 4:5 (1080×1350)
+                        </button>
+                        <button
+                            onClick={() => setCarouselSize(CarouselSize.Square)}
+                            className={`px-4 py-2 text-sm font-semibold rounded-md transition-colors duration-200 ${carouselSize === CarouselSize.Square ? 'bg-blue-600 text-white' : 'text-gray-300 hover:bg-gray-600'}`}>
+                            Square (1080×1080)
+                        </button>
+                    </div>
+                </div>
+                </>
+            )}
+
+            {generationType === GenerationType.Carousel && (
+                <div>
+                    <label className="block text-sm font-medium text-gray-300 mb-2">Carousel PDF Quality</label>
                     <div className="grid grid-cols-3 gap-2 bg-gray-700 p-1 rounded-lg">
                         <button
                             onClick={() => setPdfExportQuality(PdfExportQuality.Compact)}
                             className={`px-4 py-2 text-sm font-semibold rounded-md transition-colors duration-200 ${pdfExportQuality === PdfExportQuality.Compact ? 'bg-blue-600 text-white' : 'text-gray-300 hover:bg-gray-600'}`}>
-                            Compact (&lt; 70MB)
+                            Compact
                         </button>
                         <button
                             onClick={() => setPdfExportQuality(PdfExportQuality.Standard)}
                             className={`px-4 py-2 text-sm font-semibold rounded-md transition-colors duration-200 ${pdfExportQuality === PdfExportQuality.Standard ? 'bg-blue-600 text-white' : 'text-gray-300 hover:bg-gray-600'}`}>
-                            Standard (70-100MB)
+                            Standard
                         </button>
                         <button
                             onClick={() => setPdfExportQuality(PdfExportQuality.High)}
                             className={`px-4 py-2 text-sm font-semibold rounded-md transition-colors duration-200 ${pdfExportQuality === PdfExportQuality.High ? 'bg-blue-600 text-white' : 'text-gray-300 hover:bg-gray-600'}`}>
-                            High Quality (&gt; 100MB)
+                            High Quality
                         </button>
                     </div>
                 </div>
@@ -397,6 +513,47 @@ const Controls: React.FC<ControlsProps> = ({
                 </div>
             )}
             
+            {supportsVariants(generationType) && !hasSourceMaterial && (
+                <>
+                <div>
+                    <label className="block text-sm font-medium text-gray-300 mb-2">Variants</label>
+                    <div className="grid grid-cols-3 gap-2 bg-gray-700 p-1 rounded-lg">
+                        {([
+                            [VariantMode.Off, 'Single Draft'],
+                            [VariantMode.Hooks, 'Hooks'],
+                            [VariantMode.Full, 'Full Posts'],
+                        ] as const).map(([mode, label]) => (
+                            <button
+                                key={mode}
+                                onClick={() => setVariantMode(mode)}
+                                className={`px-4 py-2 text-sm font-semibold rounded-md transition-colors duration-200 ${variantMode === mode ? 'bg-blue-600 text-white' : 'text-gray-300 hover:bg-gray-600'}`}
+                            >
+                                {label}
+                            </button>
+                        ))}
+                    </div>
+                    {variantMode === VariantMode.Hooks && <p className="mt-1 text-xs text-gray-500">One post with alternative opening hooks to compare.</p>}
+                    {variantMode === VariantMode.Full && <p className="mt-1 text-xs text-gray-500">Complete alternative posts to compare side by side.</p>}
+                </div>
+                {variantMode !== VariantMode.Off && (
+                    <div>
+                        <label htmlFor="variantCount" className="block text-sm font-medium text-gray-300 mb-2">
+                            Number of Variants ({variantCount})
+                        </label>
+                        <input
+                            type="range"
+                            id="variantCount"
+                            min="2"
+                            max="4"
+                            value={variantCount}
+                            onChange={(e) => setVariantCount(Number(e.target.value))}
+                            className="w-full h-2 bg-gray-700 rounded-lg appearance-none cursor-pointer accent-blue-500"
+                        />
+                    </div>
+                )}
+                </>
+            )}
+
             {generationType === GenerationType.DayWiseContentPlan && (
                 <div>
                     <label className="block text-sm font-medium text-gray-300 mb-2">Select Day</label>
@@ -574,7 +731,28 @@ const Controls: React.FC<ControlsProps> = ({
                 </>
             )}
 
-            {(generationType === GenerationType.Document || generationType === GenerationType.TutorialOutline) && (
+            {generationType === GenerationType.InterviewQuestions && (
+                <div>
+                    <label className="block text-sm font-medium text-gray-300 mb-2">Format</label>
+                    <div className="grid grid-cols-2 gap-2 bg-gray-700 p-1 rounded-lg">
+                        {([
+                            [InterviewMode.QuestionList, 'Question List'],
+                            [InterviewMode.Mock, 'Mock Interview'],
+                        ] as const).map(([mode, label]) => (
+                            <button
+                                key={mode}
+                                onClick={() => setInterviewMode(mode)}
+                                className={`px-4 py-2 text-sm font-semibold rounded-md transition-colors duration-200 ${interviewMode === mode ? 'bg-blue-600 text-white' : 'text-gray-300 hover:bg-gray-600'}`}
+                            >
+                                {label}
+                            </button>
+                        ))}
+                    </div>
+                    {interviewMode === InterviewMode.Mock && <p className="mt-1 text-xs text-gray-500">Answer one question at a time. Each answer is scored with feedback, and the report is saved to history.</p>}
+                </div>
+            )}
+
+            {(generationType === GenerationType.Document || generationType === GenerationType.TutorialOutline || generationType === GenerationType.InterviewQuestions) && (
                  <div>
                     <label className="block text-sm font-medium text-gray-300 mb-2">Difficulty Level</label>
                     <div className="grid grid-cols-3 gap-2 bg-gray-700 p-1 rounded-lg">
@@ -592,23 +770,60 @@ const Controls: React.FC<ControlsProps> = ({
             )}
             
             <div>
-                <label htmlFor="persona" className="block text-sm font-medium text-gray-300 mb-2">
-                    AI Persona
-                </label>
+                <div className="flex justify-between items-center mb-2">
+                    <label htmlFor="persona" className="block text-sm font-medium text-gray-300">
+                        AI Persona
+                    </label>
+                    <button
+                        onClick={onManagePersonas}
+                        className="px-3 py-1 text-xs font-semibold text-blue-300 bg-blue-800/50 hover:bg-blue-800/80 rounded-full transition-colors duration-200"
+                    >
+                        Manage Personas
+                    </button>
+                </div>
                 <select
                     id="persona"
                     value={persona}
-                    onChange={(e) => setPersona(e.target.value as Persona)}
+                    onChange={(e) => setPersona(e.target.value as PersonaId)}
                     className="w-full bg-gray-700 text-white rounded-lg border border-gray-600 px-4 py-2 focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none"
                 >
-                    {Object.values(Persona).map((p) => (
-                        <option key={p} value={p}>
-                            {personaDisplayNames[p]}
-                        </option>
-                    ))}
+                    {customPersonas.length > 0 && (
+                        <optgroup label="My Personas">
+                            {customPersonas.map((p) => (
+                                <option key={p.id} value={p.id}>
+                                    {p.name}
+                                </option>
+                            ))}
+                        </optgroup>
+                    )}
+                    <optgroup label="Built-in Personas">
+                        {Object.values(Persona).map((p) => (
+                            <option key={p} value={p}>
+                                {personaDisplayNames[p]}
+                            </option>
+                        ))}
+                    </optgroup>
                 </select>
             </div>
 
+            {generationType !== GenerationType.Video && (
+                <div>
+                    <label htmlFor="language" className="block text-sm font-medium text-gray-300 mb-2">Language</label>
+                    <select
+                        id="language"
+                        value={language}
+                        onChange={(e) => setLanguage(e.target.value as ContentLanguage)}
+                        className="w-full bg-gray-700 text-white rounded-lg border border-gray-600 px-4 py-2 focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none"
+                    >
+                        {contentLanguages.map((l) => (
+                            <option key={l} value={l}>
+                                {l === ContentLanguage.English ? languageLabels[l] : `${languageLabels[l]} (${languageNames[l]})`}
+                            </option>
+                        ))}
+                    </select>
+                </div>
+            )}
+
             {showToneSelector && (
                  <div>
                     <label className="block text-sm font-medium text-gray-300 mb-2">Writing Tone</label>
@@ -629,7 +844,7 @@ const Controls: React.FC<ControlsProps> = ({
             <div className="relative">
                  <div className="flex items-center justify-between mb-2">
                     <label htmlFor="topic" className="block text-sm font-medium text-gray-300">
-                        {isCareerTopicType ? 'Role / Skill' : 'Topic'}
+                        {isCareerTopicType ? 'Role / Skill' : hasSourceMaterial ? 'Focus (optional)' : 'Topic'}
                     </label>
                     <div className="relative">
                         <button
@@ -665,7 +880,7 @@ const Controls: React.FC<ControlsProps> = ({
                     onChange={(e) => setTopic(e.target.value)}
                     onFocus={handleTopicFocus}
                     onBlur={() => setTimeout(() => setSuggestionsVisible(false), 200)}
-                    placeholder={topicPlaceholders[generationType] || "Enter a topic"}
+                    placeholder={hasSourceMaterial ? "e.g., 'The findings on patient outcomes'" : topicPlaceholders[generationType] || "Enter a topic"}
                     className="w-full bg-gray-700 text-white rounded-lg border border-gray-600 px-4 py-2 focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none"
                     autoComplete="off"
                 />
@@ -774,17 +989,29 @@ const Controls: React.FC<ControlsProps> = ({
                                 <>
                                     <ul className="divide-y divide-gray-600 overflow-y-auto">
                                         {filteredCompanies.map((suggestion, index) => (
-                                            <li key={index}>
+                                            <li key={index} className="flex items-center">
                                                 <button
                                                     type="button"
                                                     onClick={() => {
                                                         setCompany(suggestion.name);
                                                         setCompanySuggestionsVisible(false);
                                                     }}
-                                                    className="w-full text-left px-4 py-2 text-sm text-gray-300 hover:bg-gray-600 transition-colors duration-150"
+                                                    className="flex-grow text-left px-4 py-2 text-sm text-gray-300 hover:bg-gray-600 transition-colors duration-150"
                                                 >
                                                     {suggestion.name}
                                                 </button>
+                                                {findProspect(prospects, suggestion.name) ? (
+                                                    <span className="px-3 text-xs text-green-300" title="On your prospects board">✓</span>
+                                                ) : (
+                                                    <button
+                                                        type="button"
+                                                        onClick={() => onSaveProspect(suggestion)}
+                                                        className="px-3 py-2 text-xs font-semibold text-blue-300 hover:bg-gray-600 transition-colors duration-150"
+                                                        title="Save to your prospects board"
+                                                    >
+                                                        + Save
+                                                    </button>
+                                                )}
                                             </li>
                                         ))}
                                     </ul>
@@ -821,6 +1048,18 @@ const Controls: React.FC<ControlsProps> = ({
                 </div>
             )}
 
+            {(generationType === GenerationType.CvEnhancement || generationType === GenerationType.ResumeTailoring) && (
+                <ResumeInputPanel value={resumeInput} onChange={setResumeInput} />
+            )}
+
+            {generationType === GenerationType.CompanyProspector && (
+                <ResumeInputPanel value={resumeInput} onChange={setResumeInput} scoreOnly />
+            )}
+
+            {isSourceGenerationType(generationType) && (
+                <SourceMaterialPanel value={sourceMaterial} onChange={setSourceMaterial} />
+            )}
+
             {generationType === GenerationType.Document && (
                 <div>
                     <label htmlFor="pageCount" className="block text-sm font-medium text-gray-300 mb-2">
@@ -840,7 +1079,7 @@ const Controls: React.FC<ControlsProps> = ({
 
             <button
                 onClick={onGenerate}
-                disabled={isLoading || !topic.trim()}
+                disabled={isLoading || (!topic.trim() && !hasSourceMaterial)}
                 className="w-full bg-gradient-to-r from-blue-500 to-purple-600 text-white font-bold py-3 px-4 rounded-lg hover:from-blue-600 hover:to-purple-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-offset-gray-900 focus:ring-blue-500 disabled:opacity-50 disabled:cursor-not-allowed transition-all duration-300 flex items-center justify-center"
             >
                 {isLoading ? (
@@ -851,6 +1090,8 @@ const Controls: React.FC<ControlsProps> = ({
                         </svg>
                         Generating...
                     </>
+                ) : generationType === GenerationType.InterviewQuestions && interviewMode === InterviewMode.Mock ? (
+                    'Start Mock Interview'
                 ) : (
                     'Generate Content'
                 )}
@@ -1,18 +1,25 @@
 import React from 'react';
+import { BrandKit } from '../types';
+import { brandFontStacks } from '../services/brandKitStore';
+import { TextDirection } from '../services/language';
 
 interface DownloadableStyledContentProps {
   htmlContent: string;
   topic: string;
+  brandKit: BrandKit;
+  direction?: TextDirection;
 }
 
 const DownloadableStyledContent = React.forwardRef<HTMLDivElement, DownloadableStyledContentProps>(
-  ({ htmlContent, topic }, ref) => {
+  ({ htmlContent, topic, brandKit, direction = 'ltr' }, ref) => {
     // This component is rendered off-screen and used by html-to-image
     // to generate a modern, professionally styled shareable image.
     return (
       <div
         ref={ref}
-        className="bg-slate-50 text-slate-900 p-16 w-[1080px] h-[1080px] flex flex-col font-inter"
+        dir={direction}
+        className="bg-slate-50 text-slate-900 p-16 w-[1080px] h-[1080px] flex flex-col"
+        style={{ fontFamily: brandFontStacks[brandKit.bodyFont] }}
       >
         {/* Style tag to override prose defaults for a more compact layout suitable for an image */}
         <style>{`
@@ -37,11 +44,20 @@ const DownloadableStyledContent = React.forwardRef<HTMLDivElement, DownloadableS
                 margin-top: 0.25em;
                 margin-bottom: 0.25em;
             }
+            [dir='rtl'] .image-content ul, [dir='rtl'] .image-content ol {
+                padding-left: 0;
+                padding-right: 1.625em;
+            }
+            [dir='rtl'] .image-content pre {
+                direction: ltr;
+                text-align: left;
+            }
         `}</style>
-        <header className="mb-8 pb-4 border-b-2 border-slate-200">
-            <h1 className="text-5xl font-bold text-slate-800 font-playfair-display break-words">
+        <header className="mb-8 pb-4 border-b-2 flex items-start justify-between gap-8" style={{ borderColor: brandKit.primaryColor }}>
+            <h1 className="text-5xl font-bold text-slate-800 break-words" style={{ fontFamily: brandFontStacks[brandKit.headingFont] }}>
                 {topic}
             </h1>
+            {brandKit.logoDataUrl && <img src={brandKit.logoDataUrl} alt="" className="h-16 max-w-[240px] object-contain flex-shrink-0" />}
         </header>
 
         <main className="flex-grow overflow-hidden">
@@ -51,18 +67,31 @@ const DownloadableStyledContent = React.forwardRef<HTMLDivElement, DownloadableS
             />
         </main>
         
-        <footer className="mt-auto pt-4 border-t-2 border-slate-200 text-center text-sm text-slate-600">
-            <p className="mb-1 font-semibold">
-                Found this useful? Repost to share with your network and help spread knowledge!
-            </p>
-            <a 
-                href="https://www.linkedin.com/in/ganapathi-kakarla-b82341178/" 
-                target="_blank" 
-                rel="noopener noreferrer" 
-                className="text-blue-600 hover:underline"
-            >
-                Connect with Ganapathi Kakarla
-            </a>
+        <footer className="mt-auto pt-4 border-t-2 text-sm text-slate-600 flex items-center justify-between gap-6" style={{ borderColor: brandKit.secondaryColor }}>
+            <div className="flex items-center gap-3 min-w-0">
+                {brandKit.avatarDataUrl && <img src={brandKit.avatarDataUrl} alt="" className="w-12 h-12 rounded-full object-cover flex-shrink-0" />}
+                <div className="min-w-0">
+                    {brandKit.profileUrl ? (
+                        <a
+                            href={brandKit.profileUrl}
+                            target="_blank"
+                            rel="noopener noreferrer"
+                            className="font-semibold hover:underline"
+                            style={{ color: brandKit.primaryColor }}
+                        >
+                            Connect with {brandKit.authorName}
+                        </a>
+                    ) : (
+                        <p className="font-semibold text-slate-800">{brandKit.authorName}</p>
+                    )}
+                    {brandKit.headline && <p className="truncate">{brandKit.headline}</p>}
+                </div>
+            </div>
+            {brandKit.ctaText && (
+                <p className="font-semibold text-end">
+                    {brandKit.ctaText}
+                </p>
+            )}
         </footer>
       </div>
     );
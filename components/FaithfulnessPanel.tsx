@@ -0,0 +1,145 @@
+import React, { useState, useMemo } from 'react';
+import { FaithfulnessReport, FaithfulnessVerdict, SourceMaterial } from '../types';
+import { containsPassage, sourceKindLabels, verifyQuotes } from '../services/sourceMaterial';
+
+interface FaithfulnessPanelProps {
+    text: string;
+    source: SourceMaterial;
+    report?: FaithfulnessReport;
+    onCheck: () => Promise<void>;
+}
+
+const verdictStyles: Record<FaithfulnessVerdict, string> = {
+    supported: 'text-green-200 bg-green-800/60',
+    partial: 'text-yellow-200 bg-yellow-800/60',
+    unsupported: 'text-red-200 bg-red-800/60',
+};
+
+const verdictLabels: Record<FaithfulnessVerdict, string> = {
+    supported: 'Supported',
+    partial: 'Partly supported',
+    unsupported: 'Not in source',
+};
+
+/**
+ * Checks content written from source material against that source: every quotation is looked up
+ * in the source word for word as the text changes, and the claims are checked by the model after
+ * generation and again on request.
+ */
+const FaithfulnessPanel: React.FC<FaithfulnessPanelProps> = ({ text, source, report, onCheck }) => {
+    const [isVisible, setIsVisible] = useState(true);
+    const [isChecking, setIsChecking] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+    const quotes = useMemo(() => verifyQuotes(text, source.text), [text, source.text]);
+    const evidenceFound = useMemo(
+        () => report?.claims.map(claim => !claim.evidence || containsPassage(source.text, claim.evidence)) ?? [],
+        [report, source.text]
+    );
+
+    const supportedCount = report?.claims.filter(claim => claim.verdict === 'supported').length ?? 0;
+    const misquoteCount = quotes.filter(quote => !quote.found).length;
+    const isOutdated = !!report && report.checkedText !== text;
+
+    const handleCheck = async () => {
+        setIsChecking(true);
+        setError(null);
+        try {
+            await onCheck();
+        } catch (e: unknown) {
+            setError(e instanceof Error ? e.message : 'Failed to check the content.');
+        } finally {
+            setIsChecking(false);
+        }
+    };
+
+    return (
+        <div className="mt-8 pt-4 border-t border-gray-700">
+            <button
+                onClick={() => setIsVisible(!isVisible)}
+                className="flex justify-between items-center w-full text-left"
+            >
+                <h4 className="text-lg font-semibold text-gray-300">
+                    Source Check
+                    <span className="ml-2 text-sm font-normal text-gray-400">
+                        {report ? `${supportedCount} of ${report.claims.length} claims supported` : 'Not checked yet'}
+                        {misquoteCount > 0 && ` · ${misquoteCount} quote${misquoteCount === 1 ? '' : 's'} not in the source`}
+                    </span>
+                </h4>
+                <svg xmlns="http://www.w3.org/2000/svg" className={`h-5 w-5 text-gray-400 transition-transform ${isVisible ? 'rotate-180' : ''}`} fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth="2">
+                  <path strokeLinecap="round" strokeLinejoin="round" d="M19 9l-7 7-7-7" />
+                </svg>
+            </button>
+            {isVisible && (
+                <div className="mt-3 space-y-4">
+                    <div className="flex flex-wrap items-center justify-between gap-2 text-sm">
+                        <p className="text-gray-400 min-w-0">
+                            {sourceKindLabels[source.kind]}: <span className="text-gray-200">{source.title}</span>
+                            {source.author && <> by <span className="text-gray-200">{source.author}</span></>}
+                            {source.url && (
+                                <> · <a href={source.url} target="_blank" rel="noopener noreferrer" className="text-blue-400 hover:text-blue-300 hover:underline">link</a></>
+                            )}
+                        </p>
+                        <button
+                            onClick={handleCheck}
+                            disabled={isChecking}
+                            className="px-3 py-1 text-xs font-semibold text-blue-300 bg-blue-800/50 hover:bg-blue-800/80 rounded-full transition-colors duration-200 disabled:opacity-50"
+                        >
+                            {isChecking ? 'Checking...' : report ? 'Check Again' : 'Check Against Source'}
+                        </button>
+                    </div>
+                    {isOutdated && <p className="text-xs text-yellow-400">The content has changed since it was checked.</p>}
+                    {error && <p className="text-xs text-red-400">{error}</p>}
+
+                    {quotes.length > 0 && (
+                        <div>
+                            <p className="text-xs font-semibold uppercase tracking-wide text-gray-500 mb-2">Quotations</p>
+                            <ul className="space-y-1">
+                                {quotes.map((quote, index) => (
+                                    <li key={index} className="flex items-start gap-2 text-sm">
+                                        <span className={quote.found ? 'text-green-400' : 'text-red-400'}>{quote.found ? '✓' : '✗'}</span>
+                                        <span className="text-gray-300">
+                                            “{quote.quote}”
+                                            {!quote.found && <span className="ml-2 text-xs text-red-400">Not found word for word in the source</span>}
+                                        </span>
+                                    </li>
+                                ))}
+                            </ul>
+                        </div>
+                    )}
+
+                    {report && report.claims.length > 0 && (
+                        <div>
+                            <p className="text-xs font-semibold uppercase tracking-wide text-gray-500 mb-2">Claims</p>
+                            <ul className="space-y-2">
+                                {report.claims.map((claim, index) => (
+                                    <li key={index} className="bg-gray-900/60 rounded-lg border border-gray-700 p-3">
+                                        <div className="flex items-start justify-between gap-3">
+                                            <p className="text-sm text-gray-200">{claim.claim}</p>
+                                            <span className={`flex-shrink-0 px-2 py-0.5 text-xs font-semibold rounded-full ${verdictStyles[claim.verdict]}`}>
+                                                {verdictLabels[claim.verdict]}
+                                            </span>
+                                        </div>
+                                        {claim.evidence && (
+                                            <blockquote className="mt-2 border-l-2 border-gray-600 pl-3 text-xs text-gray-400 italic">
+                                                {claim.evidence}
+                                                {!evidenceFound[index] && (
+                                                    <span className="not-italic ml-2 text-yellow-400">(paraphrased, not found word for word)</span>
+                                                )}
+                                            </blockquote>
+                                        )}
+                                        {claim.note && <p className="mt-2 text-xs text-gray-400">{claim.note}</p>}
+                                    </li>
+                                ))}
+                            </ul>
+                        </div>
+                    )}
+                    {report && report.claims.length === 0 && (
+                        <p className="text-sm text-gray-400">No factual claims were found to check.</p>
+                    )}
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default FaithfulnessPanel;
@@ -0,0 +1,171 @@
+import React, { useState, useMemo, useEffect } from 'react';
+import { marked } from 'marked';
+import { CarouselSlideCard, CAROUSEL_DIMENSIONS } from './CarouselSlides';
+import { toLinkedInText, splitAtFold, LINKEDIN_FOLD_CHARS, LINKEDIN_MOBILE_FOLD_CHARS } from '../services/linkedinFormatter';
+import { GenerationResult, GenerationType, ImageAspectRatio, CarouselTemplate, CarouselSize, BrandKit } from '../types';
+
+type FeedDevice = 'desktop' | 'mobile';
+
+interface FeedPreviewProps {
+    result: GenerationResult;
+    generationType: GenerationType;
+    topic: string;
+    authorName: string;
+    imageAspectRatio: ImageAspectRatio;
+    carouselTemplate: CarouselTemplate;
+    carouselSize: CarouselSize;
+    brandKit: BrandKit;
+}
+
+// Width of the post card in LinkedIn's desktop feed column and on a typical phone.
+const FEED_WIDTHS: Record<FeedDevice, number> = { desktop: 555, mobile: 375 };
+const FOLD_CHARS: Record<FeedDevice, number> = { desktop: LINKEDIN_FOLD_CHARS, mobile: LINKEDIN_MOBILE_FOLD_CHARS };
+
+// Rough words per page of an exported document, for the page count on the thumbnail.
+const WORDS_PER_PAGE = 350;
+const DOCUMENT_PAGE_WIDTH = 595;
+
+const getInitials = (name: string): string => {
+    return name.split(/\s+/).filter(Boolean).slice(0, 2).map(word => word[0].toUpperCase()).join('');
+};
+
+// A document is posted with a short caption, so the preview uses its title and opening paragraph.
+const getDocumentCaption = (markdown: string): { title: string; caption: string } => {
+    const tokens = marked.lexer(markdown);
+    const heading = tokens.find(token => token.type === 'heading');
+    const paragraph = tokens.find(token => token.type === 'paragraph');
+    return {
+        title: heading && 'text' in heading ? heading.text.replace(/[*_`]/g, '') : '',
+        caption: paragraph?.raw.trim() ?? '',
+    };
+};
+
+const DocumentThumbnail: React.FC<{ markdown: string; title: string; width: number }> = ({ markdown, title, width }) => {
+    const html = useMemo(() => marked.parse(markdown.slice(0, 1500)) as string, [markdown]);
+    const pages = Math.max(1, Math.ceil(markdown.split(/\s+/).length / WORDS_PER_PAGE));
+    const scale = width / DOCUMENT_PAGE_WIDTH;
+
+    return (
+        <div className="relative bg-gray-100 overflow-hidden" style={{ width, height: width * 1.1 }}>
+            <div
+                className="prose prose-sm bg-white text-gray-900 p-10"
+                style={{ width: DOCUMENT_PAGE_WIDTH, minHeight: DOCUMENT_PAGE_WIDTH * 1.414, transform: `scale(${scale})`, transformOrigin: 'top left' }}
+                dangerouslySetInnerHTML={{ __html: html }}
+            />
+            <div className="absolute inset-x-0 bottom-0 bg-gray-900/85 text-white px-4 py-2 text-sm">
+                <p className="font-semibold truncate">{title || 'Document'}</p>
+                <p className="text-xs text-gray-300">{pages} page{pages === 1 ? '' : 's'}</p>
+            </div>
+        </div>
+    );
+};
+
+/**
+ * Mock-up of the content as a post in the LinkedIn feed, at desktop or mobile width,
+ * with the text folded behind "…see more" the way the feed shows it.
+ */
+const FeedPreview: React.FC<FeedPreviewProps> = ({ result, generationType, topic, authorName, imageAspectRatio, carouselTemplate, carouselSize, brandKit }) => {
+    const [device, setDevice] = useState<FeedDevice>('desktop');
+    const [isExpanded, setIsExpanded] = useState(false);
+
+    useEffect(() => {
+        setIsExpanded(false);
+    }, [result.text, device]);
+
+    const isDocument = generationType === GenerationType.Document && !result.carouselSlides;
+    const documentCaption = useMemo(() => (isDocument ? getDocumentCaption(result.text) : null), [isDocument, result.text]);
+
+    const postText = useMemo(() => {
+        if (result.carouselSlides) {
+            const hook = result.carouselSlides[0];
+            return hook ? `${hook.title}\n\n${hook.body}` : topic;
+        }
+        return toLinkedInText(documentCaption ? documentCaption.caption || topic : result.text);
+    }, [result.text, result.carouselSlides, documentCaption, topic]);
+
+    const width = FEED_WIDTHS[device];
+    const [aboveFold, belowFold] = splitAtFold(postText, FOLD_CHARS[device]);
+    const firstSlide = result.carouselSlides?.[0];
+    const slideDimensions = CAROUSEL_DIMENSIONS[carouselSize];
+    const slideScale = width / slideDimensions.width;
+
+    return (
+        <div className="not-prose">
+            <div className="flex justify-center gap-2 mb-4">
+                {(['desktop', 'mobile'] as const).map(option => (
+                    <button
+                        key={option}
+                        onClick={() => setDevice(option)}
+                        className={`px-3 py-1 text-xs font-semibold rounded-full transition-colors duration-200 ${device === option ? 'text-white bg-blue-600' : 'text-blue-300 bg-blue-800/50 hover:bg-blue-800/80'}`}
+                    >
+                        {option === 'desktop' ? 'Desktop' : 'Mobile'}
+                    </button>
+                ))}
+            </div>
+
+            <div className="mx-auto bg-white text-gray-900 rounded-lg shadow-lg overflow-hidden" style={{ width, maxWidth: '100%', fontFamily: '-apple-system, system-ui, "Segoe UI", Roboto, sans-serif' }}>
+                <div className="flex items-start gap-2 px-4 pt-3">
+                    {brandKit.avatarDataUrl ? (
+                        <img src={brandKit.avatarDataUrl} alt="" className="w-12 h-12 rounded-full object-cover flex-shrink-0" />
+                    ) : (
+                        <div className="w-12 h-12 rounded-full bg-blue-700 text-white flex items-center justify-center font-semibold flex-shrink-0">
+                            {getInitials(authorName)}
+                        </div>
+                    )}
+                    <div className="min-w-0 flex-grow">
+                        <p className="text-sm font-semibold leading-tight truncate">{authorName} <span className="font-normal text-gray-500">• 1st</span></p>
+                        {brandKit.headline && <p className="text-xs text-gray-500 leading-tight truncate">{brandKit.headline}</p>}
+                        <p className="text-xs text-gray-500 leading-tight">Now • &#x1F310;</p>
+                    </div>
+                    <span className="text-sm font-semibold text-blue-700 flex-shrink-0">+ Follow</span>
+                </div>
+
+                <div className="px-4 py-2 text-sm leading-5 whitespace-pre-wrap break-words">
+                    {isExpanded || !belowFold ? postText : (
+                        <>
+                            {aboveFold.trimEnd()}
+                            <button onClick={() => setIsExpanded(true)} className="text-gray-500 hover:text-blue-700 hover:underline">…see more</button>
+                        </>
+                    )}
+                </div>
+
+                {generationType === GenerationType.ImagePost && result.imageUrl && (
+                    <img
+                        src={result.imageUrl}
+                        alt="Post visual"
+                        className="w-full object-cover"
+                        style={{ aspectRatio: imageAspectRatio.replace(':', ' / ') }}
+                    />
+                )}
+                {firstSlide && (
+                    <div className="relative overflow-hidden" style={{ height: slideDimensions.height * slideScale }}>
+                        <div style={{ transform: `scale(${slideScale})`, transformOrigin: 'top left' }}>
+                            <CarouselSlideCard slide={firstSlide} index={0} total={result.carouselSlides!.length} template={carouselTemplate} size={carouselSize} brandKit={brandKit} />
+                        </div>
+                        <span className="absolute top-3 right-3 px-2 py-0.5 text-xs font-semibold text-white bg-gray-900/75 rounded">
+                            1 / {result.carouselSlides!.length}
+                        </span>
+                    </div>
+                )}
+                {isDocument && documentCaption && (
+                    <DocumentThumbnail markdown={result.text} title={documentCaption.title || topic} width={width} />
+                )}
+
+                <div className="flex justify-between px-4 py-1 text-xs text-gray-500 border-b border-gray-200">
+                    <span>&#x1F44D;&#x2764;&#xFE0F; 128</span>
+                    <span>24 comments • 9 reposts</span>
+                </div>
+                <div className="flex justify-around px-2 py-1 text-sm font-semibold text-gray-600">
+                    {['Like', 'Comment', 'Repost', 'Send'].map(action => (
+                        <span key={action} className="px-2 py-2">{action}</span>
+                    ))}
+                </div>
+            </div>
+            <p className="mt-3 text-center text-xs text-gray-500">
+                Approximate preview. The fold falls after about {FOLD_CHARS[device]} characters or three lines.
+            </p>
+        </div>
+    );
+};
+
+export default FeedPreview;
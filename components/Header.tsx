@@ -1,21 +1,45 @@
 
 import React from 'react';
+import { BrandKit } from '../types';
 
-const Header: React.FC = () => {
+interface HeaderProps {
+    brandKits: BrandKit[];
+    activeBrandKit: BrandKit;
+    onSelectBrandKit: (id: string) => void;
+    onManageBrandKits: () => void;
+}
+
+const Header: React.FC<HeaderProps> = ({ brandKits, activeBrandKit, onSelectBrandKit, onManageBrandKits }) => {
     return (
         <header className="w-full p-4 bg-gray-900/80 backdrop-blur-sm border-b border-gray-700 fixed top-0 left-0 z-10">
-            <div className="container mx-auto flex items-center justify-center text-center">
+            <div className="container mx-auto flex flex-col md:flex-row items-center justify-center text-center relative">
                 <div>
                     <h1 className="text-3xl font-bold text-white tracking-tight">
                         LinkedIn Content Engine
                     </h1>
                     <p className="text-md text-gray-400 mt-1">
-                        Powered by Gemini for Ganapathi Kakarla
+                        Powered by Gemini{activeBrandKit.authorName ? ` for ${activeBrandKit.authorName}` : ''}
                     </p>
                 </div>
+                <div className="flex items-center gap-2 mt-2 md:mt-0 md:absolute md:right-0">
+                    <select
+                        value={activeBrandKit.id}
+                        onChange={(e) => onSelectBrandKit(e.target.value)}
+                        className="max-w-[12rem] bg-gray-700 text-white rounded-lg border border-gray-600 px-2 py-1 text-xs outline-none"
+                        aria-label="Active brand kit"
+                    >
+                        {brandKits.map(kit => <option key={kit.id} value={kit.id}>{kit.name}</option>)}
+                    </select>
+                    <button
+                        onClick={onManageBrandKits}
+                        className="px-3 py-1 text-xs font-semibold text-blue-300 bg-blue-800/50 hover:bg-blue-800/80 rounded-full transition-colors duration-200"
+                    >
+                        Brand Kits
+                    </button>
+                </div>
             </div>
         </header>
     );
 };
 
-export default Header;
\ No newline at end of file
+export default Header;
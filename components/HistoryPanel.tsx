@@ -1,19 +1,71 @@
-import React from 'react';
-import { HistoryItem, GenerationType } from '../types';
+import React, { useState, useMemo, useEffect } from 'react';
+import { HistoryItem, GenerationType, HistoryFilters, PersonaId, Tone } from '../types';
+import { filterHistory, createEmptyHistoryFilters } from '../services/historyStore';
+import { getPersonaDisplayName } from '../services/personaStore';
 
 interface HistoryPanelProps {
     history: HistoryItem[];
     onLoad: (item: HistoryItem) => void;
     onDelete: (id: string) => void;
+    onUpdate: (item: HistoryItem) => void;
     onClear: () => void;
 }
 
+const PAGE_SIZE = 20;
+
 // Helper to format the GenerationType enum into a readable string
 const formatGenerationType = (type: GenerationType): string => {
     return type.replace(/([A-Z])/g, ' $1').replace(/^./, (str) => str.toUpperCase());
 };
 
-const HistoryPanel: React.FC<HistoryPanelProps> = ({ history, onLoad, onDelete, onClear }) => {
+const selectClass = "w-full bg-gray-700 text-white rounded-lg border border-gray-600 px-2 py-1 text-xs outline-none";
+
+const HistoryPanel: React.FC<HistoryPanelProps> = ({ history, onLoad, onDelete, onUpdate, onClear }) => {
+    const [filters, setFilters] = useState<HistoryFilters>(createEmptyHistoryFilters);
+    const [filtersVisible, setFiltersVisible] = useState(false);
+    const [page, setPage] = useState(0);
+    const [taggingId, setTaggingId] = useState<string | null>(null);
+    const [tagInput, setTagInput] = useState('');
+
+    // Only offer filter values that occur in the history.
+    const { types, personas, tones, tags } = useMemo(() => ({
+        types: Array.from(new Set(history.map(item => item.options.type))),
+        personas: Array.from(new Set(history.map(item => item.options.persona))),
+        tones: Array.from(new Set(history.map(item => item.options.tone).filter((t): t is Tone => !!t))),
+        tags: Array.from(new Set(history.flatMap(item => item.tags ?? []))).sort(),
+    }), [history]);
+
+    const filtered = useMemo(() => filterHistory(history, filters), [history, filters]);
+    const pageCount = Math.max(1, Math.ceil(filtered.length / PAGE_SIZE));
+    const pageItems = filtered.slice(page * PAGE_SIZE, (page + 1) * PAGE_SIZE);
+    const activeFilterCount = [filters.type, filters.persona, filters.tone, filters.tag, filters.from, filters.to].filter(Boolean).length;
+
+    useEffect(() => {
+        setPage(0);
+    }, [filters]);
+
+    // Stay on a valid page when items are deleted.
+    useEffect(() => {
+        if (page >= pageCount) setPage(pageCount - 1);
+    }, [page, pageCount]);
+
+    const updateFilter = <K extends keyof HistoryFilters>(field: K, value: HistoryFilters[K]) => {
+        setFilters(prev => ({ ...prev, [field]: value }));
+    };
+
+    const addTag = (item: HistoryItem) => {
+        const tag = tagInput.trim().toLowerCase();
+        if (tag && !item.tags?.includes(tag)) {
+            onUpdate({ ...item, tags: [...(item.tags ?? []), tag] });
+        }
+        setTagInput('');
+        setTaggingId(null);
+    };
+
+    const removeTag = (item: HistoryItem, tag: string) => {
+        onUpdate({ ...item, tags: (item.tags ?? []).filter(t => t !== tag) });
+    };
+
     if (history.length === 0) {
         return (
             <div className="bg-gray-800 p-6 rounded-2xl shadow-lg text-center text-gray-400 h-full flex flex-col items-center justify-center">
@@ -37,45 +89,172 @@ const HistoryPanel: React.FC<HistoryPanelProps> = ({ history, onLoad, onDelete,
                     Clear All
                 </button>
             </div>
-            <ul className="space-y-3 overflow-y-auto flex-grow pr-2">
-                {history.map((item) => (
-                    <li key={item.id} className="bg-gray-700/50 p-4 rounded-lg group">
-                        <div className="flex justify-between items-start">
-                             <div>
-                                <p className="font-bold text-white truncate max-w-xs">{item.options.topic}</p>
-                                <p className="text-xs text-gray-400">
-                                    {formatGenerationType(item.options.type)} &middot;{' '}
-                                    {new Intl.DateTimeFormat('en-US', {
-                                        year: 'numeric',
-                                        month: 'short',
-                                        day: 'numeric',
-                                        hour: '2-digit',
-                                        minute: '2-digit',
-                                    }).format(new Date(item.timestamp))}
-                                </p>
+
+            <div className="px-2 mb-3 space-y-2">
+                <div className="flex gap-2">
+                    <input
+                        type="search"
+                        value={filters.query}
+                        onChange={(e) => updateFilter('query', e.target.value)}
+                        placeholder="Search topics, tags and content..."
+                        className="flex-grow min-w-0 bg-gray-700 text-white rounded-lg border border-gray-600 px-3 py-1.5 text-sm focus:ring-2 focus:ring-blue-500 outline-none"
+                        aria-label="Search history"
+                    />
+                    <button
+                        onClick={() => updateFilter('favoritesOnly', !filters.favoritesOnly)}
+                        title="Show favorites only"
+                        className={`px-2 rounded-lg border transition-colors ${filters.favoritesOnly ? 'border-yellow-500 text-yellow-400 bg-yellow-900/30' : 'border-gray-600 text-gray-400 hover:text-white'}`}
+                    >
+                        <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" viewBox="0 0 20 20" fill="currentColor"><path d="M9.049 2.927c.3-.921 1.603-.921 1.902 0l1.07 3.292a1 1 0 00.95.69h3.462c.969 0 1.371 1.24.588 1.81l-2.8 2.034a1 1 0 00-.364 1.118l1.07 3.292c.3.921-.755 1.688-1.54 1.118l-2.8-2.034a1 1 0 00-1.175 0l-2.8 2.034c-.784.57-1.838-.197-1.539-1.118l1.07-3.292a1 1 0 00-.364-1.118L2.98 8.72c-.783-.57-.38-1.81.588-1.81h3.461a1 1 0 00.951-.69l1.07-3.292z" /></svg>
+                    </button>
+                    <button
+                        onClick={() => setFiltersVisible(!filtersVisible)}
+                        className={`px-3 text-xs font-semibold rounded-lg border transition-colors ${filtersVisible || activeFilterCount > 0 ? 'border-blue-500 text-blue-300' : 'border-gray-600 text-gray-400 hover:text-white'}`}
+                    >
+                        Filters{activeFilterCount > 0 ? ` (${activeFilterCount})` : ''}
+                    </button>
+                </div>
+
+                {filtersVisible && (
+                    <div className="grid grid-cols-2 gap-2 bg-gray-900/40 p-2 rounded-lg">
+                        <select value={filters.type} onChange={(e) => updateFilter('type', e.target.value as GenerationType | '')} className={selectClass} aria-label="Filter by type">
+                            <option value="">All types</option>
+                            {types.map(type => <option key={type} value={type}>{formatGenerationType(type)}</option>)}
+                        </select>
+                        <select value={filters.persona} onChange={(e) => updateFilter('persona', e.target.value as PersonaId | '')} className={selectClass} aria-label="Filter by persona">
+                            <option value="">All personas</option>
+                            {personas.map(persona => <option key={persona} value={persona}>{getPersonaDisplayName(persona)}</option>)}
+                        </select>
+                        <select value={filters.tone} onChange={(e) => updateFilter('tone', e.target.value as Tone | '')} className={selectClass} aria-label="Filter by tone">
+                            <option value="">All tones</option>
+                            {tones.map(tone => <option key={tone} value={tone} className="capitalize">{tone}</option>)}
+                        </select>
+                        <select value={filters.tag} onChange={(e) => updateFilter('tag', e.target.value)} className={selectClass} aria-label="Filter by tag" disabled={tags.length === 0}>
+                            <option value="">{tags.length === 0 ? 'No tags yet' : 'All tags'}</option>
+                            {tags.map(tag => <option key={tag} value={tag}>#{tag}</option>)}
+                        </select>
+                        <label className="text-xs text-gray-400">
+                            From
+                            <input type="date" value={filters.from} onChange={(e) => updateFilter('from', e.target.value)} className={`${selectClass} mt-1`} />
+                        </label>
+                        <label className="text-xs text-gray-400">
+                            To
+                            <input type="date" value={filters.to} onChange={(e) => updateFilter('to', e.target.value)} className={`${selectClass} mt-1`} />
+                        </label>
+                        {activeFilterCount > 0 && (
+                            <button
+                                onClick={() => setFilters(prev => ({ ...createEmptyHistoryFilters(), query: prev.query, favoritesOnly: prev.favoritesOnly }))}
+                                className="col-span-2 text-xs text-blue-300 hover:text-blue-200"
+                            >
+                                Reset filters
+                            </button>
+                        )}
+                    </div>
+                )}
+            </div>
+
+            {filtered.length === 0 ? (
+                <p className="flex-grow text-sm text-gray-400 text-center pt-8">No history matches your search.</p>
+            ) : (
+                <ul className="space-y-3 overflow-y-auto flex-grow pr-2">
+                    {pageItems.map((item) => (
+                        <li key={item.id} className="bg-gray-700/50 p-4 rounded-lg group">
+                            <div className="flex justify-between items-start">
+                                 <div className="min-w-0">
+                                    <p className="font-bold text-white truncate max-w-xs">{item.options.topic}</p>
+                                    <p className="text-xs text-gray-400">
+                                        {formatGenerationType(item.options.type)} &middot;{' '}
+                                        {new Intl.DateTimeFormat('en-US', {
+                                            year: 'numeric',
+                                            month: 'short',
+                                            day: 'numeric',
+                                            hour: '2-digit',
+                                            minute: '2-digit',
+                                        }).format(new Date(item.timestamp))}
+                                    </p>
+                                </div>
+                                <div className="flex items-center gap-2">
+                                    <button
+                                        onClick={() => onUpdate({ ...item, favorite: !item.favorite })}
+                                        title={item.favorite ? "Remove from favorites" : "Add to favorites"}
+                                        className={`p-1.5 rounded-full transition-opacity duration-200 ${item.favorite ? 'text-yellow-400' : 'text-gray-400 hover:text-yellow-300 opacity-0 group-hover:opacity-100'}`}
+                                    >
+                                        <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" viewBox="0 0 20 20" fill="currentColor"><path d="M9.049 2.927c.3-.921 1.603-.921 1.902 0l1.07 3.292a1 1 0 00.95.69h3.462c.969 0 1.371 1.24.588 1.81l-2.8 2.034a1 1 0 00-.364 1.118l1.07 3.292c.3.921-.755 1.688-1.54 1.118l-2.8-2.034a1 1 0 00-1.175 0l-2.8 2.034c-.784.57-1.838-.197-1.539-1.118l1.07-3.292a1 1 0 00-.364-1.118L2.98 8.72c-.783-.57-.38-1.81.588-1.81h3.461a1 1 0 00.951-.69l1.07-3.292z" /></svg>
+                                    </button>
+                                    <div className="flex items-center gap-2 opacity-0 group-hover:opacity-100 transition-opacity duration-200">
+                                        <button
+                                            onClick={() => onLoad(item)}
+                                            title="Load this item"
+                                            className="p-1.5 text-blue-300 bg-blue-800/50 hover:bg-blue-800/80 rounded-full"
+                                        >
+                                             <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}><path strokeLinecap="round" strokeLinejoin="round" d="M4 4v5h5M20 20v-5h-5M4 20h5v-5M20 4h-5v5" /></svg>
+                                        </button>
+                                        <button
+                                            onClick={() => onDelete(item.id)}
+                                            title="Delete this item"
+                                            className="p-1.5 text-red-300 bg-red-800/50 hover:bg-red-800/80 rounded-full"
+                                        >
+                                            <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}><path strokeLinecap="round" strokeLinejoin="round" d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" /></svg>
+                                        </button>
+                                    </div>
+                                </div>
                             </div>
-                            <div className="flex items-center gap-2 opacity-0 group-hover:opacity-100 transition-opacity duration-200">
-                                <button
-                                    onClick={() => onLoad(item)}
-                                    title="Load this item"
-                                    className="p-1.5 text-blue-300 bg-blue-800/50 hover:bg-blue-800/80 rounded-full"
-                                >
-                                     <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}><path strokeLinecap="round" strokeLinejoin="round" d="M4 4v5h5M20 20v-5h-5M4 20h5v-5M20 4h-5v5" /></svg>
-                                </button>
-                                <button
-                                    onClick={() => onDelete(item.id)}
-                                    title="Delete this item"
-                                    className="p-1.5 text-red-300 bg-red-800/50 hover:bg-red-800/80 rounded-full"
-                                >
-                                    <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}><path strokeLinecap="round" strokeLinejoin="round" d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" /></svg>
-                                </button>
+                            <div className="flex flex-wrap items-center gap-1.5 mt-2">
+                                {item.tags?.map(tag => (
+                                    <span key={tag} className="flex items-center gap-1 px-2 py-0.5 text-xs text-blue-200 bg-blue-900/50 rounded-full">
+                                        #{tag}
+                                        <button onClick={() => removeTag(item, tag)} className="text-blue-300 hover:text-white" aria-label={`Remove tag ${tag}`}>&times;</button>
+                                    </span>
+                                ))}
+                                {taggingId === item.id ? (
+                                    <input
+                                        autoFocus
+                                        type="text"
+                                        value={tagInput}
+                                        onChange={(e) => setTagInput(e.target.value)}
+                                        onKeyDown={(e) => {
+                                            if (e.key === 'Enter') addTag(item);
+                                            if (e.key === 'Escape') setTaggingId(null);
+                                        }}
+                                        onBlur={() => addTag(item)}
+                                        placeholder="tag"
+                                        className="w-24 bg-gray-900 text-gray-200 rounded-full border border-gray-600 px-2 py-0.5 text-xs outline-none"
+                                    />
+                                ) : (
+                                    <button
+                                        onClick={() => { setTaggingId(item.id); setTagInput(''); }}
+                                        className="px-2 py-0.5 text-xs text-gray-400 hover:text-white border border-dashed border-gray-600 rounded-full opacity-0 group-hover:opacity-100 transition-opacity duration-200"
+                                    >
+                                        + Tag
+                                    </button>
+                                )}
                             </div>
-                        </div>
-                    </li>
-                ))}
-            </ul>
+                        </li>
+                    ))}
+                </ul>
+            )}
+
+            {pageCount > 1 && (
+                <div className="flex justify-between items-center pt-3 mt-2 px-2 border-t border-gray-700 text-xs text-gray-400">
+                    <button
+                        onClick={() => setPage(page - 1)}
+                        disabled={page === 0}
+                        className="px-3 py-1 font-semibold text-gray-300 bg-gray-700 hover:bg-gray-600 rounded-full transition-colors disabled:opacity-50"
+                    >
+                        Previous
+                    </button>
+                    <span>Page {page + 1} of {pageCount} &middot; {filtered.length} items</span>
+                    <button
+                        onClick={() => setPage(page + 1)}
+                        disabled={page >= pageCount - 1}
+                        className="px-3 py-1 font-semibold text-gray-300 bg-gray-700 hover:bg-gray-600 rounded-full transition-colors disabled:opacity-50"
+                    >
+                        Next
+                    </button>
+                </div>
+            )}
         </div>
     );
 };
 
-export default HistoryPanel;
\ No newline at end of file
+export default HistoryPanel;
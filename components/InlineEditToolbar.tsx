@@ -0,0 +1,67 @@
+import React from 'react';
+import { InlineEditAction, Tone } from '../types';
+
+interface InlineEditToolbarProps {
+    onAction: (action: InlineEditAction, tone?: Tone) => void;
+    isWorking: boolean;
+    disabled?: boolean;
+    className?: string;
+    style?: React.CSSProperties;
+}
+
+const actions: { action: InlineEditAction; label: string; title: string }[] = [
+    { action: InlineEditAction.Shorten, label: 'Shorten', title: 'Make the selection shorter' },
+    { action: InlineEditAction.Expand, label: 'Expand', title: 'Add detail to the selection' },
+    { action: InlineEditAction.Punchier, label: 'Punchier', title: 'Make the selection punchier' },
+    { action: InlineEditAction.AddStatistic, label: '+ Stat', title: 'Add a sourced statistic' },
+    { action: InlineEditAction.Bullets, label: 'Bullets', title: 'Convert the selection to bullet points' },
+    { action: InlineEditAction.FixGrammar, label: 'Fix Grammar', title: 'Fix spelling and grammar' },
+];
+
+/**
+ * Buttons for rewriting a selected span with AI. Mouse-down is suppressed so clicking
+ * a button doesn't clear the selection it acts on.
+ */
+const InlineEditToolbar: React.FC<InlineEditToolbarProps> = ({ onAction, isWorking, disabled, className = '', style }) => {
+    const isDisabled = isWorking || disabled;
+
+    return (
+        <div
+            className={`flex flex-wrap items-center gap-1 p-1 bg-gray-700 border border-gray-600 rounded-lg shadow-xl ${className}`}
+            style={style}
+            onMouseDown={(e) => e.preventDefault()}
+        >
+            {isWorking ? (
+                <span className="px-2 py-1 text-xs text-gray-300">Rewriting selection...</span>
+            ) : (
+                <>
+                    {actions.map(({ action, label, title }) => (
+                        <button
+                            key={action}
+                            onClick={() => onAction(action)}
+                            disabled={isDisabled}
+                            title={title}
+                            className="px-2 py-1 text-xs font-semibold text-gray-200 hover:bg-gray-600 rounded-md transition-colors disabled:opacity-50"
+                        >
+                            {label}
+                        </button>
+                    ))}
+                    <select
+                        value=""
+                        onChange={(e) => e.target.value && onAction(InlineEditAction.ChangeTone, e.target.value as Tone)}
+                        disabled={isDisabled}
+                        className="bg-gray-800 text-gray-200 rounded-md border border-gray-600 px-1 py-1 text-xs outline-none disabled:opacity-50"
+                        aria-label="Rewrite selection in tone"
+                    >
+                        <option value="">Tone...</option>
+                        {(Object.values(Tone) as Tone[]).map(tone => (
+                            <option key={tone} value={tone}>{tone.charAt(0).toUpperCase() + tone.slice(1)}</option>
+                        ))}
+                    </select>
+                </>
+            )}
+        </div>
+    );
+};
+
+export default InlineEditToolbar;
@@ -0,0 +1,117 @@
+import React, { useState, useEffect } from 'react';
+import { KnowledgeDocument } from '../types';
+import { listKnowledgeDocuments, addKnowledgeDocument, removeKnowledgeDocument } from '../services/knowledgeBase';
+import { SUPPORTED_DOCUMENT_EXTENSIONS } from '../services/documentParser';
+
+const formatFileSize = (bytes: number): string => {
+    if (bytes < 1024) return `${bytes} B`;
+    if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+    return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
+
+const KnowledgeBasePanel: React.FC = () => {
+    const [documents, setDocuments] = useState<KnowledgeDocument[]>([]);
+    const [uploadStatus, setUploadStatus] = useState<string | null>(null);
+    const [error, setError] = useState<string | null>(null);
+
+    useEffect(() => {
+        listKnowledgeDocuments()
+            .then(setDocuments)
+            .catch(e => {
+                console.error("Failed to load knowledge base documents:", e);
+                setError("Could not open the knowledge base. Your browser may be blocking local storage.");
+            });
+    }, []);
+
+    const handleUpload = async (event: React.ChangeEvent<HTMLInputElement>) => {
+        const files = Array.from<File>(event.target.files ?? []);
+        event.target.value = ''; // Allow re-uploading the same file
+        if (files.length === 0) return;
+
+        setError(null);
+        for (const file of files) {
+            try {
+                setUploadStatus(`Reading ${file.name}...`);
+                const document = await addKnowledgeDocument(file, (done, total) => {
+                    setUploadStatus(`Indexing ${file.name} (${done}/${total} chunks)...`);
+                });
+                setDocuments(prev => [document, ...prev]);
+            } catch (e: unknown) {
+                setError(e instanceof Error ? e.message : `Failed to add ${file.name}.`);
+            }
+        }
+        setUploadStatus(null);
+    };
+
+    const handleRemove = async (id: string) => {
+        try {
+            await removeKnowledgeDocument(id);
+            setDocuments(prev => prev.filter(doc => doc.id !== id));
+        } catch (e) {
+            console.error("Failed to remove knowledge base document:", e);
+            setError("Failed to remove the document. Please try again.");
+        }
+    };
+
+    return (
+        <div className="bg-gray-800 p-4 rounded-2xl shadow-lg h-full flex flex-col">
+            <div className="flex justify-between items-center mb-2 px-2">
+                <h2 className="text-xl font-bold">Knowledge Base</h2>
+                <label
+                    htmlFor="knowledge-upload"
+                    className={`px-3 py-1 text-xs font-semibold text-blue-300 bg-blue-800/50 hover:bg-blue-800/80 rounded-full transition-colors duration-200 ${uploadStatus ? 'opacity-50 cursor-wait' : 'cursor-pointer'}`}
+                >
+                    Upload Files
+                </label>
+                <input
+                    id="knowledge-upload"
+                    type="file"
+                    multiple
+                    className="sr-only"
+                    accept={SUPPORTED_DOCUMENT_EXTENSIONS.join(',')}
+                    onChange={handleUpload}
+                    disabled={!!uploadStatus}
+                />
+            </div>
+            <p className="text-xs text-gray-400 mb-4 px-2">
+                Add your own notes, past posts and whitepapers (Markdown, TXT, PDF or Word). Relevant passages are used to ground Posts, Documents, Tutorial Outlines and Carousels. Everything stays in this browser.
+            </p>
+
+            {uploadStatus && <p className="text-xs text-blue-300 mb-2 px-2">{uploadStatus}</p>}
+            {error && <p className="text-xs text-red-400 mb-2 px-2">{error}</p>}
+
+            {documents.length === 0 ? (
+                <div className="flex-grow flex flex-col items-center justify-center text-center text-gray-400">
+                    <svg xmlns="http://www.w3.org/2000/svg" className="h-12 w-12 mb-4 text-gray-500" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={1}>
+                        <path strokeLinecap="round" strokeLinejoin="round" d="M12 6.253v13m0-13C10.832 5.477 9.246 5 7.5 5S4.168 5.477 3 6.253v13C4.168 18.477 5.754 18 7.5 18s3.332.477 4.5 1.253m0-13C13.168 5.477 14.754 5 16.5 5c1.747 0 3.332.477 4.5 1.253v13C19.832 18.477 18.247 18 16.5 18c-1.746 0-3.332.477-4.5 1.253" />
+                    </svg>
+                    <h3 className="text-lg font-semibold text-white">No Documents Yet</h3>
+                    <p className="text-sm">Uploaded documents will appear here.</p>
+                </div>
+            ) : (
+                <ul className="space-y-3 overflow-y-auto flex-grow pr-2">
+                    {documents.map((doc) => (
+                        <li key={doc.id} className="bg-gray-700/50 p-4 rounded-lg group flex justify-between items-start">
+                            <div className="min-w-0">
+                                <p className="font-bold text-white truncate max-w-xs" title={doc.name}>{doc.name}</p>
+                                <p className="text-xs text-gray-400">
+                                    {formatFileSize(doc.size)} &middot; {doc.chunkCount} chunks &middot;{' '}
+                                    {new Intl.DateTimeFormat('en-US', { year: 'numeric', month: 'short', day: 'numeric' }).format(new Date(doc.addedAt))}
+                                </p>
+                            </div>
+                            <button
+                                onClick={() => handleRemove(doc.id)}
+                                title="Remove this document"
+                                className="p-1.5 text-red-300 bg-red-800/50 hover:bg-red-800/80 rounded-full opacity-0 group-hover:opacity-100 transition-opacity duration-200"
+                            >
+                                <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}><path strokeLinecap="round" strokeLinejoin="round" d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" /></svg>
+                            </button>
+                        </li>
+                    ))}
+                </ul>
+            )}
+        </div>
+    );
+};
+
+export default KnowledgeBasePanel;
@@ -0,0 +1,222 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import {
+    toLinkedInText,
+    countLinkedInCharacters,
+    splitAtFold,
+    defaultLinkedInFormatOptions,
+    LinkedInFormatOptions,
+    LinkedInBullet,
+    LINKEDIN_POST_LIMIT,
+    LINKEDIN_FOLD_CHARS,
+} from '../services/linkedinFormatter';
+
+interface LinkedInCopyModalProps {
+    isOpen: boolean;
+    onClose: () => void;
+    markdown: string;
+    onTrim: (maxChars: number) => Promise<void>;
+}
+
+const bullets: LinkedInBullet[] = ['•', '▪', '→', '✅', '-'];
+
+const LinkedInCopyModal: React.FC<LinkedInCopyModalProps> = ({ isOpen, onClose, markdown, onTrim }) => {
+    const [options, setOptions] = useState<LinkedInFormatOptions>(defaultLinkedInFormatOptions);
+    const [copySuccess, setCopySuccess] = useState(false);
+    const [isTrimming, setIsTrimming] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    useEffect(() => {
+        if (isOpen) {
+            setCopySuccess(false);
+            setError(null);
+        }
+    }, [isOpen]);
+
+    useEffect(() => {
+        if (copySuccess) {
+            const timer = setTimeout(() => setCopySuccess(false), 2000);
+            return () => clearTimeout(timer);
+        }
+    }, [copySuccess]);
+
+    // Prevent body scroll when modal is open
+    useEffect(() => {
+        if (isOpen) {
+            document.body.style.overflow = 'hidden';
+        } else {
+            document.body.style.overflow = 'auto';
+        }
+        return () => { document.body.style.overflow = 'auto' };
+    }, [isOpen]);
+
+    const text = useMemo(() => (isOpen ? toLinkedInText(markdown, options) : ''), [isOpen, markdown, options]);
+
+    if (!isOpen) return null;
+
+    const count = countLinkedInCharacters(text);
+    const isOverLimit = count > LINKEDIN_POST_LIMIT;
+    const [aboveFold, belowFold] = splitAtFold(text);
+
+    const updateOption = <K extends keyof LinkedInFormatOptions>(key: K, value: LinkedInFormatOptions[K]) => {
+        setOptions(prev => ({ ...prev, [key]: value }));
+    };
+
+    const handleCopy = () => {
+        navigator.clipboard.writeText(text).then(() => {
+            setCopySuccess(true);
+        }, (err) => {
+            console.error('Failed to copy text: ', err);
+            setError('Copying to the clipboard failed. Select the preview text and copy it manually.');
+        });
+    };
+
+    const handleTrim = async () => {
+        // The limit applies to the converted text, so scale it back to a Markdown length with some headroom.
+        const maxChars = Math.floor(markdown.length * (LINKEDIN_POST_LIMIT / count) * 0.95);
+        setIsTrimming(true);
+        setError(null);
+        try {
+            await onTrim(maxChars);
+        } catch (e: unknown) {
+            setError(e instanceof Error ? e.message : 'An unknown error occurred while trimming the post.');
+        } finally {
+            setIsTrimming(false);
+        }
+    };
+
+    return (
+        <div
+            className="fixed inset-0 bg-gray-900/80 backdrop-blur-sm z-50 flex flex-col p-4 sm:p-6 lg:p-8"
+            aria-modal="true"
+            role="dialog"
+        >
+            <header className="flex-shrink-0 flex items-center justify-between pb-4 border-b border-gray-700 mb-4">
+                <div>
+                    <h2 className="text-xl sm:text-2xl font-bold text-white">Copy for LinkedIn</h2>
+                    <p className="text-sm text-gray-400 mt-1">LinkedIn doesn't render Markdown, so the post is converted to plain text before copying.</p>
+                </div>
+                <button
+                    onClick={onClose}
+                    className="p-2 text-gray-400 hover:text-white hover:bg-gray-700 rounded-full transition-colors"
+                    aria-label="Close LinkedIn copy"
+                >
+                    <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                    </svg>
+                </button>
+            </header>
+
+            <main className="flex-grow grid grid-cols-1 md:grid-cols-3 gap-4 min-h-0">
+                <div className="space-y-5 overflow-y-auto">
+                    <label className="flex items-center gap-3 text-sm text-gray-300 cursor-pointer">
+                        <input
+                            type="checkbox"
+                            checked={options.unicodeStyles}
+                            onChange={(e) => updateOption('unicodeStyles', e.target.checked)}
+                            className="h-4 w-4 rounded border-gray-600 bg-gray-900 text-blue-600 focus:ring-blue-500"
+                        />
+                        Unicode 𝗯𝗼𝗹𝗱 and 𝘪𝘵𝘢𝘭𝘪𝘤 for emphasis
+                    </label>
+                    <p className="-mt-3 text-xs text-gray-500">Screen readers may spell styled letters out one by one, so use them sparingly.</p>
+
+                    <div>
+                        <span className="block text-sm font-medium text-gray-300 mb-2">Bullet Style</span>
+                        <div className="flex flex-wrap gap-2">
+                            {bullets.map(bullet => (
+                                <button
+                                    key={bullet}
+                                    onClick={() => updateOption('bullet', bullet)}
+                                    className={`w-10 h-10 rounded-lg border text-lg transition-colors ${options.bullet === bullet ? 'border-blue-500 bg-blue-900/40 text-white' : 'border-gray-600 bg-gray-900 text-gray-300 hover:bg-gray-700'}`}
+                                    aria-label={`Use ${bullet} as bullet`}
+                                >
+                                    {bullet}
+                                </button>
+                            ))}
+                        </div>
+                    </div>
+
+                    <div>
+                        <span className="block text-sm font-medium text-gray-300 mb-2">Line Spacing</span>
+                        <div className="flex gap-2">
+                            {(['airy', 'compact'] as const).map(spacing => (
+                                <button
+                                    key={spacing}
+                                    onClick={() => updateOption('spacing', spacing)}
+                                    className={`px-4 py-2 rounded-lg border text-sm transition-colors ${options.spacing === spacing ? 'border-blue-500 bg-blue-900/40 text-white' : 'border-gray-600 bg-gray-900 text-gray-300 hover:bg-gray-700'}`}
+                                >
+                                    {spacing === 'airy' ? 'Airy' : 'Compact'}
+                                </button>
+                            ))}
+                        </div>
+                        <p className="mt-1 text-xs text-gray-500">Airy puts a blank line between list items.</p>
+                    </div>
+
+                    <div className="space-y-2 pt-4 border-t border-gray-700">
+                        <div className="flex justify-between text-sm">
+                            <span className="text-gray-400">Post length</span>
+                            <span className={`font-semibold ${isOverLimit ? 'text-red-400' : 'text-gray-200'}`}>
+                                {count.toLocaleString()} / {LINKEDIN_POST_LIMIT.toLocaleString()}
+                            </span>
+                        </div>
+                        <div className="h-2 bg-gray-700 rounded-full overflow-hidden">
+                            <div
+                                className={`h-full transition-all ${isOverLimit ? 'bg-red-500' : count > LINKEDIN_POST_LIMIT * 0.9 ? 'bg-yellow-500' : 'bg-green-500'}`}
+                                style={{ width: `${Math.min(100, (count / LINKEDIN_POST_LIMIT) * 100)}%` }}
+                            />
+                        </div>
+                        <div className="flex justify-between text-sm">
+                            <span className="text-gray-400">Before "see more"</span>
+                            <span className="font-semibold text-gray-200">{countLinkedInCharacters(aboveFold)} / ~{LINKEDIN_FOLD_CHARS}</span>
+                        </div>
+                        {isOverLimit && (
+                            <div className="pt-2">
+                                <p className="text-sm text-red-300 mb-2">
+                                    {(count - LINKEDIN_POST_LIMIT).toLocaleString()} characters over LinkedIn's limit. LinkedIn won't accept the post as is.
+                                </p>
+                                <button
+                                    onClick={handleTrim}
+                                    disabled={isTrimming}
+                                    className="px-3 py-1 text-xs font-semibold text-purple-300 bg-purple-800/50 hover:bg-purple-800/80 rounded-full transition-colors duration-200 disabled:opacity-50"
+                                    title="Shorten the post with AI, kept as a new revision"
+                                >
+                                    {isTrimming ? 'Trimming...' : 'Trim to Fit with AI'}
+                                </button>
+                            </div>
+                        )}
+                        {error && <p className="text-sm text-red-400">{error}</p>}
+                    </div>
+                </div>
+
+                <div className="md:col-span-2 flex flex-col min-h-0">
+                    <h3 className="text-sm font-semibold text-gray-300 mb-2">Preview</h3>
+                    <div className="bg-gray-900 p-4 rounded-lg border border-gray-600 overflow-y-auto flex-grow text-sm text-gray-200 whitespace-pre-wrap break-words">
+                        {aboveFold}
+                        {belowFold && (
+                            <>
+                                <span className="block my-2 text-xs font-semibold text-blue-300 border-t border-dashed border-blue-700 pt-1">…see more</span>
+                                <span className="text-gray-400">{belowFold}</span>
+                            </>
+                        )}
+                    </div>
+                </div>
+            </main>
+
+            <footer className="flex-shrink-0 flex items-center justify-end gap-4 pt-4 mt-4 border-t border-gray-700">
+                <button
+                    onClick={onClose}
+                    className="px-6 py-2 text-sm font-semibold text-gray-300 bg-gray-700 hover:bg-gray-600 rounded-lg transition-colors"
+                >
+                    Close
+                </button>
+                <button
+                    onClick={handleCopy}
+                    className="px-6 py-2 text-sm font-semibold text-white bg-blue-600 hover:bg-blue-700 rounded-lg transition-colors"
+                >
+                    {copySuccess ? 'Copied!' : 'Copy for LinkedIn'}
+                </button>
+            </footer>
+        </div>
+    );
+};
+
+export default LinkedInCopyModal;
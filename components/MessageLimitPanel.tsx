@@ -0,0 +1,53 @@
+import React from 'react';
+import { GenerationType } from '../types';
+import { checkMessageLimits, isWithinLimits, messageLimits } from '../services/outreachMessages';
+
+interface MessageLimitPanelProps {
+    type: GenerationType;
+    text: string;
+}
+
+/** Character counts of an outreach message against the limits of the platform it is sent on. */
+const MessageLimitPanel: React.FC<MessageLimitPanelProps> = ({ type, text }) => {
+    const limits = messageLimits[type];
+    if (!limits) return null;
+
+    const checks = checkMessageLimits(type, text);
+    const fits = isWithinLimits(checks);
+
+    return (
+        <div className={`not-prose mb-6 rounded-lg border p-3 space-y-2 ${fits ? 'bg-gray-900/60 border-gray-700' : 'bg-red-900/20 border-red-700/60'}`}>
+            <div className="flex items-center justify-between gap-3">
+                <span className="text-xs font-semibold uppercase tracking-wide text-gray-400">{limits.platform} limits</span>
+                <span className={`text-xs font-semibold ${fits ? 'text-green-400' : 'text-red-400'}`}>
+                    {fits ? '✓ Ready to send' : 'Too long to send'}
+                </span>
+            </div>
+            {checks.map(check => {
+                const over = check.count > check.max;
+                return (
+                    <div key={check.label}>
+                        <div className="flex justify-between text-xs mb-1">
+                            <span className="text-gray-300">{check.label}</span>
+                            <span className={over ? 'text-red-400 font-semibold' : 'text-gray-400'}>
+                                {check.count.toLocaleString()} / {check.max.toLocaleString()}
+                                {over && ` (${(check.count - check.max).toLocaleString()} over)`}
+                            </span>
+                        </div>
+                        <div className="h-1.5 bg-gray-700 rounded-full overflow-hidden">
+                            <div
+                                className={`h-full rounded-full ${over ? 'bg-red-500' : check.count > check.max * 0.9 ? 'bg-yellow-500' : 'bg-green-500'}`}
+                                style={{ width: `${Math.min(100, (check.count / check.max) * 100)}%` }}
+                            />
+                        </div>
+                    </div>
+                );
+            })}
+            {checks.some(check => check.label === 'Subject' && check.count === 0) && (
+                <p className="text-xs text-yellow-400">No "Subject:" line found. Add one before sending.</p>
+            )}
+        </div>
+    );
+};
+
+export default MessageLimitPanel;
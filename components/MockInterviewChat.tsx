@@ -0,0 +1,162 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { InterviewSession, InterviewTurn } from '../types';
+import { INTERVIEW_RUBRIC, MAX_CRITERION_SCORE, countMainQuestions, getOpenTurn, getSessionScore, getTurnScore } from '../services/mockInterview';
+
+interface MockInterviewChatProps {
+    session: InterviewSession;
+    role: string;
+    company?: string;
+    onAnswer: (answer: string) => Promise<void>;
+    onEnd: () => Promise<void>;
+}
+
+const scoreColor = (score: number): string => (score >= 4 ? 'text-green-400' : score >= 3 ? 'text-yellow-400' : 'text-red-400');
+const chipColor = (score: number): string => (score >= 4 ? 'text-green-200 bg-green-900/50' : score >= 3 ? 'text-yellow-200 bg-yellow-900/40' : 'text-red-200 bg-red-900/50');
+
+const TurnAssessment: React.FC<{ turn: InterviewTurn }> = ({ turn }) => {
+    const score = getTurnScore(turn);
+    return (
+        <div className="bg-gray-900/60 rounded-lg border border-gray-700 p-3 space-y-2">
+            <div className="flex items-center justify-between gap-3">
+                <span className="text-xs font-semibold uppercase tracking-wide text-gray-400">Assessment</span>
+                {score !== null && (
+                    <span className={`text-sm font-bold ${scoreColor(score)}`}>
+                        {score.toFixed(1)}<span className="text-xs font-normal text-gray-500">/{MAX_CRITERION_SCORE}</span>
+                    </span>
+                )}
+            </div>
+            {turn.scores && turn.scores.length > 0 && (
+                <div className="flex flex-wrap gap-1">
+                    {turn.scores.map(criterion => (
+                        <span key={criterion.criterion} title={criterion.comment} className={`px-2 py-0.5 text-xs rounded-full cursor-help ${chipColor(criterion.score)}`}>
+                            {criterion.criterion} <span className="opacity-70">{criterion.score}</span>
+                        </span>
+                    ))}
+                </div>
+            )}
+            {turn.feedback && <p className="text-sm text-gray-300">{turn.feedback}</p>}
+        </div>
+    );
+};
+
+/**
+ * A mock interview in progress, as a chat: the engine asks one question at a time, and every
+ * answer comes back scored against the rubric with feedback before the next question.
+ */
+const MockInterviewChat: React.FC<MockInterviewChatProps> = ({ session, role, company, onAnswer, onEnd }) => {
+    const [answer, setAnswer] = useState('');
+    const [pendingAction, setPendingAction] = useState<'answer' | 'end' | null>(null);
+    const [error, setError] = useState<string | null>(null);
+    const bottomRef = useRef<HTMLDivElement>(null);
+
+    const openTurn = getOpenTurn(session);
+    const sessionScore = getSessionScore(session);
+    const questionNumber = Math.min(countMainQuestions(session), session.questionCount);
+
+    useEffect(() => {
+        bottomRef.current?.scrollIntoView({ behavior: 'smooth', block: 'end' });
+    }, [session.turns.length, pendingAction]);
+
+    const run = async (action: 'answer' | 'end') => {
+        setError(null);
+        setPendingAction(action);
+        try {
+            if (action === 'answer') {
+                await onAnswer(answer.trim());
+                setAnswer('');
+            } else {
+                await onEnd();
+            }
+        } catch (e: unknown) {
+            setError(e instanceof Error ? e.message : 'Something went wrong. Please try again.');
+        } finally {
+            setPendingAction(null);
+        }
+    };
+
+    const handleKeyDown = (event: React.KeyboardEvent<HTMLTextAreaElement>) => {
+        if (event.key === 'Enter' && (event.ctrlKey || event.metaKey) && answer.trim() && !pendingAction) {
+            event.preventDefault();
+            run('answer');
+        }
+    };
+
+    return (
+        <div className="h-full flex flex-col">
+            <div className="flex-shrink-0 px-6 py-3 border-b border-gray-700 flex items-center justify-between gap-4">
+                <div className="min-w-0">
+                    <h3 className="text-md font-semibold text-gray-200 truncate">Mock Interview: {role}{company ? ` at ${company}` : ''}</h3>
+                    <p className="text-xs text-gray-400">
+                        Question {questionNumber} of {session.questionCount}
+                        {sessionScore !== null && <> · average <span className={`font-semibold ${scoreColor(sessionScore)}`}>{sessionScore.toFixed(1)}/{MAX_CRITERION_SCORE}</span></>}
+                    </p>
+                </div>
+                <button
+                    onClick={() => run('end')}
+                    disabled={!!pendingAction}
+                    className="flex-shrink-0 px-3 py-1.5 text-xs font-semibold text-red-300 bg-red-800/50 hover:bg-red-800/80 rounded-full transition-colors duration-200 disabled:opacity-50 disabled:cursor-not-allowed"
+                    title="Stop here and get the report for the questions answered so far"
+                >
+                    End Interview
+                </button>
+            </div>
+
+            <div className="flex-grow overflow-y-auto p-6 space-y-4">
+                {session.turns.map(turn => (
+                    <div key={turn.id} className="space-y-3">
+                        <div className="max-w-[85%]">
+                            <p className="text-xs text-gray-500 mb-1">
+                                Interviewer · <span className="text-blue-300">{turn.isFollowUp ? 'Follow-up' : turn.focus}</span>
+                            </p>
+                            <div className="bg-gray-700 text-gray-100 rounded-lg rounded-tl-none px-4 py-3 text-sm whitespace-pre-wrap">{turn.question}</div>
+                        </div>
+                        {turn.answer !== undefined && (
+                            <div className="max-w-[85%] ml-auto">
+                                <p className="text-xs text-gray-500 mb-1 text-right">You</p>
+                                <div className="bg-blue-600/80 text-white rounded-lg rounded-tr-none px-4 py-3 text-sm whitespace-pre-wrap">
+                                    {turn.answer || <span className="italic opacity-70">No answer</span>}
+                                </div>
+                            </div>
+                        )}
+                        {turn.answer !== undefined && (turn.scores || turn.feedback) && (
+                            <div className="max-w-[85%]">
+                                <TurnAssessment turn={turn} />
+                            </div>
+                        )}
+                    </div>
+                ))}
+                {pendingAction && (
+                    <p className="text-sm text-gray-400 animate-pulse">
+                        {pendingAction === 'end' || !openTurn ? 'Writing your interview report...' : 'Scoring your answer...'}
+                    </p>
+                )}
+                <div ref={bottomRef} />
+            </div>
+
+            <div className="flex-shrink-0 p-4 border-t border-gray-700 bg-gray-900/30 space-y-2">
+                {error && <p className="text-xs text-red-400">{error}</p>}
+                <textarea
+                    value={answer}
+                    onChange={(e) => setAnswer(e.target.value)}
+                    onKeyDown={handleKeyDown}
+                    placeholder={openTurn ? 'Type your answer as you would say it in the interview...' : 'The interview is over.'}
+                    rows={4}
+                    disabled={!openTurn || !!pendingAction}
+                    className="w-full bg-gray-700 text-white rounded-lg border border-gray-600 px-3 py-2 text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none disabled:opacity-50"
+                />
+                <div className="flex items-center justify-between gap-3">
+                    <p className="text-xs text-gray-500">Ctrl+Enter to submit. Answers are scored on {INTERVIEW_RUBRIC.map(criterion => criterion.name.toLowerCase()).join(', ')}.</p>
+                    <button
+                        onClick={() => run('answer')}
+                        disabled={!openTurn || !answer.trim() || !!pendingAction}
+                        className="flex-shrink-0 px-4 py-2 text-sm font-semibold text-white bg-blue-600 hover:bg-blue-700 rounded-lg transition-colors duration-200 disabled:bg-gray-600 disabled:cursor-not-allowed"
+                    >
+                        Submit Answer
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default MockInterviewChat;
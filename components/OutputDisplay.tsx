@@ -9,22 +9,115 @@ import Spinner from './Spinner';
 import Watermark from './Watermark';
 import DownloadableStyledContent from './DownloadableStyledContent';
 import ContentEditorModal from './PdfEditorModal';
-import PdfContent from './PdfContent';
-import { GenerationResult, GenerationType, TextOverlayOptions, PdfExportQuality } from '../types';
+import VideoJobProgress from './VideoJobProgress';
+import VoiceMatchPanel from './VoiceMatchPanel';
+import RevisionHistory from './RevisionHistory';
+import InlineEditToolbar from './InlineEditToolbar';
+import LinkedInCopyModal from './LinkedInCopyModal';
+import FeedPreview from './FeedPreview';
+import VariantPicker from './VariantPicker';
+import ContentPlanBoard from './ContentPlanBoard';
+import ResumeReview from './ResumeReview';
+import MockInterviewChat from './MockInterviewChat';
+import CompanyProspectList from './CompanyProspectList';
+import MessageLimitPanel from './MessageLimitPanel';
+import RepurposePanel from './RepurposePanel';
+import FaithfulnessPanel from './FaithfulnessPanel';
+import CarouselPages, { CarouselPreview, CAROUSEL_DIMENSIONS } from './CarouselSlides';
+import { renderMarkdownPdf } from '../services/pdfRenderer';
+import { findMarkdownRange } from '../services/markdownSelection';
+import { isOutreachType } from '../services/outreachMessages';
+import { contentLanguages, detectTextDirection, languageLabels, languageNames } from '../services/language';
+import { buildPlanExport } from '../services/contentPlan';
+import { GenerationResult, GenerationType, TextOverlayOptions, PdfExportQuality, VideoJob, VoiceFingerprint, CarouselTemplate, CarouselSize, BrandKit, Revision, InlineEditAction, TextRange, Tone, ImageAspectRatio, PostVariant, HistoryItem, PlanDayRun, RepurposeFormat, RepurposeRun, ResumeInput, SourceMaterial, CompanyProspect, Prospect, ContentLanguage } from '../types';
 
 interface OutputDisplayProps {
     result: GenerationResult | null;
     isLoading: boolean;
+    isStreaming: boolean;
+    onStop: () => void;
+    videoJob: VideoJob | null;
+    onCancelVideoJob: (id: string) => void;
+    onDismissVideoJob: (id: string) => void;
     error: string | null;
     topic: string;
     onHumanify: () => void;
+    onTranslate: (language: ContentLanguage) => void;
+    language: ContentLanguage; // What the shown content was generated or last translated in
+    onRegenerate: () => void;
+    onSaveEdit: (text: string) => void;
+    revisions?: Revision[];
+    currentRevisionId?: string;
+    onRestoreRevision: (revisionId: string) => void;
+    onInlineEdit: (text: string, range: TextRange, action: InlineEditAction, tone?: Tone) => Promise<string>;
+    onApplyInlineEdit: (text: string) => void;
+    onTrimToLimit: (maxChars: number) => Promise<void>;
+    onPickVariant: (text: string, variantId: string | null) => void;
+    storedVariants?: PostVariant[];
+    planDayItems?: HistoryItem[];
+    planRuns?: Record<number, PlanDayRun>;
+    onGeneratePlanDays: (days: number[]) => void;
+    onOpenHistoryItem: (item: HistoryItem) => void;
+    repurposedItems?: Record<RepurposeFormat, HistoryItem[]>; // Set for a document, which can be repurposed
+    repurposeRuns?: Partial<Record<RepurposeFormat, RepurposeRun>>;
+    onRepurpose: (formats: RepurposeFormat[], postCount: number) => void;
+    repurposedFrom?: { title: string; item?: HistoryItem }; // Set for an asset derived from a document; `item` is gone if the document was deleted
+    resumeInput?: ResumeInput; // The resume and job description the result was generated from
+    sourceMaterial?: SourceMaterial; // The material the result was generated from, if any
+    onCheckFaithfulness: () => Promise<void>;
+    company?: string;
+    onAnswerInterview: (answer: string) => Promise<void>;
+    onEndInterview: () => Promise<void>;
+    prospects: Prospect[];
+    onSaveProspect: (company: CompanyProspect) => void;
     onFollowUp: (newType: GenerationType) => void;
     onIdeaClick: (topic: string) => void;
     generationType: GenerationType;
+    authorName: string;
+    imageAspectRatio: ImageAspectRatio;
     pdfExportQuality: PdfExportQuality;
     textOverlay?: TextOverlayOptions;
+    voiceFingerprint?: VoiceFingerprint;
+    carouselTemplate: CarouselTemplate;
+    carouselSize: CarouselSize;
+    brandKit: BrandKit;
 }
 
+// Canvas resolution and image encoding used when rasterizing carousel slides into a PDF.
+const getPdfImageSettings = (quality: PdfExportQuality) => {
+    switch (quality) {
+        case PdfExportQuality.Compact: // Lower resolution, higher JPEG compression
+            return { canvasScale: 1.5, imageFormat: 'JPEG' as const, imageMimeType: 'image/jpeg', imageQuality: 0.7 };
+        case PdfExportQuality.Standard: // Good resolution, standard JPEG compression
+            return { canvasScale: 2, imageFormat: 'JPEG' as const, imageMimeType: 'image/jpeg', imageQuality: 0.85 };
+        case PdfExportQuality.High: // High resolution, lossless PNG
+        default:
+            return { canvasScale: 2.5, imageFormat: 'PNG' as const, imageMimeType: 'image/png', imageQuality: 1.0 }; // Quality is not used for PNG
+    }
+};
+
+const RENDERED_BLOCKS = 'p, li, h1, h2, h3, h4, h5, h6, blockquote, pre, td, th';
+
+// The rendered text with a line break between blocks, so words at the end of one paragraph and the
+// start of the next stay apart, and where the selection starts in it.
+const getRenderedText = (root: HTMLElement, selected: Range): { text: string; selectionStart: number } => {
+    const walker = document.createTreeWalker(root, NodeFilter.SHOW_TEXT);
+    let text = '';
+    let selectionStart = -1;
+    let previousBlock: Element | null = null;
+    for (let node = walker.nextNode(); node; node = walker.nextNode()) {
+        const block = node.parentElement?.closest(RENDERED_BLOCKS) ?? null;
+        if (text && block !== previousBlock) text += '\n';
+        previousBlock = block;
+        if (selectionStart < 0) {
+            if (node === selected.startContainer) selectionStart = text.length + selected.startOffset;
+            else if (selected.comparePoint(node, 0) >= 0) selectionStart = text.length;
+        }
+        text += node.textContent ?? '';
+    }
+    return { text, selectionStart: selectionStart < 0 ? text.length : selectionStart };
+};
+
 const FollowUpActions: React.FC<{
     currentType: GenerationType;
     onFollowUp: (newType: GenerationType) => void;
@@ -46,18 +139,6 @@ const FollowUpActions: React.FC<{
                 icon: <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6 text-blue-300" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 12h6m-6 4h6m2 5H7a2 2 0 01-2-2V5a2 2 0 012-2h5.586a1 1 0 01.707.293l5.414 5.414a1 1 0 01.293.707V19a2 2 0 01-2 2z" /></svg>
             });
             break;
-        case GenerationType.Document:
-             actions.push({
-                label: 'Create Summary Post',
-                type: GenerationType.Post,
-                icon: <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6 text-green-300" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 13h6M9 17h6m-9-8h12a2 2 0 012 2v4a2 2 0 01-2 2H6a2 2 0 01-2-2V7a2 2 0 012-2z" /></svg>
-            });
-            actions.push({
-                label: 'Create Tutorial Outline',
-                type: GenerationType.TutorialOutline,
-                icon: <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6 text-purple-300" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5H7a2 2 0 00-2 2v12a2 2 0 002 2h10a2 2 0 002-2V7a2 2 0 00-2-2h-2M9 5a2 2 0 002 2h2a2 2 0 002-2M9 5a2 2 0 012-2h2a2 2 0 012 2m-3 7h3m-3 4h3m-6-4h.01M9 16h.01" /></svg>
-            });
-            break;
         case GenerationType.InterviewQuestions:
         case GenerationType.CvEnhancement:
         case GenerationType.ResumeTailoring:
@@ -66,6 +147,21 @@ const FollowUpActions: React.FC<{
                 type: GenerationType.CompanyProspector,
                 icon: <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6 text-indigo-300" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 21V5a2 2 0 00-2-2H7a2 2 0 00-2 2v16m14 0h2m-2 0h-5m-9 0H3m2 0h5M9 7h1m-1 4h1m4-4h1m-1 4h1m-5 10v-5a1 1 0 011-1h2a1 1 0 011 1v5m-4 0h4" /></svg>
             });
+            actions.push({
+                label: 'Write Cover Letter',
+                type: GenerationType.CoverLetter,
+                icon: <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6 text-green-300" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M3 8l7.89 5.26a2 2 0 002.22 0L21 8M5 19h14a2 2 0 002-2V7a2 2 0 00-2-2H5a2 2 0 00-2 2v10a2 2 0 002 2z" /></svg>
+            });
+            break;
+        case GenerationType.CoverLetter:
+        case GenerationType.ConnectionRequest:
+        case GenerationType.RecruiterInMail:
+        case GenerationType.ReferralRequest:
+             actions.push({
+                label: 'Prepare for the Interview',
+                type: GenerationType.InterviewQuestions,
+                icon: <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6 text-yellow-300" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8.228 9c.549-1.165 2.03-2 3.772-2 2.21 0 4 1.343 4 3 0 1.4-1.278 2.575-3.006 2.907-.542.104-.994.54-.994 1.093m0 3h.01M21 12a9 9 0 11-18 0 9 9 0 0118 0z" /></svg>
+            });
             break;
         default:
             break;
@@ -99,25 +195,38 @@ const FollowUpActions: React.FC<{
 };
 
 
-const OutputDisplay: React.FC<OutputDisplayProps> = ({ result, isLoading, error, topic, onHumanify, onFollowUp, onIdeaClick, generationType, pdfExportQuality, textOverlay }) => {
+const OutputDisplay: React.FC<OutputDisplayProps> = ({ result, isLoading, isStreaming, onStop, videoJob, onCancelVideoJob, onDismissVideoJob, error, topic, onHumanify, onTranslate, language, onRegenerate, onSaveEdit, revisions, currentRevisionId, onRestoreRevision, onInlineEdit, onApplyInlineEdit, onTrimToLimit, onPickVariant, storedVariants, planDayItems, planRuns, onGeneratePlanDays, onOpenHistoryItem, repurposedItems, repurposeRuns, onRepurpose, repurposedFrom, resumeInput, sourceMaterial, onCheckFaithfulness, company, onAnswerInterview, onEndInterview, prospects, onSaveProspect, onFollowUp, onIdeaClick, generationType, authorName, imageAspectRatio, pdfExportQuality, textOverlay, voiceFingerprint, carouselTemplate, carouselSize, brandKit }) => {
     const [copySuccess, setCopySuccess] = useState(false);
+    const [isLinkedInCopyOpen, setIsLinkedInCopyOpen] = useState(false);
+    const [isFeedPreview, setIsFeedPreview] = useState(false);
+    const [storedVariantsVisible, setStoredVariantsVisible] = useState(false);
     const [sourcesVisible, setSourcesVisible] = useState(true);
+    const [snippetsVisible, setSnippetsVisible] = useState(true);
     const [downloadMenuOpen, setDownloadMenuOpen] = useState(false);
+    const [translateMenuOpen, setTranslateMenuOpen] = useState(false);
     const [isDownloading, setIsDownloading] = useState<string | null>(null);
     const downloadableContentRef = useRef<HTMLDivElement>(null);
     const downloadableImageRef = useRef<HTMLDivElement>(null);
-    const pdfContentRef = useRef<HTMLDivElement>(null);
     const downloadMenuRef = useRef<HTMLDivElement>(null);
+    const translateMenuRef = useRef<HTMLDivElement>(null);
     const contentRef = useRef<HTMLDivElement>(null);
+    const carouselPagesRef = useRef<HTMLDivElement>(null);
 
     // Editor Modal State
     const [isEditorOpen, setIsEditorOpen] = useState(false);
     const [editorFormat, setEditorFormat] = useState<'pdf' | 'md' | 'png' | 'jpeg' | null>(null);
     
     // Content override state for downloads
-    const [pdfRenderContent, setPdfRenderContent] = useState<string | null>(null);
     const [imageRenderContent, setImageRenderContent] = useState<string | null>(null);
 
+    // Inline AI editing of selected text
+    const [inlineSelection, setInlineSelection] = useState<{ range: TextRange | null; top: number; left: number } | null>(null);
+    const [isInlineEditing, setIsInlineEditing] = useState(false);
+    const [inlineEditError, setInlineEditError] = useState<string | null>(null);
+    const [exportError, setExportError] = useState<string | null>(null);
+    const [inlineUndoStack, setInlineUndoStack] = useState<{ revisionId?: string; text: string }[]>([]);
+    const inlineToolbarRef = useRef<HTMLDivElement>(null);
+
     const isIdeaGenerationType = [
         GenerationType.ContentIdeas,
         GenerationType.Top10Ideas,
@@ -177,6 +286,28 @@ const OutputDisplay: React.FC<OutputDisplayProps> = ({ result, isLoading, error,
         }
     }, [result, isIdeaGenerationType, onIdeaClick]);
 
+    // Undo only covers inline edits of the content currently shown.
+    const rootRevisionId = revisions?.[0]?.id;
+    useEffect(() => {
+        setInlineUndoStack([]);
+        setExportError(null);
+    }, [rootRevisionId]);
+
+    useEffect(() => {
+        setInlineSelection(null);
+        setInlineEditError(null);
+    }, [result?.text]);
+
+    useEffect(() => {
+        const handleClickOutside = (event: MouseEvent) => {
+            const target = event.target as Node;
+            if (inlineToolbarRef.current?.contains(target) || contentRef.current?.contains(target)) return;
+            setInlineSelection(null);
+        };
+        document.addEventListener('mousedown', handleClickOutside);
+        return () => document.removeEventListener('mousedown', handleClickOutside);
+    }, []);
+
     useEffect(() => {
         if (copySuccess) {
             const timer = setTimeout(() => setCopySuccess(false), 2000);
@@ -189,6 +320,9 @@ const OutputDisplay: React.FC<OutputDisplayProps> = ({ result, isLoading, error,
             if (downloadMenuRef.current && !downloadMenuRef.current.contains(event.target as Node)) {
                 setDownloadMenuOpen(false);
             }
+            if (translateMenuRef.current && !translateMenuRef.current.contains(event.target as Node)) {
+                setTranslateMenuOpen(false);
+            }
         };
         document.addEventListener('mousedown', handleClickOutside);
         return () => document.removeEventListener('mousedown', handleClickOutside);
@@ -284,142 +418,73 @@ const OutputDisplay: React.FC<OutputDisplayProps> = ({ result, isLoading, error,
     
     const handleGeneratePdf = async (editedMarkdown: string) => {
         setIsDownloading('pdf');
-        setPdfRenderContent(editedMarkdown);
-
-        // Allow time for the paginated content to render off-screen
-        await new Promise(resolve => setTimeout(resolve, 500)); 
-
-        const container = pdfContentRef.current;
-        if (!container) {
-            console.error("PDF content container not found.");
+        setExportError(null);
+        try {
+            const pdf = await renderMarkdownPdf(editedMarkdown, brandKit);
+            pdf.save(`${sanitizeFilename(topic)}.pdf`);
+        } catch (error) {
+            console.error("Error generating PDF:", error);
+            setExportError(error instanceof Error ? error.message : 'An unknown error occurred while generating the PDF.');
+        } finally {
             setIsDownloading(null);
-            return;
         }
+    };
+    
+    // Carousels skip the editor: each slide is rendered off-screen at full size and becomes one PDF page.
+    const handleGenerateCarouselPdf = async () => {
+        if (!result?.carouselSlides) return;
+        setIsDownloading('carousel');
+        setExportError(null);
 
-        const pageElements = Array.from(container.querySelectorAll('.pdf-page')) as HTMLElement[];
-        if (pageElements.length === 0) {
-            console.error("No pages found to generate PDF.");
+        // Allow time for the slides to render off-screen
+        await new Promise(resolve => setTimeout(resolve, 300));
+
+        const slideElements = Array.from(carouselPagesRef.current?.querySelectorAll('.carousel-slide') ?? []) as HTMLElement[];
+        if (slideElements.length === 0) {
+            console.error("No carousel slides found to generate PDF.");
+            setExportError("The carousel slides couldn't be rendered. Please try again.");
             setIsDownloading(null);
-            setPdfRenderContent(null);
             return;
         }
 
         try {
-            const pdf = new jsPDF('p', 'pt', 'a4');
-            const pdfWidth = pdf.internal.pageSize.getWidth();
-            const pdfHeight = pdf.internal.pageSize.getHeight();
-            const linkedInUrl = "https://www.linkedin.com/in/ganapathi-kakarla-b82341178/";
-            
-            // Define quality settings based on the selected option
-            let canvasScale: number;
-            let imageFormat: 'PNG' | 'JPEG';
-            let imageMimeType: string;
-            let imageQuality: number;
-
-            switch (pdfExportQuality) {
-                case PdfExportQuality.Compact: // < 70MB: Lower resolution, higher JPEG compression
-                    canvasScale = 1.5;
-                    imageFormat = 'JPEG';
-                    imageMimeType = 'image/jpeg';
-                    imageQuality = 0.7;
-                    break;
-                case PdfExportQuality.Standard: // 70-100MB: Good resolution, standard JPEG compression
-                    canvasScale = 2;
-                    imageFormat = 'JPEG';
-                    imageMimeType = 'image/jpeg';
-                    imageQuality = 0.85;
-                    break;
-                case PdfExportQuality.High: // > 100MB: High resolution, lossless PNG
-                default:
-                    canvasScale = 2.5;
-                    imageFormat = 'PNG';
-                    imageMimeType = 'image/png';
-                    imageQuality = 1.0; // Not used for PNG but good practice to set
-                    break;
-            }
+            const { width, height } = CAROUSEL_DIMENSIONS[carouselSize];
+            const orientation = width > height ? 'l' : 'p';
+            const pdf = new jsPDF({ orientation, unit: 'px', format: [width, height], hotfixes: ['px_scaling'] });
+            const { canvasScale, imageFormat, imageMimeType, imageQuality } = getPdfImageSettings(pdfExportQuality);
 
-            for (let i = 0; i < pageElements.length; i++) {
-                const pageElement = pageElements[i];
-                const canvas = await html2canvas(pageElement, {
+            for (let i = 0; i < slideElements.length; i++) {
+                const canvas = await html2canvas(slideElements[i], {
                     scale: canvasScale,
                     useCORS: true,
                     logging: false,
-                    width: pageElement.offsetWidth,
-                    height: pageElement.offsetHeight,
+                    width,
+                    height,
                 });
-                
-                const imgData = canvas.toDataURL(imageMimeType, imageQuality);
-
                 if (i > 0) {
-                    pdf.addPage();
-                }
-                pdf.addImage(imgData, imageFormat, 0, 0, pdfWidth, pdfHeight);
-
-                // Add hyperlink to footer link on the current page
-                const linkEl = pageElement.querySelector(`#linkedin-link-${i}`);
-                if (linkEl) {
-                    const containerRect = pageElement.getBoundingClientRect();
-                    const elRect = linkEl.getBoundingClientRect();
-                    
-                    const relativePos = {
-                        x: elRect.left - containerRect.left,
-                        y: elRect.top - containerRect.top,
-                        width: elRect.width,
-                        height: elRect.height,
-                    };
-
-                    const pxToPtRatio = pdfWidth / pageElement.offsetWidth;
-                    
-                    const linkCoords = {
-                        x: relativePos.x * pxToPtRatio,
-                        y: relativePos.y * pxToPtRatio,
-                        w: relativePos.width * pxToPtRatio,
-                        h: relativePos.height * pxToPtRatio,
-                    };
-                    
-                    pdf.link(linkCoords.x, linkCoords.y, linkCoords.w, linkCoords.h, { url: linkedInUrl });
-                }
-
-                // Add hyperlink to header link on the FIRST page
-                if (i === 0) {
-                     const headerLinkEl = pageElement.querySelector('header p a');
-                     if (headerLinkEl) {
-                         const containerRect = pageElement.getBoundingClientRect();
-                         const elRect = headerLinkEl.getBoundingClientRect();
-
-                         const relativePos = {
-                             x: elRect.left - containerRect.left,
-                             y: elRect.top - containerRect.top,
-                             width: elRect.width,
-                             height: elRect.height,
-                         };
-                         
-                         const pxToPtRatio = pdfWidth / pageElement.offsetWidth;
-                         const linkCoords = {
-                            x: relativePos.x * pxToPtRatio,
-                            y: relativePos.y * pxToPtRatio,
-                            w: relativePos.width * pxToPtRatio,
-                            h: relativePos.height * pxToPtRatio,
-                         };
-                         
-                         pdf.link(linkCoords.x, linkCoords.y, linkCoords.w, linkCoords.h, { url: linkedInUrl });
-                     }
+                    pdf.addPage([width, height], orientation);
                 }
+                pdf.addImage(canvas.toDataURL(imageMimeType, imageQuality), imageFormat, 0, 0, width, height);
             }
 
-            pdf.save(`${sanitizeFilename(topic)}.pdf`);
+            pdf.save(`${sanitizeFilename(topic)}-carousel.pdf`);
         } catch (error) {
-            console.error("Error generating PDF:", error);
+            console.error("Error generating carousel PDF:", error);
+            setExportError(error instanceof Error ? error.message : 'An unknown error occurred while generating the carousel PDF.');
         } finally {
             setIsDownloading(null);
-            setPdfRenderContent(null);
         }
     };
-    
+
     const handleConfirmEdit = (editedContent: string) => {
         setIsEditorOpen(false);
         if (!editorFormat) return;
 
+        // Keep the edits as a new revision instead of discarding them after the download.
+        if (result && editedContent !== result.text) {
+            onSaveEdit(editedContent);
+        }
+
         switch (editorFormat) {
             case 'pdf':
                 handleGeneratePdf(editedContent);
@@ -437,6 +502,77 @@ const OutputDisplay: React.FC<OutputDisplayProps> = ({ result, isLoading, error,
         setEditorFormat(null);
     };
 
+    const supportsFeedPreview = [
+        GenerationType.Post,
+        GenerationType.ExamplePost,
+        GenerationType.ImagePost,
+        GenerationType.Document,
+        GenerationType.Carousel,
+    ].includes(generationType);
+    const showFeedPreview = isFeedPreview && supportsFeedPreview && !isStreaming;
+
+    const hasPendingVariants = !!result?.variants?.length && !isStreaming;
+    const hasStructuredResult = !!result?.carouselSlides || !!result?.contentPlan || !!result?.interview || !!result?.companyProspects;
+
+    // The newest history item for each day of the plan; history is sorted newest first.
+    const planDayMap = new Map<number, HistoryItem>();
+    planDayItems?.forEach(item => {
+        const day = item.options.planDay?.day.day;
+        if (day !== undefined && !planDayMap.has(day)) planDayMap.set(day, item);
+    });
+    const getPlanExport = () => (result?.contentPlan ? buildPlanExport(topic, result.contentPlan, planDayMap) : '');
+
+    const canInlineEdit = !showFeedPreview && !hasPendingVariants && !!result?.text && !hasStructuredResult && !isIdeaGenerationType && !isStreaming && !isLoading;
+
+    const handleContentMouseUp = () => {
+        const selection = window.getSelection();
+        const selectedText = selection?.toString() ?? '';
+        if (!canInlineEdit || !result?.text || !selection || selection.rangeCount === 0 || !selectedText.trim()
+            || !contentRef.current?.contains(selection.anchorNode)) {
+            setInlineSelection(null);
+            return;
+        }
+
+        const selected = selection.getRangeAt(0);
+        const rect = selected.getBoundingClientRect();
+        const { text: renderedText, selectionStart } = getRenderedText(contentRef.current, selected);
+        const range = findMarkdownRange(result.text, selectedText, renderedText, selectionStart);
+        setInlineEditError(range ? null : "This selection couldn't be matched to the text. Try selecting whole words within a single paragraph.");
+        setInlineSelection({ range, top: rect.top, left: rect.left + rect.width / 2 });
+    };
+
+    const handleInlineAction = async (action: InlineEditAction, tone?: Tone) => {
+        if (!result?.text || !inlineSelection?.range) return;
+        const { range } = inlineSelection;
+        const original = result.text;
+
+        setIsInlineEditing(true);
+        setInlineEditError(null);
+        try {
+            const replacement = await onInlineEdit(original, range, action, tone);
+            setInlineUndoStack(stack => [...stack, { revisionId: currentRevisionId, text: original }]);
+            onApplyInlineEdit(original.slice(0, range.start) + replacement + original.slice(range.end));
+            window.getSelection()?.removeAllRanges();
+            setInlineSelection(null);
+        } catch (e: unknown) {
+            setInlineEditError(e instanceof Error ? e.message : 'An unknown error occurred while editing the selection.');
+        } finally {
+            setIsInlineEditing(false);
+        }
+    };
+
+    const handleUndoInlineEdit = () => {
+        const previous = inlineUndoStack[inlineUndoStack.length - 1];
+        if (!previous) return;
+        setInlineUndoStack(stack => stack.slice(0, -1));
+        // Going back to the earlier revision keeps the undone edit as a branch instead of adding a copy.
+        if (previous.revisionId && revisions?.some(r => r.id === previous.revisionId)) {
+            onRestoreRevision(previous.revisionId);
+        } else {
+            onApplyInlineEdit(previous.text);
+        }
+    };
+
     const getEditorConfig = () => {
         if (!editorFormat) return null;
         switch (editorFormat) {
@@ -449,10 +585,12 @@ const OutputDisplay: React.FC<OutputDisplayProps> = ({ result, isLoading, error,
 
     const parsedHtml = result?.text ? marked.parse(result.text) as string : '';
     const finalHtmlForImage = imageRenderContent ? marked.parse(imageRenderContent) as string : parsedHtml;
+    const textDirection = detectTextDirection(result?.text ?? '');
     const currentEditorConfig = getEditorConfig();
     
     const renderContent = () => {
-        if (isLoading) {
+        // While streaming, the partial text replaces the spinner as soon as the first chunk arrives.
+        if (isLoading && !(isStreaming && result?.text)) {
             return <div className="flex items-center justify-center h-full"><Spinner /></div>;
         }
 
@@ -470,6 +608,14 @@ const OutputDisplay: React.FC<OutputDisplayProps> = ({ result, isLoading, error,
             );
         }
 
+        if (videoJob && videoJob.status !== 'succeeded') {
+            return <VideoJobProgress job={videoJob} onCancel={onCancelVideoJob} onDismiss={onDismissVideoJob} />;
+        }
+
+        if (result?.interview && !result.interview.endedAt) {
+            return <MockInterviewChat session={result.interview} role={topic} company={company} onAnswer={onAnswerInterview} onEnd={onEndInterview} />;
+        }
+
         if (result?.text) {
             const hasOverlayText = textOverlay && textOverlay.text.trim() !== '';
             const placementClasses = {
@@ -483,10 +629,42 @@ const OutputDisplay: React.FC<OutputDisplayProps> = ({ result, isLoading, error,
                 'Playfair Display': 'font-playfair-display',
             };
             
+            if (showFeedPreview) {
+                return (
+                    <div className="h-full overflow-y-auto p-6">
+                        <FeedPreview
+                            result={result}
+                            generationType={generationType}
+                            topic={topic}
+                            authorName={authorName}
+                            imageAspectRatio={imageAspectRatio}
+                            carouselTemplate={carouselTemplate}
+                            carouselSize={carouselSize}
+                            brandKit={brandKit}
+                        />
+                    </div>
+                );
+            }
+
             return (
-                 <div className="h-full overflow-y-auto p-6 relative">
-                    <Watermark text="GANAPATHI KAKARLA" />
+                 <div className="h-full overflow-y-auto p-6 relative" onScroll={() => inlineSelection && setInlineSelection(null)}>
+                    <Watermark text={brandKit.authorName.toUpperCase()} />
                     <div className="prose prose-xl prose-invert max-w-none">
+                        {repurposedFrom && (
+                            <div className="not-prose mb-6 flex flex-wrap items-center justify-between gap-2 rounded-lg border border-gray-700 bg-gray-900/60 px-3 py-2">
+                                <span className="text-sm text-gray-400">
+                                    Repurposed from <span className="font-semibold text-gray-200">{repurposedFrom.title}</span>
+                                </span>
+                                {repurposedFrom.item && (
+                                    <button
+                                        onClick={() => onOpenHistoryItem(repurposedFrom.item!)}
+                                        className="px-3 py-1 text-xs font-semibold text-blue-300 bg-blue-800/50 hover:bg-blue-800/80 rounded-full transition-colors duration-200"
+                                    >
+                                        Open Source
+                                    </button>
+                                )}
+                            </div>
+                        )}
                         {result.imageUrl && generationType === GenerationType.ImagePost && (
                             <div ref={downloadableImageRef} className="not-prose mb-6 relative">
                                <img 
@@ -528,11 +706,38 @@ const OutputDisplay: React.FC<OutputDisplayProps> = ({ result, isLoading, error,
                                 </video>
                             </div>
                         )}
-                        <div
-                            ref={contentRef}
-                            className="relative z-1"
-                            dangerouslySetInnerHTML={{ __html: parsedHtml }}
-                        ></div>
+                        {isOutreachType(generationType) && result.text && !isStreaming && (
+                            <MessageLimitPanel type={generationType} text={result.text} />
+                        )}
+                        {result.resumeAnalysis && resumeInput && !isStreaming && (
+                            <ResumeReview analysis={result.resumeAnalysis} resume={resumeInput} tailoredResume={result.text} />
+                        )}
+                        {hasPendingVariants ? (
+                            <VariantPicker variants={result.variants!} onPick={onPickVariant} />
+                        ) : result.contentPlan && !isStreaming ? (
+                            <ContentPlanBoard
+                                plan={result.contentPlan}
+                                dayItems={planDayMap}
+                                runs={planRuns ?? {}}
+                                onGenerateDays={onGeneratePlanDays}
+                                onOpenItem={onOpenHistoryItem}
+                                onExportMarkdown={() => handleDownloadText(getPlanExport())}
+                                onExportPdf={() => handleGeneratePdf(getPlanExport())}
+                                isExporting={isDownloading === 'pdf'}
+                            />
+                        ) : result.companyProspects && !isStreaming ? (
+                            <CompanyProspectList companies={result.companyProspects} prospects={prospects} onSave={onSaveProspect} />
+                        ) : result.carouselSlides ? (
+                            <CarouselPreview slides={result.carouselSlides} template={carouselTemplate} size={carouselSize} brandKit={brandKit} />
+                        ) : (
+                            <div
+                                ref={contentRef}
+                                dir={textDirection}
+                                className="relative z-1"
+                                onMouseUp={handleContentMouseUp}
+                                dangerouslySetInnerHTML={{ __html: parsedHtml }}
+                            ></div>
+                        )}
                     </div>
                      {result.sources && result.sources.length > 0 && (
                         <div className="mt-8 pt-4 border-t border-gray-700">
@@ -563,7 +768,66 @@ const OutputDisplay: React.FC<OutputDisplayProps> = ({ result, isLoading, error,
                             )}
                         </div>
                     )}
-                    <FollowUpActions currentType={generationType} onFollowUp={onFollowUp} />
+                    {result.retrievedSnippets && result.retrievedSnippets.length > 0 && (
+                        <div className="mt-8 pt-4 border-t border-gray-700">
+                             <button
+                                onClick={() => setSnippetsVisible(!snippetsVisible)}
+                                className="flex justify-between items-center w-full text-left"
+                            >
+                                <h4 className="text-lg font-semibold text-gray-300">From Your Knowledge Base</h4>
+                                <svg xmlns="http://www.w3.org/2000/svg" className={`h-5 w-5 text-gray-400 transition-transform ${snippetsVisible ? 'rotate-180' : ''}`} fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth="2">
+                                  <path strokeLinecap="round" strokeLinejoin="round" d="M19 9l-7 7-7-7" />
+                                </svg>
+                            </button>
+                            {snippetsVisible && (
+                                <ul className="space-y-3 mt-2">
+                                    {result.retrievedSnippets.map((snippet, index) => (
+                                        <li key={index} className="text-sm bg-gray-900/40 rounded-lg p-3">
+                                            <p className="font-semibold text-blue-300">
+                                                {index + 1}. {snippet.documentName}
+                                                <span className="ml-2 text-xs font-normal text-gray-500">{Math.round(snippet.similarity * 100)}% match</span>
+                                            </p>
+                                            <p className="text-gray-400 mt-1 line-clamp-3">{snippet.text}</p>
+                                        </li>
+                                    ))}
+                                </ul>
+                            )}
+                        </div>
+                    )}
+                    {!isStreaming && sourceMaterial && result.text && (
+                        <FaithfulnessPanel text={result.text} source={sourceMaterial} report={result.faithfulness} onCheck={onCheckFaithfulness} />
+                    )}
+                    {!isStreaming && voiceFingerprint && result.text && !isIdeaGenerationType && (
+                        <VoiceMatchPanel text={result.text} fingerprint={voiceFingerprint} />
+                    )}
+                    {!isStreaming && revisions && currentRevisionId && (
+                        <RevisionHistory revisions={revisions} currentRevisionId={currentRevisionId} onRestore={onRestoreRevision} />
+                    )}
+                    {!isStreaming && !hasPendingVariants && storedVariants && storedVariants.length > 0 && (
+                        <div className="mt-8 pt-4 border-t border-gray-700">
+                            <button
+                                onClick={() => setStoredVariantsVisible(!storedVariantsVisible)}
+                                className="flex justify-between items-center w-full text-left"
+                            >
+                                <h4 className="text-lg font-semibold text-gray-300">
+                                    Unused Variants
+                                    <span className="ml-2 text-sm font-normal text-gray-400">{storedVariants.length}</span>
+                                </h4>
+                                <svg xmlns="http://www.w3.org/2000/svg" className={`h-5 w-5 text-gray-400 transition-transform ${storedVariantsVisible ? 'rotate-180' : ''}`} fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth="2">
+                                  <path strokeLinecap="round" strokeLinejoin="round" d="M19 9l-7 7-7-7" />
+                                </svg>
+                            </button>
+                            {storedVariantsVisible && (
+                                <div className="mt-3">
+                                    <VariantPicker variants={storedVariants} onPick={onPickVariant} />
+                                </div>
+                            )}
+                        </div>
+                    )}
+                    {!isStreaming && repurposedItems && (
+                        <RepurposePanel derivedItems={repurposedItems} runs={repurposeRuns ?? {}} onRepurpose={onRepurpose} onOpenItem={onOpenHistoryItem} />
+                    )}
+                    {!isStreaming && <FollowUpActions currentType={generationType} onFollowUp={onFollowUp} />}
                  </div>
             );
         }
@@ -586,7 +850,49 @@ const OutputDisplay: React.FC<OutputDisplayProps> = ({ result, isLoading, error,
             <div className="flex-shrink-0 p-3 bg-gray-900/50 flex items-center justify-between border-b border-gray-700">
                 <div className="flex-grow"></div> {/* Spacer */}
                 <div className="flex items-center gap-2">
-                    {result?.text && !isIdeaGenerationType && (
+                    {isStreaming && (
+                        <button
+                            onClick={onStop}
+                            className="px-3 py-1.5 text-xs font-semibold text-red-300 bg-red-800/50 hover:bg-red-800/80 rounded-full transition-colors duration-200 flex items-center gap-1.5"
+                            title="Stop generating and keep the text received so far"
+                        >
+                            <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" viewBox="0 0 20 20" fill="currentColor"><path fillRule="evenodd" d="M10 18a8 8 0 100-16 8 8 0 000 16zM8 7a1 1 0 00-1 1v4a1 1 0 001 1h4a1 1 0 001-1V8a1 1 0 00-1-1H8z" clipRule="evenodd" /></svg>
+                            Stop
+                        </button>
+                    )}
+                    {result?.text && !isStreaming && supportsFeedPreview && (
+                        <button
+                            onClick={() => setIsFeedPreview(prev => !prev)}
+                            className="px-3 py-1.5 text-xs font-semibold text-gray-300 bg-gray-700 hover:bg-gray-600 rounded-full transition-colors duration-200 flex items-center gap-1.5"
+                            title={isFeedPreview ? 'Back to the full content' : 'See how the post looks in the LinkedIn feed'}
+                        >
+                            <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" viewBox="0 0 20 20" fill="currentColor"><path d="M10 12a2 2 0 100-4 2 2 0 000 4z" /><path fillRule="evenodd" d="M.458 10C1.732 5.943 5.522 3 10 3s8.268 2.943 9.542 7c-1.274 4.057-5.064 7-9.542 7S1.732 14.057.458 10zM14 10a4 4 0 11-8 0 4 4 0 018 0z" clipRule="evenodd" /></svg>
+                            {isFeedPreview ? 'Content View' : 'Feed Preview'}
+                        </button>
+                    )}
+                    {inlineUndoStack.length > 0 && !isStreaming && (
+                        <button
+                            onClick={handleUndoInlineEdit}
+                            disabled={isLoading || isInlineEditing}
+                            className="px-3 py-1.5 text-xs font-semibold text-gray-300 bg-gray-700 hover:bg-gray-600 rounded-full transition-colors duration-200 disabled:opacity-50 disabled:cursor-not-allowed flex items-center gap-1.5"
+                            title="Undo the last inline AI edit"
+                        >
+                            <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" viewBox="0 0 20 20" fill="currentColor"><path fillRule="evenodd" d="M7.707 3.293a1 1 0 010 1.414L5.414 7H11a7 7 0 017 7v2a1 1 0 11-2 0v-2a5 5 0 00-5-5H5.414l2.293 2.293a1 1 0 11-1.414 1.414l-4-4a1 1 0 010-1.414l4-4a1 1 0 011.414 0z" clipRule="evenodd" /></svg>
+                            Undo Edit
+                        </button>
+                    )}
+                    {result?.text && !isStreaming && revisions && !result.interview && generationType !== GenerationType.ImagePost && generationType !== GenerationType.Video && (
+                        <button
+                            onClick={onRegenerate}
+                            disabled={isLoading}
+                            className="px-3 py-1.5 text-xs font-semibold text-yellow-300 bg-yellow-800/50 hover:bg-yellow-800/80 rounded-full transition-colors duration-200 disabled:opacity-50 disabled:cursor-not-allowed flex items-center gap-1.5"
+                            title="Generate a new version, kept as a revision of this content"
+                        >
+                            <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" viewBox="0 0 20 20" fill="currentColor"><path fillRule="evenodd" d="M4 2a1 1 0 011 1v2.101a7.002 7.002 0 0111.601 2.566 1 1 0 11-1.885.666A5.002 5.002 0 005.999 7H9a1 1 0 010 2H4a1 1 0 01-1-1V3a1 1 0 011-1zm.008 9.057a1 1 0 011.276.61A5.002 5.002 0 0014.001 13H11a1 1 0 110-2h5a1 1 0 011 1v5a1 1 0 11-2 0v-2.101a7.002 7.002 0 01-11.601-2.566 1 1 0 01.61-1.276z" clipRule="evenodd" /></svg>
+                            Regenerate
+                        </button>
+                    )}
+                    {result?.text && !isIdeaGenerationType && !isStreaming && !hasStructuredResult && !hasPendingVariants && (
                         <button 
                             onClick={onHumanify}
                             disabled={isLoading}
@@ -597,6 +903,32 @@ const OutputDisplay: React.FC<OutputDisplayProps> = ({ result, isLoading, error,
                             Humanify
                         </button>
                     )}
+                    {result?.text && !isIdeaGenerationType && !isStreaming && !hasStructuredResult && !hasPendingVariants && (
+                        <div ref={translateMenuRef} className="relative">
+                            <button
+                                onClick={() => setTranslateMenuOpen(prev => !prev)}
+                                disabled={isLoading}
+                                className="px-3 py-1.5 text-xs font-semibold text-teal-300 bg-teal-800/50 hover:bg-teal-800/80 rounded-full transition-colors duration-200 disabled:opacity-50 disabled:cursor-not-allowed flex items-center gap-1.5"
+                                title="Translate the content, keeping its formatting, code and hashtags"
+                            >
+                                <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}><path strokeLinecap="round" strokeLinejoin="round" d="M3 5h12M9 3v2m1.048 9.5A18.022 18.022 0 016.412 9m6.088 9h7M11 21l5-10 5 10M12.751 5C11.783 10.77 8.07 15.61 3 18.129" /></svg>
+                                Translate
+                            </button>
+                            {translateMenuOpen && (
+                                <div className="absolute top-full right-0 mt-2 w-52 bg-gray-700 border border-gray-600 rounded-lg shadow-xl z-20">
+                                    <ul className="py-1">
+                                        {contentLanguages.filter(l => l !== language).map(l => (
+                                            <li key={l}>
+                                                <button onClick={() => { onTranslate(l); setTranslateMenuOpen(false); }} className="w-full text-left px-4 py-2 text-sm text-gray-200 hover:bg-gray-600">
+                                                    {languageLabels[l]}{l !== ContentLanguage.English && <span className="text-gray-400"> · {languageNames[l]}</span>}
+                                                </button>
+                                            </li>
+                                        ))}
+                                    </ul>
+                                </div>
+                            )}
+                        </div>
+                    )}
                     {result?.text && (
                         <button
                             onClick={handleCopy}
@@ -616,10 +948,20 @@ const OutputDisplay: React.FC<OutputDisplayProps> = ({ result, isLoading, error,
                             )}
                         </button>
                     )}
+                    {result?.text && !isStreaming && !hasStructuredResult && (
+                        <button
+                            onClick={() => setIsLinkedInCopyOpen(true)}
+                            className="px-3 py-1.5 text-xs font-semibold text-sky-300 bg-sky-800/50 hover:bg-sky-800/80 rounded-full transition-colors duration-200 flex items-center gap-1.5"
+                            title="Convert to LinkedIn-friendly text and check the character limit"
+                        >
+                            <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" viewBox="0 0 24 24" fill="currentColor"><path d="M20.45 20.45h-3.56v-5.57c0-1.33-.02-3.04-1.85-3.04-1.85 0-2.14 1.45-2.14 2.94v5.67H9.35V9h3.41v1.56h.05c.48-.9 1.64-1.85 3.37-1.85 3.6 0 4.27 2.37 4.27 5.46v6.28zM5.34 7.43a2.06 2.06 0 110-4.13 2.06 2.06 0 010 4.13zM7.12 20.45H3.56V9h3.56v11.45z" /></svg>
+                            Copy for LinkedIn
+                        </button>
+                    )}
                     <div ref={downloadMenuRef} className="relative">
                         <button
                              onClick={() => setDownloadMenuOpen(prev => !prev)}
-                             disabled={!result?.text}
+                             disabled={!result?.text || isStreaming}
                              className="px-3 py-1.5 text-xs font-semibold text-blue-300 bg-blue-800/50 hover:bg-blue-800/80 rounded-full transition-colors duration-200 disabled:opacity-50 disabled:cursor-not-allowed flex items-center gap-1.5"
                              title="Download content"
                         >
@@ -636,7 +978,21 @@ const OutputDisplay: React.FC<OutputDisplayProps> = ({ result, isLoading, error,
                                             </button>
                                         </li>
                                     )}
-                                    {generationType !== GenerationType.Video && (
+                                    {result?.carouselSlides && (
+                                        <>
+                                            <li>
+                                                <button onClick={() => { handleGenerateCarouselPdf(); setDownloadMenuOpen(false); }} className="w-full text-left px-4 py-2 text-sm text-gray-200 hover:bg-gray-600">
+                                                    {isDownloading === 'carousel' ? 'Generating...' : 'Export Carousel PDF'}
+                                                </button>
+                                            </li>
+                                            <li>
+                                                <button onClick={() => { setEditorFormat('md'); setIsEditorOpen(true); setDownloadMenuOpen(false); }} className="w-full text-left px-4 py-2 text-sm text-gray-200 hover:bg-gray-600">
+                                                    {isDownloading === 'md' ? 'Downloading...' : 'Download Markdown...'}
+                                                </button>
+                                            </li>
+                                        </>
+                                    )}
+                                    {generationType !== GenerationType.Video && !result?.carouselSlides && (
                                          <>
                                             <li>
                                                 <button onClick={() => { setEditorFormat('pdf'); setIsEditorOpen(true); setDownloadMenuOpen(false); }} className="w-full text-left px-4 py-2 text-sm text-gray-200 hover:bg-gray-600">
@@ -666,11 +1022,31 @@ const OutputDisplay: React.FC<OutputDisplayProps> = ({ result, isLoading, error,
                     </div>
                 </div>
             </div>
+            {exportError && (
+                <div className="mb-4 flex items-start justify-between gap-3 p-3 text-sm text-red-400 bg-red-900/20 border border-red-500/50 rounded-lg">
+                    <p>{exportError}</p>
+                    <button onClick={() => setExportError(null)} className="text-xs font-semibold text-red-300 hover:text-red-200">Dismiss</button>
+                </div>
+            )}
             {renderContent()}
 
+            {/* Floating toolbar for the selected text */}
+            {inlineSelection && canInlineEdit && (
+                <div
+                    ref={inlineToolbarRef}
+                    className="fixed z-40 max-w-md -translate-x-1/2 -translate-y-full"
+                    style={{ top: Math.max(inlineSelection.top - 8, 56), left: Math.min(Math.max(inlineSelection.left, 200), window.innerWidth - 200) }}
+                >
+                    <InlineEditToolbar onAction={handleInlineAction} isWorking={isInlineEditing} disabled={!inlineSelection.range} />
+                    {inlineEditError && (
+                        <p className="mt-1 px-2 py-1 text-xs text-red-300 bg-red-900/80 rounded-md">{inlineEditError}</p>
+                    )}
+                </div>
+            )}
+
             {/* Hidden, styled content for image downloads */}
             <div className="absolute -left-[9999px] top-0">
-                <DownloadableStyledContent ref={downloadableContentRef} htmlContent={finalHtmlForImage} topic={topic} />
+                <DownloadableStyledContent ref={downloadableContentRef} htmlContent={finalHtmlForImage} topic={topic} brandKit={brandKit} direction={detectTextDirection(imageRenderContent || result?.text || '')} />
             </div>
 
             {/* Content Editor Modal */}
@@ -682,12 +1058,21 @@ const OutputDisplay: React.FC<OutputDisplayProps> = ({ result, isLoading, error,
                 onConfirm={handleConfirmEdit}
                 title={currentEditorConfig?.title || 'Edit Content'}
                 confirmButtonText={currentEditorConfig?.confirmButtonText || 'Confirm'}
+                onInlineEdit={onInlineEdit}
+                atsJobDescription={result?.resumeAnalysis ? resumeInput?.jobDescription || undefined : undefined}
             />
             
-            {/* Hidden container for PDF rendering */}
-            {pdfRenderContent && (
+            <LinkedInCopyModal
+                isOpen={isLinkedInCopyOpen}
+                onClose={() => setIsLinkedInCopyOpen(false)}
+                markdown={result?.text || ''}
+                onTrim={onTrimToLimit}
+            />
+
+            {/* Hidden container for carousel PDF rendering */}
+            {isDownloading === 'carousel' && result?.carouselSlides && (
                 <div className="absolute -left-[9999px] top-0">
-                    <PdfContent ref={pdfContentRef} markdownContent={pdfRenderContent} />
+                    <CarouselPages ref={carouselPagesRef} slides={result.carouselSlides} template={carouselTemplate} size={carouselSize} brandKit={brandKit} />
                 </div>
             )}
         </div>
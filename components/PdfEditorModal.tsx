@@ -1,5 +1,9 @@
 import React, { useState, useEffect } from 'react';
 import { marked } from 'marked';
+import InlineEditToolbar from './InlineEditToolbar';
+import AtsScorePanel from './AtsScorePanel';
+import { InlineEditAction, TextRange, Tone } from '../types';
+import { detectTextDirection } from '../services/language';
 
 interface ContentEditorModalProps {
   isOpen: boolean;
@@ -9,6 +13,9 @@ interface ContentEditorModalProps {
   onConfirm: (editedContent: string) => void;
   title: string;
   confirmButtonText: string;
+  onInlineEdit?: (text: string, range: TextRange, action: InlineEditAction, tone?: Tone) => Promise<string>;
+  // When editing a resume, the job description it is scored against while typing.
+  atsJobDescription?: string;
 }
 
 const ContentEditorModal: React.FC<ContentEditorModalProps> = ({ 
@@ -18,13 +25,23 @@ const ContentEditorModal: React.FC<ContentEditorModalProps> = ({
   topic, 
   onConfirm,
   title,
-  confirmButtonText 
+  confirmButtonText,
+  onInlineEdit,
+  atsJobDescription
 }) => {
   const [markdown, setMarkdown] = useState(initialContent);
+  const [selection, setSelection] = useState<TextRange>({ start: 0, end: 0 });
+  const [isInlineEditing, setIsInlineEditing] = useState(false);
+  const [inlineEditError, setInlineEditError] = useState<string | null>(null);
+  // AI replacements bypass the textarea's native undo, so they keep their own history.
+  const [undoStack, setUndoStack] = useState<string[]>([]);
 
   useEffect(() => {
     if (isOpen) {
       setMarkdown(initialContent);
+      setSelection({ start: 0, end: 0 });
+      setInlineEditError(null);
+      setUndoStack([]);
     }
   }, [isOpen, initialContent]);
   
@@ -41,6 +58,32 @@ const ContentEditorModal: React.FC<ContentEditorModalProps> = ({
   if (!isOpen) return null;
 
   const parsedHtml = marked.parse(markdown) as string;
+  const hasSelection = markdown.slice(selection.start, selection.end).trim() !== '';
+
+  const handleInlineAction = async (action: InlineEditAction, tone?: Tone) => {
+    if (!onInlineEdit || !hasSelection) return;
+    const original = markdown;
+    const range = selection;
+
+    setIsInlineEditing(true);
+    setInlineEditError(null);
+    try {
+      const replacement = await onInlineEdit(original, range, action, tone);
+      setUndoStack(stack => [...stack, original]);
+      setMarkdown(original.slice(0, range.start) + replacement + original.slice(range.end));
+      setSelection({ start: 0, end: 0 });
+    } catch (e: unknown) {
+      setInlineEditError(e instanceof Error ? e.message : 'An unknown error occurred while editing the selection.');
+    } finally {
+      setIsInlineEditing(false);
+    }
+  };
+
+  const handleUndo = () => {
+    setMarkdown(undoStack[undoStack.length - 1]);
+    setUndoStack(stack => stack.slice(0, -1));
+    setSelection({ start: 0, end: 0 });
+  };
 
   return (
     <div 
@@ -68,10 +111,32 @@ const ContentEditorModal: React.FC<ContentEditorModalProps> = ({
         {/* Left column: Markdown editor */}
         <div className="flex flex-col">
             <label htmlFor="markdown-editor" className="text-sm font-semibold text-gray-300 mb-2">Markdown Editor</label>
+            {onInlineEdit && (
+              <div className="mb-2">
+                <div className="flex items-center gap-2">
+                  <InlineEditToolbar onAction={handleInlineAction} isWorking={isInlineEditing} disabled={!hasSelection} className="shadow-none" />
+                  {undoStack.length > 0 && (
+                    <button
+                      onClick={handleUndo}
+                      disabled={isInlineEditing}
+                      className="flex-shrink-0 px-3 py-1 text-xs font-semibold text-gray-300 bg-gray-700 hover:bg-gray-600 rounded-full transition-colors disabled:opacity-50"
+                      title="Undo the last AI edit"
+                    >
+                      Undo
+                    </button>
+                  )}
+                </div>
+                <p className={`mt-1 text-xs ${inlineEditError ? 'text-red-400' : 'text-gray-500'}`}>
+                  {inlineEditError || (hasSelection ? 'Only the selected text will be rewritten.' : 'Select text to rewrite it with AI.')}
+                </p>
+              </div>
+            )}
             <textarea
                 id="markdown-editor"
                 value={markdown}
                 onChange={(e) => setMarkdown(e.target.value)}
+                onSelect={(e) => setSelection({ start: e.currentTarget.selectionStart, end: e.currentTarget.selectionEnd })}
+                readOnly={isInlineEditing}
                 className="w-full flex-grow bg-gray-900 text-gray-300 p-4 rounded-lg border border-gray-600 focus:ring-2 focus:ring-blue-500 focus:border-blue-500 font-mono text-sm resize-none"
                 spellCheck="false"
             />
@@ -79,9 +144,14 @@ const ContentEditorModal: React.FC<ContentEditorModalProps> = ({
 
         {/* Right column: Live preview */}
         <div className="flex flex-col">
+            {atsJobDescription && (
+              <div className="mb-4">
+                <AtsScorePanel resumeText={markdown} jobDescription={atsJobDescription} baselineText={initialContent} compact />
+              </div>
+            )}
              <h3 className="text-sm font-semibold text-gray-300 mb-2">Live Preview</h3>
             <div className="prose prose-invert bg-gray-900 p-4 rounded-lg border border-gray-600 overflow-y-auto flex-grow prose-sm max-w-none">
-                <div dangerouslySetInnerHTML={{ __html: parsedHtml }} />
+                <div dir={detectTextDirection(markdown)} dangerouslySetInnerHTML={{ __html: parsedHtml }} />
             </div>
         </div>
       </main>
@@ -0,0 +1,404 @@
+import React, { useState, useEffect } from 'react';
+import { CustomPersona, Persona, personaDisplayNames } from '../types';
+import { createCustomPersona, parsePersonaImport, exportPersonas } from '../services/personaStore';
+import { getBuiltInPersonaPrompt } from '../services/geminiService';
+import { analyzeVoice, splitWritingSamples, MIN_VOICE_SAMPLES, MAX_VOICE_SAMPLES } from '../services/voiceFingerprint';
+
+interface PersonaEditorModalProps {
+    isOpen: boolean;
+    onClose: () => void;
+    personas: CustomPersona[];
+    onPersonasChange: (personas: CustomPersona[]) => void;
+}
+
+// The form edits list fields as plain text; these convert between the two shapes.
+interface PersonaDraft {
+    name: string;
+    description: string;
+    audience: string;
+    toneTraits: string;
+    bannedPhrases: string;
+    signOff: string;
+    examplePosts: string;
+}
+
+const EXAMPLE_POST_SEPARATOR = '\n---\n';
+
+const toDraft = (persona: CustomPersona): PersonaDraft => ({
+    name: persona.name,
+    description: persona.description,
+    audience: persona.audience,
+    toneTraits: persona.toneTraits.join(', '),
+    bannedPhrases: persona.bannedPhrases.join('\n'),
+    signOff: persona.signOff,
+    examplePosts: persona.examplePosts.join(EXAMPLE_POST_SEPARATOR),
+});
+
+const fromDraft = (draft: PersonaDraft) => ({
+    name: draft.name.trim() || 'Untitled Persona',
+    description: draft.description.trim(),
+    audience: draft.audience.trim(),
+    toneTraits: draft.toneTraits.split(',').map(t => t.trim()).filter(Boolean),
+    bannedPhrases: draft.bannedPhrases.split('\n').map(p => p.trim()).filter(Boolean),
+    signOff: draft.signOff.trim(),
+    examplePosts: draft.examplePosts.split(/\n-{3,}\n/).map(p => p.trim()).filter(Boolean),
+});
+
+const downloadJson = (json: string, fileName: string) => {
+    const url = URL.createObjectURL(new Blob([json], { type: 'application/json' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = fileName;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+};
+
+const inputClass = "w-full bg-gray-900 text-gray-200 rounded-lg border border-gray-600 px-3 py-2 text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none";
+
+const PersonaEditorModal: React.FC<PersonaEditorModalProps> = ({ isOpen, onClose, personas, onPersonasChange }) => {
+    const [selectedId, setSelectedId] = useState<string | null>(null);
+    const [draft, setDraft] = useState<PersonaDraft | null>(null);
+    const [cloneSource, setCloneSource] = useState<string>(Persona.GanapathiKakarla);
+    const [error, setError] = useState<string | null>(null);
+    const [voiceSamples, setVoiceSamples] = useState<string>('');
+    const [voiceError, setVoiceError] = useState<string | null>(null);
+
+    useEffect(() => {
+        if (isOpen) {
+            const first = personas[0];
+            setSelectedId(first?.id ?? null);
+            setDraft(first ? toDraft(first) : null);
+            setError(null);
+        }
+        // Only reset the selection when the modal opens.
+    }, [isOpen]);
+
+    // Prevent body scroll when modal is open
+    useEffect(() => {
+        if (isOpen) {
+            document.body.style.overflow = 'hidden';
+        } else {
+            document.body.style.overflow = 'auto';
+        }
+        return () => { document.body.style.overflow = 'auto' };
+    }, [isOpen]);
+
+    if (!isOpen) return null;
+
+    const selectPersona = (persona: CustomPersona) => {
+        setSelectedId(persona.id);
+        setDraft(toDraft(persona));
+        setError(null);
+        setVoiceSamples('');
+        setVoiceError(null);
+    };
+
+    const addPersonas = (newPersonas: CustomPersona[]) => {
+        onPersonasChange([...personas, ...newPersonas]);
+        selectPersona(newPersonas[0]);
+    };
+
+    const handleNew = () => {
+        addPersonas([createCustomPersona()]);
+    };
+
+    const handleClone = () => {
+        const custom = personas.find(p => p.id === cloneSource);
+        if (custom) {
+            const { id, createdAt, updatedAt, ...fields } = custom;
+            addPersonas([createCustomPersona({ ...fields, name: `${custom.name} (Copy)` })]);
+            return;
+        }
+        const builtIn = cloneSource as Persona;
+        addPersonas([createCustomPersona({
+            name: `${personaDisplayNames[builtIn]} (Copy)`,
+            description: getBuiltInPersonaPrompt(builtIn).replace(/^Act as [^.]*\.\s*/, ''),
+        })]);
+    };
+
+    const handleSave = () => {
+        if (!selected || !draft) return;
+        const updated = { ...selected, ...fromDraft(draft), updatedAt: Date.now() };
+        onPersonasChange(personas.map(p => p.id === updated.id ? updated : p));
+        setDraft(toDraft(updated));
+    };
+
+    const handleDelete = () => {
+        if (!selectedId) return;
+        const remaining = personas.filter(p => p.id !== selectedId);
+        onPersonasChange(remaining);
+        if (remaining[0]) {
+            selectPersona(remaining[0]);
+        } else {
+            setSelectedId(null);
+            setDraft(null);
+        }
+    };
+
+    const handleImport = async (event: React.ChangeEvent<HTMLInputElement>) => {
+        const file = event.target.files?.[0];
+        event.target.value = ''; // Allow re-importing the same file
+        if (!file) return;
+        try {
+            addPersonas(parsePersonaImport(await file.text()));
+        } catch (e: unknown) {
+            setError(e instanceof Error ? e.message : "Failed to import personas.");
+        }
+    };
+
+    const handleExport = (scope: 'selected' | 'all') => {
+        const toExport = scope === 'all' ? personas : personas.filter(p => p.id === selectedId);
+        if (toExport.length === 0) return;
+        const fileName = toExport.length === 1
+            ? `${toExport[0].name.replace(/[^a-z0-9]/gi, '_').toLowerCase()}_persona.json`
+            : 'personas.json';
+        downloadJson(exportPersonas(toExport), fileName);
+    };
+
+    const handleVoiceSampleUpload = async (event: React.ChangeEvent<HTMLInputElement>) => {
+        const files = Array.from<File>(event.target.files ?? []);
+        event.target.value = ''; // Allow re-uploading the same file
+        if (files.length === 0) return;
+        const texts = await Promise.all(files.map(file => file.text()));
+        const samples = [...splitWritingSamples(voiceSamples), ...texts.flatMap(splitWritingSamples)];
+        setVoiceSamples(samples.join(EXAMPLE_POST_SEPARATOR));
+    };
+
+    const setVoiceFingerprint = (voiceFingerprint: CustomPersona['voiceFingerprint']) => {
+        if (!selectedId) return;
+        onPersonasChange(personas.map(p => p.id === selectedId ? { ...p, voiceFingerprint, updatedAt: Date.now() } : p));
+    };
+
+    const handleAnalyzeVoice = () => {
+        try {
+            setVoiceFingerprint(analyzeVoice(splitWritingSamples(voiceSamples)));
+            setVoiceSamples('');
+            setVoiceError(null);
+        } catch (e: unknown) {
+            setVoiceError(e instanceof Error ? e.message : "Failed to analyze the writing samples.");
+        }
+    };
+
+    const updateDraft = (field: keyof PersonaDraft, value: string) => {
+        setDraft(prev => prev ? { ...prev, [field]: value } : prev);
+    };
+
+    const selected = personas.find(p => p.id === selectedId);
+    const fingerprint = selected?.voiceFingerprint;
+    const voiceSampleCount = splitWritingSamples(voiceSamples).length;
+    const isDirty = !!selected && !!draft && JSON.stringify(toDraft(selected)) !== JSON.stringify(draft);
+
+    return (
+        <div
+            className="fixed inset-0 bg-gray-900/80 backdrop-blur-sm z-50 flex flex-col p-4 sm:p-6 lg:p-8"
+            aria-modal="true"
+            role="dialog"
+        >
+            <header className="flex-shrink-0 flex items-center justify-between pb-4 border-b border-gray-700 mb-4">
+                <div>
+                    <h2 className="text-xl sm:text-2xl font-bold text-white">Manage Personas</h2>
+                    <p className="text-sm text-gray-400 mt-1">Create voices for yourself or teammates. Personas are saved in this browser.</p>
+                </div>
+                <button
+                    onClick={onClose}
+                    className="p-2 text-gray-400 hover:text-white hover:bg-gray-700 rounded-full transition-colors"
+                    aria-label="Close persona editor"
+                >
+                    <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                    </svg>
+                </button>
+            </header>
+
+            <main className="flex-grow grid grid-cols-1 md:grid-cols-3 gap-4 min-h-0">
+                {/* Left column: persona list and actions */}
+                <div className="flex flex-col gap-3 min-h-0">
+                    <div className="flex flex-wrap gap-2">
+                        <button onClick={handleNew} className="px-3 py-1 text-xs font-semibold text-blue-300 bg-blue-800/50 hover:bg-blue-800/80 rounded-full transition-colors duration-200">
+                            New
+                        </button>
+                        <label htmlFor="persona-import" className="px-3 py-1 text-xs font-semibold text-blue-300 bg-blue-800/50 hover:bg-blue-800/80 rounded-full transition-colors duration-200 cursor-pointer">
+                            Import JSON
+                        </label>
+                        <input id="persona-import" type="file" accept=".json,application/json" className="sr-only" onChange={handleImport} />
+                        <button
+                            onClick={() => handleExport('all')}
+                            disabled={personas.length === 0}
+                            className="px-3 py-1 text-xs font-semibold text-gray-300 bg-gray-700 hover:bg-gray-600 rounded-full transition-colors duration-200 disabled:opacity-50"
+                        >
+                            Export All
+                        </button>
+                    </div>
+
+                    <div className="flex gap-2">
+                        <select
+                            value={cloneSource}
+                            onChange={(e) => setCloneSource(e.target.value)}
+                            className="flex-grow min-w-0 bg-gray-700 text-white rounded-lg border border-gray-600 px-2 py-1 text-xs outline-none"
+                            aria-label="Persona to clone"
+                        >
+                            {personas.length > 0 && (
+                                <optgroup label="My Personas">
+                                    {personas.map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+                                </optgroup>
+                            )}
+                            <optgroup label="Built-in Personas">
+                                {Object.values(Persona).map(p => <option key={p} value={p}>{personaDisplayNames[p]}</option>)}
+                            </optgroup>
+                        </select>
+                        <button onClick={handleClone} className="px-3 py-1 text-xs font-semibold text-gray-300 bg-gray-700 hover:bg-gray-600 rounded-full transition-colors duration-200">
+                            Clone
+                        </button>
+                    </div>
+
+                    {error && <p className="text-xs text-red-400">{error}</p>}
+
+                    {personas.length === 0 ? (
+                        <p className="text-sm text-gray-400">No custom personas yet. Start from scratch, clone a built-in persona, or import a JSON file.</p>
+                    ) : (
+                        <ul className="space-y-2 overflow-y-auto flex-grow pr-2">
+                            {personas.map(p => (
+                                <li key={p.id}>
+                                    <button
+                                        onClick={() => selectPersona(p)}
+                                        className={`w-full text-left px-3 py-2 rounded-lg text-sm transition-colors ${p.id === selectedId ? 'bg-blue-600 text-white' : 'bg-gray-700/50 text-gray-300 hover:bg-gray-700'}`}
+                                    >
+                                        <span className="font-semibold block truncate">{p.name}</span>
+                                        {p.audience && <span className="text-xs opacity-75 block truncate">For {p.audience}</span>}
+                                    </button>
+                                </li>
+                            ))}
+                        </ul>
+                    )}
+                </div>
+
+                {/* Right columns: persona form */}
+                <div className="md:col-span-2 overflow-y-auto pr-2">
+                    {draft ? (
+                        <div className="space-y-4">
+                            <div>
+                                <label htmlFor="persona-name" className="block text-sm font-medium text-gray-300 mb-1">Name</label>
+                                <input id="persona-name" type="text" value={draft.name} onChange={(e) => updateDraft('name', e.target.value)} className={inputClass} />
+                            </div>
+                            <div>
+                                <label htmlFor="persona-description" className="block text-sm font-medium text-gray-300 mb-1">Background &amp; Expertise</label>
+                                <textarea id="persona-description" rows={3} value={draft.description} onChange={(e) => updateDraft('description', e.target.value)} className={inputClass} placeholder="e.g., A staff engineer who writes about platform reliability and on-call culture." />
+                            </div>
+                            <div>
+                                <label htmlFor="persona-audience" className="block text-sm font-medium text-gray-300 mb-1">Audience</label>
+                                <input id="persona-audience" type="text" value={draft.audience} onChange={(e) => updateDraft('audience', e.target.value)} className={inputClass} placeholder="e.g., engineering managers and SREs" />
+                            </div>
+                            <div>
+                                <label htmlFor="persona-tone" className="block text-sm font-medium text-gray-300 mb-1">Tone Traits <span className="text-gray-500">(comma-separated)</span></label>
+                                <input id="persona-tone" type="text" value={draft.toneTraits} onChange={(e) => updateDraft('toneTraits', e.target.value)} className={inputClass} placeholder="e.g., candid, dry humour, practical" />
+                            </div>
+                            <div>
+                                <label htmlFor="persona-banned" className="block text-sm font-medium text-gray-300 mb-1">Banned Phrases <span className="text-gray-500">(one per line)</span></label>
+                                <textarea id="persona-banned" rows={3} value={draft.bannedPhrases} onChange={(e) => updateDraft('bannedPhrases', e.target.value)} className={inputClass} placeholder={"delve\ngame-changer"} />
+                            </div>
+                            <div>
+                                <label htmlFor="persona-signoff" className="block text-sm font-medium text-gray-300 mb-1">Signature Sign-off</label>
+                                <input id="persona-signoff" type="text" value={draft.signOff} onChange={(e) => updateDraft('signOff', e.target.value)} className={inputClass} placeholder="e.g., Ship small, ship often. — Priya" />
+                            </div>
+                            <div>
+                                <label htmlFor="persona-examples" className="block text-sm font-medium text-gray-300 mb-1">Example Posts <span className="text-gray-500">(separate posts with a line containing ---)</span></label>
+                                <textarea id="persona-examples" rows={8} value={draft.examplePosts} onChange={(e) => updateDraft('examplePosts', e.target.value)} className={`${inputClass} font-mono`} />
+                            </div>
+
+                            <div className="pt-4 border-t border-gray-700">
+                                <div className="flex justify-between items-center mb-1">
+                                    <h3 className="text-sm font-medium text-gray-300">Voice Fingerprint</h3>
+                                    {fingerprint && (
+                                        <button onClick={() => setVoiceFingerprint(undefined)} className="text-xs text-red-300 hover:text-red-200">
+                                            Remove fingerprint
+                                        </button>
+                                    )}
+                                </div>
+                                <p className="text-xs text-gray-400 mb-2">
+                                    Paste {MIN_VOICE_SAMPLES}–{MAX_VOICE_SAMPLES} of your real LinkedIn posts, separated by a line containing ---, or upload them as text files. The analysis runs in your browser and is used to write posts that sound like you.
+                                </p>
+                                {fingerprint && (
+                                    <div className="bg-gray-900/60 rounded-lg p-3 mb-3 text-xs text-gray-300 grid grid-cols-2 gap-x-4 gap-y-1">
+                                        <span className="col-span-2 text-gray-400">
+                                            Learned from {fingerprint.sampleCount} posts on {new Intl.DateTimeFormat('en-US', { year: 'numeric', month: 'short', day: 'numeric' }).format(new Date(fingerprint.analyzedAt))}
+                                        </span>
+                                        <span>Post length: ~{fingerprint.avgWordsPerPost} words</span>
+                                        <span>Sentence length: ~{fingerprint.avgWordsPerSentence} words</span>
+                                        <span>Emoji per post: {fingerprint.emojisPerPost} {fingerprint.topEmojis.join(' ')}</span>
+                                        <span>Hashtags per post: {fingerprint.hashtagsPerPost}</span>
+                                        <span className="col-span-2 truncate">Frequent words: {fingerprint.topWords.join(', ') || '—'}</span>
+                                    </div>
+                                )}
+                                <textarea
+                                    rows={6}
+                                    value={voiceSamples}
+                                    onChange={(e) => setVoiceSamples(e.target.value)}
+                                    className={`${inputClass} font-mono`}
+                                    placeholder={"First post...\n---\nSecond post..."}
+                                    aria-label="Writing samples"
+                                />
+                                {voiceError && <p className="text-xs text-red-400 mt-1">{voiceError}</p>}
+                                <div className="flex items-center gap-2 mt-2">
+                                    <label htmlFor="voice-sample-upload" className="px-3 py-1 text-xs font-semibold text-gray-300 bg-gray-700 hover:bg-gray-600 rounded-full transition-colors duration-200 cursor-pointer">
+                                        Upload Posts
+                                    </label>
+                                    <input id="voice-sample-upload" type="file" multiple accept=".txt,.md" className="sr-only" onChange={handleVoiceSampleUpload} />
+                                    <button
+                                        onClick={handleAnalyzeVoice}
+                                        disabled={voiceSampleCount === 0}
+                                        className="px-3 py-1 text-xs font-semibold text-blue-300 bg-blue-800/50 hover:bg-blue-800/80 rounded-full transition-colors duration-200 disabled:opacity-50"
+                                    >
+                                        {fingerprint ? 'Re-analyze Voice' : 'Analyze Voice'}
+                                    </button>
+                                    <span className="text-xs text-gray-500">{voiceSampleCount} post{voiceSampleCount === 1 ? '' : 's'}</span>
+                                </div>
+                            </div>
+                        </div>
+                    ) : (
+                        <div className="h-full flex items-center justify-center text-center text-gray-400">
+                            <p className="text-sm">Select or create a persona to edit it.</p>
+                        </div>
+                    )}
+                </div>
+            </main>
+
+            <footer className="flex-shrink-0 flex items-center justify-between gap-4 pt-4 mt-4 border-t border-gray-700">
+                <div className="flex gap-2">
+                    <button
+                        onClick={handleDelete}
+                        disabled={!selectedId}
+                        className="px-4 py-2 text-sm font-semibold text-red-300 bg-red-800/50 hover:bg-red-800/80 rounded-lg transition-colors disabled:opacity-50"
+                    >
+                        Delete
+                    </button>
+                    <button
+                        onClick={() => handleExport('selected')}
+                        disabled={!selectedId}
+                        className="px-4 py-2 text-sm font-semibold text-gray-300 bg-gray-700 hover:bg-gray-600 rounded-lg transition-colors disabled:opacity-50"
+                    >
+                        Export
+                    </button>
+                </div>
+                <div className="flex gap-4">
+                    <button
+                        onClick={onClose}
+                        className="px-6 py-2 text-sm font-semibold text-gray-300 bg-gray-700 hover:bg-gray-600 rounded-lg transition-colors"
+                    >
+                        Close
+                    </button>
+                    <button
+                        onClick={handleSave}
+                        disabled={!isDirty}
+                        className="px-6 py-2 text-sm font-semibold text-white bg-blue-600 hover:bg-blue-700 rounded-lg transition-colors disabled:opacity-50"
+                    >
+                        Save Persona
+                    </button>
+                </div>
+            </footer>
+        </div>
+    );
+};
+
+export default PersonaEditorModal;
@@ -0,0 +1,325 @@
+import React, { useState } from 'react';
+import { GenerationType, HistoryItem, InterviewMode, Prospect, ProspectContact, ProspectStage } from '../types';
+import { prospectStages, prospectStageLabels, createProspect, createProspectContact, findProspect, getProspectGenerations } from '../services/prospectStore';
+
+interface ProspectBoardProps {
+    prospects: Prospect[];
+    onProspectsChange: (prospects: Prospect[]) => void;
+    history: HistoryItem[];
+    onOpenItem: (item: HistoryItem) => void;
+    // Sets up the controls for a resume tailoring or interview generation for the prospect.
+    onPrepare: (type: GenerationType, prospect: Prospect) => void;
+}
+
+const stageStyles: Record<ProspectStage, string> = {
+    researching: 'border-gray-500',
+    applied: 'border-blue-500',
+    interviewing: 'border-yellow-500',
+    offer: 'border-green-500',
+    rejected: 'border-red-600',
+};
+
+const inputClass = 'w-full bg-gray-700 text-white rounded-lg border border-gray-600 px-2 py-1 text-sm outline-none focus:ring-1 focus:ring-blue-500';
+
+const outreachLabels: Partial<Record<GenerationType, string>> = {
+    [GenerationType.CoverLetter]: 'Cover Letter',
+    [GenerationType.ConnectionRequest]: 'Connection Note',
+    [GenerationType.RecruiterInMail]: 'Recruiter InMail',
+    [GenerationType.ReferralRequest]: 'Referral Ask',
+};
+
+const generationLabel = (item: HistoryItem): string => {
+    if (item.options.type === GenerationType.ResumeTailoring) {
+        return item.options.resume ? 'Tailored Resume' : 'Resume Tailoring Guide';
+    }
+    const outreachLabel = outreachLabels[item.options.type];
+    if (outreachLabel) {
+        return outreachLabel;
+    }
+    return item.options.interviewMode === InterviewMode.Mock ? 'Mock Interview' : 'Interview Questions';
+};
+
+const formatDate = (time: number): string => {
+    return new Intl.DateTimeFormat('en-US', { month: 'short', day: 'numeric', year: 'numeric' }).format(new Date(time));
+};
+
+/**
+ * Job-search board of tracked companies, one column per stage. Cards are dragged between stages;
+ * the selected card holds the target role, notes, contacts and the generations made for the company.
+ */
+const ProspectBoard: React.FC<ProspectBoardProps> = ({ prospects, onProspectsChange, history, onOpenItem, onPrepare }) => {
+    const [selectedId, setSelectedId] = useState<string | null>(null);
+    const [dropTarget, setDropTarget] = useState<ProspectStage | null>(null);
+    const [newCompany, setNewCompany] = useState('');
+
+    const selected = prospects.find(prospect => prospect.id === selectedId) ?? null;
+    const selectedGenerations = selected ? getProspectGenerations(selected, history) : [];
+    const isDuplicate = !!findProspect(prospects, newCompany);
+
+    const updateProspect = (id: string, changes: Partial<Prospect>) => {
+        onProspectsChange(prospects.map(prospect => prospect.id === id ? { ...prospect, ...changes, updatedAt: Date.now() } : prospect));
+    };
+
+    const updateContact = (prospect: Prospect, contactId: string, changes: Partial<ProspectContact>) => {
+        updateProspect(prospect.id, { contacts: prospect.contacts.map(contact => contact.id === contactId ? { ...contact, ...changes } : contact) });
+    };
+
+    const handleAdd = (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!newCompany.trim() || isDuplicate) return;
+        const prospect = createProspect({ company: newCompany });
+        onProspectsChange([prospect, ...prospects]);
+        setSelectedId(prospect.id);
+        setNewCompany('');
+    };
+
+    const handleDelete = (prospect: Prospect) => {
+        if (!window.confirm(`Remove ${prospect.company} from your prospects? Its notes and contacts will be lost.`)) return;
+        onProspectsChange(prospects.filter(p => p.id !== prospect.id));
+        setSelectedId(null);
+    };
+
+    const dropProps = (stage: ProspectStage) => ({
+        onDragOver: (e: React.DragEvent) => {
+            e.preventDefault();
+            e.dataTransfer.dropEffect = 'move';
+            if (dropTarget !== stage) setDropTarget(stage);
+        },
+        onDragLeave: () => setDropTarget(null),
+        onDrop: (e: React.DragEvent) => {
+            e.preventDefault();
+            setDropTarget(null);
+            const prospect = prospects.find(p => p.id === e.dataTransfer.getData('text/plain'));
+            if (prospect && prospect.stage !== stage) updateProspect(prospect.id, { stage });
+        },
+    });
+
+    return (
+        <div className="bg-gray-800 p-4 rounded-2xl shadow-lg h-full flex flex-col">
+            <div className="flex flex-wrap justify-between items-center gap-3 mb-4 px-2">
+                <div>
+                    <h2 className="text-xl font-bold">Prospects</h2>
+                    <p className="text-xs text-gray-400">
+                        {prospects.length} compan{prospects.length === 1 ? 'y' : 'ies'} tracked. Save companies from the prospector or add them here, then drag cards as your application moves on.
+                    </p>
+                </div>
+                <form onSubmit={handleAdd} className="flex items-center gap-2">
+                    <input
+                        type="text"
+                        value={newCompany}
+                        onChange={(e) => setNewCompany(e.target.value)}
+                        placeholder="Company name"
+                        className="bg-gray-700 text-white rounded-lg border border-gray-600 px-3 py-1 text-sm outline-none focus:ring-1 focus:ring-blue-500"
+                    />
+                    <button
+                        type="submit"
+                        disabled={!newCompany.trim() || isDuplicate}
+                        title={isDuplicate ? 'This company is already on the board' : undefined}
+                        className="px-3 py-1 text-xs font-semibold text-blue-300 bg-blue-800/50 hover:bg-blue-800/80 rounded-full transition-colors duration-200 disabled:opacity-50"
+                    >
+                        Add Company
+                    </button>
+                </form>
+            </div>
+
+            <div className="flex-grow min-h-0 grid grid-cols-1 md:grid-cols-5 gap-3 overflow-y-auto">
+                {prospectStages.map(stage => {
+                    const stageProspects = prospects.filter(prospect => prospect.stage === stage);
+                    return (
+                        <div
+                            key={stage}
+                            {...dropProps(stage)}
+                            className={`flex flex-col min-h-[8rem] bg-gray-900/40 rounded-lg p-2 border ${dropTarget === stage ? 'border-blue-500' : 'border-transparent'}`}
+                        >
+                            <h3 className="text-sm font-semibold text-gray-300 mb-2 px-1 flex justify-between">
+                                {prospectStageLabels[stage]}
+                                <span className="text-xs font-normal text-gray-500">{stageProspects.length}</span>
+                            </h3>
+                            <div className="space-y-2 overflow-y-auto pr-1">
+                                {stageProspects.map(prospect => {
+                                    const generationCount = getProspectGenerations(prospect, history).length;
+                                    return (
+                                        <button
+                                            key={prospect.id}
+                                            draggable
+                                            onDragStart={(e) => { e.dataTransfer.setData('text/plain', prospect.id); e.dataTransfer.effectAllowed = 'move'; }}
+                                            onClick={() => setSelectedId(prospect.id)}
+                                            className={`block w-full text-left rounded-md border-l-2 bg-gray-700/80 hover:bg-gray-700 px-2 py-1.5 cursor-grab active:cursor-grabbing ${stageStyles[stage]} ${prospect.id === selectedId ? 'ring-1 ring-white' : ''}`}
+                                        >
+                                            <span className="block text-sm font-semibold text-gray-100 truncate">{prospect.company}</span>
+                                            {prospect.targetRole && <span className="block text-xs text-gray-300 truncate">{prospect.targetRole}</span>}
+                                            <span className="block text-[10px] text-gray-400">
+                                                {[prospect.industry, prospect.contacts.length > 0 && `${prospect.contacts.length} contact${prospect.contacts.length === 1 ? '' : 's'}`, generationCount > 0 && `${generationCount} generation${generationCount === 1 ? '' : 's'}`].filter(Boolean).join(' · ')}
+                                            </span>
+                                        </button>
+                                    );
+                                })}
+                            </div>
+                        </div>
+                    );
+                })}
+            </div>
+
+            {selected && (
+                <div className="mt-4 pt-4 border-t border-gray-700 px-2 max-h-[45%] overflow-y-auto">
+                    <div className="flex flex-wrap justify-between items-start gap-3 mb-3">
+                        <div className="min-w-0">
+                            <p className="text-lg font-semibold text-gray-200 truncate">{selected.company}</p>
+                            <p className="text-xs text-gray-500">Added {formatDate(selected.createdAt)} · updated {formatDate(selected.updatedAt)}</p>
+                            {selected.reason && <p className="text-xs text-gray-400 mt-1">{selected.reason}</p>}
+                        </div>
+                        <div className="flex flex-wrap gap-2">
+                            <button
+                                onClick={() => onPrepare(GenerationType.ResumeTailoring, selected)}
+                                className="px-3 py-1 text-xs font-semibold text-blue-300 bg-blue-800/50 hover:bg-blue-800/80 rounded-full transition-colors duration-200"
+                            >
+                                Tailor Resume
+                            </button>
+                            <button
+                                onClick={() => onPrepare(GenerationType.InterviewQuestions, selected)}
+                                className="px-3 py-1 text-xs font-semibold text-blue-300 bg-blue-800/50 hover:bg-blue-800/80 rounded-full transition-colors duration-200"
+                            >
+                                Interview Prep
+                            </button>
+                            <button
+                                onClick={() => onPrepare(GenerationType.CoverLetter, selected)}
+                                className="px-3 py-1 text-xs font-semibold text-blue-300 bg-blue-800/50 hover:bg-blue-800/80 rounded-full transition-colors duration-200"
+                            >
+                                Cover Letter
+                            </button>
+                            <button
+                                onClick={() => handleDelete(selected)}
+                                className="px-3 py-1 text-xs font-semibold text-red-300 bg-red-800/50 hover:bg-red-800/80 rounded-full transition-colors duration-200"
+                            >
+                                Remove
+                            </button>
+                            <button onClick={() => setSelectedId(null)} className="px-3 py-1 text-xs font-semibold text-gray-300 bg-gray-700 hover:bg-gray-600 rounded-full">Close</button>
+                        </div>
+                    </div>
+
+                    <div className="grid grid-cols-1 lg:grid-cols-3 gap-4">
+                        <div className="space-y-3">
+                            <label className="block text-xs text-gray-400">
+                                Stage
+                                <select
+                                    value={selected.stage}
+                                    onChange={(e) => updateProspect(selected.id, { stage: e.target.value as ProspectStage })}
+                                    className={`mt-1 ${inputClass}`}
+                                >
+                                    {prospectStages.map(stage => <option key={stage} value={stage}>{prospectStageLabels[stage]}</option>)}
+                                </select>
+                            </label>
+                            <label className="block text-xs text-gray-400">
+                                Target role
+                                <input
+                                    type="text"
+                                    value={selected.targetRole}
+                                    onChange={(e) => updateProspect(selected.id, { targetRole: e.target.value })}
+                                    placeholder="e.g., 'Senior Data Scientist'"
+                                    className={`mt-1 ${inputClass}`}
+                                />
+                            </label>
+                            <label className="block text-xs text-gray-400">
+                                Industry
+                                <input
+                                    type="text"
+                                    value={selected.industry}
+                                    onChange={(e) => updateProspect(selected.id, { industry: e.target.value })}
+                                    className={`mt-1 ${inputClass}`}
+                                />
+                            </label>
+                            <label className="block text-xs text-gray-400">
+                                Notes
+                                <textarea
+                                    value={selected.notes}
+                                    onChange={(e) => updateProspect(selected.id, { notes: e.target.value })}
+                                    rows={4}
+                                    placeholder="Application dates, referrals, what you learned about the team..."
+                                    className={`mt-1 ${inputClass}`}
+                                />
+                            </label>
+                        </div>
+
+                        <div>
+                            <div className="flex justify-between items-center mb-2">
+                                <h4 className="text-sm font-semibold text-gray-300">Contacts</h4>
+                                <button
+                                    onClick={() => updateProspect(selected.id, { contacts: [...selected.contacts, createProspectContact()] })}
+                                    className="px-3 py-1 text-xs font-semibold text-blue-300 bg-blue-800/50 hover:bg-blue-800/80 rounded-full transition-colors duration-200"
+                                >
+                                    Add Contact
+                                </button>
+                            </div>
+                            {selected.contacts.length === 0 ? (
+                                <p className="text-xs text-gray-500">No contacts yet. Add recruiters, hiring managers or referrers.</p>
+                            ) : (
+                                <ul className="space-y-2">
+                                    {selected.contacts.map(contact => (
+                                        <li key={contact.id} className="bg-gray-900/60 rounded-lg border border-gray-700 p-2 space-y-1">
+                                            <div className="flex gap-1">
+                                                <input
+                                                    type="text"
+                                                    value={contact.name}
+                                                    onChange={(e) => updateContact(selected, contact.id, { name: e.target.value })}
+                                                    placeholder="Name"
+                                                    className={inputClass}
+                                                />
+                                                <button
+                                                    onClick={() => updateProspect(selected.id, { contacts: selected.contacts.filter(c => c.id !== contact.id) })}
+                                                    className="px-2 text-red-400 hover:text-red-300"
+                                                    aria-label="Remove contact"
+                                                >
+                                                    &times;
+                                                </button>
+                                            </div>
+                                            <input
+                                                type="text"
+                                                value={contact.title}
+                                                onChange={(e) => updateContact(selected, contact.id, { title: e.target.value })}
+                                                placeholder="Title, e.g. 'Recruiter'"
+                                                className={inputClass}
+                                            />
+                                            <input
+                                                type="text"
+                                                value={contact.link}
+                                                onChange={(e) => updateContact(selected, contact.id, { link: e.target.value })}
+                                                placeholder="LinkedIn URL or email"
+                                                className={inputClass}
+                                            />
+                                        </li>
+                                    ))}
+                                </ul>
+                            )}
+                        </div>
+
+                        <div>
+                            <h4 className="text-sm font-semibold text-gray-300 mb-2">Generations</h4>
+                            {selectedGenerations.length === 0 ? (
+                                <p className="text-xs text-gray-500">
+                                    Resume tailoring and interview generations for {selected.company} show up here. Use the buttons above to start one.
+                                </p>
+                            ) : (
+                                <ul className="space-y-1.5">
+                                    {selectedGenerations.map(item => (
+                                        <li key={item.id}>
+                                            <button
+                                                onClick={() => onOpenItem(item)}
+                                                className="w-full text-left bg-gray-900/60 hover:bg-gray-700 rounded-lg border border-gray-700 px-2 py-1.5 transition-colors"
+                                            >
+                                                <span className="block text-xs font-semibold text-blue-300">{generationLabel(item)}</span>
+                                                <span className="block text-xs text-gray-300 truncate">{item.options.topic}</span>
+                                                <span className="block text-[10px] text-gray-500">{formatDate(item.timestamp)}</span>
+                                            </button>
+                                        </li>
+                                    ))}
+                                </ul>
+                            )}
+                        </div>
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default ProspectBoard;
@@ -0,0 +1,142 @@
+import React, { useState } from 'react';
+import { HistoryItem, RepurposeFormat, RepurposeRun } from '../types';
+import { repurposeFormats, repurposeFormatLabels, MIN_REPURPOSE_POSTS, MAX_REPURPOSE_POSTS } from '../services/repurpose';
+
+interface RepurposePanelProps {
+    derivedItems: Record<RepurposeFormat, HistoryItem[]>;
+    runs: Partial<Record<RepurposeFormat, RepurposeRun>>;
+    onRepurpose: (formats: RepurposeFormat[], postCount: number) => void;
+    onOpenItem: (item: HistoryItem) => void;
+}
+
+const statusStyles: Record<string, string> = {
+    queued: 'text-gray-300 bg-gray-700',
+    running: 'text-blue-200 bg-blue-800/70',
+    done: 'text-green-200 bg-green-800/60',
+    failed: 'text-red-200 bg-red-800/60',
+    idle: 'text-gray-400 bg-gray-800',
+};
+
+const statusLabels: Record<string, string> = {
+    queued: 'Queued',
+    running: 'Generating...',
+    done: 'Ready',
+    failed: 'Failed',
+    idle: 'Not generated',
+};
+
+const formatDescriptions: Record<RepurposeFormat, string> = {
+    post: 'Each on a different idea from the document.',
+    newsletter: 'One email edition with a title and sections.',
+    carousel: 'A hook, six content slides and a call to action.',
+    thread: '6-8 numbered parts of up to 280 characters.',
+};
+
+// What an item in the list is called: a post by its angle, everything else by when it was made.
+const getItemLabel = (item: HistoryItem): string => {
+    return item.options.repurpose?.angle ?? new Date(item.timestamp).toLocaleString();
+};
+
+/**
+ * Derives posts, a newsletter, a carousel and a thread from the document on show, and lists
+ * what has been derived from it so far. Every asset is saved to history linked to the document.
+ */
+const RepurposePanel: React.FC<RepurposePanelProps> = ({ derivedItems, runs, onRepurpose, onOpenItem }) => {
+    const [selected, setSelected] = useState<RepurposeFormat[]>(repurposeFormats);
+    const [postCount, setPostCount] = useState<number>(MIN_REPURPOSE_POSTS);
+    const isBusy = repurposeFormats.some(format => runs[format]?.status === 'running' || runs[format]?.status === 'queued');
+
+    const getStatus = (format: RepurposeFormat): string => {
+        const run = runs[format];
+        if (run && run.status !== 'done') return run.status;
+        return derivedItems[format].length > 0 ? 'done' : 'idle';
+    };
+
+    const toggleFormat = (format: RepurposeFormat) => {
+        setSelected(prev => prev.includes(format) ? prev.filter(f => f !== format) : repurposeFormats.filter(f => f === format || prev.includes(f)));
+    };
+
+    return (
+        <div className="mt-8 pt-6 border-t border-gray-700 not-prose space-y-4">
+            <div className="flex flex-wrap items-center justify-between gap-2">
+                <div>
+                    <h4 className="text-lg font-semibold text-gray-300">Repurpose This Document</h4>
+                    <p className="text-sm text-gray-400">Turns the document's own text into new assets. Each is saved to history and linked back here.</p>
+                </div>
+                <button
+                    onClick={() => onRepurpose(selected, postCount)}
+                    disabled={isBusy || selected.length === 0}
+                    className="px-4 py-2 text-sm font-semibold text-white bg-blue-600 hover:bg-blue-700 rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                    {isBusy ? 'Repurposing...' : 'Repurpose'}
+                </button>
+            </div>
+
+            <ol className="space-y-2">
+                {repurposeFormats.map(format => {
+                    const status = getStatus(format);
+                    const run = runs[format];
+                    const items = derivedItems[format];
+                    return (
+                        <li key={format} className="bg-gray-900/60 rounded-lg border border-gray-700 p-4">
+                            <div className="flex flex-wrap items-start justify-between gap-3">
+                                <label className="flex items-start gap-3 min-w-0 flex-1 cursor-pointer">
+                                    <input
+                                        type="checkbox"
+                                        checked={selected.includes(format)}
+                                        onChange={() => toggleFormat(format)}
+                                        disabled={isBusy}
+                                        className="mt-1 h-4 w-4 rounded border-gray-500 bg-gray-700 text-blue-600 focus:ring-blue-500"
+                                    />
+                                    <span>
+                                        <span className="block font-semibold text-gray-200">{repurposeFormatLabels[format]}</span>
+                                        <span className="block text-sm text-gray-400">{formatDescriptions[format]}</span>
+                                    </span>
+                                </label>
+                                <div className="flex items-center gap-2 flex-shrink-0">
+                                    {format === 'post' && (
+                                        <select
+                                            value={postCount}
+                                            onChange={(e) => setPostCount(Number(e.target.value))}
+                                            disabled={isBusy || !selected.includes('post')}
+                                            aria-label="Number of posts"
+                                            className="bg-gray-700 border border-gray-600 rounded-md px-2 py-1 text-xs text-gray-200 disabled:opacity-50"
+                                        >
+                                            {Array.from({ length: MAX_REPURPOSE_POSTS - MIN_REPURPOSE_POSTS + 1 }, (_, i) => MIN_REPURPOSE_POSTS + i).map(count => (
+                                                <option key={count} value={count}>{count} posts</option>
+                                            ))}
+                                        </select>
+                                    )}
+                                    <span className={`px-2 py-0.5 text-xs font-semibold rounded-full ${statusStyles[status]}`}>
+                                        {statusLabels[status]}
+                                        {status === 'running' && run && run.attempts > 1 ? ` (retry ${run.attempts - 1})` : ''}
+                                    </span>
+                                </div>
+                            </div>
+                            {status === 'failed' && run?.error && (
+                                <p className="text-xs text-red-400 mt-2">{run.error}{run.attempts > 0 && ` (${run.attempts} attempt${run.attempts === 1 ? '' : 's'})`}</p>
+                            )}
+                            {items.length > 0 && (
+                                <ul className="mt-3 space-y-1">
+                                    {items.map(item => (
+                                        <li key={item.id} className="flex items-center justify-between gap-3">
+                                            <span className="text-sm text-gray-300 truncate">{getItemLabel(item)}</span>
+                                            <button
+                                                onClick={() => onOpenItem(item)}
+                                                className="flex-shrink-0 px-3 py-1 text-xs font-semibold text-blue-300 bg-blue-800/50 hover:bg-blue-800/80 rounded-full transition-colors duration-200"
+                                            >
+                                                Open
+                                            </button>
+                                        </li>
+                                    ))}
+                                </ul>
+                            )}
+                        </li>
+                    );
+                })}
+            </ol>
+        </div>
+    );
+};
+
+export default RepurposePanel;
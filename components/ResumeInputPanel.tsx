@@ -0,0 +1,107 @@
+import React, { useState } from 'react';
+import { ResumeInput } from '../types';
+import { extractTextFromFile, SUPPORTED_DOCUMENT_EXTENSIONS } from '../services/documentParser';
+import AtsScorePanel from './AtsScorePanel';
+
+interface ResumeInputPanelProps {
+    value: ResumeInput;
+    onChange: (value: ResumeInput) => void;
+    // Only the ATS match is offered, for flows that don't rewrite the resume.
+    scoreOnly?: boolean;
+}
+
+type ResumeField = 'resume' | 'jobDescription';
+
+const fieldLabels: Record<ResumeField, string> = {
+    resume: 'Your Resume',
+    jobDescription: 'Job Description',
+};
+
+/**
+ * Upload (PDF, DOCX or text) or paste the resume and the job description. Files are parsed
+ * in the browser; only the extracted text is kept. The ATS match shows once both are filled in.
+ */
+const ResumeInputPanel: React.FC<ResumeInputPanelProps> = ({ value, onChange, scoreOnly = false }) => {
+    const [readingField, setReadingField] = useState<ResumeField | null>(null);
+    const [error, setError] = useState<string | null>(null);
+
+    const setField = (field: ResumeField, text: string, fileName?: string) => {
+        onChange(field === 'resume'
+            ? { ...value, resumeText: text, resumeFileName: fileName }
+            : { ...value, jobDescription: text, jobDescriptionFileName: fileName });
+    };
+
+    const handleUpload = async (field: ResumeField, event: React.ChangeEvent<HTMLInputElement>) => {
+        const file = event.target.files?.[0];
+        event.target.value = ''; // Allow re-uploading the same file
+        if (!file) return;
+
+        setError(null);
+        setReadingField(field);
+        try {
+            setField(field, await extractTextFromFile(file), file.name);
+        } catch (e: unknown) {
+            setError(e instanceof Error ? e.message : `Failed to read ${file.name}.`);
+        } finally {
+            setReadingField(null);
+        }
+    };
+
+    const renderField = (field: ResumeField, text: string, fileName: string | undefined, placeholder: string) => (
+        <div>
+            <div className="flex justify-between items-center mb-2">
+                <label htmlFor={`${field}-text`} className="block text-sm font-medium text-gray-300">{fieldLabels[field]}</label>
+                <div className="flex items-center gap-2">
+                    {text && (
+                        <button onClick={() => setField(field, '')} className="text-xs text-red-400 hover:text-red-300 font-semibold">Clear</button>
+                    )}
+                    <label
+                        htmlFor={`${field}-upload`}
+                        className={`px-3 py-1 text-xs font-semibold text-blue-300 bg-blue-800/50 hover:bg-blue-800/80 rounded-full transition-colors duration-200 ${readingField ? 'opacity-50 cursor-wait' : 'cursor-pointer'}`}
+                    >
+                        {readingField === field ? 'Reading...' : 'Upload'}
+                    </label>
+                    <input
+                        id={`${field}-upload`}
+                        type="file"
+                        className="sr-only"
+                        accept={SUPPORTED_DOCUMENT_EXTENSIONS.join(',')}
+                        onChange={(e) => handleUpload(field, e)}
+                        disabled={!!readingField}
+                    />
+                </div>
+            </div>
+            <textarea
+                id={`${field}-text`}
+                value={text}
+                onChange={(e) => setField(field, e.target.value, fileName)}
+                placeholder={placeholder}
+                rows={5}
+                className="w-full bg-gray-700 text-white rounded-lg border border-gray-600 px-3 py-2 text-xs focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none"
+            />
+            {fileName && text && <p className="text-xs text-gray-500 mt-1">From {fileName} · {text.split(/\s+/).filter(Boolean).length} words</p>}
+        </div>
+    );
+
+    return (
+        <div className="space-y-4 p-4 border border-gray-700 rounded-lg bg-gray-900/30">
+            <div className="border-b border-gray-600 pb-2">
+                <h3 className="text-md font-semibold text-gray-200">Resume &amp; Job Description</h3>
+                <p className="text-xs text-gray-400 mt-1">
+                    {scoreOnly
+                        ? 'Check how well your resume matches a job description from one of these companies.'
+                        : 'With a resume, you get a bullet-by-bullet rewrite, keyword coverage against the job description and a tailored resume to download.'}
+                    {' '}Files are read in this browser.
+                </p>
+            </div>
+            {renderField('resume', value.resumeText, value.resumeFileName, 'Upload a PDF, Word or text file, or paste your resume here.')}
+            {renderField('jobDescription', value.jobDescription, value.jobDescriptionFileName, 'Paste the job description, or upload it.')}
+            {error && <p className="text-xs text-red-400">{error}</p>}
+            {value.resumeText.trim() && value.jobDescription.trim() && (
+                <AtsScorePanel resumeText={value.resumeText} jobDescription={value.jobDescription} compact={!scoreOnly} />
+            )}
+        </div>
+    );
+};
+
+export default ResumeInputPanel;
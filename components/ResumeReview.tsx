@@ -0,0 +1,124 @@
+import React, { useState, useMemo } from 'react';
+import { ResumeAnalysis, ResumeInput } from '../types';
+import { diffText } from '../services/textDiff';
+import { getKeywordCoverage } from '../services/resumeAnalysis';
+import AtsScorePanel from './AtsScorePanel';
+
+interface ResumeReviewProps {
+    analysis: ResumeAnalysis;
+    resume: ResumeInput;
+    // The tailored resume as currently shown, including any later edits.
+    tailoredResume: string;
+}
+
+const CoverageMark: React.FC<{ covered: boolean }> = ({ covered }) => (
+    <span className={`font-bold ${covered ? 'text-green-400' : 'text-red-400'}`} aria-label={covered ? 'Present' : 'Missing'}>
+        {covered ? '✓' : '✗'}
+    </span>
+);
+
+// Required keywords are sorted first, so the collapsed table shows the ones that matter most.
+const COLLAPSED_KEYWORD_ROWS = 12;
+
+const coveragePercent = (covered: number, total: number): number => (total === 0 ? 0 : Math.round((covered / total) * 100));
+
+/**
+ * The resume analysis: every rewritten bullet as a before/after diff, and which job
+ * description keywords the original and the tailored resume cover.
+ */
+const ResumeReview: React.FC<ResumeReviewProps> = ({ analysis, resume, tailoredResume }) => {
+    const [showAllKeywords, setShowAllKeywords] = useState(false);
+
+    const coverage = useMemo(
+        () => getKeywordCoverage(analysis.keywords, resume.resumeText, tailoredResume),
+        [analysis.keywords, resume.resumeText, tailoredResume]
+    );
+    const diffs = useMemo(() => analysis.rewrites.map(rewrite => diffText(rewrite.before, rewrite.after)), [analysis.rewrites]);
+
+    const originalCount = coverage.filter(row => row.inOriginal).length;
+    const tailoredCount = coverage.filter(row => row.inTailored).length;
+    const visibleRows = showAllKeywords ? coverage : coverage.slice(0, COLLAPSED_KEYWORD_ROWS);
+
+    return (
+        <div className="not-prose space-y-6 mb-8 pb-6 border-b border-gray-700">
+            <div>
+                <h3 className="text-lg font-semibold text-gray-200">Resume Review</h3>
+                <p className="text-sm text-gray-400">
+                    {analysis.rewrites.length} bullet{analysis.rewrites.length === 1 ? '' : 's'} rewritten
+                    {coverage.length > 0 && <> · keyword coverage {coveragePercent(originalCount, coverage.length)}% → <span className="font-semibold text-white">{coveragePercent(tailoredCount, coverage.length)}%</span></>}.
+                    {' '}The tailored resume follows below; download it as Markdown or PDF from the Download menu.
+                </p>
+            </div>
+
+            {resume.jobDescription.trim() && (
+                <AtsScorePanel resumeText={tailoredResume} jobDescription={resume.jobDescription} baselineText={resume.resumeText} />
+            )}
+
+            {coverage.length > 0 && (
+                <div>
+                    <h4 className="text-sm font-semibold text-gray-300 mb-2">
+                        Keyword Coverage{resume.jobDescription.trim() ? '' : ' (no job description given; keywords are typical for the role)'}
+                    </h4>
+                    <div className="overflow-x-auto rounded-lg border border-gray-700">
+                        <table className="w-full text-sm">
+                            <thead className="bg-gray-900/60 text-xs text-gray-400 uppercase">
+                                <tr>
+                                    <th className="text-left font-semibold px-3 py-2">Keyword</th>
+                                    <th className="text-left font-semibold px-3 py-2">Importance</th>
+                                    <th className="text-center font-semibold px-3 py-2">Original</th>
+                                    <th className="text-center font-semibold px-3 py-2">Tailored</th>
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {visibleRows.map(row => (
+                                    <tr key={row.keyword} className="border-t border-gray-700/60">
+                                        <td className="px-3 py-1.5 text-gray-200">{row.keyword}</td>
+                                        <td className={`px-3 py-1.5 text-xs ${row.importance === 'required' ? 'text-blue-300 font-semibold' : 'text-gray-400'}`}>
+                                            {row.importance === 'required' ? 'Required' : 'Preferred'}
+                                        </td>
+                                        <td className="px-3 py-1.5 text-center"><CoverageMark covered={row.inOriginal} /></td>
+                                        <td className="px-3 py-1.5 text-center"><CoverageMark covered={row.inTailored} /></td>
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                    </div>
+                    {coverage.length > COLLAPSED_KEYWORD_ROWS && (
+                        <button
+                            onClick={() => setShowAllKeywords(!showAllKeywords)}
+                            className="mt-2 text-xs text-blue-300 hover:text-blue-200"
+                        >
+                            {showAllKeywords ? 'Show fewer' : `Show all ${coverage.length} keywords`}
+                        </button>
+                    )}
+                </div>
+            )}
+
+            {analysis.rewrites.length > 0 && (
+                <div>
+                    <h4 className="text-sm font-semibold text-gray-300 mb-2">Bullet Rewrites</h4>
+                    <ol className="space-y-3">
+                        {analysis.rewrites.map((rewrite, index) => (
+                            <li key={index} className="bg-gray-900/60 rounded-lg border border-gray-700 p-3">
+                                {rewrite.section && <p className="text-xs font-semibold uppercase tracking-wide text-blue-300 mb-1">{rewrite.section}</p>}
+                                <p className="text-sm text-gray-300 whitespace-pre-wrap break-words">
+                                    {diffs[index].map((part, partIndex) => (
+                                        <span
+                                            key={partIndex}
+                                            className={part.type === 'added' ? 'bg-green-900/60 text-green-200' : part.type === 'removed' ? 'bg-red-900/60 text-red-200 line-through' : ''}
+                                        >
+                                            {part.text}
+                                        </span>
+                                    ))}
+                                </p>
+                                {rewrite.reason && <p className="text-xs text-gray-500 mt-2">{rewrite.reason}</p>}
+                            </li>
+                        ))}
+                    </ol>
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default ResumeReview;
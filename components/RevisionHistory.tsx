@@ -0,0 +1,115 @@
+import React, { useState, useMemo, useEffect } from 'react';
+import { Revision } from '../types';
+import { flattenRevisionTree, revisionSourceLabels } from '../services/revisions';
+import { diffText } from '../services/textDiff';
+
+interface RevisionHistoryProps {
+    revisions: Revision[];
+    currentRevisionId: string;
+    onRestore: (revisionId: string) => void;
+}
+
+const formatTime = (timestamp: number): string => {
+    return new Intl.DateTimeFormat('en-US', { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' }).format(new Date(timestamp));
+};
+
+/**
+ * Shows every revision of the current content as a tree, with a diff between any two and restore.
+ */
+const RevisionHistory: React.FC<RevisionHistoryProps> = ({ revisions, currentRevisionId, onRestore }) => {
+    const [isVisible, setIsVisible] = useState(false);
+    const [compareFromId, setCompareFromId] = useState<string>('');
+    const [compareToId, setCompareToId] = useState<string>('');
+
+    const tree = useMemo(() => flattenRevisionTree(revisions), [revisions]);
+    const numbers = useMemo(() => new Map(tree.map(({ revision }, index) => [revision.id, index + 1])), [tree]);
+
+    // By default, compare the current revision with the one it was derived from.
+    useEffect(() => {
+        const current = revisions.find(r => r.id === currentRevisionId);
+        setCompareFromId(current?.parentId ?? currentRevisionId);
+        setCompareToId(currentRevisionId);
+    }, [revisions, currentRevisionId]);
+
+    const from = revisions.find(r => r.id === compareFromId);
+    const to = revisions.find(r => r.id === compareToId);
+    const diff = useMemo(() => (from && to ? diffText(from.text, to.text) : []), [from, to]);
+    const hasChanges = diff.some(part => part.type !== 'equal');
+
+    const revisionLabel = (revision: Revision) => `#${numbers.get(revision.id)} ${revisionSourceLabels[revision.source]}`;
+
+    return (
+        <div className="mt-8 pt-4 border-t border-gray-700">
+            <button
+                onClick={() => setIsVisible(!isVisible)}
+                className="flex justify-between items-center w-full text-left"
+            >
+                <h4 className="text-lg font-semibold text-gray-300">
+                    Revisions
+                    <span className="ml-2 text-sm font-normal text-gray-400">{revisions.length} version{revisions.length === 1 ? '' : 's'}</span>
+                </h4>
+                <svg xmlns="http://www.w3.org/2000/svg" className={`h-5 w-5 text-gray-400 transition-transform ${isVisible ? 'rotate-180' : ''}`} fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth="2">
+                  <path strokeLinecap="round" strokeLinejoin="round" d="M19 9l-7 7-7-7" />
+                </svg>
+            </button>
+            {isVisible && (
+                <div className="mt-3 space-y-4">
+                    <ul className="space-y-1">
+                        {tree.map(({ revision, depth }) => (
+                            <li
+                                key={revision.id}
+                                className={`flex items-center justify-between gap-3 px-3 py-2 rounded-lg text-sm ${revision.id === currentRevisionId ? 'bg-blue-900/40 border border-blue-700' : 'bg-gray-700/40'}`}
+                                style={{ marginLeft: depth * 16 }}
+                            >
+                                <div className="min-w-0">
+                                    <span className="font-semibold text-gray-200">{revisionLabel(revision)}</span>
+                                    <span className="ml-2 text-xs text-gray-400">{formatTime(revision.createdAt)}</span>
+                                    <p className="text-xs text-gray-500 truncate">{revision.text.slice(0, 140)}</p>
+                                </div>
+                                {revision.id === currentRevisionId ? (
+                                    <span className="flex-shrink-0 text-xs font-semibold text-blue-300">Current</span>
+                                ) : (
+                                    <button
+                                        onClick={() => onRestore(revision.id)}
+                                        className="flex-shrink-0 px-3 py-1 text-xs font-semibold text-blue-300 bg-blue-800/50 hover:bg-blue-800/80 rounded-full transition-colors duration-200"
+                                    >
+                                        Restore
+                                    </button>
+                                )}
+                            </li>
+                        ))}
+                    </ul>
+
+                    {revisions.length > 1 && (
+                        <div>
+                            <div className="flex flex-wrap items-center gap-2 mb-2 text-sm text-gray-400">
+                                <span>Compare</span>
+                                <select value={compareFromId} onChange={(e) => setCompareFromId(e.target.value)} className="bg-gray-700 text-white rounded-lg border border-gray-600 px-2 py-1 text-xs outline-none" aria-label="Compare from revision">
+                                    {tree.map(({ revision }) => <option key={revision.id} value={revision.id}>{revisionLabel(revision)}</option>)}
+                                </select>
+                                <span>with</span>
+                                <select value={compareToId} onChange={(e) => setCompareToId(e.target.value)} className="bg-gray-700 text-white rounded-lg border border-gray-600 px-2 py-1 text-xs outline-none" aria-label="Compare to revision">
+                                    {tree.map(({ revision }) => <option key={revision.id} value={revision.id}>{revisionLabel(revision)}</option>)}
+                                </select>
+                            </div>
+                            <div className="not-prose bg-gray-900/60 rounded-lg p-4 text-sm text-gray-300 whitespace-pre-wrap break-words max-h-96 overflow-y-auto">
+                                {!hasChanges ? (
+                                    <span className="text-gray-500">These revisions are identical.</span>
+                                ) : diff.map((part, index) => (
+                                    <span
+                                        key={index}
+                                        className={part.type === 'added' ? 'bg-green-900/60 text-green-200' : part.type === 'removed' ? 'bg-red-900/60 text-red-200 line-through' : ''}
+                                    >
+                                        {part.text}
+                                    </span>
+                                ))}
+                            </div>
+                        </div>
+                    )}
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default RevisionHistory;
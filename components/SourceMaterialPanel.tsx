@@ -0,0 +1,124 @@
+import React, { useState } from 'react';
+import { SourceMaterial } from '../types';
+import { readSourceFile, getPastedTitle, sourceKindLabels, SOURCE_FILE_EXTENSIONS, MAX_SOURCE_CHARS } from '../services/sourceMaterial';
+
+interface SourceMaterialPanelProps {
+    value: SourceMaterial | null;
+    onChange: (value: SourceMaterial | null) => void;
+}
+
+type CreditField = 'title' | 'author' | 'url';
+
+const creditFieldLabels: Record<CreditField, string> = {
+    title: 'Title',
+    author: 'Author',
+    url: 'Link',
+};
+
+/**
+ * Upload (PDF, saved web page, transcript or text) or paste the material to write from, and say who
+ * to credit for it. Files are read and cleaned in the browser; only the extracted text is kept.
+ */
+const SourceMaterialPanel: React.FC<SourceMaterialPanelProps> = ({ value, onChange }) => {
+    const [isReading, setIsReading] = useState<boolean>(false);
+    const [error, setError] = useState<string | null>(null);
+
+    const handleUpload = async (event: React.ChangeEvent<HTMLInputElement>) => {
+        const file = event.target.files?.[0];
+        event.target.value = ''; // Allow re-uploading the same file
+        if (!file) return;
+
+        setError(null);
+        setIsReading(true);
+        try {
+            onChange(await readSourceFile(file));
+        } catch (e: unknown) {
+            setError(e instanceof Error ? e.message : `Failed to read ${file.name}.`);
+        } finally {
+            setIsReading(false);
+        }
+    };
+
+    const handleTextChange = (text: string) => {
+        if (!text.trim()) {
+            onChange(null);
+            return;
+        }
+        if (!value) {
+            onChange({ kind: 'pasted', text, title: getPastedTitle(text) });
+            return;
+        }
+        // Pasted text is titled by its first line until the title is changed by hand.
+        const titleFollowsText = value.kind === 'pasted' && value.title === getPastedTitle(value.text);
+        onChange({ ...value, text, title: titleFollowsText ? getPastedTitle(text) : value.title });
+    };
+
+    const wordCount = value ? value.text.split(/\s+/).filter(Boolean).length : 0;
+
+    return (
+        <div className="space-y-3 p-4 border border-gray-700 rounded-lg bg-gray-900/30">
+            <div className="flex justify-between items-start gap-3 border-b border-gray-600 pb-2">
+                <div>
+                    <h3 className="text-md font-semibold text-gray-200">Source Material</h3>
+                    <p className="text-xs text-gray-400 mt-1">
+                        Optional. Write from a paper, article or transcript instead of the topic alone. Quotes are attributed, and the result is checked against the source. Files are read in this browser.
+                    </p>
+                </div>
+                <div className="flex items-center gap-2 flex-shrink-0">
+                    {value && (
+                        <button onClick={() => onChange(null)} className="text-xs text-red-400 hover:text-red-300 font-semibold">Clear</button>
+                    )}
+                    <label
+                        htmlFor="source-upload"
+                        className={`px-3 py-1 text-xs font-semibold text-blue-300 bg-blue-800/50 hover:bg-blue-800/80 rounded-full transition-colors duration-200 ${isReading ? 'opacity-50 cursor-wait' : 'cursor-pointer'}`}
+                    >
+                        {isReading ? 'Reading...' : 'Upload'}
+                    </label>
+                    <input
+                        id="source-upload"
+                        type="file"
+                        className="sr-only"
+                        accept={SOURCE_FILE_EXTENSIONS.join(',')}
+                        onChange={handleUpload}
+                        disabled={isReading}
+                    />
+                </div>
+            </div>
+            <textarea
+                value={value?.text ?? ''}
+                onChange={(e) => handleTextChange(e.target.value)}
+                placeholder="Upload a PDF, saved web page (.html), transcript (.vtt or .txt) or document, or paste the text here."
+                rows={5}
+                className="w-full bg-gray-700 text-white rounded-lg border border-gray-600 px-3 py-2 text-xs focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none"
+            />
+            {value && (
+                <>
+                    <p className="text-xs text-gray-500">
+                        {sourceKindLabels[value.kind]}{value.fileName ? ` · ${value.fileName}` : ''} · {wordCount.toLocaleString()} words
+                    </p>
+                    {(value.truncated || value.text.length > MAX_SOURCE_CHARS) && (
+                        <p className="text-xs text-yellow-400">This source is long, so only its first {MAX_SOURCE_CHARS.toLocaleString()} characters are used.</p>
+                    )}
+                    <div className="grid grid-cols-1 sm:grid-cols-3 gap-2">
+                        {(Object.keys(creditFieldLabels) as CreditField[]).map(field => (
+                            <div key={field}>
+                                <label htmlFor={`source-${field}`} className="block text-xs font-medium text-gray-400 mb-1">{creditFieldLabels[field]}</label>
+                                <input
+                                    id={`source-${field}`}
+                                    type={field === 'url' ? 'url' : 'text'}
+                                    value={value[field] ?? ''}
+                                    onChange={(e) => onChange({ ...value, [field]: field === 'title' ? e.target.value : e.target.value || undefined })}
+                                    placeholder={field === 'author' ? 'Who to credit' : field === 'url' ? 'https://...' : ''}
+                                    className="w-full bg-gray-700 text-white rounded-md border border-gray-600 px-2 py-1 text-xs focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none"
+                                />
+                            </div>
+                        ))}
+                    </div>
+                </>
+            )}
+            {error && <p className="text-xs text-red-400">{error}</p>}
+        </div>
+    );
+};
+
+export default SourceMaterialPanel;
@@ -0,0 +1,147 @@
+import React, { useState, useMemo, useEffect } from 'react';
+import { marked } from 'marked';
+import { PostVariant } from '../types';
+import { scoreVariant, VariantScore } from '../services/variantScoring';
+
+interface VariantPickerProps {
+    variants: PostVariant[];
+    // `variantId` is null when the text was merged from several variants.
+    onPick: (text: string, variantId: string | null) => void;
+}
+
+interface MergePart {
+    variantId: string;
+    index: number;
+}
+
+const scoreLabels: { key: keyof VariantScore; label: string }[] = [
+    { key: 'hook', label: 'Hook strength' },
+    { key: 'readability', label: 'Readability' },
+    { key: 'fold', label: 'Length vs. fold' },
+];
+
+const splitParagraphs = (text: string): string[] => {
+    return text.split(/\n\s*\n/).map(p => p.trim()).filter(Boolean);
+};
+
+const ScoreBar: React.FC<{ label: string; value: number }> = ({ label, value }) => (
+    <div>
+        <div className="flex justify-between text-xs text-gray-400">
+            <span>{label}</span>
+            <span className="font-semibold text-gray-200">{value}</span>
+        </div>
+        <div className="h-1.5 bg-gray-700 rounded-full overflow-hidden mt-0.5">
+            <div className={`h-full ${value >= 70 ? 'bg-green-500' : value >= 45 ? 'bg-yellow-500' : 'bg-red-500'}`} style={{ width: `${value}%` }} />
+        </div>
+    </div>
+);
+
+/**
+ * Shows alternative drafts side by side with their scores. The user picks one, or switches
+ * to merge mode and clicks paragraphs from any variant to assemble a combined draft.
+ */
+const VariantPicker: React.FC<VariantPickerProps> = ({ variants, onPick }) => {
+    const [isMerging, setIsMerging] = useState(false);
+    const [mergeParts, setMergeParts] = useState<MergePart[]>([]);
+
+    useEffect(() => {
+        setIsMerging(false);
+        setMergeParts([]);
+    }, [variants]);
+
+    const scores = useMemo(() => new Map(variants.map(v => [v.id, scoreVariant(v.text)])), [variants]);
+    const paragraphs = useMemo(() => new Map(variants.map(v => [v.id, splitParagraphs(v.text)])), [variants]);
+    const bestId = variants.reduce((best, v) => (scores.get(v.id)!.overall > scores.get(best.id)!.overall ? v : best), variants[0]).id;
+
+    const mergedText = mergeParts.map(part => paragraphs.get(part.variantId)?.[part.index] ?? '').filter(Boolean).join('\n\n');
+
+    const toggleMergePart = (variantId: string, index: number) => {
+        setMergeParts(prev => prev.some(p => p.variantId === variantId && p.index === index)
+            ? prev.filter(p => !(p.variantId === variantId && p.index === index))
+            : [...prev, { variantId, index }]);
+    };
+
+    return (
+        <div className="not-prose space-y-4">
+            <div className="flex flex-wrap items-center justify-between gap-2">
+                <div>
+                    <h3 className="text-lg font-semibold text-gray-200">Pick a Variant</h3>
+                    <p className="text-sm text-gray-400">
+                        {isMerging ? 'Click paragraphs in the order you want them. ' : ''}The variants you don't use are kept with this item in history.
+                    </p>
+                </div>
+                <button
+                    onClick={() => { setIsMerging(!isMerging); setMergeParts([]); }}
+                    className="px-3 py-1 text-xs font-semibold text-blue-300 bg-blue-800/50 hover:bg-blue-800/80 rounded-full transition-colors duration-200"
+                >
+                    {isMerging ? 'Cancel Merge' : 'Merge Parts'}
+                </button>
+            </div>
+
+            <div className={`grid grid-cols-1 gap-4 ${variants.length > 2 ? 'xl:grid-cols-3' : ''} md:grid-cols-2`}>
+                {variants.map(variant => {
+                    const score = scores.get(variant.id)!;
+                    return (
+                        <div key={variant.id} className={`flex flex-col bg-gray-900/60 rounded-lg border p-4 ${variant.id === bestId ? 'border-green-700' : 'border-gray-700'}`}>
+                            <div className="flex items-center justify-between mb-3">
+                                <span className="font-semibold text-gray-200">{variant.label}</span>
+                                <span className="text-sm text-gray-400">
+                                    Score <span className="font-bold text-white">{score.overall}</span>
+                                    {variant.id === bestId && <span className="ml-2 text-xs font-semibold text-green-400">Top</span>}
+                                </span>
+                            </div>
+                            <div className="space-y-1.5 mb-4">
+                                {scoreLabels.map(({ key, label }) => <ScoreBar key={key} label={label} value={score[key]} />)}
+                            </div>
+                            <div className="flex-grow space-y-2 text-sm">
+                                {paragraphs.get(variant.id)!.map((paragraph, index) => {
+                                    const order = mergeParts.findIndex(p => p.variantId === variant.id && p.index === index);
+                                    return isMerging ? (
+                                        <button
+                                            key={index}
+                                            onClick={() => toggleMergePart(variant.id, index)}
+                                            className={`relative block w-full text-left rounded-md p-2 border transition-colors ${order !== -1 ? 'border-blue-500 bg-blue-900/30' : 'border-transparent hover:bg-gray-700/50'}`}
+                                        >
+                                            {order !== -1 && <span className="absolute -top-2 -left-2 w-5 h-5 text-xs font-bold text-white bg-blue-600 rounded-full flex items-center justify-center">{order + 1}</span>}
+                                            <div className="prose prose-sm prose-invert max-w-none" dangerouslySetInnerHTML={{ __html: marked.parse(paragraph) as string }} />
+                                        </button>
+                                    ) : (
+                                        <div key={index} className="prose prose-sm prose-invert max-w-none p-2" dangerouslySetInnerHTML={{ __html: marked.parse(paragraph) as string }} />
+                                    );
+                                })}
+                            </div>
+                            {!isMerging && (
+                                <button
+                                    onClick={() => onPick(variant.text, variant.id)}
+                                    className="mt-4 px-4 py-2 text-sm font-semibold text-white bg-blue-600 hover:bg-blue-700 rounded-lg transition-colors"
+                                >
+                                    Use {variant.label}
+                                </button>
+                            )}
+                        </div>
+                    );
+                })}
+            </div>
+
+            {isMerging && (
+                <div className="bg-gray-900/60 rounded-lg border border-blue-700 p-4">
+                    <h4 className="text-sm font-semibold text-gray-300 mb-2">Merged Draft</h4>
+                    {mergedText ? (
+                        <div className="prose prose-sm prose-invert max-w-none" dangerouslySetInnerHTML={{ __html: marked.parse(mergedText) as string }} />
+                    ) : (
+                        <p className="text-sm text-gray-500">No paragraphs selected yet.</p>
+                    )}
+                    <button
+                        onClick={() => onPick(mergedText, null)}
+                        disabled={!mergedText}
+                        className="mt-4 px-4 py-2 text-sm font-semibold text-white bg-blue-600 hover:bg-blue-700 rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                    >
+                        Use Merged Draft
+                    </button>
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default VariantPicker;
@@ -0,0 +1,94 @@
+import React, { useState, useEffect } from 'react';
+import { VideoJob, VideoJobStatus } from '../types';
+import { VIDEO_JOB_TIMEOUT_MS } from '../services/videoJobManager';
+
+interface VideoJobProgressProps {
+    job: VideoJob;
+    onCancel: (id: string) => void;
+    onDismiss: (id: string) => void;
+}
+
+const statusLabels: Record<VideoJobStatus, string> = {
+    running: 'Rendering video...',
+    succeeded: 'Video ready',
+    failed: 'Video generation failed',
+    cancelled: 'Video generation cancelled',
+    timedOut: 'Video generation timed out',
+};
+
+const formatDuration = (ms: number): string => {
+    const totalSeconds = Math.max(0, Math.floor(ms / 1000));
+    const minutes = Math.floor(totalSeconds / 60);
+    const seconds = totalSeconds % 60;
+    return `${minutes}:${seconds.toString().padStart(2, '0')}`;
+};
+
+const VideoJobProgress: React.FC<VideoJobProgressProps> = ({ job, onCancel, onDismiss }) => {
+    const [now, setNow] = useState(Date.now());
+    const isRunning = job.status === 'running';
+
+    useEffect(() => {
+        if (!isRunning) return;
+        const intervalId = setInterval(() => setNow(Date.now()), 1000);
+        return () => clearInterval(intervalId);
+    }, [isRunning]);
+
+    const elapsed = (isRunning ? now : job.lastPolledAt ?? now) - job.startedAt;
+    const progressPercent = Math.min(100, (elapsed / VIDEO_JOB_TIMEOUT_MS) * 100);
+
+    return (
+        <div className="flex items-center justify-center h-full">
+            <div className="w-full max-w-lg bg-gray-900/50 border border-gray-700 rounded-lg p-8 text-center">
+                {isRunning && (
+                    <div className="animate-spin rounded-full h-12 w-12 border-t-4 border-b-4 border-blue-500 mx-auto mb-4"></div>
+                )}
+                <h3 className={`text-xl font-bold mb-1 ${isRunning ? 'text-white' : 'text-red-300'}`}>{statusLabels[job.status]}</h3>
+                <p className="text-sm text-gray-400 truncate" title={job.options.topic}>{job.options.topic}</p>
+
+                <div className="mt-6 grid grid-cols-3 gap-4 text-sm">
+                    <div>
+                        <p className="text-gray-500">Elapsed</p>
+                        <p className="font-mono text-white">{formatDuration(elapsed)}</p>
+                    </div>
+                    <div>
+                        <p className="text-gray-500">Status checks</p>
+                        <p className="font-mono text-white">{job.pollCount}</p>
+                    </div>
+                    <div>
+                        <p className="text-gray-500">Times out in</p>
+                        <p className="font-mono text-white">{isRunning ? formatDuration(VIDEO_JOB_TIMEOUT_MS - elapsed) : '—'}</p>
+                    </div>
+                </div>
+
+                <div className="mt-4 h-2 bg-gray-700 rounded-full overflow-hidden">
+                    <div className="h-full bg-blue-500 transition-all duration-1000" style={{ width: `${progressPercent}%` }}></div>
+                </div>
+
+                {job.error && <p className="mt-4 text-sm text-red-300">{job.error}</p>}
+                {isRunning && (
+                    <p className="mt-4 text-xs text-gray-500">You can reload or close the page; the job will resume when you come back.</p>
+                )}
+
+                <div className="mt-6">
+                    {isRunning ? (
+                        <button
+                            onClick={() => onCancel(job.id)}
+                            className="px-4 py-2 text-sm font-semibold text-red-300 bg-red-800/50 hover:bg-red-800/80 rounded-lg transition-colors"
+                        >
+                            Cancel Job
+                        </button>
+                    ) : (
+                        <button
+                            onClick={() => onDismiss(job.id)}
+                            className="px-4 py-2 text-sm font-semibold text-gray-300 bg-gray-700 hover:bg-gray-600 rounded-lg transition-colors"
+                        >
+                            Dismiss
+                        </button>
+                    )}
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default VideoJobProgress;
@@ -0,0 +1,67 @@
+import React, { useState, useMemo } from 'react';
+import { VoiceFingerprint } from '../types';
+import { compareToFingerprint } from '../services/voiceFingerprint';
+
+interface VoiceMatchPanelProps {
+    text: string;
+    fingerprint: VoiceFingerprint;
+}
+
+const getScoreColor = (similarity: number): string => {
+    if (similarity >= 0.8) return 'bg-green-500';
+    if (similarity >= 0.5) return 'bg-yellow-500';
+    return 'bg-red-500';
+};
+
+/**
+ * Compares a draft side by side with the persona's voice fingerprint.
+ */
+const VoiceMatchPanel: React.FC<VoiceMatchPanelProps> = ({ text, fingerprint }) => {
+    const [isVisible, setIsVisible] = useState(false);
+    const report = useMemo(() => compareToFingerprint(text, fingerprint), [text, fingerprint]);
+
+    return (
+        <div className="mt-8 pt-4 border-t border-gray-700">
+            <button
+                onClick={() => setIsVisible(!isVisible)}
+                className="flex justify-between items-center w-full text-left"
+            >
+                <h4 className="text-lg font-semibold text-gray-300">
+                    Voice Match
+                    <span className="ml-2 text-sm font-normal text-gray-400">{report.score}% like your writing</span>
+                </h4>
+                <svg xmlns="http://www.w3.org/2000/svg" className={`h-5 w-5 text-gray-400 transition-transform ${isVisible ? 'rotate-180' : ''}`} fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth="2">
+                  <path strokeLinecap="round" strokeLinejoin="round" d="M19 9l-7 7-7-7" />
+                </svg>
+            </button>
+            {isVisible && (
+                <table className="w-full mt-3 text-sm table-fixed">
+                    <thead>
+                        <tr className="text-left text-xs uppercase tracking-wide text-gray-500">
+                            <th className="pb-2 w-1/4">Metric</th>
+                            <th className="pb-2">Your voice</th>
+                            <th className="pb-2">This draft</th>
+                            <th className="pb-2 w-24">Match</th>
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {report.metrics.map(metric => (
+                            <tr key={metric.label} className="border-t border-gray-700/60 align-top">
+                                <td className="py-2 pr-2 text-gray-400">{metric.label}</td>
+                                <td className="py-2 pr-2 text-gray-200 break-words">{metric.fingerprint}</td>
+                                <td className="py-2 pr-2 text-gray-200 break-words">{metric.draft}</td>
+                                <td className="py-2">
+                                    <div className="h-2 bg-gray-700 rounded-full mt-1.5" title={`${Math.round(metric.similarity * 100)}%`}>
+                                        <div className={`h-2 rounded-full ${getScoreColor(metric.similarity)}`} style={{ width: `${Math.round(metric.similarity * 100)}%` }} />
+                                    </div>
+                                </td>
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
+            )}
+        </div>
+    );
+};
+
+export default VoiceMatchPanel;
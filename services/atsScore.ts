@@ -0,0 +1,198 @@
+export interface AtsTerm {
+    term: string; // As written in the job description (or the resume, for over-used words)
+    weight: number; // Occurrences in the job description
+    resumeCount: number;
+}
+
+export interface AtsReport {
+    score: number; // 0-100: the share of keyword weight found in the resume
+    matched: AtsTerm[];
+    missing: AtsTerm[];
+    overused: AtsTerm[];
+}
+
+interface Token {
+    key: string;
+    surface: string;
+}
+
+interface TermCount {
+    surface: string;
+    count: number;
+}
+
+// Only this many of the most frequent job description terms are scored.
+const MAX_TERMS = 30;
+// A phrase must occur this often in the job description to count as a keyword of its own.
+const MIN_PHRASE_COUNT = 2;
+// A resume term is over-used from this many occurrences, if it's also well above its job description frequency.
+const OVERUSE_MIN_COUNT = 5;
+
+const STOPWORDS = new Set([
+    'a', 'about', 'above', 'across', 'after', 'all', 'also', 'an', 'and', 'any', 'are', 'as', 'at', 'be', 'been', 'being',
+    'both', 'but', 'by', 'can', 'could', 'do', 'does', 'each', 'eg', 'either', 'etc', 'for', 'from', 'has', 'have', 'having',
+    'how', 'i', 'ie', 'if', 'in', 'into', 'is', 'it', 'its', 'just', 'may', 'me', 'more', 'most', 'must', 'my', 'no', 'not',
+    'of', 'on', 'one', 'or', 'other', 'our', 'ours', 'out', 'over', 'per', 'plus', 'shall', 'should', 'so', 'some', 'such',
+    'than', 'that', 'the', 'their', 'them', 'then', 'there', 'these', 'they', 'this', 'those', 'through', 'to', 'up', 'us',
+    'very', 'via', 'was', 'we', 'were', 'what', 'when', 'where', 'which', 'while', 'who', 'whom', 'why', 'will', 'with',
+    'within', 'without', 'would', 'you', 'your', 'yours',
+    // Job description boilerplate that every posting shares.
+    'ability', 'able', 'applicant', 'applicants', 'apply', 'benefits', 'candidate', 'candidates', 'company', 'competitive',
+    'environment', 'excellent', 'experience', 'experienced', 'familiarity', 'good', 'great', 'help', 'ideal', 'ideally',
+    'including', 'job', 'join', 'junior', 'knowledge', 'least', 'level', 'like', 'looking', 'make', 'minimum', 'new',
+    'opportunity', 'position', 'preferred', 'proven', 'senior', 'understanding',
+    'related', 'required', 'requirements', 'responsibilities', 'responsible', 'role', 'salary', 'seeking', 'skill', 'skills',
+    'strong', 'successful', 'team', 'teams', 'use', 'using', 'well', 'work', 'working', 'year', 'years',
+]);
+
+// Different ways of writing the same skill, mapped to one key. Phrases are matched on whole words.
+const SYNONYMS: Record<string, string> = {
+    'js': 'javascript',
+    'ecmascript': 'javascript',
+    'ts': 'typescript',
+    'node': 'node.js',
+    'nodejs': 'node.js',
+    'reactjs': 'react',
+    'react.js': 'react',
+    'golang': 'go',
+    'k8s': 'kubernetes',
+    'postgres': 'postgresql',
+    'machine learning': 'ml',
+    'artificial intelligence': 'ai',
+    'natural language processing': 'nlp',
+    'amazon web services': 'aws',
+    'google cloud platform': 'gcp',
+    'google cloud': 'gcp',
+    'microsoft azure': 'azure',
+    'continuous integration': 'ci',
+    'continuous delivery': 'cd',
+    'continuous deployment': 'cd',
+    'user experience': 'ux',
+    'user interface': 'ui',
+    'search engine optimization': 'seo',
+    'key performance indicators': 'kpi',
+    'kpis': 'kpi',
+    'ms excel': 'excel',
+    'microsoft excel': 'excel',
+};
+const MAX_SYNONYM_WORDS = 3;
+
+// Longest suffix first. A light stemmer: enough to match "managed", "managing" and "management".
+const SUFFIXES: Array<[string, string]> = [
+    ['izations', 'iz'], ['ization', 'iz'], ['isations', 'iz'], ['isation', 'iz'],
+    ['ments', ''], ['ment', ''], ['ings', ''], ['ing', ''], ['ies', 'y'], ['ied', 'y'],
+    ['izes', 'iz'], ['ized', 'iz'], ['ize', 'iz'], ['ises', 'iz'], ['ised', 'iz'], ['ise', 'iz'],
+    ['ers', ''], ['er', ''], ['ed', ''], ['es', ''], ['s', ''],
+];
+
+const stem = (word: string): string => {
+    // Names like "c++", "node.js" or "s3" are kept as they are.
+    if (word.length <= 3 || /[^a-z]/.test(word)) return word;
+    for (const [suffix, replacement] of SUFFIXES) {
+        if (word.endsWith(suffix) && word.length - suffix.length >= 3 && !(suffix === 's' && /(ss|us|is)$/.test(word))) {
+            return (word.slice(0, -suffix.length) + replacement).replace(/e$/, '');
+        }
+    }
+    return word.replace(/e$/, '');
+};
+
+const isKeywordCandidate = (word: string): boolean => {
+    return !STOPWORDS.has(word) && !/^[\d.+]+$/.test(word) && (word.length > 1 || word === 'c' || word === 'r');
+};
+
+// Splits text into runs of words that can form phrases; punctuation between words ends a run.
+const tokenize = (text: string): Token[][] => {
+    return text
+        .split(/[,;:!?()[\]{}<>"“”•|\n\r\t]+|\.(?=\s|$)|\s[-–—]\s/)
+        .map(segment => {
+            const words = segment.match(/[A-Za-z0-9][A-Za-z0-9+#.]*[A-Za-z0-9+#]|[A-Za-z0-9]/g) ?? [];
+            const tokens: Token[] = [];
+            for (let i = 0; i < words.length; i++) {
+                let matched = false;
+                for (let length = Math.min(MAX_SYNONYM_WORDS, words.length - i); length >= 1 && !matched; length--) {
+                    const phrase = words.slice(i, i + length);
+                    const canonical = SYNONYMS[phrase.join(' ').toLowerCase()];
+                    if (canonical) {
+                        tokens.push({ key: stem(canonical), surface: phrase.join(' ') });
+                        i += length - 1;
+                        matched = true;
+                    }
+                }
+                if (!matched) {
+                    const lower = words[i].toLowerCase();
+                    tokens.push({ key: isKeywordCandidate(lower) ? stem(lower) : '', surface: words[i] });
+                }
+            }
+            return tokens;
+        });
+};
+
+// Counts single terms and two-word phrases. Stopwords count as gaps, so phrases never span them.
+const countTerms = (text: string): { unigrams: Map<string, TermCount>; bigrams: Map<string, TermCount> } => {
+    const unigrams = new Map<string, TermCount>();
+    const bigrams = new Map<string, TermCount>();
+    const add = (map: Map<string, TermCount>, key: string, surface: string) => {
+        const entry = map.get(key);
+        if (entry) entry.count++;
+        else map.set(key, { surface, count: 1 });
+    };
+    tokenize(text).forEach(tokens => {
+        tokens.forEach((token, index) => {
+            if (!token.key) return;
+            add(unigrams, token.key, token.surface);
+            const next = tokens[index + 1];
+            if (next?.key) add(bigrams, `${token.key} ${next.key}`, `${token.surface} ${next.surface}`);
+        });
+    });
+    return { unigrams, bigrams };
+};
+
+/**
+ * Picks the keywords of a job description: its most frequent terms, plus two-word phrases that
+ * recur. A word that only ever occurs inside such a phrase is covered by the phrase.
+ * @returns Keyword keys with how they're written in the posting and how often they occur.
+ */
+const extractKeywords = (jobDescription: string): Map<string, TermCount> => {
+    const { unigrams, bigrams } = countTerms(jobDescription);
+    const phrases = Array.from(bigrams.entries()).filter(([, entry]) => entry.count >= MIN_PHRASE_COUNT);
+    const words = Array.from(unigrams.entries()).filter(([key, entry]) =>
+        !phrases.some(([phraseKey, phrase]) => phraseKey.split(' ').includes(key) && phrase.count >= entry.count));
+
+    const ranked = [...phrases, ...words].sort((a, b) => b[1].count - a[1].count || b[0].split(' ').length - a[0].split(' ').length);
+    return new Map(ranked.slice(0, MAX_TERMS));
+};
+
+/**
+ * Scores a resume against a job description the way keyword-based applicant tracking systems do,
+ * without any AI: keywords are weighted by how often the posting mentions them, and matched after
+ * stemming and synonym mapping ("JS" matches "JavaScript", "managed" matches "management").
+ */
+export const scoreResumeAgainstJob = (resume: string, jobDescription: string): AtsReport => {
+    const keywords = extractKeywords(jobDescription);
+    const { unigrams, bigrams } = countTerms(resume);
+    const countInResume = (key: string) => (key.includes(' ') ? bigrams : unigrams).get(key)?.count ?? 0;
+
+    const terms: AtsTerm[] = Array.from(keywords.entries()).map(([key, entry]) => ({
+        term: entry.surface,
+        weight: entry.count,
+        resumeCount: countInResume(key),
+    }));
+    const matched = terms.filter(term => term.resumeCount > 0);
+    const missing = terms.filter(term => term.resumeCount === 0);
+    const totalWeight = terms.reduce((sum, term) => sum + term.weight, 0);
+    const matchedWeight = matched.reduce((sum, term) => sum + term.weight, 0);
+
+    // Any resume word repeated far more often than the posting uses it reads as keyword stuffing.
+    const jobCounts = countTerms(jobDescription).unigrams;
+    const overused = Array.from(unigrams.entries())
+        .filter(([key, entry]) => entry.count >= OVERUSE_MIN_COUNT && entry.count > 2 * (jobCounts.get(key)?.count ?? 0))
+        .map(([key, entry]) => ({ term: jobCounts.get(key)?.surface ?? entry.surface, weight: jobCounts.get(key)?.count ?? 0, resumeCount: entry.count }))
+        .sort((a, b) => b.resumeCount - a.resumeCount);
+
+    return {
+        score: totalWeight === 0 ? 0 : Math.round((matchedWeight / totalWeight) * 100),
+        matched,
+        missing,
+        overused,
+    };
+};
@@ -0,0 +1,93 @@
+import { BrandKit, TextOverlayFont } from '../types';
+
+const STORAGE_KEY = 'brandKits';
+const ACTIVE_KIT_KEY = 'activeBrandKitId';
+
+// Logos and avatars are stored as data URLs in localStorage, so they are downscaled on upload.
+const MAX_IMAGE_SIZE = 256;
+
+export const brandFontStacks: Record<TextOverlayFont, string> = {
+    'Inter': "'Inter', sans-serif",
+    'Roboto Slab': "'Roboto Slab', serif",
+    'Playfair Display': "'Playfair Display', serif",
+};
+
+export const createBrandKit = (fields: Partial<Omit<BrandKit, 'id' | 'createdAt' | 'updatedAt'>> = {}): BrandKit => {
+    const now = Date.now();
+    return {
+        name: 'New Brand Kit',
+        authorName: '',
+        headline: '',
+        profileUrl: '',
+        primaryColor: '#2563eb',
+        secondaryColor: '#0f172a',
+        headingFont: 'Playfair Display',
+        bodyFont: 'Inter',
+        ctaText: 'Found this useful? Repost to share this knowledge with your network.',
+        ...fields,
+        id: crypto.randomUUID(),
+        createdAt: now,
+        updatedAt: now,
+    };
+};
+
+// Seeded on first run so existing exports keep their branding until a kit is edited.
+const createDefaultBrandKit = (): BrandKit => createBrandKit({
+    name: 'Ganapathi Kakarla',
+    authorName: 'Ganapathi Kakarla',
+    headline: 'AI & Data Science in Healthcare',
+    profileUrl: 'https://www.linkedin.com/in/ganapathi-kakarla-b82341178/',
+});
+
+/** Loads saved brand kits. There is always at least one kit. */
+export const loadBrandKits = (): BrandKit[] => {
+    try {
+        const saved = localStorage.getItem(STORAGE_KEY);
+        const kits: BrandKit[] = saved ? JSON.parse(saved) : [];
+        return kits.length > 0 ? kits : [createDefaultBrandKit()];
+    } catch (e) {
+        console.error("Failed to load brand kits from localStorage:", e);
+        return [createDefaultBrandKit()];
+    }
+};
+
+export const saveBrandKits = (kits: BrandKit[]): void => {
+    try {
+        localStorage.setItem(STORAGE_KEY, JSON.stringify(kits));
+    } catch (e) {
+        console.error("Failed to save brand kits to localStorage:", e);
+    }
+};
+
+export const loadActiveBrandKitId = (): string | null => {
+    return localStorage.getItem(ACTIVE_KIT_KEY);
+};
+
+export const saveActiveBrandKitId = (id: string): void => {
+    localStorage.setItem(ACTIVE_KIT_KEY, id);
+};
+
+/**
+ * Reads an uploaded image and downscales it so it fits within MAX_IMAGE_SIZE on its longest side.
+ * @returns A PNG data URL.
+ */
+export const readBrandImage = (file: File): Promise<string> => {
+    return new Promise((resolve, reject) => {
+        const url = URL.createObjectURL(file);
+        const image = new Image();
+        image.onload = () => {
+            const scale = Math.min(1, MAX_IMAGE_SIZE / Math.max(image.width, image.height));
+            const canvas = document.createElement('canvas');
+            canvas.width = Math.max(1, Math.round(image.width * scale));
+            canvas.height = Math.max(1, Math.round(image.height * scale));
+            canvas.getContext('2d')?.drawImage(image, 0, 0, canvas.width, canvas.height);
+            URL.revokeObjectURL(url);
+            resolve(canvas.toDataURL('image/png'));
+        };
+        image.onerror = () => {
+            URL.revokeObjectURL(url);
+            reject(new Error("The file could not be read as an image."));
+        };
+        image.src = url;
+    });
+};
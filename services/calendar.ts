@@ -0,0 +1,145 @@
+import { HistoryItem, ScheduleSlot, ScheduleStatus, GenerationType } from '../types';
+import { planDayFormatLabels } from './contentPlan';
+
+// A calendar entry is either a saved history item or a plan day whose post isn't generated yet.
+export type CalendarEntrySource =
+    | { kind: 'item'; itemId: string }
+    | { kind: 'planDay'; planItemId: string; day: number };
+
+export interface CalendarEntry {
+    key: string;
+    source: CalendarEntrySource;
+    title: string;
+    label: string;
+    text: string;
+    schedule?: ScheduleSlot;
+}
+
+export const scheduleStatuses: ScheduleStatus[] = ['idea', 'draft', 'approved', 'published'];
+
+export const scheduleStatusLabels: Record<ScheduleStatus, string> = {
+    idea: 'Idea',
+    draft: 'Draft',
+    approved: 'Approved',
+    published: 'Published',
+};
+
+// Length of the event in the exported calendar, and how long before it the reminder fires.
+const EVENT_MINUTES = 30;
+const REMINDER_MINUTES = 15;
+// iCalendar content lines may be at most 75 octets before they must be folded.
+const ICS_LINE_OCTETS = 75;
+
+const formatGenerationType = (type: GenerationType): string => {
+    return type.replace(/([A-Z])/g, ' $1').replace(/^./, (str) => str.toUpperCase());
+};
+
+/**
+ * Lists everything that can be put on the calendar: each history item, and each day of a
+ * weekly plan that has no generated post yet. Once a day is generated, its post takes its place.
+ * @param history The history, newest first, as kept by the app.
+ */
+export const getCalendarEntries = (history: HistoryItem[]): CalendarEntry[] => {
+    const generatedDays = new Set(history
+        .filter(item => item.sourceItemId && item.options.planDay)
+        .map(item => `${item.sourceItemId}:${item.options.planDay!.day.day}`));
+
+    return history.flatMap((item): CalendarEntry[] => {
+        const plan = item.result.contentPlan;
+        if (!plan) {
+            return [{
+                key: item.id,
+                source: { kind: 'item', itemId: item.id },
+                title: item.options.topic,
+                label: item.options.planDay ? `Day ${item.options.planDay.day.day} · ${formatGenerationType(item.options.type)}` : formatGenerationType(item.options.type),
+                text: item.result.text,
+                schedule: item.schedule,
+            }];
+        }
+        return plan
+            .filter(day => !generatedDays.has(`${item.id}:${day.day}`))
+            .map(day => ({
+                key: `${item.id}:${day.day}`,
+                source: { kind: 'planDay', planItemId: item.id, day: day.day },
+                title: day.subTopic,
+                label: `Day ${day.day} · ${planDayFormatLabels[day.format]} (planned)`,
+                text: day.talkingPoint,
+                schedule: day.schedule,
+            }));
+    });
+};
+
+/** Returns `yyyy-mm-dd` for the local date, used to group entries by day. */
+export const toDateKey = (date: Date): string => {
+    const pad = (n: number) => String(n).padStart(2, '0');
+    return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+};
+
+const toIcsDate = (time: number): string => {
+    return new Date(time).toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+};
+
+const escapeIcsText = (text: string): string => {
+    return text.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
+};
+
+// Folds a content line into 75-octet chunks, each continuation starting with a space. Characters are never split.
+const foldIcsLine = (line: string): string => {
+    const encoder = new TextEncoder();
+    const chunks: string[] = [];
+    let current = '';
+    let octets = 0;
+    for (const char of line) {
+        const size = encoder.encode(char).length;
+        const limit = chunks.length === 0 ? ICS_LINE_OCTETS : ICS_LINE_OCTETS - 1;
+        if (octets + size > limit) {
+            chunks.push(current);
+            current = '';
+            octets = 0;
+        }
+        current += char;
+        octets += size;
+    }
+    chunks.push(current);
+    return chunks.join('\r\n ');
+};
+
+/**
+ * Builds an iCalendar (.ics) file with one event per scheduled entry, each with a reminder
+ * shortly before the publishing time, so the schedule shows up in any calendar app.
+ */
+export const buildIcs = (entries: CalendarEntry[], now: number = Date.now()): string => {
+    const events = entries
+        .filter((entry): entry is CalendarEntry & { schedule: ScheduleSlot } => !!entry.schedule)
+        .flatMap(entry => {
+            const { at, status } = entry.schedule;
+            const summary = `[${scheduleStatusLabels[status]}] ${entry.title}`;
+            return [
+                'BEGIN:VEVENT',
+                `UID:${entry.key.replace(/:/g, '-')}@linkedin-content-engine`,
+                `DTSTAMP:${toIcsDate(now)}`,
+                `DTSTART:${toIcsDate(at)}`,
+                `DTEND:${toIcsDate(at + EVENT_MINUTES * 60_000)}`,
+                `SUMMARY:${escapeIcsText(summary)}`,
+                `DESCRIPTION:${escapeIcsText(`${entry.label}\n\n${entry.text.trim()}`)}`,
+                `STATUS:${status === 'idea' ? 'TENTATIVE' : 'CONFIRMED'}`,
+                'BEGIN:VALARM',
+                'ACTION:DISPLAY',
+                `DESCRIPTION:${escapeIcsText(`Publish on LinkedIn: ${entry.title}`)}`,
+                `TRIGGER:-PT${REMINDER_MINUTES}M`,
+                'END:VALARM',
+                'END:VEVENT',
+            ];
+        });
+
+    const lines = [
+        'BEGIN:VCALENDAR',
+        'VERSION:2.0',
+        'PRODID:-//LinkedIn Content Engine//Content Calendar//EN',
+        'CALSCALE:GREGORIAN',
+        'METHOD:PUBLISH',
+        ...events,
+        'END:VCALENDAR',
+    ];
+    return lines.map(foldIcsLine).join('\r\n') + '\r\n';
+};
@@ -0,0 +1,47 @@
+import { ContentPlanDay, GenerationOptions, GenerationType, HistoryItem, PlanDayFormat, VariantMode } from '../types';
+
+export const planDayFormatLabels: Record<PlanDayFormat, string> = {
+    [PlanDayFormat.TextPost]: 'Text Post',
+    [PlanDayFormat.ImagePost]: 'Image Post',
+    [PlanDayFormat.Poll]: 'Poll',
+};
+
+/** Renders a structured plan as the Markdown shown in the output pane and kept in history. */
+export const planToMarkdown = (theme: string, plan: ContentPlanDay[]): string => {
+    const days = plan.map(day =>
+        `## Day ${day.day}: ${day.subTopic}\n\n**Format:** ${planDayFormatLabels[day.format]}\n\n**Talking point:** ${day.talkingPoint}`
+    );
+    return [`# 7-Day Content Plan: ${theme}`, ...days].join('\n\n');
+};
+
+/**
+ * Builds the options for generating one day of a plan. Image days become image posts; text
+ * and poll days are day-wise posts that know the rest of the plan, so they don't overlap.
+ * @param planOptions The options the plan itself was generated with, with media resolved.
+ */
+export const createPlanDayOptions = (planOptions: GenerationOptions, plan: ContentPlanDay[], day: ContentPlanDay): GenerationOptions => {
+    const isImage = day.format === PlanDayFormat.ImagePost;
+    return {
+        ...planOptions,
+        type: isImage ? GenerationType.ImagePost : GenerationType.DayWiseContentPlan,
+        topic: isImage ? `${day.subTopic}: ${day.talkingPoint}` : day.subTopic,
+        dayNumber: day.day,
+        variantMode: VariantMode.Off,
+        planDay: { theme: planOptions.topic, day, plan },
+    };
+};
+
+/**
+ * Combines every generated day into one Markdown document, in day order.
+ * @param dayItems The latest history item generated for each day, keyed by day number.
+ */
+export const buildPlanExport = (theme: string, plan: ContentPlanDay[], dayItems: Map<number, HistoryItem>): string => {
+    const sections = plan.map(day => {
+        const item = dayItems.get(day.day);
+        const heading = `## Day ${day.day}: ${day.subTopic} (${planDayFormatLabels[day.format]})`;
+        if (!item) return `${heading}\n\n_Not generated yet._`;
+        const imageNote = item.result.imageUrl ? '\n\n_This day has an image. Open it from history to download the visual._' : '';
+        return `${heading}\n\n${item.result.text.trim()}${imageNote}`;
+    });
+    return [`# ${theme}: 7-Day LinkedIn Series`, ...sections].join('\n\n---\n\n');
+};
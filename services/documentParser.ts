@@ -0,0 +1,117 @@
+import * as pdfjsLib from 'pdfjs-dist';
+import pdfWorkerUrl from 'pdfjs-dist/build/pdf.worker.min.mjs?url';
+
+// pdf.js parses in a web worker, bundled with the app so documents are read without a network.
+pdfjsLib.GlobalWorkerOptions.workerSrc = pdfWorkerUrl;
+
+export const SUPPORTED_DOCUMENT_EXTENSIONS = ['.md', '.markdown', '.txt', '.pdf', '.docx'];
+
+const WORD_NAMESPACE = 'http://schemas.openxmlformats.org/wordprocessingml/2006/main';
+const ZIP_END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+const ZIP_CENTRAL_DIRECTORY_ENTRY = 0x02014b50;
+
+const getExtension = (fileName: string): string => {
+    const dotIndex = fileName.lastIndexOf('.');
+    return dotIndex >= 0 ? fileName.slice(dotIndex).toLowerCase() : '';
+};
+
+const extractPdfText = async (file: File): Promise<string> => {
+    const pdf = await pdfjsLib.getDocument({ data: await file.arrayBuffer() }).promise;
+    const pages: string[] = [];
+    for (let pageNumber = 1; pageNumber <= pdf.numPages; pageNumber++) {
+        const page = await pdf.getPage(pageNumber);
+        const content = await page.getTextContent();
+        let pageText = '';
+        content.items.forEach(item => {
+            if ('str' in item) {
+                pageText += item.str + (item.hasEOL ? '\n' : ' ');
+            }
+        });
+        pages.push(pageText.trim());
+    }
+    return pages.join('\n\n');
+};
+
+// Reads one file out of a ZIP archive, using the browser's built-in inflate for compressed entries.
+const readZipEntry = async (buffer: ArrayBuffer, entryName: string): Promise<Uint8Array | null> => {
+    const view = new DataView(buffer);
+    let end = buffer.byteLength - 22;
+    while (end >= 0 && view.getUint32(end, true) !== ZIP_END_OF_CENTRAL_DIRECTORY) end--;
+    if (end < 0) throw new Error('Not a ZIP archive.');
+
+    const entryCount = view.getUint16(end + 10, true);
+    let offset = view.getUint32(end + 16, true);
+    const decoder = new TextDecoder();
+    for (let i = 0; i < entryCount && view.getUint32(offset, true) === ZIP_CENTRAL_DIRECTORY_ENTRY; i++) {
+        const method = view.getUint16(offset + 10, true);
+        const compressedSize = view.getUint32(offset + 20, true);
+        const nameLength = view.getUint16(offset + 28, true);
+        const extraLength = view.getUint16(offset + 30, true);
+        const commentLength = view.getUint16(offset + 32, true);
+        const localHeader = view.getUint32(offset + 42, true);
+        const name = decoder.decode(new Uint8Array(buffer, offset + 46, nameLength));
+        offset += 46 + nameLength + extraLength + commentLength;
+        if (name !== entryName) continue;
+
+        const dataStart = localHeader + 30 + view.getUint16(localHeader + 26, true) + view.getUint16(localHeader + 28, true);
+        const data = new Uint8Array(buffer, dataStart, compressedSize);
+        if (method === 0) return data;
+        if (method !== 8) throw new Error(`Unsupported ZIP compression method ${method}.`);
+        const stream = new Blob([data]).stream().pipeThrough(new DecompressionStream('deflate-raw'));
+        return new Uint8Array(await new Response(stream).arrayBuffer());
+    }
+    return null;
+};
+
+// Keeps the structure a resume depends on: headings become Markdown headings and list items bullets.
+const extractDocxText = async (file: File): Promise<string> => {
+    const documentXml = await readZipEntry(await file.arrayBuffer(), 'word/document.xml');
+    if (!documentXml) throw new Error('The file has no Word document body.');
+    const xml = new DOMParser().parseFromString(new TextDecoder().decode(documentXml), 'application/xml');
+
+    const paragraphs = Array.from(xml.getElementsByTagNameNS(WORD_NAMESPACE, 'p')).map(paragraph => {
+        let text = '';
+        paragraph.querySelectorAll('*').forEach(node => {
+            if (node.namespaceURI !== WORD_NAMESPACE) return;
+            if (node.localName === 't') text += node.textContent ?? '';
+            else if (node.localName === 'tab') text += '\t';
+            else if (node.localName === 'br' || node.localName === 'cr') text += '\n';
+        });
+        text = text.trim();
+        if (!text) return '';
+        const style = paragraph.getElementsByTagNameNS(WORD_NAMESPACE, 'pStyle')[0]?.getAttributeNS(WORD_NAMESPACE, 'val') ?? '';
+        const headingLevel = /^Title$/i.test(style) ? 1 : Number(style.match(/^Heading(\d)$/i)?.[1] ?? -1) + 1;
+        if (headingLevel > 0) return `${'#'.repeat(Math.min(headingLevel, 4))} ${text}`;
+        if (paragraph.getElementsByTagNameNS(WORD_NAMESPACE, 'numPr').length > 0 || /^List/i.test(style)) return `- ${text}`;
+        return text;
+    });
+    return paragraphs.filter(Boolean).join('\n\n');
+};
+
+/**
+ * Extracts plain text from an uploaded file, entirely in the browser.
+ * @param file A Markdown, plain-text, PDF or Word (.docx) file.
+ * @returns The text content of the file.
+ */
+export const extractTextFromFile = async (file: File): Promise<string> => {
+    const extension = getExtension(file.name);
+    if (!SUPPORTED_DOCUMENT_EXTENSIONS.includes(extension)) {
+        throw new Error(`Unsupported file type "${extension || file.type}". Please upload one of: ${SUPPORTED_DOCUMENT_EXTENSIONS.join(', ')}.`);
+    }
+
+    try {
+        const text = extension === '.pdf' ? await extractPdfText(file)
+            : extension === '.docx' ? await extractDocxText(file)
+            : await file.text();
+        if (!text.trim()) {
+            throw new Error(`No readable text was found in "${file.name}".`);
+        }
+        return text;
+    } catch (error) {
+        console.error(`Error extracting text from ${file.name}:`, error);
+        if (error instanceof Error && error.message.startsWith('No readable text')) {
+            throw error;
+        }
+        throw new Error(`Failed to read "${file.name}". The file may be corrupted or password-protected.`);
+    }
+};
@@ -0,0 +1,157 @@
+import { GoogleGenAI, GenerateContentConfig, GenerateContentResponse } from "@google/genai";
+import { LlmProvider, TextRequest, TextResponse, JsonRequest, ImageRequest, VideoRequest, VideoJobPoll, GroundingSource } from './llmTypes';
+
+const TEXT_MODEL = 'gemini-2.5-flash';
+const IMAGE_MODEL = 'imagen-4.0-generate-001';
+const VIDEO_MODEL = 'veo-2.0-generate-001';
+// NOTE: `text-embedding-004` is a standard model for this task. It is not explicitly listed in the
+// project's model guidelines, but is required to fulfill the request for embedding generation.
+const EMBEDDING_MODEL = 'text-embedding-004';
+
+// Lazily initialize the AI client to prevent crashing the app on load if the API key is missing.
+let ai: GoogleGenAI | null = null;
+
+const getAi = (): GoogleGenAI => {
+    if (!ai) {
+        // The error thrown here will be caught by the try/catch blocks in App.tsx,
+        // allowing for a graceful error message to be displayed to the user.
+        if (!process.env.API_KEY) {
+            throw new Error("Configuration error: The API_KEY is missing. Please set it up to use the application.");
+        }
+        ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+    }
+    return ai;
+};
+
+const blobToDataUrl = (blob: Blob): Promise<string> => {
+    return new Promise<string>((resolve, reject) => {
+        const reader = new FileReader();
+        reader.onloadend = () => resolve(reader.result as string);
+        reader.onerror = reject;
+        reader.readAsDataURL(blob);
+    });
+};
+
+const extractSources = (response: GenerateContentResponse): GroundingSource[] => {
+    const groundingChunks = response.candidates?.[0]?.groundingMetadata?.groundingChunks;
+    if (!groundingChunks) return [];
+    return groundingChunks
+        .map(chunk => chunk.web)
+        .filter(web => web?.uri && web.title) as GroundingSource[];
+};
+
+export const geminiProvider: LlmProvider = {
+    id: 'gemini',
+
+    async generateText({ prompt, useSearch }: TextRequest): Promise<TextResponse> {
+        const config: GenerateContentConfig = {};
+        if (useSearch) {
+            config.tools = [{ googleSearch: {} }];
+        }
+
+        const response = await getAi().models.generateContent({
+            model: TEXT_MODEL,
+            contents: prompt,
+            config: config,
+        });
+
+        const result: TextResponse = { text: response.text };
+        if (useSearch) {
+            const sources = extractSources(response);
+            if (sources.length > 0) {
+                result.sources = sources;
+            }
+        }
+        return result;
+    },
+
+    async *streamText({ prompt, useSearch }: TextRequest, signal?: AbortSignal): AsyncIterable<TextResponse> {
+        const config: GenerateContentConfig = { abortSignal: signal };
+        if (useSearch) {
+            config.tools = [{ googleSearch: {} }];
+        }
+
+        const stream = await getAi().models.generateContentStream({
+            model: TEXT_MODEL,
+            contents: prompt,
+            config: config,
+        });
+
+        for await (const chunk of stream) {
+            const sources = useSearch ? extractSources(chunk) : [];
+            yield sources.length > 0 ? { text: chunk.text ?? '', sources } : { text: chunk.text ?? '' };
+        }
+    },
+
+    async generateJson({ prompt, schema }: JsonRequest): Promise<string> {
+        const response = await getAi().models.generateContent({
+            model: TEXT_MODEL,
+            contents: prompt,
+            config: {
+                responseMimeType: "application/json",
+                responseSchema: schema,
+            }
+        });
+        return response.text;
+    },
+
+    async generateImage({ prompt, aspectRatio }: ImageRequest): Promise<string> {
+        const imageResponse = await getAi().models.generateImages({
+            model: IMAGE_MODEL,
+            prompt: prompt,
+            config: {
+                numberOfImages: 1,
+                outputMimeType: 'image/jpeg',
+                aspectRatio: aspectRatio,
+            }
+        });
+
+        const base64ImageBytes = imageResponse.generatedImages[0].image.imageBytes;
+        return `data:image/jpeg;base64,${base64ImageBytes}`;
+    },
+
+    async startVideoJob({ prompt }: VideoRequest): Promise<string> {
+        const operation = await getAi().models.generateVideos({
+            model: VIDEO_MODEL,
+            prompt: prompt,
+            config: { numberOfVideos: 1 }
+        });
+        if (!operation.name) {
+            throw new Error("Video generation started but no operation name was returned.");
+        }
+        return operation.name;
+    },
+
+    async getVideoJob(operationName: string): Promise<VideoJobPoll> {
+        const operation = await getAi().operations.getVideosOperation({ operation: { name: operationName } });
+        if (operation.error) {
+            return { done: true, error: `Video generation failed: ${operation.error.message ?? JSON.stringify(operation.error)}` };
+        }
+        if (!operation.done) {
+            return { done: false };
+        }
+
+        const downloadLink = operation.response?.generatedVideos?.[0]?.video?.uri;
+        if (!downloadLink) {
+            return { done: true, error: "Video generation succeeded but no download link was found." };
+        }
+
+        const videoResponse = await fetch(`${downloadLink}&key=${process.env.API_KEY}`);
+        if (!videoResponse.ok) {
+            throw new Error(`Failed to fetch video: ${videoResponse.statusText}`);
+        }
+        return { done: true, videoUrl: await blobToDataUrl(await videoResponse.blob()) };
+    },
+
+    async embed(text: string): Promise<number[]> {
+        const response = await getAi().models.embedContent({
+            model: EMBEDDING_MODEL,
+            contents: { parts: [{ text }] }
+        });
+
+        if (response.embeddings && response.embeddings[0] && response.embeddings[0].values) {
+            return response.embeddings[0].values;
+        }
+        throw new Error("Failed to generate embeddings. No embedding found in response.");
+    },
+};
@@ -1,23 +1,16 @@
-
-import { GoogleGenAI, Type, Modality, GenerateContentResponse } from "@google/genai";
-// FIX: Imported personaDisplayNames from types.ts to resolve reference error.
-import { GenerationOptions, GenerationType, PostLength, GenerationResult, Persona, DifficultyLevel, CompanySuggestion, ImageStyle, ImageAspectRatio, TextOverlayOptions, Tone, personaDisplayNames, VideoQuality } from '../types';
-
-// Lazily initialize the AI client to prevent crashing the app on load if the API key is missing.
-let ai: GoogleGenAI | null = null;
-
-const getAi = (): GoogleGenAI => {
-    if (!ai) {
-        // The error thrown here will be caught by the try/catch blocks in App.tsx,
-        // allowing for a graceful error message to be displayed to the user.
-        if (!process.env.API_KEY) {
-            throw new Error("Configuration error: The API_KEY is missing. Please set it up to use the application.");
-        }
-        ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-    }
-    return ai;
-};
-
+import { Type } from "@google/genai";
+import { GenerationOptions, GenerationType, PostLength, GenerationResult, RetrievedSnippet, Persona, PersonaId, CustomPersona, DifficultyLevel, CompanySuggestion, ImageStyle, ImageAspectRatio, TextOverlayOptions, Tone, VideoQuality, CarouselSlide, InlineEditAction, TextRange, VariantMode, PostVariant, ContentPlanDay, PlanDayFormat, ResumeInput, ResumeAnalysis, ResumeBulletRewrite, ResumeKeyword, InterviewMode, InterviewSession, InterviewTurn, InterviewCriterionScore, CompanyProspect, ContentLanguage, SourceMaterial, FaithfulnessReport, FaithfulnessClaim, FaithfulnessVerdict } from '../types';
+import { getProvider } from './llmProvider';
+import { GroundingSource, VideoJobPoll } from './llmTypes';
+import { retrieveRelevantSnippets } from './knowledgeBase';
+import { getCustomPersona, getPersonaDisplayName } from './personaStore';
+import { getVoiceFingerprintInstruction } from './voiceFingerprint';
+import { planToMarkdown } from './contentPlan';
+import { prospectsToMarkdown } from './prospectStore';
+import { languageNames, protectUntranslatable, restoreUntranslatable } from './language';
+import { isSourceGenerationType, formatSourceCredit, sourceKindLabels } from './sourceMaterial';
+import { messageLimits, isOutreachType, checkMessageLimits, isWithinLimits, fitToLimits, MessageLimitCheck } from './outreachMessages';
+import { INTERVIEW_RUBRIC, MAX_CRITERION_SCORE, DEFAULT_INTERVIEW_QUESTION_COUNT, InterviewSummary, canAskFollowUp, countMainQuestions, getOpenTurn, getTurnScore, normalizeCriterionScores, interviewReportToMarkdown } from './mockInterview';
 
 const handleApiError = (error: unknown, context: string): Error => {
     console.error(`Error during ${context}:`, error);
@@ -43,25 +36,6 @@ const handleApiError = (error: unknown, context: string): Error => {
     return new Error(`An unknown error occurred while trying to ${context}.`);
 };
 
-// --- Start of New RAG Implementation ---
-
-// Helper functions for vector math
-const dotProduct = (vecA: number[], vecB: number[]): number => {
-    if (vecA.length !== vecB.length) return 0;
-    return vecA.map((val, i) => val * vecB[i]).reduce((sum, current) => sum + current, 0);
-};
-
-const magnitude = (vec: number[]): number => {
-    return Math.sqrt(vec.reduce((sum, val) => sum + val * val, 0));
-};
-
-const cosineSimilarity = (vecA: number[], vecB: number[]): number => {
-    const magA = magnitude(vecA);
-    const magB = magnitude(vecB);
-    if (magA === 0 || magB === 0) return 0;
-    return dotProduct(vecA, vecB) / (magA * magB);
-};
-
 /**
  * Generates vector embeddings for a given text.
  * @param text The text to embed.
@@ -69,114 +43,22 @@ const cosineSimilarity = (vecA: number[], vecB: number[]): number => {
  */
 export const generateEmbeddings = async (text: string): Promise<number[]> => {
     try {
-        const aiInstance = getAi();
-        // NOTE: `text-embedding-004` is a standard model for this task. It is not explicitly listed in the
-        // project's model guidelines, but is required to fulfill the request for embedding generation.
-        // Assuming its use is permitted for this specific function.
-        const response = await aiInstance.models.embedContent({
-            model: 'text-embedding-004',
-            contents: { parts: [{ text }] }
-        });
-
-        if (response.embeddings && response.embeddings[0] && response.embeddings[0].values) {
-            return response.embeddings[0].values;
-        }
-        throw new Error("Failed to generate embeddings. No embedding found in response.");
+        return await getProvider().embed(text);
     } catch (error) {
         throw handleApiError(error, "generate embeddings");
     }
 };
 
-interface VectorStoreEntry {
-    text: string;
-    embedding: number[];
-}
-
-/**
- * A simple in-memory vector store for Retrieval-Augmented Generation (RAG).
- * It stores text chunks and their corresponding embeddings to find relevant context for new prompts.
- */
-class MockVectorStore {
-    private documents: VectorStoreEntry[] = [];
-    private isProcessing: boolean = false;
-
-    /**
-     * Chunks text, generates embeddings, and adds them to the store.
-     * @param texts An array of document strings to add.
-     */
-    async add_documents(texts: string[]): Promise<void> {
-        if (this.isProcessing) return; // Prevent concurrent modifications
-        this.isProcessing = true;
-        try {
-            for (const text of texts) {
-                const chunks = this.chunkText(text);
-                for (const chunk of chunks) {
-                    // Avoid adding duplicate chunks
-                    if (this.documents.some(doc => doc.text === chunk)) continue;
-                    try {
-                        const embedding = await generateEmbeddings(chunk);
-                        this.documents.push({ text: chunk, embedding });
-                    } catch (error) {
-                        console.error(`Failed to generate embedding for chunk, skipping:`, error);
-                    }
-                }
-            }
-        } finally {
-            this.isProcessing = false;
-        }
-    }
-
-    /**
-     * Performs a similarity search to find the most relevant text chunks.
-     * @param queryEmbedding The embedding of the query topic.
-     * @param k The number of top results to return.
-     * @returns An array of the most similar text chunks.
-     */
-    similarity_search(queryEmbedding: number[], k: number = 3): string[] {
-        if (this.documents.length === 0 || this.isProcessing) {
-            return [];
-        }
-
-        const similarities = this.documents.map(doc => ({
-            text: doc.text,
-            similarity: cosineSimilarity(queryEmbedding, doc.embedding),
-        }));
-
-        similarities.sort((a, b) => b.similarity - a.similarity);
-
-        // Return only chunks with a reasonable similarity score
-        return similarities.slice(0, k).filter(item => item.similarity > 0.7).map(item => item.text);
-    }
-
-    // Naive text chunking based on word count
-    private chunkText(text: string, maxWords: number = 100, overlapWords: number = 20): string[] {
-        const words = text.replace(/#/g, '').split(/\s+/).filter(w => w.length > 0);
-        const chunks: string[] = [];
-        if (words.length <= maxWords) {
-            return [text];
-        }
-        let i = 0;
-        while (i < words.length) {
-            const end = Math.min(i + maxWords, words.length);
-            chunks.push(words.slice(i, end).join(' '));
-            i += maxWords - overlapWords;
-            if (i >= words.length && chunks.length > 1) break; // prevent final small/overlapping chunk
-        }
-        return chunks;
-    }
-}
-
-// Global instance of the vector store
-const vectorStore = new MockVectorStore();
-
-// --- End of New RAG Implementation ---
-
 
 const getQualityInstruction = (): string => {
     return "CRITICAL INSTRUCTION: The output must be of the highest professional standard. The writing must be clear, engaging, grammatically perfect, and use **flawless, standard Markdown formatting (e.g., using # for headers, * for italics, ** for bold, and simple lists)**. Do not use unusual characters, complex table structures, or non-standard Markdown syntax that could cause rendering issues. The tone should be authoritative yet accessible, suitable for a discerning professional audience on platforms like LinkedIn. The content should be insightful and avoid sounding robotic or generic. Crucially, ensure proper spacing in the Markdown source, such as using empty lines between paragraphs and list items, for maximum readability.";
 };
 
-const getPersonaPrompt = (persona: Persona): string => {
+/**
+ * Returns the prompt for one of the built-in personas. Also used to pre-fill the
+ * description when a built-in persona is cloned into a custom one.
+ */
+export const getBuiltInPersonaPrompt = (persona: Persona): string => {
     switch (persona) {
         case Persona.GanapathiKakarla:
             return "Act as Ganapathi Kakarla, a distinguished expert in AI and Data Science in Healthcare. Your tone is that of a seasoned professional, thought leader, and innovator. You combine deep technical expertise with a strategic vision for the future of healthcare. You are passionate about leveraging technology to improve patient outcomes, enhance clinical workflows, and drive medical research forward. Your writing is insightful, authoritative, and accessible to a broad professional audience, including clinicians, researchers, executives, and technologists. You often discuss the ethical implications, practical challenges, and transformative potential of AI in the medical field. Your content is always well-researched, evidence-based, and forward-looking.";
@@ -329,12 +211,211 @@ const getPersonaPrompt = (persona: Persona): string => {
         case Persona.TelehealthCoordinator:
             return "Act as a Telehealth Coordinator. Your tone is practical, patient-oriented, and focused on logistics. You manage and facilitate virtual care delivery. When discussing AI, you are interested in how it can improve the telehealth experience, such as through AI-powered chatbots for patient intake, virtual triage systems, or tools for remote patient monitoring. Your audience is patients, clinicians, and healthcare administrators.";
         default:
-            return getPersonaPrompt(Persona.GanapathiKakarla); // Fallback
+            return getBuiltInPersonaPrompt(Persona.GanapathiKakarla); // Fallback
+    }
+};
+
+const getCustomPersonaPrompt = (persona: CustomPersona): string => {
+    let prompt = `Act as ${persona.name}.`;
+    if (persona.description.trim()) {
+        prompt += ` ${persona.description.trim()}`;
+    }
+    if (persona.audience.trim()) {
+        prompt += ` Your audience is ${persona.audience.trim()}.`;
+    }
+    if (persona.toneTraits.length > 0) {
+        prompt += ` Your tone is ${persona.toneTraits.join(', ')}.`;
     }
+    if (persona.bannedPhrases.length > 0) {
+        prompt += ` Never use any of these phrases: ${persona.bannedPhrases.map(phrase => `"${phrase}"`).join(', ')}.`;
+    }
+    if (persona.signOff.trim()) {
+        prompt += ` Where the format allows a sign-off (e.g., posts), end with: "${persona.signOff.trim()}".`;
+    }
+    if (persona.examplePosts.length > 0) {
+        const examples = persona.examplePosts.map((post, index) => `Example ${index + 1}:\n${post}`).join('\n\n');
+        prompt += `\n\nHere are posts this persona has written. Match their voice, structure and rhythm, but not their content:\n---\n${examples}\n---`;
+    }
+    return prompt;
+};
+
+const getPersonaPrompt = (persona: PersonaId): string => {
+    const customPersona = getCustomPersona(persona);
+    if (customPersona) {
+        return getCustomPersonaPrompt(customPersona);
+    }
+    return getBuiltInPersonaPrompt(persona as Persona);
+};
+
+// Generation types whose prompts are grounded in the user's personal knowledge base.
+const knowledgeBaseTypes = [
+    GenerationType.Post,
+    GenerationType.ExamplePost,
+    GenerationType.Document,
+    GenerationType.TutorialOutline,
+    GenerationType.Carousel,
+];
+
+// Post-style generation types that imitate the persona's learned voice fingerprint, if it has one.
+const voiceFingerprintTypes = [
+    GenerationType.Post,
+    GenerationType.ExamplePost,
+    GenerationType.MythBusting,
+    GenerationType.QuickWins,
+    GenerationType.ComparativeAnalysis,
+    GenerationType.DayWiseContentPlan,
+];
+
+const getVoiceInstruction = (persona: PersonaId): string => {
+    const fingerprint = getCustomPersona(persona)?.voiceFingerprint;
+    return fingerprint ? getVoiceFingerprintInstruction(fingerprint) : '';
+};
+
+// Appended last, so it overrides anything earlier in the prompt that assumes English.
+const getLanguageInstruction = (language?: ContentLanguage): string => {
+    if (!language || language === ContentLanguage.English) return '';
+    const name = languageNames[language];
+    return `\n\nLANGUAGE: Write all of the content in ${name}, fluently and idiomatically, as a native ${name}-speaking professional would. Keep JSON field names, enum values, rubric criterion names, labels such as "Subject:", "**Poll:**" or "TASK 1", any image-generation prompt, code, URLs and established technical terms as they are.`;
+};
+
+const getKnowledgeBaseInstruction = (snippets: RetrievedSnippet[]): string => {
+    const excerpts = snippets
+        .map((snippet, index) => `[${index + 1}] From "${snippet.documentName}":\n${snippet.text}`)
+        .join('\n\n');
+    return `\n\nPERSONAL KNOWLEDGE BASE: The following excerpts come from the author's own notes, past posts and papers. Where relevant, ground the content in them and stay consistent with the views they express. Do not mention that you were given excerpts.\n---\n${excerpts}\n---`;
+};
+
+const isResumeAnalysis = (options: GenerationOptions): boolean => {
+    return (options.type === GenerationType.CvEnhancement || options.type === GenerationType.ResumeTailoring) && !!options.resume?.resumeText.trim();
+};
+
+// Works on the candidate's own resume rather than generic advice, and never invents experience.
+const getResumePrompt = (options: GenerationOptions, resume: ResumeInput, personaPrompt: string): string => {
+    const { type, topic, company, tone } = options;
+    const target = `a "${topic}" role${company ? ` at "${company}"` : ''}`;
+    const goal = type === GenerationType.ResumeTailoring
+        ? `Tailor the candidate's resume below for ${target}, so it speaks directly to the job description's requirements${company ? ` and the company's values` : ''}.`
+        : `Strengthen the candidate's resume below for ${target}: sharper bullet points with strong action verbs and measurable impact, and the skills that matter for the role brought forward.`;
+    const jobDescription = resume.jobDescription.trim()
+        ? `\n\nJOB DESCRIPTION:\n---\n${resume.jobDescription.trim()}\n---`
+        : '\n\nNo job description was provided; use what a typical job description for this role would ask for.';
+    return `${goal} Work only from the resume: never invent employers, titles, dates, degrees, tools or results the candidate doesn't show. Where a number would make a bullet stronger but the resume has none, use a placeholder such as "[X%]" for the candidate to fill in.
+
+Return JSON with:
+- "rewrites": each bullet point or achievement line worth improving, with "section" (the resume section it's in), "before" (copied exactly from the resume), "after" (the rewritten line) and "reason" (one short sentence on what changed and why).
+- "keywords": the 15 to 25 most important skills, tools and qualifications from the job description, in its wording, each with "importance" set to "required" or "preferred".
+- "tailoredResume": the complete improved resume in Markdown, with the rewrites applied, a short summary targeting the role at the top, and keywords the candidate genuinely has worked in naturally.
+
+The tone of the rewrites should be ${tone}. ${personaPrompt}
+
+RESUME:
+---
+${resume.resumeText.trim()}
+---${jobDescription}`;
+};
+
+const isMockInterview = (options: GenerationOptions): boolean => {
+    return options.type === GenerationType.InterviewQuestions && options.interviewMode === InterviewMode.Mock;
+};
+
+const interviewDifficultyGuidance: Record<DifficultyLevel, string> = {
+    [DifficultyLevel.Beginner]: 'an entry-level interview: fundamentals, motivation and learning ability, with a supportive tone',
+    [DifficultyLevel.Intermediate]: 'a mid-level interview: practical experience, sound judgement and ownership of past work',
+    [DifficultyLevel.Advanced]: 'a senior-level interview: depth, trade-offs, ambiguity, leadership and impact at scale, probed rigorously',
+};
+
+// The interviewer's brief, shared by every step of a mock interview.
+const getInterviewerBrief = (options: GenerationOptions): string => {
+    const { topic, company, difficultyLevel, persona } = options;
+    const companyContext = company ? ` at "${company}". Reflect what this company is known to look for and how it interviews` : '';
+    return `You are an experienced interviewer running a realistic, one-question-at-a-time mock interview for a "${topic}" role${companyContext}. Pitch it as ${interviewDifficultyGuidance[difficultyLevel]}. Mix technical, behavioral and situational questions as suits the role. ${getPersonaPrompt(persona)}`;
+};
+
+const getInterviewRubric = (): string => {
+    return INTERVIEW_RUBRIC.map(criterion => `- ${criterion.name}: ${criterion.description}`).join('\n');
+};
+
+const formatInterviewTranscript = (turns: InterviewTurn[]): string => {
+    return turns
+        .filter(turn => turn.answer !== undefined)
+        .map((turn, index) => {
+            const score = getTurnScore(turn);
+            return `${index + 1}. ${turn.isFollowUp ? 'Follow-up' : 'Question'} (${turn.focus}): ${turn.question}\nAnswer: ${turn.answer?.trim() || '(no answer)'}${score !== null ? `\nScore: ${score}/${MAX_CRITERION_SCORE}` : ''}`;
+        })
+        .join('\n\n');
+};
+
+// Outreach messages are pasted straight into a form, so they must be plain text within the platform's limits.
+const getOutreachFormatInstruction = (type: GenerationType): string => {
+    const limits = messageLimits[type]!;
+    const subjectLimit = limits.subject ? ` The subject must be at most ${limits.subject} characters.` : '';
+    return `The message must be at most ${limits.body} characters including spaces.${subjectLimit} Write plain text with no Markdown, hashtags or emoji, and respond with ONLY the message.`;
+};
+
+const describeOverLimit = (checks: MessageLimitCheck[]): string => {
+    return checks
+        .filter(check => check.count > check.max)
+        .map(check => `the ${check.label.toLowerCase()} is ${check.count} characters and must be at most ${check.max}`)
+        .join('; ');
+};
+
+/**
+ * Checks an outreach message against its platform's limits before it is shown. An over-long message is
+ * sent back to be shortened once; if the platform refuses anything longer, whatever is still over is cut.
+ */
+const enforceMessageLimits = async (options: Pick<GenerationOptions, 'type' | 'persona' | 'language'>, text: string): Promise<string> => {
+    const checks = checkMessageLimits(options.type, text);
+    if (isWithinLimits(checks)) {
+        return text;
+    }
+
+    const prompt = `Shorten the following message: ${describeOverLimit(checks)}. Keep its greeting, its specific reason for writing and its ask, and cut everything else that isn't essential. Keep the voice. ${getOutreachFormatInstruction(options.type)}${messageLimits[options.type]!.subject ? ' Keep the "Subject: " line.' : ''}
+
+PERSONA: ${getPersonaPrompt(options.persona)}
+
+MESSAGE:
+---
+${text}
+---${getLanguageInstruction(options.language)}`;
+    const response = await getProvider().generateText({ prompt });
+    const shortened = cleanTextResponse(response.text);
+
+    return messageLimits[options.type]!.hard ? fitToLimits(options.type, shortened) : shortened;
+};
+
+// The topic becomes the focus; what is said comes from the source, with its words quoted exactly and credited.
+const getSourceMaterialInstruction = (source: SourceMaterial): string => {
+    const byline = source.author ? ` by ${source.author}` : '';
+    return `\n\nSOURCE MATERIAL: Base the content on the ${sourceKindLabels[source.kind].toLowerCase()} below ("${source.title}"${byline}) rather than on general knowledge. Every fact, figure and claim must come from it; don't add statistics, names or conclusions it doesn't contain. Where you use its exact words, put them in quotation marks, copy them word for word and attribute them${source.author ? ` to ${source.author}` : ''} (or to the speaker named in the source). Never put quotation marks around a paraphrase. Don't add a sources or references line; one is added for you.${source.truncated ? ' The source was cut short, so don\'t describe how it ends.' : ''}\n---\n${source.text}\n---`;
 };
 
-const constructPrompt = async (options: GenerationOptions): Promise<{ prompt: string, useSearch: boolean }> => {
-    const { type, topic, pageCount, postLength, persona, difficultyLevel, company, dayNumber, tone, imageBackgroundColor, imageStyle, logoImage, textOverlay, videoQuality } = options;
+// Derived assets restate the source document rather than researching the topic again.
+const getRepurposePrompt = (options: GenerationOptions, personaPrompt: string, qualityInstruction: string): string => {
+    const { sourceTitle, sourceText, format, angle, otherAngles } = options.repurpose!;
+    const source = `SOURCE DOCUMENT ("${sourceTitle}"):\n---\n${sourceText}\n---`;
+    const faithfulness = "Use only the ideas, examples and figures in the source document; don't add facts, statistics or claims it doesn't make, and don't mention that it was adapted from a document.";
+    let task: string;
+    switch (format) {
+        case 'post':
+            const siblings = otherAngles && otherAngles.length > 0 ? ` Other posts in the same series cover: ${otherAngles.join('; ')}. Don't repeat what they cover.` : '';
+            task = `Write a standalone LinkedIn post drawn from the source document below, focused on this angle: "${angle}". It must make sense to someone who hasn't read the document, open with a strong hook and end with a question or takeaway.${siblings} Keep it to 150-250 words. The tone should be ${options.tone}. ${personaPrompt} ${qualityInstruction}`;
+            break;
+        case 'newsletter':
+            task = `Turn the source document below into one edition of an email newsletter. Give it a Markdown H1 title, a short personal intro, three or four sections with H2 headings that each carry one key idea from the document, and a closing with a single call to action. Keep it to 600-900 words and write for a reader's inbox rather than a report. The tone should be ${options.tone}. ${personaPrompt} ${qualityInstruction}`;
+            break;
+        case 'carousel':
+            const contentSlideCount = options.slideCount ?? 6;
+            task = `Turn the source document below into a LinkedIn carousel (a swipeable PDF document post). Return exactly ${contentSlideCount + 2} slides in order: one "hook" slide that stops the scroll with the document's boldest promise or question, then ${contentSlideCount} "content" slides that each make one clear point from the document, then one "cta" slide that invites the reader to follow, comment or save. Slides are read on a phone, so keep every title under 10 words and every body under 40 words. Bodies may use short "- " bullet lines. Do not use Markdown headings or bold markers. The tone should be ${options.tone}. ${personaPrompt}`;
+            break;
+        case 'thread':
+            task = `Turn the source document below into a short-form thread of 6-8 numbered parts ("1/", "2/" and so on), separated by blank lines. The first part is a hook that promises what the thread delivers, each middle part makes one point from the document, and the last part sums up and asks readers to share or follow. Every part must be at most 280 characters including its number. Use no Markdown headings and at most two hashtags, in the last part. The tone should be ${options.tone}. ${personaPrompt}`;
+            break;
+    }
+    return `${task} ${faithfulness}\n\n${source}`;
+};
+
+const constructPrompt = async (options: GenerationOptions): Promise<{ prompt: string, useSearch: boolean, snippets: RetrievedSnippet[] }> => {
+    const { type, topic, pageCount, postLength, persona, difficultyLevel, company, dayNumber, tone, imageBackgroundColor, imageStyle, logoImage, textOverlay, videoQuality, planDay } = options;
     const personaPrompt = getPersonaPrompt(persona);
     const qualityInstruction = getQualityInstruction();
     let prompt = "";
@@ -348,6 +429,10 @@ const constructPrompt = async (options: GenerationOptions): Promise<{ prompt: st
                 [PostLength.Medium]: 'a standard-length post (around 250-350 words)',
                 [PostLength.Detailed]: 'a detailed and in-depth post (around 400-600 words)',
             }[postLength];
+            if (options.repurpose) {
+                prompt = getRepurposePrompt(options, personaPrompt, qualityInstruction);
+                break;
+            }
             prompt = `Generate a high-quality, professional LinkedIn post on the topic of "${topic}". The post should be ${lengthInstruction}. The tone should be ${tone}. ${personaPrompt} ${qualityInstruction}`;
             useSearch = true;
             break;
@@ -366,7 +451,7 @@ const constructPrompt = async (options: GenerationOptions): Promise<{ prompt: st
                 TASK 1: Generate a LinkedIn post text.
                 - Topic: "${topic}"
                 - Length: ${postLength}
-                - Persona: ${personaDisplayNames[persona]}
+                - Persona: ${getPersonaDisplayName(persona)}
                 - Tone: ${tone}
                 - Instruction: Write a high-quality, professional LinkedIn post. ${personaPrompt} ${qualityInstruction}
 
@@ -390,6 +475,10 @@ const constructPrompt = async (options: GenerationOptions): Promise<{ prompt: st
             break;
 
         case GenerationType.Document:
+            if (options.repurpose) {
+                prompt = getRepurposePrompt(options, personaPrompt, qualityInstruction);
+                break;
+            }
             prompt = `Generate a comprehensive, multi-page professional document of approximately ${pageCount} pages on the topic "${topic}". The content should be structured with clear headings, subheadings, paragraphs, and lists. The difficulty level is ${difficultyLevel}. The tone should be ${tone}. ${personaPrompt} ${qualityInstruction}`;
             useSearch = true;
             break;
@@ -423,27 +512,75 @@ const constructPrompt = async (options: GenerationOptions): Promise<{ prompt: st
             break;
 
         case GenerationType.WeeklyContentPlan:
-            prompt = `Create a 7-day content plan for a LinkedIn series based on the overarching theme: "${topic}". For each day (Day 1 to Day 7), provide a specific sub-topic, a suggested content format (e.g., text post, poll, image post), and a key talking point. The tone should be ${tone}. ${personaPrompt} ${qualityInstruction}`;
+            prompt = `Create a 7-day content plan for a LinkedIn series based on the overarching theme: "${topic}". For each day (Day 1 to Day 7), provide a specific sub-topic, a content format ("${PlanDayFormat.TextPost}", "${PlanDayFormat.ImagePost}" or "${PlanDayFormat.Poll}") and a key talking point in one or two sentences. Each day must cover a distinct sub-topic that builds on the previous days, with no overlap, and the formats should be varied across the week. The tone should be ${tone}. ${personaPrompt} Return JSON with "days": exactly 7 entries in order.`;
             break;
 
         case GenerationType.DayWiseContentPlan:
+            if (planDay) {
+                const otherDays = planDay.plan
+                    .filter(d => d.day !== planDay.day.day)
+                    .map(d => `Day ${d.day}: ${d.subTopic}`)
+                    .join('; ');
+                const formatInstruction = planDay.day.format === PlanDayFormat.Poll
+                    ? `Write it as a LinkedIn poll post: a short post that sets up the question, then a line starting with "**Poll:**" followed by the poll question, then 2 to 4 answer options as a bulleted list, each at most 30 characters.`
+                    : 'Write the full post.';
+                prompt = `You are executing a 7-day LinkedIn content series on the theme "${planDay.theme}". Today is Day ${planDay.day.day} and today's sub-topic is "${planDay.day.subTopic}". Key talking point: ${planDay.day.talkingPoint}. The other days of the series cover: ${otherDays}. Stay on today's sub-topic and don't repeat what the other days cover. ${formatInstruction} The tone should be ${tone}. ${personaPrompt} ${qualityInstruction}`;
+                break;
+            }
              prompt = `You are executing a multi-day content plan. The main theme is "${topic}". Today is Day ${dayNumber}. Generate the LinkedIn post content for today's sub-topic. You must first determine an appropriate sub-topic for Day ${dayNumber} within the series theme, and then write the full post. The tone should be ${tone}. ${personaPrompt} ${qualityInstruction}`;
             break;
 
         case GenerationType.InterviewQuestions:
-            prompt = `Generate a list of 10-15 insightful interview questions for a candidate applying for a "${topic}" role. Include a mix of technical, behavioral, and situational questions. Also, for each question, provide a brief (1-2 sentence) explanation of what a good answer should demonstrate. ${personaPrompt} ${qualityInstruction}`;
+            if (isMockInterview(options)) {
+                prompt = `${getInterviewerBrief(options)}\n\nThe interview has ${DEFAULT_INTERVIEW_QUESTION_COUNT} main questions. Ask the first one now: a natural opener for this role that still tells you something real about the candidate. Return JSON with "question" (exactly what you'd say to the candidate) and "focus" (two to four words on what it probes).`;
+                break;
+            }
+            prompt = `Generate a list of 10-15 insightful interview questions for a candidate applying for a "${topic}" role${company ? ` at "${company}"` : ''}. The difficulty level is ${difficultyLevel}. Include a mix of technical, behavioral, and situational questions. Also, for each question, provide a brief (1-2 sentence) explanation of what a good answer should demonstrate. ${personaPrompt} ${qualityInstruction}`;
             break;
 
         case GenerationType.CvEnhancement:
+            if (isResumeAnalysis(options)) {
+                prompt = getResumePrompt(options, options.resume!, personaPrompt);
+                break;
+            }
              prompt = `Analyze the following role: "${topic}". Provide specific, actionable advice on how a professional can enhance their CV to be a strong candidate for this role. Focus on key skills to highlight, impactful project descriptions (with examples), and powerful action verbs to use. If a company is specified, tailor the advice: Company: "${company}". The tone should be ${tone}. ${personaPrompt} ${qualityInstruction}`;
             break;
 
         case GenerationType.ResumeTailoring:
+            if (isResumeAnalysis(options)) {
+                prompt = getResumePrompt(options, options.resume!, personaPrompt);
+                break;
+            }
              prompt = `Generate specific guidance on how to tailor a resume for the role of "${topic}" at the company "${company}". Provide a bulleted list of modifications, including: 1. A summary statement targeting the role. 2. Keywords to incorporate from a typical job description for this role. 3. Suggestions on how to rephrase experience to align with the company's values and the job's requirements. The tone should be ${tone}. ${personaPrompt} ${qualityInstruction}`;
             break;
 
         case GenerationType.CompanyProspector:
-            prompt = `Based on the role/skillset of "${topic}", generate a list of 10 companies that would likely hire for this position. For each company, provide its name and a brief (1-sentence) justification for why it's a good prospect. ${personaPrompt} ${qualityInstruction}`;
+            prompt = `Based on the role/skillset of "${topic}", generate a list of 10 companies that would likely hire for this position. Return JSON with "companies": for each company, its "name", its "industry" (a short label such as "Big Tech", "Healthcare" or "Consulting") and a brief (1-sentence) "reason" why it's a good prospect. ${personaPrompt}`;
+            break;
+
+        case GenerationType.CoverLetter:
+            prompt = `Write a tailored cover letter for a "${topic}" role${company ? ` at "${company}"` : ''}. Open with why this company and this role specifically, spend one or two paragraphs connecting the candidate's most relevant experience and achievements to what the role needs, and close with a confident call to action. Keep it to 250-350 words in three or four paragraphs, with a greeting and a sign-off. Use square-bracket placeholders such as [Hiring Manager's Name] or [a relevant achievement] for anything you don't know; never invent employers, titles or numbers. The tone should be ${tone}. ${personaPrompt} ${getOutreachFormatInstruction(type)}`;
+            break;
+
+        case GenerationType.ConnectionRequest:
+            prompt = `Write a LinkedIn connection request note to someone${company ? ` at "${company}"` : ''} who works in or hires for "${topic}" roles. Give one specific, genuine reason to connect and don't ask for a job in this first message. The tone should be ${tone}. ${personaPrompt} ${getOutreachFormatInstruction(type)}`;
+            break;
+
+        case GenerationType.RecruiterInMail:
+            prompt = `Write a LinkedIn InMail to a recruiter${company ? ` at "${company}"` : ''} about a "${topic}" role. Open with a personalized line, summarize in two or three sentences why the candidate is a strong fit, and end by asking for a short call. Keep the body to 100-150 words. Use square-bracket placeholders for anything you don't know. The tone should be ${tone}. ${personaPrompt} Start with a line "Subject: " followed by a specific subject, then a blank line, then the message. ${getOutreachFormatInstruction(type)}`;
+            break;
+
+        case GenerationType.ReferralRequest:
+            prompt = `Write a LinkedIn message asking a contact${company ? ` at "${company}"` : ''} to refer the candidate for a "${topic}" role. Acknowledge the relationship, point to the posting with a [job link] placeholder, sum up in two sentences why the candidate fits, offer to send a resume and a short blurb they can forward, and give them an easy way to say no. Keep it to 120-180 words. The tone should be ${tone}. ${personaPrompt} ${getOutreachFormatInstruction(type)}`;
+            break;
+
+        case GenerationType.Carousel:
+            if (options.repurpose) {
+                prompt = getRepurposePrompt(options, personaPrompt, qualityInstruction);
+                break;
+            }
+            const contentSlideCount = options.slideCount ?? 6;
+            prompt = `Create a LinkedIn carousel (a swipeable PDF document post) on the topic "${topic}". Return exactly ${contentSlideCount + 2} slides in order: one "hook" slide that stops the scroll with a bold promise or question, then ${contentSlideCount} "content" slides that each make one clear point, then one "cta" slide that invites the reader to follow, comment or save. Slides are read on a phone, so keep every title under 10 words and every body under 40 words. Bodies may use short "- " bullet lines. Do not use Markdown headings or bold markers. The tone should be ${tone}. ${personaPrompt}`;
             break;
 
         default:
@@ -451,21 +588,340 @@ const constructPrompt = async (options: GenerationOptions): Promise<{ prompt: st
             useSearch = true;
             break;
     }
-    return { prompt, useSearch };
+
+    if (voiceFingerprintTypes.includes(type)) {
+        prompt += getVoiceInstruction(persona);
+    }
+
+    let snippets: RetrievedSnippet[] = [];
+    if (options.source && isSourceGenerationType(type)) {
+        prompt += getSourceMaterialInstruction(options.source);
+        useSearch = false;
+    }
+
+    if (knowledgeBaseTypes.includes(type) && !options.repurpose && !options.source) {
+        snippets = await retrieveRelevantSnippets(topic);
+        if (snippets.length > 0) {
+            prompt += getKnowledgeBaseInstruction(snippets);
+        }
+    }
+    // A video prompt is read by the video model, not the audience, so it stays in English.
+    if (type !== GenerationType.Video) {
+        prompt += getLanguageInstruction(options.language);
+    }
+    return { prompt, useSearch, snippets };
+};
+
+// Rewrites come back as bare Markdown, but the model sometimes wraps them in a code fence or keeps
+// the --- delimiters the prompt put around the original.
+const cleanTextResponse = (responseText: string): string => {
+    return responseText.trim()
+        .replace(/^```(?:markdown|md)?\s*\n([\s\S]*?)\n```$/, '$1')
+        .replace(/^---\n|\n---$/g, '')
+        .trim();
+};
+
+// Everything from the first code fence to the last, so fenced Markdown inside the JSON survives.
+const JSON_FENCE_REGEX = /```(?:json)?\s*([\s\S]*)```/i;
+
+// The model sometimes wraps its JSON in a Markdown code fence, with a sentence before or after it.
+const parseJsonObject = <T>(responseText: string): T => {
+    const jsonStr = responseText.trim();
+    const fenced = /^[[{]/.test(jsonStr) ? null : jsonStr.match(JSON_FENCE_REGEX);
+    return JSON.parse(fenced ? fenced[1].trim() : jsonStr) as T;
+};
+
+const carouselSchema = {
+    type: Type.OBJECT,
+    properties: {
+        slides: {
+            type: Type.ARRAY,
+            items: {
+                type: Type.OBJECT,
+                properties: {
+                    kind: { type: Type.STRING, enum: ['hook', 'content', 'cta'] },
+                    title: { type: Type.STRING },
+                    body: { type: Type.STRING },
+                },
+                required: ['kind', 'title', 'body'],
+            },
+        },
+    },
+    required: ['slides'],
+};
+
+// The first slide is always the hook and the last the CTA, whatever the model labelled them.
+const parseCarouselSlides = (responseText: string): CarouselSlide[] => {
+    const parsed = parseJsonObject<{ slides?: Partial<CarouselSlide>[] }>(responseText);
+    const slides = (parsed.slides ?? []).filter(slide => slide.title || slide.body);
+    if (slides.length < 2) {
+        throw new Error("The model returned too few slides for a carousel.");
+    }
+    return slides.map((slide, index) => ({
+        kind: index === 0 ? 'hook' : index === slides.length - 1 ? 'cta' : 'content',
+        title: (slide.title ?? '').trim(),
+        body: (slide.body ?? '').trim(),
+    }));
+};
+
+const carouselToMarkdown = (slides: CarouselSlide[]): string => {
+    return slides
+        .map((slide, index) => `## Slide ${index + 1}: ${slide.title}\n\n${slide.body}`)
+        .join('\n\n');
+};
+
+const contentPlanSchema = {
+    type: Type.OBJECT,
+    properties: {
+        days: {
+            type: Type.ARRAY,
+            items: {
+                type: Type.OBJECT,
+                properties: {
+                    day: { type: Type.INTEGER },
+                    subTopic: { type: Type.STRING },
+                    format: { type: Type.STRING, enum: Object.values(PlanDayFormat) },
+                    talkingPoint: { type: Type.STRING },
+                },
+                required: ['day', 'subTopic', 'format', 'talkingPoint'],
+            },
+        },
+    },
+    required: ['days'],
+};
+
+// Days are renumbered in order and unknown formats fall back to a text post.
+const parseContentPlan = (responseText: string): ContentPlanDay[] => {
+    const parsed = parseJsonObject<{ days?: Partial<ContentPlanDay>[] }>(responseText);
+    const days = (parsed.days ?? []).filter(day => day.subTopic);
+    if (days.length === 0) {
+        throw new Error("The model returned an empty content plan.");
+    }
+    const formats = Object.values(PlanDayFormat) as string[];
+    return days.slice(0, 7).map((day, index) => ({
+        day: index + 1,
+        subTopic: (day.subTopic ?? '').trim(),
+        format: formats.includes(day.format ?? '') ? day.format as PlanDayFormat : PlanDayFormat.TextPost,
+        talkingPoint: (day.talkingPoint ?? '').trim(),
+    }));
+};
+
+const companyProspectsSchema = {
+    type: Type.OBJECT,
+    properties: {
+        companies: {
+            type: Type.ARRAY,
+            items: {
+                type: Type.OBJECT,
+                properties: {
+                    name: { type: Type.STRING },
+                    industry: { type: Type.STRING },
+                    reason: { type: Type.STRING },
+                },
+                required: ['name', 'industry', 'reason'],
+            },
+        },
+    },
+    required: ['companies'],
+};
+
+const parseCompanyProspects = (responseText: string): CompanyProspect[] => {
+    const parsed = parseJsonObject<{ companies?: Partial<CompanyProspect>[] }>(responseText);
+    const companies = (parsed.companies ?? [])
+        .map(company => ({
+            name: (company.name ?? '').trim(),
+            industry: (company.industry ?? '').trim() || 'Other',
+            reason: (company.reason ?? '').trim(),
+        }))
+        .filter((company, index, all) => company.name && all.findIndex(c => c.name.toLowerCase() === company.name.toLowerCase()) === index);
+    if (companies.length === 0) {
+        throw new Error("The model returned no companies.");
+    }
+    return companies;
+};
+
+const resumeAnalysisSchema = {
+    type: Type.OBJECT,
+    properties: {
+        rewrites: {
+            type: Type.ARRAY,
+            items: {
+                type: Type.OBJECT,
+                properties: {
+                    section: { type: Type.STRING },
+                    before: { type: Type.STRING },
+                    after: { type: Type.STRING },
+                    reason: { type: Type.STRING },
+                },
+                required: ['section', 'before', 'after', 'reason'],
+            },
+        },
+        keywords: {
+            type: Type.ARRAY,
+            items: {
+                type: Type.OBJECT,
+                properties: {
+                    keyword: { type: Type.STRING },
+                    importance: { type: Type.STRING, enum: ['required', 'preferred'] },
+                },
+                required: ['keyword', 'importance'],
+            },
+        },
+        tailoredResume: { type: Type.STRING },
+    },
+    required: ['rewrites', 'keywords', 'tailoredResume'],
+};
+
+// Unchanged rewrites and repeated keywords are dropped.
+const parseResumeAnalysis = (responseText: string): { tailoredResume: string; analysis: ResumeAnalysis } => {
+    const parsed = parseJsonObject<{ rewrites?: Partial<ResumeBulletRewrite>[]; keywords?: Partial<ResumeKeyword>[]; tailoredResume?: string }>(responseText);
+    const tailoredResume = (parsed.tailoredResume ?? '').trim();
+    if (!tailoredResume) {
+        throw new Error("The model returned no tailored resume.");
+    }
+
+    const rewrites = (parsed.rewrites ?? [])
+        .map(rewrite => ({
+            section: (rewrite.section ?? '').trim(),
+            before: (rewrite.before ?? '').trim(),
+            after: (rewrite.after ?? '').trim(),
+            reason: (rewrite.reason ?? '').trim(),
+        }))
+        .filter(rewrite => rewrite.before && rewrite.after && rewrite.before !== rewrite.after);
+
+    const seen = new Set<string>();
+    const keywords: ResumeKeyword[] = [];
+    (parsed.keywords ?? []).forEach(keyword => {
+        const text = (keyword.keyword ?? '').trim();
+        if (!text || seen.has(text.toLowerCase())) return;
+        seen.add(text.toLowerCase());
+        keywords.push({ keyword: text, importance: keyword.importance === 'required' ? 'required' : 'preferred' });
+    });
+
+    return { tailoredResume, analysis: { rewrites, keywords } };
+};
+
+const interviewQuestionSchema = {
+    type: Type.OBJECT,
+    properties: {
+        question: { type: Type.STRING },
+        focus: { type: Type.STRING },
+    },
+    required: ['question', 'focus'],
+};
+
+const interviewAnswerSchema = {
+    type: Type.OBJECT,
+    properties: {
+        scores: {
+            type: Type.ARRAY,
+            items: {
+                type: Type.OBJECT,
+                properties: {
+                    criterion: { type: Type.STRING, enum: INTERVIEW_RUBRIC.map(criterion => criterion.name) },
+                    score: { type: Type.INTEGER },
+                    comment: { type: Type.STRING },
+                },
+                required: ['criterion', 'score', 'comment'],
+            },
+        },
+        feedback: { type: Type.STRING },
+        nextQuestion: { type: Type.STRING },
+        nextFocus: { type: Type.STRING },
+        isFollowUp: { type: Type.BOOLEAN },
+    },
+    required: ['scores', 'feedback', 'nextQuestion', 'nextFocus', 'isFollowUp'],
+};
+
+const interviewSummarySchema = {
+    type: Type.OBJECT,
+    properties: {
+        verdict: { type: Type.STRING },
+        summary: { type: Type.STRING },
+        strengths: { type: Type.ARRAY, items: { type: Type.STRING } },
+        improvements: { type: Type.ARRAY, items: { type: Type.STRING } },
+    },
+    required: ['verdict', 'summary', 'strengths', 'improvements'],
+};
+
+const createInterviewTurn = (question: string, focus: string, isFollowUp: boolean): InterviewTurn => {
+    return { id: crypto.randomUUID(), question, focus: focus || (isFollowUp ? 'Follow-up' : 'General'), isFollowUp };
+};
+
+const parseInterviewQuestion = (responseText: string): InterviewTurn => {
+    const parsed = parseJsonObject<{ question?: string; focus?: string }>(responseText);
+    const question = (parsed.question ?? '').trim();
+    if (!question) {
+        throw new Error("The model returned no interview question.");
+    }
+    return createInterviewTurn(question, (parsed.focus ?? '').trim(), false);
+};
+
+const DEFAULT_VARIANT_COUNT = 3;
+const MAX_VARIANT_COUNT = 4;
+
+/** Post types that can be generated as several alternative drafts. */
+export const supportsVariants = (type: GenerationType): boolean => {
+    return type === GenerationType.Post || type === GenerationType.ExamplePost;
+};
+
+const isVariantGeneration = (options: GenerationOptions): boolean => {
+    return supportsVariants(options.type) && !!options.variantMode && options.variantMode !== VariantMode.Off;
+};
+
+const hookVariantsSchema = {
+    type: Type.OBJECT,
+    properties: {
+        hooks: { type: Type.ARRAY, items: { type: Type.STRING } },
+        body: { type: Type.STRING },
+    },
+    required: ['hooks', 'body'],
+};
+
+const fullVariantsSchema = {
+    type: Type.OBJECT,
+    properties: {
+        variants: { type: Type.ARRAY, items: { type: Type.STRING } },
+    },
+    required: ['variants'],
+};
+
+const variantLabel = (index: number): string => `Variant ${String.fromCharCode(65 + index)}`;
+
+/**
+ * Generates alternative drafts for one post: either different opening hooks on a shared body,
+ * or complete, independently written versions.
+ */
+const generateVariants = async (options: GenerationOptions, prompt: string, snippets: RetrievedSnippet[]): Promise<GenerationResult> => {
+    const count = Math.min(Math.max(options.variantCount ?? DEFAULT_VARIANT_COUNT, 2), MAX_VARIANT_COUNT);
+    const isHooks = options.variantMode === VariantMode.Hooks;
+
+    const variantPrompt = isHooks
+        ? `${prompt}\n\nVARIANTS: Write the post once, then write ${count} alternative opening hooks for it. A hook is the first one or two lines, which readers see before "...see more", so each must make them want to keep reading. Make the hooks genuinely different in approach (e.g. a question, a surprising number, a short story, a bold claim). Return JSON with "hooks" (the ${count} hooks) and "body" (the rest of the post, without any hook).`
+        : `${prompt}\n\nVARIANTS: Write ${count} complete, distinct versions of this post that differ in hook, structure and angle while meeting every instruction above. Return JSON with "variants" (the ${count} posts in Markdown).`;
+
+    const responseText = await getProvider().generateJson({ prompt: variantPrompt, schema: isHooks ? hookVariantsSchema : fullVariantsSchema });
+    const parsed = parseJsonObject<{ hooks?: string[]; body?: string; variants?: string[] }>(responseText);
+
+    const texts = isHooks
+        ? (parsed.hooks ?? []).map(hook => hook.trim()).filter(Boolean).map(hook => `${hook}\n\n${(parsed.body ?? '').trim()}`.trim())
+        : (parsed.variants ?? []).map(text => text.trim()).filter(Boolean);
+    if (texts.length === 0) {
+        throw new Error("The model returned no variants.");
+    }
+
+    const variants: PostVariant[] = texts.slice(0, count).map((text, index) => ({ id: crypto.randomUUID(), label: variantLabel(index), text }));
+    return { ...buildTextResult(options.type, variants[0].text, [], snippets), variants: variants.length > 1 ? variants : undefined };
 };
 
 export const generateContent = async (options: GenerationOptions): Promise<GenerationResult> => {
     try {
-        const aiInstance = getAi();
-        const { prompt, useSearch } = await constructPrompt(options);
+        const provider = getProvider();
+        const { prompt, useSearch, snippets } = await constructPrompt(options);
 
         if (options.type === GenerationType.ImagePost) {
-            const response = await aiInstance.models.generateContent({
-                model: 'gemini-2.5-flash',
-                contents: prompt,
-            });
+            const { text: responseText } = await provider.generateText({ prompt });
 
-            const responseText = response.text;
             const textMatch = responseText.match(/TASK 1: Generate a LinkedIn post text\.(.*?)TASK 2: Create a prompt for an image generation model\./is);
             const imagePromptMatch = responseText.match(/"""(.*)"""/is);
 
@@ -477,96 +933,182 @@ export const generateContent = async (options: GenerationOptions): Promise<Gener
                  imagePrompt += " with a small, subtle company logo in the bottom right corner.";
             }
 
-            const imageResponse = await aiInstance.models.generateImages({
-                model: 'imagen-4.0-generate-001',
+            const imageUrl = await provider.generateImage({
                 prompt: imagePrompt,
-                config: {
-                    numberOfImages: 1,
-                    outputMimeType: 'image/jpeg',
-                    aspectRatio: options.imageAspectRatio || ImageAspectRatio.Square,
-                }
+                aspectRatio: options.imageAspectRatio || ImageAspectRatio.Square,
             });
-
-            const base64ImageBytes = imageResponse.generatedImages[0].image.imageBytes;
-            const imageUrl = `data:image/jpeg;base64,${base64ImageBytes}`;
             
             return { text: postText, imageUrl };
 
+        } else if (options.type === GenerationType.Carousel) {
+            const responseText = await provider.generateJson({ prompt, schema: carouselSchema });
+            const carouselSlides = parseCarouselSlides(responseText);
+            return { ...buildTextResult(options.type, carouselToMarkdown(carouselSlides), [], snippets), carouselSlides };
+
+        } else if (options.type === GenerationType.WeeklyContentPlan) {
+            const responseText = await provider.generateJson({ prompt, schema: contentPlanSchema });
+            const contentPlan = parseContentPlan(responseText);
+            return { ...buildTextResult(options.type, planToMarkdown(options.topic, contentPlan), [], snippets), contentPlan };
+
+        } else if (options.type === GenerationType.CompanyProspector) {
+            const responseText = await provider.generateJson({ prompt, schema: companyProspectsSchema });
+            const companyProspects = parseCompanyProspects(responseText);
+            return { ...buildTextResult(options.type, prospectsToMarkdown(options.topic, companyProspects), [], snippets), companyProspects };
+
+        } else if (options.source && isSourceGenerationType(options.type)) {
+            // A single draft, so the one that is shown is the one checked against the source.
+            const response = await provider.generateText({ prompt });
+            const text = `${response.text.trim()}\n\n${formatSourceCredit(options.source)}`;
+            let faithfulness: FaithfulnessReport | undefined;
+            try {
+                faithfulness = await checkFaithfulness(text, options.source, options.language);
+            } catch (error) {
+                // The content is still worth showing; the check can be run again from the output.
+                console.warn("Failed to check the content against its source:", error);
+            }
+            return { ...buildTextResult(options.type, text, [], snippets), faithfulness };
+
+        } else if (isVariantGeneration(options)) {
+            return await generateVariants(options, prompt, snippets);
+
+        } else if (isResumeAnalysis(options)) {
+            const responseText = await provider.generateJson({ prompt, schema: resumeAnalysisSchema });
+            const { tailoredResume, analysis } = parseResumeAnalysis(responseText);
+            return { ...buildTextResult(options.type, tailoredResume, [], snippets), resumeAnalysis: analysis };
+
+        } else if (isMockInterview(options)) {
+            // Only the first question is asked here; the session continues with answerInterviewQuestion.
+            const responseText = await provider.generateJson({ prompt, schema: interviewQuestionSchema });
+            const interview: InterviewSession = {
+                questionCount: DEFAULT_INTERVIEW_QUESTION_COUNT,
+                turns: [parseInterviewQuestion(responseText)],
+                startedAt: Date.now(),
+            };
+            return { text: '', interview };
+
+        } else if (isOutreachType(options.type)) {
+            const response = await provider.generateText({ prompt });
+            const text = await enforceMessageLimits(options, response.text.trim());
+            return buildTextResult(options.type, text, [], snippets);
+
         } else if (options.type === GenerationType.Video) {
-            let operation = await aiInstance.models.generateVideos({
-                model: 'veo-2.0-generate-001',
-                prompt: prompt,
-                config: { numberOfVideos: 1 }
-            });
+            // Video generation takes minutes and must survive reloads, so it runs as a tracked job.
+            throw new Error("Video generations run as background jobs. Use videoJobManager.start instead.");
 
-            while (!operation.done) {
-                await new Promise(resolve => setTimeout(resolve, 10000));
-                operation = await aiInstance.operations.getVideosOperation({ operation: operation });
-            }
+        } else {
+            const response = await provider.generateText({ prompt, useSearch });
+            return buildTextResult(options.type, response.text, response.sources ?? [], snippets);
+        }
 
-            const downloadLink = operation.response?.generatedVideos?.[0]?.video?.uri;
-            if (!downloadLink) {
-                throw new Error("Video generation succeeded but no download link was found.");
-            }
+    } catch (error) {
+        throw handleApiError(error, `generate ${options.type}`);
+    }
+};
 
-            const videoResponse = await fetch(`${downloadLink}&key=${process.env.API_KEY}`);
-            if (!videoResponse.ok) {
-                throw new Error(`Failed to fetch video: ${videoResponse.statusText}`);
-            }
-            const videoBlob = await videoResponse.blob();
-            const videoDataUrl = await new Promise<string>((resolve, reject) => {
-                const reader = new FileReader();
-                reader.onloadend = () => resolve(reader.result as string);
-                reader.onerror = reject;
-                reader.readAsDataURL(videoBlob);
-            });
-            
-            return { text: `Video generated for prompt: "${prompt}"`, imageUrl: videoDataUrl };
+/**
+ * Submits a video generation job.
+ * @returns The provider's operation name, used to poll the job, and the prompt that was sent.
+ */
+export const startVideoGeneration = async (options: GenerationOptions): Promise<{ operationName: string; prompt: string }> => {
+    try {
+        const { prompt } = await constructPrompt(options);
+        const operationName = await getProvider().startVideoJob({ prompt });
+        return { operationName, prompt };
+    } catch (error) {
+        throw handleApiError(error, 'start video generation');
+    }
+};
 
-        } else {
-            const config: { tools?: any[] } = {};
-            if (useSearch) {
-                config.tools = [{ googleSearch: {} }];
-            }
+/**
+ * Checks on a previously started video job.
+ * @param operationName The operation name returned by `startVideoGeneration`.
+ */
+export const pollVideoGeneration = async (operationName: string): Promise<VideoJobPoll> => {
+    try {
+        return await getProvider().getVideoJob(operationName);
+    } catch (error) {
+        throw handleApiError(error, 'check video generation');
+    }
+};
 
-            const response: GenerateContentResponse = await aiInstance.models.generateContent({
-                model: 'gemini-2.5-flash',
-                contents: prompt,
-                config: config,
-            });
+// These return structured output in a single response.
+const nonStreamingTypes = [
+    GenerationType.ImagePost,
+    GenerationType.Video,
+    GenerationType.Carousel,
+    GenerationType.WeeklyContentPlan,
+    GenerationType.CompanyProspector,
+];
 
-            const result: GenerationResult = { text: response.text };
-            const groundingMetadata = response.candidates?.[0]?.groundingMetadata;
+/**
+ * Image, video, carousel, weekly plan, company prospecting, post variant, resume analysis and mock interview
+ * generations return structured output in a single response and cannot be streamed. Outreach messages are
+ * checked against their character limits before they are shown, so they don't stream either.
+ */
+export const supportsStreaming = (options: GenerationOptions): boolean => {
+    return !nonStreamingTypes.includes(options.type) && !isOutreachType(options.type) && !isVariantGeneration(options) && !isResumeAnalysis(options) && !isMockInterview(options) && !(options.source && isSourceGenerationType(options.type));
+};
 
-            if (useSearch && groundingMetadata?.groundingChunks) {
-                const sources = groundingMetadata.groundingChunks
-                    .map(chunk => chunk.web)
-                    .filter(web => web?.uri && web.title) as Array<{ uri: string; title: string }>;
-                
-                if (sources.length > 0) {
-                     result.sources = sources;
-                     // If the generation type is a document, automatically append the sources
-                     // as a formatted "References" section.
-                     if (options.type === GenerationType.Document) {
-                         const referencesHeader = "\n\n---\n\n## References\n\n";
-                         const referencesList = sources
-                             .map((source, index) => `${index + 1}. **[${source.title.trim()}](${source.uri})**`)
-                             .join('\n');
-                         result.text += referencesHeader + referencesList;
-                     }
-                }
-            }
-            return result;
-        }
+/**
+ * Streams a text generation, reporting the accumulated text after every chunk.
+ * Aborting the signal stops the stream and resolves with whatever text has arrived so far.
+ * @param options The generation options; `supportsStreaming` must be true for them.
+ * @param onUpdate Called with the full text received so far.
+ * @param signal Optional signal used to stop the stream early.
+ */
+export const generateContentStream = async (
+    options: GenerationOptions,
+    onUpdate: (text: string) => void,
+    signal?: AbortSignal
+): Promise<GenerationResult> => {
+    let text = '';
+    const sources = new Map<string, GroundingSource>();
+    let snippets: RetrievedSnippet[] = [];
 
+    try {
+        const constructed = await constructPrompt(options);
+        const { prompt, useSearch } = constructed;
+        snippets = constructed.snippets;
+        for await (const chunk of getProvider().streamText({ prompt, useSearch }, signal)) {
+            if (signal?.aborted) break;
+            text += chunk.text;
+            chunk.sources?.forEach(source => sources.set(source.uri, source));
+            onUpdate(text);
+        }
     } catch (error) {
-        throw handleApiError(error, `generate ${options.type}`);
+        // A stop requested by the user is not an error; keep the partial text.
+        if (!signal?.aborted) {
+            throw handleApiError(error, `generate ${options.type}`);
+        }
+    }
+
+    return buildTextResult(options.type, text, Array.from(sources.values()), snippets);
+};
+
+const buildTextResult = (type: GenerationType, text: string, sources: GroundingSource[], snippets: RetrievedSnippet[]): GenerationResult => {
+    const result: GenerationResult = { text };
+    if (snippets.length > 0) {
+        result.retrievedSnippets = snippets;
+    }
+
+    if (sources.length > 0) {
+         result.sources = sources;
+         // If the generation type is a document, automatically append the sources
+         // as a formatted "References" section.
+         if (type === GenerationType.Document) {
+             const referencesHeader = "\n\n---\n\n## References\n\n";
+             const referencesList = sources
+                 .map((source, index) => `${index + 1}. **[${source.title.trim()}](${source.uri})**`)
+                 .join('\n');
+             result.text += referencesHeader + referencesList;
+         }
     }
+    return result;
 };
 
-export const humanifyText = async (text: string, persona: Persona): Promise<string> => {
+export const humanifyText = async (text: string, persona: PersonaId): Promise<string> => {
     try {
-        const aiInstance = getAi();
+        const provider = getProvider();
         const personaPrompt = getPersonaPrompt(persona);
 
         // Heuristic: If the text is long or has multiple markdown headings, treat it as a document.
@@ -574,12 +1116,9 @@ export const humanifyText = async (text: string, persona: Persona): Promise<stri
 
         if (!isDocument) {
             // Original logic for short texts (e.g., posts)
-            const prompt = `Please rewrite the following text to make it sound more natural, engaging, and less like it was written by an AI. Adopt the persona described below. Do not add new information, just improve the style and flow. \n\nPERSONA: ${personaPrompt}\n\nORIGINAL TEXT:\n---\n${text}\n---\n\nREWRITTEN TEXT:`;
+            const prompt = `Please rewrite the following text to make it sound more natural, engaging, and less like it was written by an AI. Adopt the persona described below. Do not add new information, just improve the style and flow. \n\nPERSONA: ${personaPrompt}${getVoiceInstruction(persona)}\n\nORIGINAL TEXT:\n---\n${text}\n---\n\nREWRITTEN TEXT:`;
             
-            const response = await aiInstance.models.generateContent({
-                model: 'gemini-2.5-flash',
-                contents: prompt,
-            });
+            const response = await provider.generateText({ prompt });
 
             return response.text;
         }
@@ -640,10 +1179,7 @@ ${section.content}
 **REWRITTEN TEXT:**`;
 
             try {
-                const response = await aiInstance.models.generateContent({
-                    model: 'gemini-2.5-flash',
-                    contents: prompt,
-                });
+                const response = await provider.generateText({ prompt });
                 const rewrittenContent = response.text;
                 return (section.heading ? section.heading + '\n' : '') + rewrittenContent;
             } catch (error) {
@@ -661,15 +1197,349 @@ ${section.content}
     }
 };
 
+const getInlineEditInstruction = (action: InlineEditAction, tone?: Tone): string => {
+    switch (action) {
+        case InlineEditAction.Shorten:
+            return "Make the selected text noticeably shorter (aim for about half the length) while keeping its key point.";
+        case InlineEditAction.Expand:
+            return "Expand the selected text with more detail, a concrete example or a clearer explanation. Keep it in the same style and roughly double its length at most.";
+        case InlineEditAction.Punchier:
+            return "Make the selected text punchier: shorter sentences, stronger verbs, no filler, and a more memorable phrasing.";
+        case InlineEditAction.AddStatistic:
+            return "Strengthen the selected text with one relevant, real and verifiable statistic. Name its source inline (e.g., \"according to McKinsey\"). Never invent numbers; if you can't find a trustworthy statistic, return the text unchanged.";
+        case InlineEditAction.Bullets:
+            return "Convert the selected text into a concise Markdown bullet list, one idea per bullet.";
+        case InlineEditAction.FixGrammar:
+            return "Fix spelling, grammar and punctuation in the selected text. Change nothing else.";
+        case InlineEditAction.ChangeTone:
+            return `Rewrite the selected text in a ${tone ?? Tone.Formal} tone, keeping its meaning.`;
+        default:
+            return "Improve the selected text.";
+    }
+};
+
+// How much text around the selection is sent so the rewrite fits its surroundings.
+const INLINE_EDIT_CONTEXT_CHARS = 600;
+
+/**
+ * Rewrites only the selected span of a text according to `action`.
+ * @param text The full Markdown text the selection belongs to.
+ * @param range Character offsets of the selection within `text`.
+ * @returns The replacement for the selected span.
+ */
+export const editSelection = async (text: string, range: TextRange, action: InlineEditAction, persona: PersonaId, tone?: Tone): Promise<string> => {
+    try {
+        const selected = text.slice(range.start, range.end);
+        const before = text.slice(Math.max(0, range.start - INLINE_EDIT_CONTEXT_CHARS), range.start);
+        const after = text.slice(range.end, range.end + INLINE_EDIT_CONTEXT_CHARS);
+
+        const prompt = `You are editing one passage of a larger piece of LinkedIn content written by this persona: ${getPersonaPrompt(persona)}
+
+TASK: ${getInlineEditInstruction(action, tone)}
+
+The passage sits between the context shown below. Your rewrite must read naturally in that position: keep the surrounding Markdown structure intact and don't repeat the context.
+
+CONTEXT BEFORE:
+---
+${before}
+---
+
+SELECTED TEXT:
+---
+${selected}
+---
+
+CONTEXT AFTER:
+---
+${after}
+---
+
+Respond with ONLY the replacement for the selected text, in Markdown. No preamble, no quotes, no explanations.`;
+
+        const response = await getProvider().generateText({ prompt, useSearch: action === InlineEditAction.AddStatistic });
+        const replacement = cleanTextResponse(response.text);
+
+        // Keep the whitespace that surrounded the original selection.
+        const leading = selected.match(/^\s*/)?.[0] ?? '';
+        const trailing = selected.match(/\s*$/)?.[0] ?? '';
+        return `${leading}${replacement}${trailing}`;
+    } catch (error) {
+        throw handleApiError(error, 'edit selection');
+    }
+};
+
+/**
+ * Shortens a post so it fits within `maxChars`, keeping its hook, key points and call to action.
+ * @returns The shortened Markdown.
+ */
+export const trimToLength = async (text: string, maxChars: number, persona: PersonaId): Promise<string> => {
+    try {
+        const prompt = `Shorten the following LinkedIn post to at most ${maxChars} characters, including spaces and Markdown syntax. It is currently ${text.length} characters.
+
+Keep the opening hook, the key points, the call to action and any hashtags. Cut repetition, filler and secondary examples first. Keep the author's voice and the Markdown formatting.
+
+PERSONA: ${getPersonaPrompt(persona)}
+
+POST:
+---
+${text}
+---
+
+Respond with ONLY the shortened post in Markdown. No preamble or explanations.`;
+
+        const response = await getProvider().generateText({ prompt });
+        return cleanTextResponse(response.text);
+    } catch (error) {
+        throw handleApiError(error, 'trim content');
+    }
+};
+
+/**
+ * Translates content into another language, keeping its Markdown structure. Code, URLs and hashtags
+ * are swapped for placeholders before the text is sent, so they come back exactly as they were.
+ * Outreach messages are held to their platform's limits again, since a translation is often longer.
+ * @param type What the content was generated as.
+ * @returns The translated Markdown.
+ */
+export const translateContent = async (text: string, language: ContentLanguage, persona: PersonaId, type: GenerationType): Promise<string> => {
+    try {
+        const { text: maskedText, protectedParts } = protectUntranslatable(text);
+        const prompt = `Translate the following LinkedIn content into ${languageNames[language]}, as a native ${languageNames[language]}-speaking professional would write it rather than word for word.
+
+Keep the Markdown structure exactly: the same headings, lists, emphasis, tables, links and blank lines, in the same order. Placeholders such as ⟦0⟧ stand for code, URLs and hashtags: copy every one of them unchanged into the matching place. Keep the author's voice and the register of the original.
+
+PERSONA: ${getPersonaPrompt(persona)}
+
+CONTENT:
+---
+${maskedText}
+---
+
+Respond with ONLY the translated Markdown. No preamble or explanations.`;
+
+        const response = await getProvider().generateText({ prompt });
+        const translated = cleanTextResponse(response.text);
+        const restored = restoreUntranslatable(translated, protectedParts);
+        return isOutreachType(type) ? await enforceMessageLimits({ type, persona, language }, restored) : restored;
+    } catch (error) {
+        throw handleApiError(error, 'translate content');
+    }
+};
+
+const faithfulnessSchema = {
+    type: Type.OBJECT,
+    properties: {
+        claims: {
+            type: Type.ARRAY,
+            items: {
+                type: Type.OBJECT,
+                properties: {
+                    claim: { type: Type.STRING },
+                    verdict: { type: Type.STRING, enum: ['supported', 'partial', 'unsupported'] },
+                    evidence: { type: Type.STRING },
+                    note: { type: Type.STRING },
+                },
+                required: ['claim', 'verdict'],
+            },
+        },
+    },
+    required: ['claims'],
+};
+
+const MAX_FAITHFULNESS_CLAIMS = 10;
+
+/**
+ * Checks content generated from source material against that source, claim by claim.
+ * @returns Each factual claim in the content with whether the source backs it, and the passage that does.
+ */
+export const checkFaithfulness = async (text: string, source: SourceMaterial, language?: ContentLanguage): Promise<FaithfulnessReport> => {
+    try {
+        const prompt = `You are fact-checking content against the source it was written from. List the factual claims the content makes (facts, figures, findings, attributed opinions and quotations, at most ${MAX_FAITHFULNESS_CLAIMS}, the most important first; skip the author's own opinions, calls to action and the closing "Source:" line). For each, give a "verdict": "supported" if the source states it, "partial" if the source says something weaker, narrower or only related, or "unsupported" if the source doesn't say it or contradicts it. For supported and partial claims, give as "evidence" the passage of the source that backs it, copied word for word. For partial and unsupported claims, give a short "note" on what is missing or overstated. Return JSON with "claims".
+
+SOURCE ("${source.title}"):
+---
+${source.text}
+---
+
+CONTENT:
+---
+${text}
+---${getLanguageInstruction(language)}`;
+
+        const responseText = await getProvider().generateJson({ prompt, schema: faithfulnessSchema });
+        const verdicts: FaithfulnessVerdict[] = ['supported', 'partial', 'unsupported'];
+        const claims = (parseJsonObject<{ claims?: Partial<FaithfulnessClaim>[] }>(responseText).claims ?? [])
+            .filter(claim => claim.claim?.trim())
+            .slice(0, MAX_FAITHFULNESS_CLAIMS)
+            .map(claim => ({
+                claim: claim.claim!.trim(),
+                verdict: verdicts.includes(claim.verdict as FaithfulnessVerdict) ? claim.verdict as FaithfulnessVerdict : 'unsupported',
+                evidence: claim.evidence?.trim() || undefined,
+                note: claim.note?.trim() || undefined,
+            }));
+        return { claims, checkedText: text, checkedAt: Date.now() };
+    } catch (error) {
+        throw handleApiError(error, 'check content against its source');
+    }
+};
+
+const repurposeAnglesSchema = {
+    type: Type.OBJECT,
+    properties: {
+        angles: { type: Type.ARRAY, items: { type: Type.STRING } },
+    },
+    required: ['angles'],
+};
+
+/**
+ * Picks the distinct angles a document is split into for standalone posts, one post per angle.
+ * @returns Between one and `count` angles, each a one-sentence summary of what its post covers.
+ */
+export const planRepurposeAngles = async (sourceText: string, count: number, language?: ContentLanguage): Promise<string[]> => {
+    try {
+        const prompt = `Read the following document and pick the ${count} strongest ideas in it that could each carry a standalone LinkedIn post. Each angle must be distinct from the others, come from the document itself, and be interesting to someone who hasn't read it. Describe each in one sentence. Return JSON with "angles": exactly ${count} entries, the strongest first.
+
+DOCUMENT:
+---
+${sourceText}
+---${getLanguageInstruction(language)}`;
+
+        const responseText = await getProvider().generateJson({ prompt, schema: repurposeAnglesSchema });
+        const angles = (parseJsonObject<{ angles?: string[] }>(responseText).angles ?? [])
+            .map(angle => angle.trim())
+            .filter(Boolean);
+        if (angles.length === 0) {
+            throw new Error("The model didn't find any angles in the document.");
+        }
+        return angles.slice(0, count);
+    } catch (error) {
+        throw handleApiError(error, 'plan repurposed posts');
+    }
+};
+
+/**
+ * Scores the candidate's answer to the open question of a mock interview against the rubric, and
+ * asks what comes next: a follow-up on the same question, the next main question, or nothing once
+ * the interview is over. Questions get harder after strong answers and more foundational after weak ones.
+ * @param options The options the interview was started with.
+ * @returns The session with the answer assessed and the next question, if any, appended.
+ */
+export const answerInterviewQuestion = async (options: GenerationOptions, session: InterviewSession, answer: string): Promise<InterviewSession> => {
+    const openTurn = getOpenTurn(session);
+    if (!openTurn) {
+        throw new Error("There is no question waiting for an answer.");
+    }
+
+    try {
+        const remainingQuestions = session.questionCount - countMainQuestions(session);
+        const followUpAllowed = canAskFollowUp(session);
+        const nextInstructions = [
+            followUpAllowed ? 'If the answer was vague, incomplete or raised something worth probing, ask one follow-up on it and set "isFollowUp" to true.' : '',
+            remainingQuestions > 0
+                ? `Otherwise ask the next main question (${remainingQuestions} remaining) and set "isFollowUp" to false. Cover an area the interview hasn't touched yet. Adapt it to how the candidate is doing: harder after strong answers, more foundational after weak ones.`
+                : followUpAllowed
+                    ? 'That was the last main question, so leave "nextQuestion" empty unless a follow-up is really needed.'
+                    : 'The interview is over: leave "nextQuestion" and "nextFocus" empty.',
+        ].filter(Boolean).join(' ');
+        const earlierTurns = formatInterviewTranscript(session.turns);
+
+        const prompt = `${getInterviewerBrief(options)}
+
+RUBRIC (score each criterion from 1 to ${MAX_CRITERION_SCORE}):
+${getInterviewRubric()}
+${earlierTurns ? `\nTHE INTERVIEW SO FAR:\n---\n${earlierTurns}\n---\n` : ''}
+CURRENT ${openTurn.isFollowUp ? 'FOLLOW-UP' : 'QUESTION'} (${openTurn.focus}): ${openTurn.question}
+
+CANDIDATE'S ANSWER:
+---
+${answer.trim() || '(The candidate gave no answer.)'}
+---
+
+Return JSON with:
+- "scores": one entry per rubric criterion, with "criterion", "score" and "comment" (one sentence). Be honest and calibrated: 3 is a solid answer for this difficulty, 5 is exceptional, and an empty, evasive or off-topic answer scores 1.
+- "feedback": two or three sentences to the candidate: what worked, and specifically what a stronger answer would add.
+- "nextQuestion" and "nextFocus" (two to four words on what it probes). ${nextInstructions}${getLanguageInstruction(options.language)}`;
+
+        const responseText = await getProvider().generateJson({ prompt, schema: interviewAnswerSchema });
+        const parsed = parseJsonObject<{ scores?: InterviewCriterionScore[]; feedback?: string; nextQuestion?: string; nextFocus?: string; isFollowUp?: boolean }>(responseText);
+
+        const assessed: InterviewTurn = {
+            ...openTurn,
+            answer,
+            scores: normalizeCriterionScores(parsed.scores ?? []),
+            feedback: (parsed.feedback ?? '').trim(),
+        };
+        const turns = session.turns.map(turn => turn.id === openTurn.id ? assessed : turn);
+
+        // The model may not respect the limits, so they are enforced here.
+        const nextQuestion = (parsed.nextQuestion ?? '').trim();
+        const isFollowUp = !!parsed.isFollowUp && followUpAllowed;
+        if (nextQuestion && (isFollowUp || remainingQuestions > 0)) {
+            turns.push(createInterviewTurn(nextQuestion, (parsed.nextFocus ?? '').trim(), isFollowUp));
+        }
+        return { ...session, turns };
+    } catch (error) {
+        throw handleApiError(error, 'score the interview answer');
+    }
+};
+
+/**
+ * Ends a mock interview and writes its report: an overall verdict, strengths and areas to work on,
+ * scores per rubric criterion and the transcript with feedback.
+ * @returns The report in Markdown.
+ */
+export const summarizeInterview = async (options: GenerationOptions, session: InterviewSession): Promise<string> => {
+    const transcript = formatInterviewTranscript(session.turns);
+    if (!transcript) {
+        return interviewReportToMarkdown(options.topic, options.company, options.difficultyLevel, session, {
+            verdict: 'Not enough to go on.',
+            summary: 'The session ended before any question was answered.',
+            strengths: [],
+            improvements: [],
+        });
+    }
+
+    try {
+        const prompt = `${getInterviewerBrief(options)}
+
+The interview has ended. Assess the candidate's performance across the whole session, based on the transcript and the per-answer scores below.
+
+RUBRIC:
+${getInterviewRubric()}
+
+TRANSCRIPT:
+---
+${transcript}
+---
+
+Return JSON with:
+- "verdict": one or two sentences on whether the candidate would move on to the next round at this level, and why.
+- "summary": a short paragraph on how the interview went overall.
+- "strengths": two to four specific strengths, each referring to what the candidate actually said.
+- "improvements": two to four specific, actionable things to work on before the real interview.${getLanguageInstruction(options.language)}`;
+
+        const responseText = await getProvider().generateJson({ prompt, schema: interviewSummarySchema });
+        const parsed = parseJsonObject<Partial<InterviewSummary>>(responseText);
+        const clean = (items?: string[]) => (items ?? []).map(item => item.trim()).filter(Boolean);
+        return interviewReportToMarkdown(options.topic, options.company, options.difficultyLevel, session, {
+            verdict: (parsed.verdict ?? '').trim(),
+            summary: (parsed.summary ?? '').trim(),
+            strengths: clean(parsed.strengths),
+            improvements: clean(parsed.improvements),
+        });
+    } catch (error) {
+        throw handleApiError(error, 'write the interview report');
+    }
+};
+
 export const getTopicSuggestions = async (
     type: GenerationType,
-    persona: Persona,
+    persona: PersonaId,
     existingSuggestions: string[] = [],
     currentTopic: string = ''
 ): Promise<string[]> => {
     try {
-        const aiInstance = getAi();
-        const personaName = personaDisplayNames[persona];
+        const personaName = getPersonaDisplayName(persona);
         const existingList = existingSuggestions.length > 0 
             ? `Here are some existing suggestions to avoid repeating: ${existingSuggestions.join(', ')}.`
             : '';
@@ -686,25 +1556,15 @@ export const getTopicSuggestions = async (
             Return ONLY a JSON array of strings. Example: ["Topic 1", "Topic 2", "Topic 3", "Topic 4", "Topic 5"]
         `;
         
-        const response = await aiInstance.models.generateContent({
-            model: "gemini-2.5-flash",
-            contents: prompt,
-            config: {
-                responseMimeType: "application/json",
-                responseSchema: {
-                    type: Type.ARRAY,
-                    items: { type: Type.STRING }
-                }
+        const responseText = await getProvider().generateJson({
+            prompt,
+            schema: {
+                type: Type.ARRAY,
+                items: { type: Type.STRING }
             }
         });
 
-        let jsonStr = response.text.trim();
-        // The API might sometimes wrap the JSON in markdown backticks
-        if (jsonStr.startsWith('```json')) {
-            jsonStr = jsonStr.substring(7, jsonStr.length - 3).trim();
-        }
-        
-        const suggestions = JSON.parse(jsonStr) as string[];
+        const suggestions = parseJsonObject<string[]>(responseText);
         return suggestions.filter(s => typeof s === 'string');
 
     } catch (error) {
@@ -717,7 +1577,6 @@ export const getCompanySuggestions = async (
     existingSuggestions: CompanySuggestion[] = []
 ): Promise<CompanySuggestion[]> => {
      try {
-        const aiInstance = getAi();
         const existingList = existingSuggestions.length > 0
             ? `Here are some existing company suggestions to avoid repeating: ${existingSuggestions.map(c => c.name).join(', ')}.`
             : '';
@@ -729,31 +1588,22 @@ export const getCompanySuggestions = async (
             Return ONLY a JSON array of objects, where each object has "name" and "industry" keys.
         `;
         
-        const response = await aiInstance.models.generateContent({
-            model: "gemini-2.5-flash",
-            contents: prompt,
-            config: {
-                 responseMimeType: "application/json",
-                 responseSchema: {
-                    type: Type.ARRAY,
-                    items: {
-                        type: Type.OBJECT,
-                        properties: {
-                            name: { type: Type.STRING },
-                            industry: { type: Type.STRING }
-                        },
-                        required: ["name", "industry"]
-                    }
+        const responseText = await getProvider().generateJson({
+            prompt,
+            schema: {
+                type: Type.ARRAY,
+                items: {
+                    type: Type.OBJECT,
+                    properties: {
+                        name: { type: Type.STRING },
+                        industry: { type: Type.STRING }
+                    },
+                    required: ["name", "industry"]
                 }
             }
         });
 
-        let jsonStr = response.text.trim();
-        if (jsonStr.startsWith('```json')) {
-            jsonStr = jsonStr.substring(7, jsonStr.length - 3).trim();
-        }
-
-        const suggestions = JSON.parse(jsonStr) as CompanySuggestion[];
+        const suggestions = parseJsonObject<CompanySuggestion[]>(responseText);
         return suggestions.filter(s => s.name && s.industry);
 
      } catch (error) {
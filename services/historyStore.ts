@@ -0,0 +1,174 @@
+import { HistoryItem, HistoryFilters } from '../types';
+import { STORES, idbGetAll, idbGetAllByIndex, idbPut, idbPutInStores, idbDelete, idbDeleteByIndex, idbClear } from './indexedDb';
+
+// History used to live in localStorage, which overflowed as soon as a few images or videos were saved.
+const LEGACY_STORAGE_KEY = 'generationHistory';
+
+// Media fields hold this prefix plus a media id once their data URL has been moved to the media store.
+const MEDIA_REF_PREFIX = 'idb-media:';
+
+interface HistoryMedia {
+    id: string;
+    historyId: string;
+    blob: Blob;
+}
+
+const dataUrlToBlob = async (dataUrl: string): Promise<Blob> => {
+    const response = await fetch(dataUrl);
+    return response.blob();
+};
+
+const blobToDataUrl = (blob: Blob): Promise<string> => {
+    return new Promise((resolve, reject) => {
+        const reader = new FileReader();
+        reader.onload = () => resolve(reader.result as string);
+        reader.onerror = () => reject(reader.error);
+        reader.readAsDataURL(blob);
+    });
+};
+
+/** Moves embedded data URLs (generated images, videos, uploaded logos) out of the item. */
+const extractMedia = async (item: HistoryItem): Promise<{ item: HistoryItem; media: HistoryMedia[] }> => {
+    const media: HistoryMedia[] = [];
+    const toRef = async (value: string | undefined): Promise<string | undefined> => {
+        if (!value?.startsWith('data:')) return value;
+        const id = crypto.randomUUID();
+        media.push({ id, historyId: item.id, blob: await dataUrlToBlob(value) });
+        return `${MEDIA_REF_PREFIX}${id}`;
+    };
+
+    return {
+        item: {
+            ...item,
+            options: { ...item.options, logoImage: await toRef(item.options.logoImage) },
+            result: { ...item.result, imageUrl: await toRef(item.result.imageUrl) },
+        },
+        media,
+    };
+};
+
+const addHistoryItems = async (items: HistoryItem[]): Promise<HistoryItem[]> => {
+    const extracted = await Promise.all(items.map(extractMedia));
+    const stored = extracted.map(entry => entry.item);
+    // Items and their media are saved together, so a failed write leaves no unreferenced blobs.
+    await idbPutInStores({
+        [STORES.historyMedia]: extracted.flatMap(entry => entry.media),
+        [STORES.historyItems]: stored,
+    });
+    return stored;
+};
+
+let legacyMigration: Promise<void> | null = null;
+
+// Shared by concurrent callers (the load effect runs twice under StrictMode), so the legacy
+// items and their media are only written once. A failed migration is tried again on the next load.
+const migrateLegacyHistory = (): Promise<void> => {
+    if (!legacyMigration) {
+        legacyMigration = (async () => {
+            const saved = localStorage.getItem(LEGACY_STORAGE_KEY);
+            if (!saved) return;
+            await addHistoryItems(JSON.parse(saved));
+            localStorage.removeItem(LEGACY_STORAGE_KEY);
+        })().catch(error => {
+            legacyMigration = null;
+            throw error;
+        });
+    }
+    return legacyMigration;
+};
+
+/**
+ * Loads all history items, newest first. Media fields still hold references;
+ * use `resolveHistoryMedia` before displaying an item.
+ */
+export const loadHistory = async (): Promise<HistoryItem[]> => {
+    try {
+        await migrateLegacyHistory();
+    } catch (e) {
+        console.error("Failed to migrate history from localStorage:", e);
+    }
+    const items = await idbGetAll<HistoryItem>(STORES.historyItems);
+    return items.sort((a, b) => b.timestamp - a.timestamp);
+};
+
+/**
+ * Saves a new history item, storing its media as separate blobs.
+ * @returns The item as stored, with media fields replaced by references.
+ */
+export const addHistoryItem = async (item: HistoryItem): Promise<HistoryItem> => {
+    const [stored] = await addHistoryItems([item]);
+    return stored;
+};
+
+/** Saves changes to an item's metadata (tags, favorite). The item must come from the store. */
+export const updateHistoryItem = async (item: HistoryItem): Promise<void> => {
+    await idbPut(STORES.historyItems, item);
+};
+
+export const deleteHistoryItem = async (id: string): Promise<void> => {
+    await idbDeleteByIndex(STORES.historyMedia, 'historyId', id);
+    await idbDelete(STORES.historyItems, id);
+};
+
+export const clearHistory = async (): Promise<void> => {
+    await idbClear(STORES.historyMedia);
+    await idbClear(STORES.historyItems);
+};
+
+/** Replaces media references in a stored item with data URLs. */
+export const resolveHistoryMedia = async (item: HistoryItem): Promise<HistoryItem> => {
+    const { logoImage } = item.options;
+    const { imageUrl } = item.result;
+    if (!logoImage?.startsWith(MEDIA_REF_PREFIX) && !imageUrl?.startsWith(MEDIA_REF_PREFIX)) return item;
+
+    const media = await idbGetAllByIndex<HistoryMedia>(STORES.historyMedia, 'historyId', item.id);
+    const resolve = async (value: string | undefined): Promise<string | undefined> => {
+        if (!value?.startsWith(MEDIA_REF_PREFIX)) return value;
+        const entry = media.find(m => m.id === value.slice(MEDIA_REF_PREFIX.length));
+        return entry ? blobToDataUrl(entry.blob) : undefined;
+    };
+
+    return {
+        ...item,
+        options: { ...item.options, logoImage: await resolve(logoImage) },
+        result: { ...item.result, imageUrl: await resolve(imageUrl) },
+    };
+};
+
+export const createEmptyHistoryFilters = (): HistoryFilters => ({
+    query: '',
+    type: '',
+    persona: '',
+    tone: '',
+    tag: '',
+    from: '',
+    to: '',
+    favoritesOnly: false,
+});
+
+const startOfDay = (date: string): number => new Date(`${date}T00:00:00`).getTime();
+
+/**
+ * Applies the history panel's filters. The search matches items containing every
+ * query word in the topic, company, tags or generated text.
+ */
+export const filterHistory = (items: HistoryItem[], filters: HistoryFilters): HistoryItem[] => {
+    const terms = filters.query.toLowerCase().split(/\s+/).filter(Boolean);
+    const from = filters.from ? startOfDay(filters.from) : -Infinity;
+    const to = filters.to ? startOfDay(filters.to) + 24 * 60 * 60 * 1000 : Infinity;
+
+    return items.filter(item => {
+        if (filters.favoritesOnly && !item.favorite) return false;
+        if (filters.type && item.options.type !== filters.type) return false;
+        if (filters.persona && item.options.persona !== filters.persona) return false;
+        if (filters.tone && item.options.tone !== filters.tone) return false;
+        if (filters.tag && !item.tags?.includes(filters.tag)) return false;
+        if (item.timestamp < from || item.timestamp >= to) return false;
+        if (terms.length === 0) return true;
+
+        const haystack = [item.options.topic, item.options.company ?? '', ...(item.tags ?? []), item.result.text]
+            .join('\n')
+            .toLowerCase();
+        return terms.every(term => haystack.includes(term));
+    });
+};
@@ -0,0 +1,133 @@
+// Thin promise wrapper around the browser's IndexedDB API. Used for data that is too
+// large or too numerous for localStorage (embeddings, media blobs, etc.).
+
+const DB_NAME = 'linkedinContentEngine';
+const DB_VERSION = 2;
+
+export const STORES = {
+    knowledgeDocuments: 'knowledgeDocuments',
+    knowledgeChunks: 'knowledgeChunks',
+    historyItems: 'historyItems',
+    historyMedia: 'historyMedia',
+} as const;
+
+export type StoreName = typeof STORES[keyof typeof STORES];
+
+// Each entry upgrades the schema from the previous version. Append new entries; never edit old ones.
+const migrations: Array<(db: IDBDatabase) => void> = [
+    // v1: personal knowledge base
+    (db) => {
+        db.createObjectStore(STORES.knowledgeDocuments, { keyPath: 'id' });
+        const chunks = db.createObjectStore(STORES.knowledgeChunks, { keyPath: 'id' });
+        chunks.createIndex('documentId', 'documentId', { unique: false });
+    },
+    // v2: generation history, with images and videos stored apart from the searchable metadata
+    (db) => {
+        const items = db.createObjectStore(STORES.historyItems, { keyPath: 'id' });
+        items.createIndex('timestamp', 'timestamp', { unique: false });
+        const media = db.createObjectStore(STORES.historyMedia, { keyPath: 'id' });
+        media.createIndex('historyId', 'historyId', { unique: false });
+    },
+];
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+    if (!dbPromise) {
+        dbPromise = new Promise((resolve, reject) => {
+            const request = indexedDB.open(DB_NAME, DB_VERSION);
+            request.onupgradeneeded = (event) => {
+                const db = request.result;
+                for (let version = event.oldVersion; version < DB_VERSION; version++) {
+                    migrations[version](db);
+                }
+            };
+            request.onsuccess = () => resolve(request.result);
+            request.onerror = () => {
+                dbPromise = null;
+                reject(request.error);
+            };
+        });
+    }
+    return dbPromise;
+};
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> => {
+    return new Promise((resolve, reject) => {
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+};
+
+const transactionDone = (transaction: IDBTransaction): Promise<void> => {
+    return new Promise((resolve, reject) => {
+        transaction.oncomplete = () => resolve();
+        transaction.onerror = () => reject(transaction.error);
+        transaction.onabort = () => reject(transaction.error);
+    });
+};
+
+export const idbGetAll = async <T>(storeName: StoreName): Promise<T[]> => {
+    const db = await openDatabase();
+    return requestToPromise(db.transaction(storeName, 'readonly').objectStore(storeName).getAll()) as Promise<T[]>;
+};
+
+export const idbGet = async <T>(storeName: StoreName, key: IDBValidKey): Promise<T | undefined> => {
+    const db = await openDatabase();
+    return requestToPromise(db.transaction(storeName, 'readonly').objectStore(storeName).get(key)) as Promise<T | undefined>;
+};
+
+export const idbGetAllByIndex = async <T>(storeName: StoreName, indexName: string, key: IDBValidKey): Promise<T[]> => {
+    const db = await openDatabase();
+    const index = db.transaction(storeName, 'readonly').objectStore(storeName).index(indexName);
+    return requestToPromise(index.getAll(key)) as Promise<T[]>;
+};
+
+/** Writes all values in a single transaction. */
+export const idbPutAll = async <T>(storeName: StoreName, values: T[]): Promise<void> => {
+    const db = await openDatabase();
+    const transaction = db.transaction(storeName, 'readwrite');
+    const store = transaction.objectStore(storeName);
+    values.forEach(value => store.put(value));
+    return transactionDone(transaction);
+};
+
+/** Writes to several stores in a single transaction, so either every value is saved or none is. */
+export const idbPutInStores = async (writes: Partial<Record<StoreName, unknown[]>>): Promise<void> => {
+    const db = await openDatabase();
+    const storeNames = Object.keys(writes) as StoreName[];
+    const transaction = db.transaction(storeNames, 'readwrite');
+    storeNames.forEach(storeName => {
+        const store = transaction.objectStore(storeName);
+        writes[storeName]!.forEach(value => store.put(value));
+    });
+    return transactionDone(transaction);
+};
+
+export const idbPut = async <T>(storeName: StoreName, value: T): Promise<void> => {
+    return idbPutAll(storeName, [value]);
+};
+
+export const idbDelete = async (storeName: StoreName, key: IDBValidKey): Promise<void> => {
+    const db = await openDatabase();
+    const transaction = db.transaction(storeName, 'readwrite');
+    transaction.objectStore(storeName).delete(key);
+    return transactionDone(transaction);
+};
+
+/** Deletes every record whose `indexName` field equals `key`. */
+export const idbDeleteByIndex = async (storeName: StoreName, indexName: string, key: IDBValidKey): Promise<void> => {
+    const db = await openDatabase();
+    const transaction = db.transaction(storeName, 'readwrite');
+    const store = transaction.objectStore(storeName);
+    const keys = await requestToPromise(store.index(indexName).getAllKeys(key));
+    keys.forEach(primaryKey => store.delete(primaryKey));
+    return transactionDone(transaction);
+};
+
+export const idbClear = async (storeName: StoreName): Promise<void> => {
+    const db = await openDatabase();
+    const transaction = db.transaction(storeName, 'readwrite');
+    transaction.objectStore(storeName).clear();
+    return transactionDone(transaction);
+};
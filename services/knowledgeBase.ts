@@ -0,0 +1,187 @@
+import { KnowledgeDocument, RetrievedSnippet } from '../types';
+import { getProvider } from './llmProvider';
+import { extractTextFromFile } from './documentParser';
+import { STORES, idbGetAll, idbPutInStores, idbDelete, idbDeleteByIndex } from './indexedDb';
+
+// Helper functions for vector math
+const dotProduct = (vecA: number[], vecB: number[]): number => {
+    if (vecA.length !== vecB.length) return 0;
+    return vecA.map((val, i) => val * vecB[i]).reduce((sum, current) => sum + current, 0);
+};
+
+const magnitude = (vec: number[]): number => {
+    return Math.sqrt(vec.reduce((sum, val) => sum + val * val, 0));
+};
+
+const cosineSimilarity = (vecA: number[], vecB: number[]): number => {
+    const magA = magnitude(vecA);
+    const magB = magnitude(vecB);
+    if (magA === 0 || magB === 0) return 0;
+    return dotProduct(vecA, vecB) / (magA * magB);
+};
+
+interface VectorStoreEntry {
+    id: string;
+    documentId: string;
+    documentName: string;
+    text: string;
+    embedding: number[];
+}
+
+/**
+ * A vector store for Retrieval-Augmented Generation (RAG), persisted in IndexedDB.
+ * It stores text chunks of the user's own documents and their embeddings, and finds
+ * the chunks most relevant to a new prompt.
+ */
+class VectorStore {
+    private documents: VectorStoreEntry[] = [];
+    private loadPromise: Promise<void> | null = null;
+
+    /** Loads the persisted chunks into memory once; later calls reuse the same promise. */
+    private load(): Promise<void> {
+        if (!this.loadPromise) {
+            this.loadPromise = idbGetAll<VectorStoreEntry>(STORES.knowledgeChunks)
+                .then(entries => { this.documents = entries; })
+                .catch(error => {
+                    console.error("Failed to load knowledge base from IndexedDB:", error);
+                    this.loadPromise = null;
+                });
+        }
+        return this.loadPromise;
+    }
+
+    /**
+     * Chunks text, generates embeddings, and adds them to the store. The document record is saved
+     * in the same transaction as its chunks, and only if at least one chunk was embedded.
+     * @param document The document the text belongs to.
+     * @param text The full text of the document.
+     * @param onProgress Called after each chunk with the number of chunks processed so far.
+     * @returns The number of chunks that were stored.
+     */
+    async add_documents(document: KnowledgeDocument, text: string, onProgress?: (done: number, total: number) => void): Promise<number> {
+        await this.load();
+        const chunks = this.chunkText(text);
+        const entries: VectorStoreEntry[] = [];
+
+        for (let i = 0; i < chunks.length; i++) {
+            const chunk = chunks[i];
+            // Avoid adding duplicate chunks
+            if (!this.documents.some(doc => doc.text === chunk) && !entries.some(entry => entry.text === chunk)) {
+                try {
+                    const embedding = await getProvider().embed(chunk);
+                    entries.push({ id: `${document.id}:${i}`, documentId: document.id, documentName: document.name, text: chunk, embedding });
+                } catch (error) {
+                    console.error(`Failed to generate embedding for chunk, skipping:`, error);
+                }
+            }
+            onProgress?.(i + 1, chunks.length);
+        }
+
+        if (entries.length > 0) {
+            await idbPutInStores({
+                [STORES.knowledgeDocuments]: [{ ...document, chunkCount: entries.length }],
+                [STORES.knowledgeChunks]: entries,
+            });
+            this.documents.push(...entries);
+        }
+        return entries.length;
+    }
+
+    async remove_document(documentId: string): Promise<void> {
+        await this.load();
+        await idbDeleteByIndex(STORES.knowledgeChunks, 'documentId', documentId);
+        this.documents = this.documents.filter(doc => doc.documentId !== documentId);
+    }
+
+    /**
+     * Performs a similarity search to find the most relevant text chunks.
+     * @param query The text to find related chunks for, typically the topic.
+     * @param k The number of top results to return.
+     * @returns The most similar chunks, most relevant first.
+     */
+    async similarity_search(query: string, k: number = 3): Promise<RetrievedSnippet[]> {
+        await this.load();
+        if (this.documents.length === 0) {
+            return [];
+        }
+
+        const queryEmbedding = await getProvider().embed(query);
+        const similarities = this.documents.map(doc => ({
+            documentId: doc.documentId,
+            documentName: doc.documentName,
+            text: doc.text,
+            similarity: cosineSimilarity(queryEmbedding, doc.embedding),
+        }));
+
+        similarities.sort((a, b) => b.similarity - a.similarity);
+
+        // Return only chunks with a reasonable similarity score
+        return similarities.slice(0, k).filter(item => item.similarity > 0.7);
+    }
+
+    // Naive text chunking based on word count
+    private chunkText(text: string, maxWords: number = 100, overlapWords: number = 20): string[] {
+        const words = text.replace(/#/g, '').split(/\s+/).filter(w => w.length > 0);
+        const chunks: string[] = [];
+        if (words.length <= maxWords) {
+            return [words.join(' ')];
+        }
+        let i = 0;
+        while (i < words.length) {
+            const end = Math.min(i + maxWords, words.length);
+            chunks.push(words.slice(i, end).join(' '));
+            i += maxWords - overlapWords;
+            if (i >= words.length && chunks.length > 1) break; // prevent final small/overlapping chunk
+        }
+        return chunks;
+    }
+}
+
+// Global instance of the vector store
+const vectorStore = new VectorStore();
+
+export const listKnowledgeDocuments = async (): Promise<KnowledgeDocument[]> => {
+    const documents = await idbGetAll<KnowledgeDocument>(STORES.knowledgeDocuments);
+    return documents.sort((a, b) => b.addedAt - a.addedAt);
+};
+
+/**
+ * Reads an uploaded file, embeds its chunks and persists it to the knowledge base.
+ * @param file A Markdown, plain-text or PDF file.
+ * @param onProgress Reports embedding progress as chunks are processed.
+ * @returns The stored document record.
+ */
+export const addKnowledgeDocument = async (file: File, onProgress?: (done: number, total: number) => void): Promise<KnowledgeDocument> => {
+    const text = await extractTextFromFile(file);
+    const document: KnowledgeDocument = {
+        id: crypto.randomUUID(),
+        name: file.name,
+        size: file.size,
+        addedAt: Date.now(),
+        chunkCount: 0,
+    };
+
+    document.chunkCount = await vectorStore.add_documents(document, text, onProgress);
+    if (document.chunkCount === 0) {
+        throw new Error(`No new content could be indexed from "${file.name}". It may duplicate an existing document.`);
+    }
+    return document;
+};
+
+export const removeKnowledgeDocument = async (id: string): Promise<void> => {
+    await vectorStore.remove_document(id);
+    await idbDelete(STORES.knowledgeDocuments, id);
+};
+
+/**
+ * Finds the knowledge base chunks most relevant to a query. Retrieval is best-effort:
+ * failures are logged and yield no snippets rather than blocking generation.
+ */
+export const retrieveRelevantSnippets = async (query: string, k: number = 3): Promise<RetrievedSnippet[]> => {
+    try {
+        return await vectorStore.similarity_search(query, k);
+    } catch (error) {
+        console.error("Knowledge base retrieval failed, continuing without it:", error);
+        return [];
+    }
+};
@@ -0,0 +1,92 @@
+import { ContentLanguage } from '../types';
+
+export type TextDirection = 'ltr' | 'rtl';
+
+// English names, used in prompts.
+export const languageNames: Record<ContentLanguage, string> = {
+    [ContentLanguage.English]: 'English',
+    [ContentLanguage.Spanish]: 'Spanish',
+    [ContentLanguage.French]: 'French',
+    [ContentLanguage.German]: 'German',
+    [ContentLanguage.Portuguese]: 'Portuguese',
+    [ContentLanguage.Italian]: 'Italian',
+    [ContentLanguage.Dutch]: 'Dutch',
+    [ContentLanguage.Arabic]: 'Arabic',
+    [ContentLanguage.Hebrew]: 'Hebrew',
+    [ContentLanguage.Persian]: 'Persian',
+};
+
+// Each language in its own name, for pickers.
+export const languageLabels: Record<ContentLanguage, string> = {
+    [ContentLanguage.English]: 'English',
+    [ContentLanguage.Spanish]: 'Español',
+    [ContentLanguage.French]: 'Français',
+    [ContentLanguage.German]: 'Deutsch',
+    [ContentLanguage.Portuguese]: 'Português',
+    [ContentLanguage.Italian]: 'Italiano',
+    [ContentLanguage.Dutch]: 'Nederlands',
+    [ContentLanguage.Arabic]: 'العربية',
+    [ContentLanguage.Hebrew]: 'עברית',
+    [ContentLanguage.Persian]: 'فارسی',
+};
+
+export const contentLanguages = Object.values(ContentLanguage);
+
+const RTL_LANGUAGES = [ContentLanguage.Arabic, ContentLanguage.Hebrew, ContentLanguage.Persian];
+
+export const getLanguageDirection = (language: ContentLanguage = ContentLanguage.English): TextDirection => {
+    return RTL_LANGUAGES.includes(language) ? 'rtl' : 'ltr';
+};
+
+// Hebrew, Arabic (which Persian also uses) and their presentation forms.
+export const RTL_CHARACTERS = /[\u0590-\u08FF\uFB1D-\uFDFF\uFE70-\uFEFF]/;
+const RTL_CHARACTERS_GLOBAL = new RegExp(RTL_CHARACTERS.source, 'g');
+
+/**
+ * The direction of a piece of text, from which script most of its letters are in. Used for rendering
+ * rather than the generation's language, so edits, translations and restored revisions all lay out right.
+ */
+export const detectTextDirection = (text: string): TextDirection => {
+    const rtl = text.match(RTL_CHARACTERS_GLOBAL)?.length ?? 0;
+    const ltr = text.match(/[A-Za-z\u00C0-\u024F]/g)?.length ?? 0;
+    return rtl > ltr ? 'rtl' : 'ltr';
+};
+
+const PLACEHOLDER = /⟦(\d+)⟧/g;
+
+// Code, URLs and hashtags, which must come through a translation byte for byte. Code blocks go first
+// so nothing inside them is matched again.
+const UNTRANSLATABLE_PATTERNS = [
+    /^(```|~~~)[^\n]*\n[\s\S]*?\n\1[ \t]*$/gm,
+    /`[^`\n]+`/g,
+    /https?:\/\/[^\s)<>\]]*[^\s)<>\].,;:!?'"]/g,
+    /(?<![\p{L}\p{N}_&#])#[\p{L}\p{N}_]+/gu,
+];
+
+/**
+ * Swaps the parts of some Markdown that must not be translated for numbered placeholders.
+ * @returns The masked text and the originals, indexed by placeholder number.
+ */
+export const protectUntranslatable = (markdown: string): { text: string; protectedParts: string[] } => {
+    const protectedParts: string[] = [];
+    const text = UNTRANSLATABLE_PATTERNS.reduce((masked, pattern) => masked.replace(pattern, match => {
+        protectedParts.push(match);
+        return `⟦${protectedParts.length - 1}⟧`;
+    }), markdown);
+    return { text, protectedParts };
+};
+
+/** Puts the protected parts back, failing if the translation lost any of them. */
+export const restoreUntranslatable = (text: string, protectedParts: string[]): string => {
+    const found = new Set<number>();
+    const restored = text.replace(PLACEHOLDER, (match, index) => {
+        const part = protectedParts[Number(index)];
+        if (part === undefined) return match;
+        found.add(Number(index));
+        return part;
+    });
+    if (found.size < protectedParts.length) {
+        throw new Error("The translation dropped some code, links or hashtags. Please try again.");
+    }
+    return restored;
+};
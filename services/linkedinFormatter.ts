@@ -0,0 +1,179 @@
+import { marked, Token, Tokens } from 'marked';
+
+/** LinkedIn's maximum length for a post. */
+export const LINKEDIN_POST_LIMIT = 3000;
+/** Roughly where the desktop feed truncates a post behind "…see more". */
+export const LINKEDIN_FOLD_CHARS = 210;
+/** The mobile app truncates earlier. */
+export const LINKEDIN_MOBILE_FOLD_CHARS = 140;
+// Either fold also comes early when the opening has short lines.
+const LINKEDIN_FOLD_LINES = 3;
+
+export type LinkedInBullet = '•' | '▪' | '→' | '✅' | '-';
+export type LinkedInSpacing = 'compact' | 'airy';
+
+export interface LinkedInFormatOptions {
+    unicodeStyles: boolean;
+    bullet: LinkedInBullet;
+    spacing: LinkedInSpacing;
+}
+
+export const defaultLinkedInFormatOptions: LinkedInFormatOptions = {
+    unicodeStyles: true,
+    bullet: '•',
+    spacing: 'airy',
+};
+
+interface InlineStyle {
+    bold?: boolean;
+    italic?: boolean;
+}
+
+// Start code points of the Mathematical Sans-Serif alphabets, which render in the feed's own font.
+const STYLED_ALPHABETS = {
+    bold: { upper: 0x1D5D4, lower: 0x1D5EE, digit: 0x1D7EC },
+    italic: { upper: 0x1D608, lower: 0x1D622, digit: null },
+    boldItalic: { upper: 0x1D63C, lower: 0x1D656, digit: 0x1D7EC },
+};
+
+const applyUnicodeStyle = (text: string, style: InlineStyle): string => {
+    if (!style.bold && !style.italic) return text;
+    const alphabet = style.bold && style.italic ? STYLED_ALPHABETS.boldItalic : style.bold ? STYLED_ALPHABETS.bold : STYLED_ALPHABETS.italic;
+    return text.replace(/[A-Za-z0-9]/g, char => {
+        const code = char.charCodeAt(0);
+        if (code >= 65 && code <= 90) return String.fromCodePoint(alphabet.upper + code - 65);
+        if (code >= 97 && code <= 122) return String.fromCodePoint(alphabet.lower + code - 97);
+        return alphabet.digit === null ? char : String.fromCodePoint(alphabet.digit + code - 48);
+    });
+};
+
+const unescapeHtml = (text: string): string => {
+    return text
+        .replace(/&lt;/g, '<')
+        .replace(/&gt;/g, '>')
+        .replace(/&quot;/g, '"')
+        .replace(/&#39;/g, "'")
+        .replace(/&amp;/g, '&');
+};
+
+class LinkedInTextWriter {
+    constructor(private options: LinkedInFormatOptions) {}
+
+    private styled(text: string, style: InlineStyle): string {
+        return this.options.unicodeStyles ? applyUnicodeStyle(text, style) : text;
+    }
+
+    inline(tokens: Token[], style: InlineStyle = {}): string {
+        return tokens.map(token => {
+            switch (token.type) {
+                case 'strong':
+                    return this.inline((token as Tokens.Strong).tokens, { ...style, bold: true });
+                case 'em':
+                    return this.inline((token as Tokens.Em).tokens, { ...style, italic: true });
+                case 'del':
+                    return this.inline((token as Tokens.Del).tokens, style);
+                case 'link': {
+                    const link = token as Tokens.Link;
+                    const label = this.inline(link.tokens, style);
+                    // The feed only links bare URLs, so the address is spelled out after its label.
+                    return link.text === link.href || link.href.startsWith('mailto:') ? label : `${label} (${link.href})`;
+                }
+                case 'codespan':
+                    return unescapeHtml((token as Tokens.Codespan).text);
+                case 'br':
+                    return '\n';
+                case 'image':
+                    return '';
+                case 'html':
+                    return unescapeHtml((token as Tokens.HTML).text.replace(/<[^>]*>/g, ''));
+                case 'text':
+                case 'escape': {
+                    const textToken = token as Tokens.Text;
+                    return textToken.tokens ? this.inline(textToken.tokens, style) : this.styled(unescapeHtml(textToken.text), style);
+                }
+                default:
+                    return 'raw' in token ? token.raw : '';
+            }
+        }).join('');
+    }
+
+    blocks(tokens: Token[], indent = ''): string[] {
+        return tokens.flatMap((token): string[] => {
+            switch (token.type) {
+                case 'heading': {
+                    const text = this.inline((token as Tokens.Heading).tokens, { bold: true });
+                    return [this.options.unicodeStyles ? text : text.toUpperCase()];
+                }
+                case 'paragraph':
+                case 'text': {
+                    const inline = (token as Tokens.Paragraph).tokens ?? [token];
+                    return [indent + this.inline(inline).replace(/\n/g, `\n${indent}`)];
+                }
+                case 'list':
+                    return this.list(token as Tokens.List, indent);
+                case 'code':
+                    return [(token as Tokens.Code).text];
+                case 'blockquote':
+                    return this.blocks((token as Tokens.Blockquote).tokens, indent).map(block => `“${block.trim()}”`);
+                case 'table': {
+                    const table = token as Tokens.Table;
+                    const row = (cells: Tokens.TableCell[], style: InlineStyle = {}) => cells.map(cell => this.inline(cell.tokens, style)).join(' | ');
+                    return [[row(table.header, { bold: true }), ...table.rows.map(cells => row(cells))].join('\n')];
+                }
+                case 'hr':
+                    return ['———'];
+                case 'html': {
+                    const text = unescapeHtml((token as Tokens.HTML).text.replace(/<[^>]*>/g, '').trim());
+                    return text ? [text] : [];
+                }
+                default:
+                    return [];
+            }
+        });
+    }
+
+    private list(list: Tokens.List, indent: string): string[] {
+        const start = typeof list.start === 'number' ? list.start : 1;
+        const items = list.items.map((item, index) => {
+            const marker = item.task ? (item.checked ? '☑' : '☐') : list.ordered ? `${start + index}.` : this.options.bullet;
+            const [first = '', ...rest] = item.tokens.flatMap(child =>
+                child.type === 'list' ? this.list(child as Tokens.List, `${indent}   `) : this.blocks([child], '')
+            );
+            return [`${indent}${marker} ${first.trim()}`, ...rest].join('\n');
+        });
+        // Airy spacing gives each item its own paragraph, which LinkedIn readers skim more easily.
+        return this.options.spacing === 'airy' && !indent ? items : [items.join('\n')];
+    }
+}
+
+/**
+ * Converts Markdown into plain text that reads well in a LinkedIn post, which doesn't render Markdown.
+ * Emphasis becomes Unicode bold/italic letters when `unicodeStyles` is on; lists use the chosen bullet glyph.
+ */
+export const toLinkedInText = (markdown: string, options: LinkedInFormatOptions = defaultLinkedInFormatOptions): string => {
+    const writer = new LinkedInTextWriter(options);
+    return writer.blocks(marked.lexer(markdown))
+        .map(block => block.replace(/[ \t]+$/gm, ''))
+        .filter(block => block.trim() !== '')
+        .join('\n\n');
+};
+
+/**
+ * Counts characters the way the post limit is enforced here: in UTF-16 code units, so styled
+ * letters and most emoji count twice. That errs on the side of staying under the limit.
+ */
+export const countLinkedInCharacters = (text: string): number => text.length;
+
+/** Splits the text at the "see more" fold without breaking a surrogate pair. */
+export const splitAtFold = (text: string, foldChars: number = LINKEDIN_FOLD_CHARS): [string, string] => {
+    let index = Math.min(foldChars, text.length);
+    let lineEnd = -1;
+    for (let line = 0; line < LINKEDIN_FOLD_LINES && lineEnd < index; line++) {
+        lineEnd = text.indexOf('\n', lineEnd + 1);
+        if (lineEnd === -1) break;
+    }
+    if (lineEnd !== -1 && lineEnd < index) index = lineEnd;
+    const code = text.charCodeAt(index - 1);
+    if (code >= 0xD800 && code <= 0xDBFF) index--;
+    return [text.slice(0, index), text.slice(index)];
+};
@@ -0,0 +1,27 @@
+import { LlmProvider } from './llmTypes';
+import { geminiProvider } from './geminiProvider';
+import { mockProvider } from './mockProvider';
+
+const providers: Record<string, LlmProvider> = {
+    [geminiProvider.id]: geminiProvider,
+    [mockProvider.id]: mockProvider,
+};
+
+let activeProvider: LlmProvider | null = null;
+
+/**
+ * Returns the provider selected through the `LLM_PROVIDER` environment variable,
+ * falling back to Gemini when it is unset or unknown.
+ */
+export const getProvider = (): LlmProvider => {
+    if (!activeProvider) {
+        const requested = process.env.LLM_PROVIDER?.toLowerCase() || geminiProvider.id;
+        activeProvider = providers[requested] ?? geminiProvider;
+    }
+    return activeProvider;
+};
+
+/** Overrides the active provider, e.g. to run the UI against the offline mock. */
+export const setProvider = (provider: LlmProvider): void => {
+    activeProvider = provider;
+};
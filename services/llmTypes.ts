@@ -0,0 +1,68 @@
+import { Schema } from "@google/genai";
+import { ImageAspectRatio } from '../types';
+
+// The provider contract lives apart from the registry in llmProvider.ts, so the providers
+// can implement it without importing the module that imports them.
+
+export interface GroundingSource {
+    uri: string;
+    title: string;
+}
+
+export interface TextRequest {
+    prompt: string;
+    // Enables web search grounding on providers that support it.
+    useSearch?: boolean;
+}
+
+export interface TextResponse {
+    text: string;
+    sources?: GroundingSource[];
+}
+
+export interface JsonRequest {
+    prompt: string;
+    schema: Schema;
+}
+
+export interface ImageRequest {
+    prompt: string;
+    aspectRatio: ImageAspectRatio;
+}
+
+export interface VideoRequest {
+    prompt: string;
+}
+
+export interface VideoJobPoll {
+    done: boolean;
+    // A `data:` URL of the finished video, present once `done` is true.
+    videoUrl?: string;
+    // Set with `done` when the operation itself failed, so retrying won't help. A thrown error
+    // means the poll could not be made and may be retried.
+    error?: string;
+}
+
+/**
+ * The contract every model vendor must fulfil. `geminiService` only talks to
+ * the active provider, so a new vendor can be added without touching the
+ * prompt construction for each `GenerationType`.
+ */
+export interface LlmProvider {
+    readonly id: string;
+    generateText(request: TextRequest): Promise<TextResponse>;
+    /**
+     * Yields the response incrementally as text deltas. Grounding sources, when
+     * available, are attached to the chunks that carry them.
+     */
+    streamText(request: TextRequest, signal?: AbortSignal): AsyncIterable<TextResponse>;
+    /** Returns the raw JSON string produced for the given schema. */
+    generateJson(request: JsonRequest): Promise<string>;
+    /** Resolves to a `data:` URL of the generated image. */
+    generateImage(request: ImageRequest): Promise<string>;
+    /** Submits a long-running video job and resolves to its operation name. */
+    startVideoJob(request: VideoRequest): Promise<string>;
+    /** Checks a video job by operation name; a failed job resolves with `error`, a failed check rejects. */
+    getVideoJob(operationName: string): Promise<VideoJobPoll>;
+    embed(text: string): Promise<number[]>;
+}
@@ -0,0 +1,52 @@
+import { TextRange } from '../types';
+
+// Markdown syntax that is hidden in the rendered output: emphasis markers, heading and quote
+// prefixes, list markers, table pipes and the `](url)` tail of links.
+const HIDDEN_MARKDOWN = String.raw`(?:\s|[*_~\x60#>|]|\[|\]\([^)]*\)|(?:^|\n)\s*(?:[-+]|\d+[.)])\s)*`;
+
+const escapeRegExp = (text: string): string => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const isWordToken = (token: string): boolean => /^[\p{L}\p{N}]/u.test(token);
+
+// Words and punctuation in order with any Markdown syntax between them. A selection that starts or
+// ends on a word only matches whole words, so "cat" is not found inside "concatenate".
+const buildSelectionPattern = (selectedText: string): RegExp | null => {
+    const tokens = selectedText.match(/[\p{L}\p{N}]+|[^\s\p{L}\p{N}]/gu);
+    if (!tokens || tokens.length === 0) return null;
+
+    const start = isWordToken(tokens[0]) ? '(?<![\\p{L}\\p{N}])' : '';
+    const end = isWordToken(tokens[tokens.length - 1]) ? '(?![\\p{L}\\p{N}])' : '';
+    return new RegExp(`${start}${tokens.map(escapeRegExp).join(HIDDEN_MARKDOWN)}${end}`, 'gu');
+};
+
+/**
+ * Finds the Markdown source of text the user selected in the rendered HTML. The same words can
+ * appear more than once, so the rendered text and the selection's offset in it decide which copy
+ * was selected: the nth copy in the rendered text is the nth copy in the source.
+ * @param renderedText The text content of the rendered output.
+ * @param renderedOffset Where the selection starts in `renderedText`.
+ * @returns The range of the selected copy in the source, or null if it can't be placed unambiguously.
+ */
+export const findMarkdownRange = (markdown: string, selectedText: string, renderedText: string, renderedOffset: number): TextRange | null => {
+    const pattern = buildSelectionPattern(selectedText);
+    if (!pattern) return null;
+
+    const sourceMatches = Array.from(markdown.matchAll(pattern));
+    const renderedMatches = Array.from(renderedText.matchAll(pattern));
+    // Copies hidden in the rendered output (in a link address, say) would throw the count off.
+    if (sourceMatches.length === 0 || sourceMatches.length !== renderedMatches.length) return null;
+
+    const occurrence = renderedMatches.filter(match => match.index! + match[0].length <= renderedOffset).length;
+    const match = sourceMatches[occurrence];
+    if (!match) return null;
+
+    let start = match.index!;
+    let end = start + match[0].length;
+
+    // Include emphasis markers that wrap the whole selection, so "**bold**" is replaced as a unit.
+    while (start > 0 && end < markdown.length && /[*_~]/.test(markdown[start - 1]) && markdown[start - 1] === markdown[end]) {
+        start--;
+        end++;
+    }
+    return { start, end };
+};
@@ -0,0 +1,147 @@
+import { DifficultyLevel, InterviewCriterionScore, InterviewSession, InterviewTurn } from '../types';
+
+export interface RubricCriterion {
+    name: string;
+    description: string;
+}
+
+// The engine's closing assessment of a whole session; scores are worked out locally.
+export interface InterviewSummary {
+    verdict: string;
+    summary: string;
+    strengths: string[];
+    improvements: string[];
+}
+
+// Every answer is scored on each of these, from 1 to MAX_CRITERION_SCORE.
+export const INTERVIEW_RUBRIC: RubricCriterion[] = [
+    { name: 'Relevance', description: 'Answers the question that was asked, for this role and company.' },
+    { name: 'Depth', description: 'Shows real expertise: specifics, trade-offs and sound reasoning, at the level expected for the difficulty.' },
+    { name: 'Evidence', description: 'Backs claims with concrete examples, numbers or outcomes from their own experience.' },
+    { name: 'Structure', description: 'Easy to follow; behavioral answers cover the situation, task, action and result.' },
+    { name: 'Communication', description: 'Clear, concise and confident, without filler or hedging.' },
+];
+
+export const MAX_CRITERION_SCORE = 5;
+export const DEFAULT_INTERVIEW_QUESTION_COUNT = 5;
+// Follow-ups allowed after one main question, so a weak answer can't stall the session.
+const MAX_FOLLOW_UPS_PER_QUESTION = 1;
+
+const roundScore = (value: number): number => Math.round(value * 10) / 10;
+
+const average = (values: number[]): number | null => {
+    return values.length === 0 ? null : roundScore(values.reduce((sum, value) => sum + value, 0) / values.length);
+};
+
+/** The mean of an answer's rubric scores, or null while it hasn't been scored. */
+export const getTurnScore = (turn: InterviewTurn): number | null => {
+    return average((turn.scores ?? []).map(score => score.score));
+};
+
+export const getAnsweredTurns = (session: InterviewSession): InterviewTurn[] => {
+    return session.turns.filter(turn => turn.answer !== undefined);
+};
+
+/** The mean score over every answered question, follow-ups included. */
+export const getSessionScore = (session: InterviewSession): number | null => {
+    return average(getAnsweredTurns(session).map(getTurnScore).filter((score): score is number => score !== null));
+};
+
+/** The average score per rubric criterion, in rubric order. */
+export const getCriterionAverages = (session: InterviewSession): Array<{ criterion: string; average: number | null }> => {
+    const scores = getAnsweredTurns(session).flatMap(turn => turn.scores ?? []);
+    return INTERVIEW_RUBRIC.map(({ name }) => ({
+        criterion: name,
+        average: average(scores.filter(score => score.criterion === name).map(score => score.score)),
+    }));
+};
+
+export const countMainQuestions = (session: InterviewSession): number => {
+    return session.turns.filter(turn => !turn.isFollowUp).length;
+};
+
+/** Whether the current main question may still get a follow-up. */
+export const canAskFollowUp = (session: InterviewSession): boolean => {
+    const lastMainIndex = session.turns.map(turn => turn.isFollowUp).lastIndexOf(false);
+    return lastMainIndex >= 0 && session.turns.length - 1 - lastMainIndex < MAX_FOLLOW_UPS_PER_QUESTION;
+};
+
+/** The question waiting for an answer, if any. */
+export const getOpenTurn = (session: InterviewSession): InterviewTurn | null => {
+    const last = session.turns[session.turns.length - 1];
+    return last && last.answer === undefined ? last : null;
+};
+
+// Keeps scores in the rubric's order and range, dropping criteria the rubric doesn't have.
+export const normalizeCriterionScores = (scores: InterviewCriterionScore[]): InterviewCriterionScore[] => {
+    return INTERVIEW_RUBRIC.flatMap(({ name }) => {
+        const score = scores.find(s => s.criterion?.trim().toLowerCase() === name.toLowerCase());
+        if (!score || !Number.isFinite(score.score)) return [];
+        return [{ criterion: name, score: Math.min(Math.max(Math.round(score.score), 1), MAX_CRITERION_SCORE), comment: (score.comment ?? '').trim() }];
+    });
+};
+
+const formatScore = (score: number | null): string => (score === null ? 'n/a' : `${score.toFixed(1)}/${MAX_CRITERION_SCORE}`);
+
+const questionLabels = (turns: InterviewTurn[]): string[] => {
+    let main = 0;
+    let followUp = 0;
+    return turns.map(turn => {
+        if (!turn.isFollowUp) {
+            main++;
+            followUp = 0;
+            return `Q${main}`;
+        }
+        followUp++;
+        return `Q${main} follow-up${followUp > 1 ? ` ${followUp}` : ''}`;
+    });
+};
+
+/**
+ * Renders a finished session as the Markdown report shown in the output pane and kept in history:
+ * the engine's verdict, scores per criterion and the full transcript with feedback.
+ */
+export const interviewReportToMarkdown = (
+    role: string,
+    company: string | undefined,
+    difficulty: DifficultyLevel,
+    session: InterviewSession,
+    summary: InterviewSummary
+): string => {
+    const answered = getAnsweredTurns(session);
+    const followUps = answered.filter(turn => turn.isFollowUp).length;
+    const labels = questionLabels(session.turns);
+
+    const criteriaTable = [
+        '| Criterion | Average |',
+        '| --- | --- |',
+        ...getCriterionAverages(session).map(({ criterion, average }) => `| ${criterion} | ${formatScore(average)} |`),
+    ].join('\n');
+
+    const transcript = session.turns
+        .map((turn, index) => ({ turn, label: labels[index] }))
+        .filter(({ turn }) => turn.answer !== undefined)
+        .map(({ turn, label }) => {
+            const scores = (turn.scores ?? []).map(score => `${score.criterion} ${score.score}`).join(' · ');
+            return [
+                `### ${label}: ${turn.question}`,
+                `_${turn.focus}_`,
+                `**Your answer:** ${turn.answer?.trim() || '_No answer given._'}`,
+                `**Score:** ${formatScore(getTurnScore(turn))}${scores ? ` (${scores})` : ''}`,
+                turn.feedback ? `**Feedback:** ${turn.feedback}` : '',
+            ].filter(Boolean).join('\n\n');
+        });
+
+    const list = (items: string[]) => (items.length > 0 ? items.map(item => `- ${item}`).join('\n') : '- _None noted._');
+
+    return [
+        `# Mock Interview Report: ${role}${company ? ` at ${company}` : ''}`,
+        `**Difficulty:** ${difficulty.charAt(0).toUpperCase()}${difficulty.slice(1)} · **Questions answered:** ${answered.length}${followUps > 0 ? ` (${followUps} follow-up${followUps === 1 ? '' : 's'})` : ''} · **Overall score:** ${formatScore(getSessionScore(session))}`,
+        `## Verdict\n\n${summary.verdict}`,
+        `## Summary\n\n${summary.summary}`,
+        `## Scores by Criterion\n\n${criteriaTable}`,
+        `## Strengths\n\n${list(summary.strengths)}`,
+        `## What to Work On\n\n${list(summary.improvements)}`,
+        `## Transcript\n\n${transcript.length > 0 ? transcript.join('\n\n') : '_No questions were answered._'}`,
+    ].join('\n\n');
+};
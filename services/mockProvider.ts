@@ -0,0 +1,157 @@
+import { Schema, Type } from "@google/genai";
+import { ImageAspectRatio } from '../types';
+import { LlmProvider, TextRequest, TextResponse, JsonRequest, ImageRequest, VideoRequest, VideoJobPoll } from './llmTypes';
+
+// A deterministic, network-free provider. Every response is derived from a hash of
+// the prompt, so the same input always yields the same output. Useful for working
+// on the UI offline or without an API key.
+
+const EMBEDDING_DIMENSIONS = 256;
+const MOCK_LATENCY_MS = 300;
+const MOCK_STREAM_CHUNK_WORDS = 4;
+const MOCK_VIDEO_DURATION_MS = 15000;
+
+// FNV-1a: small, fast and stable across runs.
+const hashString = (value: string): number => {
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < value.length; i++) {
+        hash ^= value.charCodeAt(i);
+        hash = Math.imul(hash, 0x01000193);
+    }
+    return hash >>> 0;
+};
+
+const delay = (ms: number = MOCK_LATENCY_MS) => new Promise(resolve => setTimeout(resolve, ms));
+
+// Pulls the first quoted phrase out of the prompt, which is where the topic lives in most prompts.
+const extractSubject = (prompt: string): string => {
+    const quoted = prompt.match(/"([^"]{3,120})"/);
+    if (quoted) return quoted[1];
+    return prompt.trim().split(/\s+/).slice(0, 8).join(' ') || 'your topic';
+};
+
+const buildMarkdown = (prompt: string): string => {
+    const subject = extractSubject(prompt);
+    const seed = hashString(prompt);
+    const points = Array.from({ length: 3 + (seed % 3) }, (_, i) =>
+        `- **Insight ${i + 1}:** A deterministic observation about ${subject} (ref ${((seed >>> (i * 4)) & 0xfff).toString(16)}).`
+    );
+
+    return [
+        `# ${subject}`,
+        '',
+        `This is mock output generated offline for "${subject}".`,
+        '',
+        '## Key Points',
+        '',
+        ...points,
+        '',
+        '## Takeaway',
+        '',
+        `Swap \`LLM_PROVIDER\` back to \`gemini\` for real content. #Mock #${subject.replace(/[^a-zA-Z0-9]/g, '')}`,
+    ].join('\n');
+};
+
+const buildFromSchema = (schema: Schema, seed: number, label: string): unknown => {
+    switch (schema.type) {
+        case Type.ARRAY: {
+            const count = schema.maxItems ? Math.min(5, Number(schema.maxItems)) : 5;
+            return Array.from({ length: count }, (_, i) => buildFromSchema(schema.items ?? { type: Type.STRING }, seed + i + 1, label));
+        }
+        case Type.OBJECT: {
+            const result: Record<string, unknown> = {};
+            Object.entries(schema.properties ?? {}).forEach(([key, property], i) => {
+                result[key] = buildFromSchema(property, seed + i, key);
+            });
+            return result;
+        }
+        case Type.NUMBER:
+        case Type.INTEGER:
+            return seed % 100;
+        case Type.BOOLEAN:
+            return seed % 2 === 0;
+        case Type.STRING:
+        default:
+            if (schema.enum && schema.enum.length > 0) {
+                return schema.enum[seed % schema.enum.length];
+            }
+            return `Mock ${label} ${seed % 1000}`;
+    }
+};
+
+const aspectRatioDimensions: Record<ImageAspectRatio, [number, number]> = {
+    [ImageAspectRatio.Square]: [1024, 1024],
+    [ImageAspectRatio.Landscape]: [1280, 720],
+    [ImageAspectRatio.Portrait]: [768, 1024],
+};
+
+export const mockProvider: LlmProvider = {
+    id: 'mock',
+
+    async generateText({ prompt, useSearch }: TextRequest): Promise<TextResponse> {
+        await delay();
+        // Image posts parse two delimited tasks out of a single response.
+        if (prompt.includes('TASK 2: Create a prompt for an image generation model.')) {
+            return {
+                text: `TASK 1: Generate a LinkedIn post text.\n${buildMarkdown(prompt)}\nTASK 2: Create a prompt for an image generation model.\n"""An abstract illustration of ${extractSubject(prompt)}"""`,
+            };
+        }
+        const result: TextResponse = { text: buildMarkdown(prompt) };
+        if (useSearch) {
+            result.sources = [{ uri: 'https://example.com/mock-source', title: 'Mock Source' }];
+        }
+        return result;
+    },
+
+    async *streamText(request: TextRequest, signal?: AbortSignal): AsyncIterable<TextResponse> {
+        const { text, sources } = await this.generateText(request);
+        // Split on whitespace but keep it, so the concatenated chunks reproduce the text exactly.
+        const tokens = text.split(/(\s+)/);
+        for (let i = 0; i < tokens.length; i += MOCK_STREAM_CHUNK_WORDS * 2) {
+            if (signal?.aborted) return;
+            await delay(40);
+            yield { text: tokens.slice(i, i + MOCK_STREAM_CHUNK_WORDS * 2).join('') };
+        }
+        if (sources) {
+            yield { text: '', sources };
+        }
+    },
+
+    async generateJson({ prompt, schema }: JsonRequest): Promise<string> {
+        await delay();
+        return JSON.stringify(buildFromSchema(schema, hashString(prompt), 'item'));
+    },
+
+    async generateImage({ prompt, aspectRatio }: ImageRequest): Promise<string> {
+        await delay();
+        const [width, height] = aspectRatioDimensions[aspectRatio] ?? aspectRatioDimensions[ImageAspectRatio.Square];
+        const hue = hashString(prompt) % 360;
+        const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}"><defs><linearGradient id="g" x1="0" y1="0" x2="1" y2="1"><stop offset="0" stop-color="hsl(${hue},70%,35%)"/><stop offset="1" stop-color="hsl(${(hue + 60) % 360},70%,15%)"/></linearGradient></defs><rect width="100%" height="100%" fill="url(#g)"/></svg>`;
+        return `data:image/svg+xml;base64,${btoa(svg)}`;
+    },
+
+    async startVideoJob({ prompt }: VideoRequest): Promise<string> {
+        await delay();
+        // The start time is encoded in the name so a resumed job still knows when it will finish.
+        return `mock/operations/${hashString(prompt).toString(16)}-${Date.now()}`;
+    },
+
+    async getVideoJob(operationName: string): Promise<VideoJobPoll> {
+        await delay();
+        const startedAt = Number(operationName.split('-').pop());
+        if (Date.now() - startedAt < MOCK_VIDEO_DURATION_MS) {
+            return { done: false };
+        }
+        // There is no way to synthesize a playable clip offline; an empty MP4 keeps the UI flow intact.
+        return { done: true, videoUrl: 'data:video/mp4;base64,' };
+    },
+
+    async embed(text: string): Promise<number[]> {
+        // Hashed bag-of-words so that texts sharing vocabulary end up close in vector space.
+        const vector = new Array<number>(EMBEDDING_DIMENSIONS).fill(0);
+        text.toLowerCase().split(/[^a-z0-9]+/).filter(w => w.length > 2).forEach(word => {
+            vector[hashString(word) % EMBEDDING_DIMENSIONS] += 1;
+        });
+        return vector;
+    },
+};
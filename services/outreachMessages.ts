@@ -0,0 +1,81 @@
+import { GenerationType } from '../types';
+import { countLinkedInCharacters } from './linkedinFormatter';
+
+export interface MessageLimits {
+    /** Where the message gets pasted, shown next to the character counts. */
+    platform: string;
+    body: number;
+    subject?: number;
+    /** The platform refuses anything longer, so generated text is cut to fit rather than only flagged. */
+    hard?: boolean;
+}
+
+export interface MessageLimitCheck {
+    label: 'Subject' | 'Message';
+    count: number;
+    max: number;
+}
+
+// Counted on the text exactly as it is pasted, the same way LinkedIn counts it.
+export const messageLimits: Partial<Record<GenerationType, MessageLimits>> = {
+    [GenerationType.CoverLetter]: { platform: 'Application form', body: 3000 },
+    [GenerationType.ConnectionRequest]: { platform: 'LinkedIn connection note', body: 300, hard: true },
+    [GenerationType.RecruiterInMail]: { platform: 'LinkedIn InMail', subject: 200, body: 1900 },
+    [GenerationType.ReferralRequest]: { platform: 'LinkedIn message', body: 8000 },
+};
+
+export const outreachGenerationTypes = Object.keys(messageLimits) as GenerationType[];
+
+export const isOutreachType = (type: GenerationType): boolean => outreachGenerationTypes.includes(type);
+
+const SUBJECT_LINE = /^\s*(?:\*\*)?Subject:(?:\*\*)?[ \t]*(.*)\r?\n/i;
+
+/** Separates an InMail's leading "Subject:" line from its body. */
+export const splitSubject = (text: string): { subject: string | null; body: string } => {
+    const match = text.match(SUBJECT_LINE);
+    if (!match) {
+        return { subject: null, body: text.trim() };
+    }
+    return { subject: match[1].replace(/\*\*/g, '').trim(), body: text.slice(match[0].length).trim() };
+};
+
+export const joinSubject = (subject: string | null, body: string): string => {
+    return subject === null ? body : `Subject: ${subject}\n\n${body}`;
+};
+
+/** The character count of each limited part of the message, subject first. */
+export const checkMessageLimits = (type: GenerationType, text: string): MessageLimitCheck[] => {
+    const limits = messageLimits[type];
+    if (!limits) return [];
+
+    const checks: MessageLimitCheck[] = [];
+    const { subject, body } = limits.subject ? splitSubject(text) : { subject: null, body: text.trim() };
+    if (limits.subject) {
+        checks.push({ label: 'Subject', count: countLinkedInCharacters(subject ?? ''), max: limits.subject });
+    }
+    checks.push({ label: 'Message', count: countLinkedInCharacters(body), max: limits.body });
+    return checks;
+};
+
+export const isWithinLimits = (checks: MessageLimitCheck[]): boolean => checks.every(check => check.count <= check.max);
+
+/** Cuts text to at most `maxChars`, ending on a whole word with an ellipsis. */
+export const truncateAtWord = (text: string, maxChars: number): string => {
+    if (text.length <= maxChars) return text;
+    const cut = text.slice(0, maxChars - 1);
+    const lastSpace = cut.search(/\s\S*$/);
+    const words = lastSpace > maxChars * 0.6 ? cut.slice(0, lastSpace) : cut;
+    return `${words.replace(/[\s,;:.-]+$/, '')}…`;
+};
+
+/** Cuts every part of the message that is still over its limit. */
+export const fitToLimits = (type: GenerationType, text: string): string => {
+    const limits = messageLimits[type];
+    if (!limits) return text;
+
+    if (!limits.subject) {
+        return truncateAtWord(text.trim(), limits.body);
+    }
+    const { subject, body } = splitSubject(text);
+    return joinSubject(subject === null ? null : truncateAtWord(subject, limits.subject), truncateAtWord(body, limits.body));
+};
@@ -0,0 +1,820 @@
+import jsPDF from 'jspdf';
+import { marked, Token, Tokens } from 'marked';
+import { BrandKit, TextOverlayFont } from '../types';
+import { RTL_CHARACTERS, TextDirection, detectTextDirection } from './language';
+
+// Lays out Markdown as real PDF text (selectable, searchable and small) rather than page screenshots.
+
+type Script = 'arabic' | 'hebrew';
+type FontRole = 'body' | 'heading' | 'mono' | Script;
+type FontStyle = 'normal' | 'bold' | 'italic' | 'bolditalic';
+type Color = [number, number, number];
+
+interface RunStyle {
+    bold?: boolean;
+    italic?: boolean;
+    mono?: boolean;
+    strike?: boolean;
+    link?: string;
+}
+
+interface TextRun extends RunStyle {
+    text: string;
+}
+
+interface Fragment {
+    run: TextRun;
+    role: FontRole;
+    text: string;
+    width: number;
+}
+
+interface Line {
+    fragments: Fragment[];
+    width: number;
+}
+
+interface BlockContext {
+    indent: number;
+    quote: boolean;
+}
+
+// A4 in points
+const PAGE_WIDTH = 595.28;
+const PAGE_HEIGHT = 841.89;
+const MARGIN_X = 56;
+const MARGIN_TOP = 56;
+const MARGIN_BOTTOM = 84; // leaves room for the footer
+const CONTENT_WIDTH = PAGE_WIDTH - MARGIN_X * 2;
+
+const BODY_SIZE = 10.5;
+const BODY_LINE_HEIGHT = 16;
+const CODE_SIZE = 8.5;
+const CODE_LINE_HEIGHT = 12;
+const LIST_INDENT = 16;
+const QUOTE_INDENT = 14;
+const HEADING_SIZES = [22, 17, 14, 12, 11, 11];
+const AVATAR_SIZE = 28;
+const LOGO_HEIGHT = 28;
+
+interface Palette {
+    text: Color;
+    heading: Color;
+    muted: Color;
+    link: Color;
+    accent: Color;
+    codeBackground: Color;
+    border: Color;
+    tableHeader: Color;
+}
+
+const hexToRgb = (hex: string, fallback: Color): Color => {
+    const match = hex.trim().match(/^#?([0-9a-f]{6}|[0-9a-f]{3})$/i);
+    if (!match) return fallback;
+    const digits = match[1].length === 3 ? match[1].split('').map(d => d + d).join('') : match[1];
+    return [0, 2, 4].map(i => parseInt(digits.slice(i, i + 2), 16)) as Color;
+};
+
+const createPalette = (brandKit: BrandKit): Palette => ({
+    text: [55, 65, 81],
+    heading: [17, 24, 39],
+    muted: [107, 114, 128],
+    link: hexToRgb(brandKit.primaryColor, [37, 99, 235]),
+    accent: hexToRgb(brandKit.secondaryColor, [209, 213, 219]),
+    codeBackground: [243, 244, 246],
+    border: [209, 213, 219],
+    tableHeader: [249, 250, 251],
+});
+
+// Fonts are fetched from Fontsource and embedded in every PDF, so the output looks the
+// same everywhere. If they can't be fetched, the standard PDF fonts are used instead when
+// the text is all Latin-1.
+const FONTSOURCE_CDN = 'https://cdn.jsdelivr.net/fontsource/fonts';
+
+interface FontFamilySource {
+    id: string;
+    version: string; // Pinned, so the same document always exports with the same glyphs
+    subset?: string; // 'latin' unless set
+    pdfName: string;
+    styles: FontStyle[];
+    fallback: string;
+}
+
+const BRAND_FONT_SOURCES: Record<TextOverlayFont, FontFamilySource> = {
+    'Inter': { id: 'inter', version: '5.3.0', pdfName: 'Inter', styles: ['normal', 'bold', 'italic', 'bolditalic'], fallback: 'helvetica' },
+    'Roboto Slab': { id: 'roboto-slab', version: '5.3.0', pdfName: 'RobotoSlab', styles: ['normal', 'bold'], fallback: 'times' },
+    'Playfair Display': { id: 'playfair-display', version: '5.3.0', pdfName: 'PlayfairDisplay', styles: ['normal', 'bold', 'italic', 'bolditalic'], fallback: 'times' },
+};
+
+const MONO_FONT_SOURCE: FontFamilySource = { id: 'jetbrains-mono', version: '5.3.0', pdfName: 'JetBrainsMono', styles: ['normal', 'bold'], fallback: 'courier' };
+
+// The brand fonts only cover Latin, so words in these scripts are set in a Noto face made for them.
+const SCRIPT_FONT_SOURCES: Record<Script, FontFamilySource> = {
+    arabic: { id: 'noto-sans-arabic', version: '5.3.0', subset: 'arabic', pdfName: 'NotoSansArabic', styles: ['normal', 'bold'], fallback: 'helvetica' },
+    hebrew: { id: 'noto-sans-hebrew', version: '5.3.0', subset: 'hebrew', pdfName: 'NotoSansHebrew', styles: ['normal', 'bold'], fallback: 'helvetica' },
+};
+
+const SCRIPT_CHARACTERS: Record<Script, RegExp> = {
+    arabic: /[\u0600-\u06FF\u0750-\u077F\u08A0-\u08FF\uFB50-\uFDFF\uFE70-\uFEFF]/,
+    hebrew: /[\u0590-\u05FF\uFB1D-\uFB4F]/,
+};
+
+const SCRIPTS = Object.keys(SCRIPT_FONT_SOURCES) as Script[];
+
+interface ResolvedFont {
+    family: string;
+    styles: Set<FontStyle>;
+    embedded: boolean;
+}
+
+const fontFileCache = new Map<string, Promise<string | null>>();
+
+const arrayBufferToBase64 = (buffer: ArrayBuffer): string => {
+    const bytes = new Uint8Array(buffer);
+    let binary = '';
+    const chunkSize = 0x8000;
+    for (let i = 0; i < bytes.length; i += chunkSize) {
+        binary += String.fromCharCode(...bytes.subarray(i, i + chunkSize));
+    }
+    return btoa(binary);
+};
+
+const getFontPath = (source: FontFamilySource, style: FontStyle): string => {
+    const weight = style.startsWith('bold') ? 700 : 400;
+    const slant = style.endsWith('italic') ? 'italic' : 'normal';
+    return `${source.id}@${source.version}/${source.subset ?? 'latin'}-${weight}-${slant}.ttf`;
+};
+
+/** Fetches a font file once per session, resolving to null if it can't be loaded. */
+const loadFontFile = (path: string): Promise<string | null> => {
+    let file = fontFileCache.get(path);
+    if (!file) {
+        file = fetch(`${FONTSOURCE_CDN}/${path}`)
+            .then(async response => {
+                if (!response.ok) throw new Error(`HTTP ${response.status} for ${path}`);
+                return arrayBufferToBase64(await response.arrayBuffer());
+            })
+            .catch(error => {
+                console.warn("Could not load a PDF font, falling back to a standard font:", error);
+                fontFileCache.delete(path); // Retry on the next export (e.g. after going back online)
+                return null;
+            });
+        fontFileCache.set(path, file);
+    }
+    return file;
+};
+
+const registerFontFamily = async (doc: jsPDF, source: FontFamilySource, requiredStyle: FontStyle): Promise<ResolvedFont> => {
+    const files = await Promise.all(source.styles.map(style => loadFontFile(getFontPath(source, style))));
+    const loaded = source.styles.filter((_, i) => files[i] !== null);
+    // A family is only used if the face the role depends on loaded.
+    if (!loaded.includes(requiredStyle)) {
+        return { family: source.fallback, styles: new Set(['normal', 'bold', 'italic', 'bolditalic']), embedded: false };
+    }
+    const fontList = doc.getFontList()[source.pdfName] ?? [];
+    source.styles.forEach((style, i) => {
+        if (files[i] === null || fontList.includes(style)) return;
+        const fileName = getFontPath(source, style).replace(/[@/]/g, '-');
+        doc.addFileToVFS(fileName, files[i]!);
+        doc.addFont(fileName, source.pdfName, style);
+    });
+    return { family: source.pdfName, styles: new Set(loaded), embedded: true };
+};
+
+// Script fonts are only present when the document has text in that script.
+type FontSet = Record<'body' | 'heading' | 'mono', ResolvedFont> & Partial<Record<Script, ResolvedFont>>;
+
+const registerFonts = async (doc: jsPDF, brandKit: BrandKit, markdown: string): Promise<FontSet> => {
+    const body = await registerFontFamily(doc, BRAND_FONT_SOURCES[brandKit.bodyFont] ?? BRAND_FONT_SOURCES['Inter'], 'normal');
+    const heading = await registerFontFamily(doc, BRAND_FONT_SOURCES[brandKit.headingFont] ?? BRAND_FONT_SOURCES['Playfair Display'], 'bold');
+    const mono = await registerFontFamily(doc, MONO_FONT_SOURCE, 'normal');
+    const fonts: FontSet = { body, heading, mono };
+    for (const script of SCRIPTS) {
+        if (SCRIPT_CHARACTERS[script].test(markdown)) {
+            fonts[script] = await registerFontFamily(doc, SCRIPT_FONT_SOURCES[script], 'normal');
+        }
+    }
+    // The standard fonts would print everything outside Latin-1 as "?", so that is refused rather than exported.
+    const missingFont = Object.values(fonts).some(font => font && !font.embedded);
+    if (missingFont && NON_LATIN1_CHARACTER.test(stripUnsupportedCharacters(markdown))) {
+        throw new Error("The fonts for this document's characters couldn't be downloaded. Check your connection and try again.");
+    }
+    return fonts;
+};
+
+const getImageFormat = (dataUrl: string): string => {
+    return /^data:image\/jpe?g/i.test(dataUrl) ? 'JPEG' : 'PNG';
+};
+
+const unescapeHtml = (text: string): string => {
+    return text
+        .replace(/&lt;/g, '<')
+        .replace(/&gt;/g, '>')
+        .replace(/&quot;/g, '"')
+        .replace(/&#39;/g, "'")
+        .replace(/&amp;/g, '&');
+};
+
+// The standard PDF fonts only cover Latin-1, plus the typographic punctuation they map into it.
+const NON_LATIN1_CHARACTER = /[^\x00-\xFF–—‘’“”•…]/;
+
+// The embedded fonts have no emoji glyphs, so emoji would print as empty boxes.
+const stripUnsupportedCharacters = (text: string): string => {
+    return text.replace(/[\p{Extended_Pictographic}\u200D\uFE0F]/gu, '');
+};
+
+const flattenInline = (tokens: Token[], style: RunStyle = {}): TextRun[] => {
+    return tokens.flatMap((token): TextRun[] => {
+        switch (token.type) {
+            case 'strong':
+                return flattenInline((token as Tokens.Strong).tokens, { ...style, bold: true });
+            case 'em':
+                return flattenInline((token as Tokens.Em).tokens, { ...style, italic: true });
+            case 'del':
+                return flattenInline((token as Tokens.Del).tokens, { ...style, strike: true });
+            case 'link':
+                return flattenInline((token as Tokens.Link).tokens, { ...style, link: (token as Tokens.Link).href });
+            case 'codespan':
+                return [{ ...style, mono: true, text: unescapeHtml((token as Tokens.Codespan).text) }];
+            case 'br':
+                return [{ ...style, text: '\n' }];
+            case 'image':
+                return [{ ...style, link: (token as Tokens.Image).href, text: `[Image: ${(token as Tokens.Image).text || 'untitled'}]` }];
+            case 'html':
+                return [{ ...style, text: unescapeHtml((token as Tokens.HTML).text.replace(/<[^>]*>/g, '')) }];
+            case 'text':
+            case 'escape': {
+                const textToken = token as Tokens.Text;
+                return textToken.tokens ? flattenInline(textToken.tokens, style) : [{ ...style, text: unescapeHtml(textToken.text) }];
+            }
+            default:
+                return [{ ...style, text: 'raw' in token ? token.raw : '' }];
+        }
+    });
+};
+
+class MarkdownPdfRenderer {
+    private y = MARGIN_TOP;
+
+    private colors: Palette;
+
+    private rtl: boolean;
+
+    constructor(private doc: jsPDF, private fonts: FontSet, private brandKit: BrandKit, direction: TextDirection) {
+        this.colors = createPalette(brandKit);
+        this.rtl = direction === 'rtl';
+    }
+
+    private getFont(role: FontRole): ResolvedFont {
+        return this.fonts[role] ?? this.fonts.body;
+    }
+
+    private applyFont(role: FontRole, style: FontStyle, size: number) {
+        const font = this.getFont(role);
+        let resolvedStyle = style;
+        if (!font.styles.has(resolvedStyle)) resolvedStyle = style === 'bolditalic' && font.styles.has('bold') ? 'bold' : 'normal';
+        if (!font.styles.has(resolvedStyle)) resolvedStyle = Array.from(font.styles)[0];
+        this.doc.setFont(font.family, resolvedStyle);
+        this.doc.setFontSize(size);
+    }
+
+    /** The role a word is set in: its script's font if it is written in one, otherwise the run's. */
+    private resolveRole(run: TextRun, baseRole: FontRole, word: string): FontRole {
+        const script = SCRIPTS.find(s => this.fonts[s] && SCRIPT_CHARACTERS[s].test(word));
+        return script ?? (run.mono ? 'mono' : baseRole);
+    }
+
+    private applyRunFont(run: TextRun, size: number, baseRole: FontRole, role: FontRole = run.mono ? 'mono' : baseRole) {
+        const style: FontStyle = run.bold && run.italic ? 'bolditalic' : run.bold ? 'bold' : run.italic ? 'italic' : 'normal';
+        const heading = role === 'heading' || (baseRole === 'heading' && role !== 'mono');
+        this.applyFont(role, heading ? 'bold' : style, run.mono ? size * 0.9 : size);
+    }
+
+    private clean(text: string, role: FontRole): string {
+        const stripped = stripUnsupportedCharacters(text);
+        return this.getFont(role).embedded ? stripped : stripped.replace(new RegExp(NON_LATIN1_CHARACTER, 'g'), '?');
+    }
+
+    /** Where a block indented by `indent` starts: indents come from the right in right-to-left text. */
+    private blockX(indent: number): number {
+        return this.rtl ? MARGIN_X : MARGIN_X + indent;
+    }
+
+    private ensureSpace(height: number) {
+        if (this.y + height > PAGE_HEIGHT - MARGIN_BOTTOM) {
+            this.doc.addPage();
+            this.y = MARGIN_TOP;
+        }
+    }
+
+    private get pageNumber(): number {
+        return this.doc.getCurrentPageInfo().pageNumber;
+    }
+
+    /** Greedy word wrap across runs of mixed styles. */
+    private layout(runs: TextRun[], maxWidth: number, fontSize: number, baseRole: FontRole): Line[] {
+        const lines: Line[] = [];
+        let current: Line = { fragments: [], width: 0 };
+
+        const pushLine = () => {
+            while (current.fragments.length > 0 && current.fragments[current.fragments.length - 1].text === ' ') {
+                current.width -= current.fragments.pop()!.width;
+            }
+            lines.push(current);
+            current = { fragments: [], width: 0 };
+        };
+
+        const addFragment = (run: TextRun, role: FontRole, text: string, width: number) => {
+            current.fragments.push({ run, role, text, width });
+            current.width += width;
+        };
+
+        runs.forEach(run => {
+            const runRole = run.mono ? 'mono' : baseRole;
+            run.text.split('\n').forEach((segment, segmentIndex) => {
+                if (segmentIndex > 0) pushLine();
+                segment.split(/(\s+)/).forEach(rawWord => {
+                    if (!rawWord) return;
+                    if (/^\s+$/.test(rawWord)) {
+                        this.applyRunFont(run, fontSize, baseRole, runRole);
+                        if (current.fragments.length > 0) addFragment(run, runRole, ' ', this.doc.getTextWidth(' '));
+                        return;
+                    }
+                    const role = this.resolveRole(run, baseRole, rawWord);
+                    const word = this.clean(rawWord, role);
+                    if (!word) return;
+                    this.applyRunFont(run, fontSize, baseRole, role);
+                    let width = this.doc.getTextWidth(word);
+                    if (current.width + width > maxWidth && current.fragments.length > 0) {
+                        pushLine();
+                    }
+                    if (width <= maxWidth) {
+                        addFragment(run, role, word, width);
+                        return;
+                    }
+                    // Break words that are wider than the line (long URLs, identifiers) by character.
+                    let chunk = '';
+                    for (const char of word) {
+                        if (chunk && current.width + this.doc.getTextWidth(chunk + char) > maxWidth) {
+                            addFragment(run, role, chunk, this.doc.getTextWidth(chunk));
+                            pushLine();
+                            chunk = char;
+                        } else {
+                            chunk += char;
+                        }
+                    }
+                    width = this.doc.getTextWidth(chunk);
+                    addFragment(run, role, chunk, width);
+                });
+            });
+        });
+        if (current.fragments.length > 0) pushLine();
+        return lines;
+    }
+
+    /**
+     * Puts a right-to-left line's fragments in the order they appear from left to right. Words run from
+     * right to left, but a stretch of left-to-right words (names, terms, numbers) still reads left to right.
+     */
+    private toVisualOrder(fragments: Fragment[]): Fragment[] {
+        const segments: Array<{ ltr: boolean; fragments: Fragment[] }> = [];
+        fragments.forEach(fragment => {
+            const ltr = fragment.text.trim() !== '' && !RTL_CHARACTERS.test(fragment.text);
+            const last = segments[segments.length - 1];
+            const beforeLast = segments[segments.length - 2];
+            if (ltr && last?.ltr) {
+                last.fragments.push(fragment);
+            } else if (ltr && last && last.fragments[0].text === ' ' && beforeLast?.ltr) {
+                // A space between two left-to-right words belongs to their stretch.
+                segments.pop();
+                beforeLast.fragments.push(...last.fragments, fragment);
+            } else {
+                segments.push({ ltr, fragments: [fragment] });
+            }
+        });
+        return segments.reverse().flatMap(segment => segment.fragments);
+    }
+
+    private drawLine(line: Line, x: number, baseline: number, fontSize: number, baseRole: FontRole, color: Color) {
+        // Merge neighbouring fragments of the same run so each styled span is one text object and one link.
+        // Right-to-left words are drawn one by one, since jsPDF reorders the characters of each text object.
+        const fragments = this.rtl ? this.toVisualOrder(line.fragments) : line.fragments;
+        const groups: Fragment[] = [];
+        fragments.forEach(fragment => {
+            const last = groups[groups.length - 1];
+            if (!this.rtl && last && last.run === fragment.run && last.role === fragment.role) {
+                last.text += fragment.text;
+                last.width += fragment.width;
+            } else {
+                groups.push({ ...fragment });
+            }
+        });
+
+        let cursor = x;
+        groups.forEach(({ run, role, text, width }) => {
+            this.applyRunFont(run, fontSize, baseRole, role);
+            if (run.mono) {
+                this.doc.setFillColor(...this.colors.codeBackground);
+                this.doc.rect(cursor - 1, baseline - fontSize * 0.8, width + 2, fontSize * 1.05, 'F');
+            }
+            this.doc.setTextColor(...(run.link ? this.colors.link : color));
+            this.doc.text(text, cursor, baseline);
+            if (run.link) {
+                this.doc.setDrawColor(...this.colors.link);
+                this.doc.setLineWidth(0.5);
+                this.doc.line(cursor, baseline + 1.5, cursor + width, baseline + 1.5);
+                this.doc.link(cursor, baseline - fontSize * 0.8, width, fontSize * 1.1, { url: run.link });
+            }
+            if (run.strike) {
+                this.doc.setDrawColor(...color);
+                this.doc.setLineWidth(0.5);
+                this.doc.line(cursor, baseline - fontSize * 0.3, cursor + width, baseline - fontSize * 0.3);
+            }
+            cursor += width;
+        });
+    }
+
+    /**
+     * Wraps and draws inline runs, breaking onto new pages as needed.
+     * @param onFirstLine Draws a marker (bullet, number) level with the first line's baseline.
+     */
+    private renderInline(
+        runs: TextRun[],
+        x: number,
+        width: number,
+        options: { fontSize: number; lineHeight: number; color: Color; role?: FontRole; align?: 'left' | 'center' | 'right'; onFirstLine?: (baseline: number) => void }
+    ) {
+        const { fontSize, lineHeight, color, role = 'body', align = this.rtl ? 'right' : 'left', onFirstLine } = options;
+        const lines = this.layout(runs, width, fontSize, role);
+        lines.forEach((line, index) => {
+            this.ensureSpace(lineHeight);
+            const baseline = this.y + (lineHeight + fontSize * 0.7) / 2;
+            if (index === 0) onFirstLine?.(baseline);
+            const offset = align === 'right' ? width - line.width : align === 'center' ? (width - line.width) / 2 : 0;
+            this.drawLine(line, x + offset, baseline, fontSize, role, color);
+            this.y += lineHeight;
+        });
+    }
+
+    /**
+     * Draws an image scaled to the given height.
+     * @returns The drawn width, or 0 if the image couldn't be embedded.
+     */
+    private drawImage(dataUrl: string, x: number, y: number, height: number, align: 'left' | 'right' = 'left'): number {
+        try {
+            const { width: imageWidth, height: imageHeight } = this.doc.getImageProperties(dataUrl);
+            const width = (imageWidth / imageHeight) * height;
+            this.doc.addImage(dataUrl, getImageFormat(dataUrl), align === 'right' ? x - width : x, y, width, height);
+            return width;
+        } catch (error) {
+            console.error("Failed to embed brand image in PDF:", error);
+            return 0;
+        }
+    }
+
+    /** Draws the logo, the optional title and the author byline at the top of the first page. */
+    renderHeader(title: Token[] | null) {
+        const { authorName, headline, profileUrl, avatarDataUrl, logoDataUrl } = this.brandKit;
+        // The logo sits opposite the title, and the avatar on the side the byline starts from.
+        const logoWidth = !logoDataUrl ? 0 : this.rtl
+            ? this.drawImage(logoDataUrl, MARGIN_X, MARGIN_TOP, LOGO_HEIGHT)
+            : this.drawImage(logoDataUrl, PAGE_WIDTH - MARGIN_X, MARGIN_TOP, LOGO_HEIGHT, 'right');
+        if (!title && !authorName && !logoWidth) return;
+
+        if (title) {
+            const titleWidth = logoWidth ? CONTENT_WIDTH - logoWidth - 12 : CONTENT_WIDTH;
+            const titleX = this.rtl ? PAGE_WIDTH - MARGIN_X - titleWidth : MARGIN_X;
+            this.renderInline(flattenInline(title), titleX, titleWidth, { fontSize: 26, lineHeight: 32, color: this.colors.heading, role: 'heading' });
+            this.y += 6;
+        }
+
+        if (authorName) {
+            const top = this.y;
+            const avatarWidth = !avatarDataUrl ? 0 : this.rtl
+                ? this.drawImage(avatarDataUrl, PAGE_WIDTH - MARGIN_X, top, AVATAR_SIZE, 'right')
+                : this.drawImage(avatarDataUrl, MARGIN_X, top, AVATAR_SIZE);
+            const textWidth = avatarWidth ? CONTENT_WIDTH - avatarWidth - 8 : CONTENT_WIDTH;
+            const textX = this.rtl ? MARGIN_X : PAGE_WIDTH - MARGIN_X - textWidth;
+            const byline: TextRun[] = [{ text: `By ${authorName}`, bold: true }];
+            if (headline) byline.push({ text: ` · ${headline}` });
+            this.renderInline(byline, textX, textWidth, { fontSize: 9.5, lineHeight: 14, color: this.colors.muted });
+            if (profileUrl) {
+                this.renderInline([{ text: profileUrl, link: profileUrl }], textX, textWidth, { fontSize: 8.5, lineHeight: 14, color: this.colors.muted });
+            }
+            if (avatarWidth) this.y = Math.max(this.y, top + AVATAR_SIZE);
+        }
+
+        this.y = Math.max(this.y, logoWidth ? MARGIN_TOP + LOGO_HEIGHT : 0) + 10;
+        this.doc.setDrawColor(...this.colors.link);
+        this.doc.setLineWidth(1.5);
+        this.doc.line(MARGIN_X, this.y, PAGE_WIDTH - MARGIN_X, this.y);
+        this.y += 24;
+    }
+
+    renderTokens(tokens: Token[], context: BlockContext = { indent: 0, quote: false }) {
+        tokens.forEach(token => this.renderBlock(token, context));
+    }
+
+    private renderBlock(token: Token, context: BlockContext) {
+        const x = this.blockX(context.indent);
+        const width = CONTENT_WIDTH - context.indent;
+        const color = context.quote ? this.colors.muted : this.colors.text;
+        const quoteStyle: RunStyle = context.quote ? { italic: true } : {};
+
+        switch (token.type) {
+            case 'heading':
+                this.renderHeading(token as Tokens.Heading, x, width);
+                break;
+            case 'paragraph':
+            case 'text': {
+                const inline = (token as Tokens.Paragraph).tokens ?? [token];
+                this.renderInline(flattenInline(inline, quoteStyle), x, width, { fontSize: BODY_SIZE, lineHeight: BODY_LINE_HEIGHT, color });
+                this.y += BODY_SIZE * 0.7;
+                break;
+            }
+            case 'list':
+                this.renderList(token as Tokens.List, context);
+                this.y += BODY_SIZE * 0.4;
+                break;
+            case 'code':
+                this.renderCode(token as Tokens.Code, x, width);
+                break;
+            case 'blockquote':
+                this.renderBlockquote(token as Tokens.Blockquote, context);
+                break;
+            case 'table':
+                this.renderTable(token as Tokens.Table, x, width);
+                break;
+            case 'hr':
+                this.ensureSpace(16);
+                this.y += 8;
+                this.doc.setDrawColor(...this.colors.border);
+                this.doc.setLineWidth(0.75);
+                this.doc.line(x, this.y, x + width, this.y);
+                this.y += 12;
+                break;
+            case 'html': {
+                const text = (token as Tokens.HTML).text.replace(/<[^>]*>/g, '').trim();
+                if (text) {
+                    this.renderInline([{ ...quoteStyle, text: unescapeHtml(text) }], x, width, { fontSize: BODY_SIZE, lineHeight: BODY_LINE_HEIGHT, color });
+                    this.y += BODY_SIZE * 0.7;
+                }
+                break;
+            }
+            case 'space':
+            case 'def':
+            default:
+                break;
+        }
+    }
+
+    private renderHeading(token: Tokens.Heading, x: number, width: number) {
+        const fontSize = HEADING_SIZES[Math.min(token.depth, 6) - 1];
+        const lineHeight = fontSize * 1.3;
+        // Keep a heading together with at least two lines of the text that follows it.
+        this.ensureSpace(fontSize * 0.8 + lineHeight + BODY_LINE_HEIGHT * 2);
+        if (this.y > MARGIN_TOP) this.y += fontSize * 0.8;
+        this.renderInline(flattenInline(token.tokens), x, width, {
+            fontSize,
+            lineHeight,
+            color: this.colors.heading,
+            role: token.depth <= 2 ? 'heading' : 'body',
+        });
+        this.y += fontSize * 0.35;
+    }
+
+    private renderList(list: Tokens.List, context: BlockContext) {
+        const start = typeof list.start === 'number' ? list.start : 1;
+        const x = this.blockX(context.indent);
+        const contentX = this.rtl ? x : x + LIST_INDENT;
+        const itemContext: BlockContext = { ...context, indent: context.indent + LIST_INDENT };
+        const color = context.quote ? this.colors.muted : this.colors.text;
+
+        list.items.forEach((item, index) => {
+            const marker = item.task ? (item.checked ? '[x]' : '[ ]') : list.ordered ? `${start + index}.` : '•';
+            const drawMarker = (baseline: number) => {
+                this.applyFont('body', list.ordered ? 'bold' : 'normal', BODY_SIZE);
+                this.doc.setTextColor(...color);
+                if (this.rtl) {
+                    this.doc.text(this.clean(marker, 'body'), PAGE_WIDTH - MARGIN_X - context.indent - LIST_INDENT + 6, baseline);
+                } else {
+                    this.doc.text(this.clean(marker, 'body'), x + LIST_INDENT - 6, baseline, { align: 'right' });
+                }
+            };
+
+            let markerDrawn = false;
+            item.tokens.forEach(child => {
+                if (!markerDrawn && (child.type === 'text' || child.type === 'paragraph')) {
+                    const inline = (child as Tokens.Text).tokens ?? [child];
+                    this.renderInline(flattenInline(inline, context.quote ? { italic: true } : {}), contentX, CONTENT_WIDTH - itemContext.indent, {
+                        fontSize: BODY_SIZE,
+                        lineHeight: BODY_LINE_HEIGHT,
+                        color,
+                        onFirstLine: drawMarker,
+                    });
+                    if (item.loose) this.y += BODY_SIZE * 0.4;
+                    markerDrawn = true;
+                    return;
+                }
+                if (!markerDrawn) {
+                    this.ensureSpace(BODY_LINE_HEIGHT);
+                    drawMarker(this.y + (BODY_LINE_HEIGHT + BODY_SIZE * 0.7) / 2);
+                    markerDrawn = true;
+                }
+                if (child.type === 'list') {
+                    this.renderList(child as Tokens.List, itemContext);
+                } else {
+                    this.renderBlock(child, itemContext);
+                }
+            });
+        });
+    }
+
+    private renderCode(token: Tokens.Code, x: number, width: number) {
+        const padding = 8;
+        this.applyFont('mono', 'normal', CODE_SIZE);
+        const maxWidth = width - padding * 2;
+
+        const lines: string[] = [];
+        this.clean(token.text, 'mono').replace(/\t/g, '    ').split('\n').forEach(sourceLine => {
+            let current = '';
+            for (const char of sourceLine) {
+                if (this.doc.getTextWidth(current + char) > maxWidth) {
+                    lines.push(current);
+                    current = char;
+                } else {
+                    current += char;
+                }
+            }
+            lines.push(current);
+        });
+
+        const drawBackground = (height: number) => {
+            this.doc.setFillColor(...this.colors.codeBackground);
+            this.doc.rect(x, this.y, width, height, 'F');
+        };
+
+        this.ensureSpace(padding + CODE_LINE_HEIGHT);
+        drawBackground(padding);
+        this.y += padding;
+        lines.forEach(line => {
+            this.ensureSpace(CODE_LINE_HEIGHT);
+            drawBackground(CODE_LINE_HEIGHT);
+            this.applyFont('mono', 'normal', CODE_SIZE);
+            this.doc.setTextColor(...this.colors.heading);
+            this.doc.text(line, x + padding, this.y + CODE_LINE_HEIGHT * 0.75);
+            this.y += CODE_LINE_HEIGHT;
+        });
+        this.ensureSpace(padding);
+        drawBackground(padding);
+        this.y += padding + BODY_SIZE * 0.8;
+    }
+
+    private renderBlockquote(token: Tokens.Blockquote, context: BlockContext) {
+        const barX = this.rtl ? PAGE_WIDTH - MARGIN_X - context.indent - 2 : MARGIN_X + context.indent + 2;
+        const startPage = this.pageNumber;
+        const startY = this.y;
+
+        this.renderTokens(token.tokens, { indent: context.indent + QUOTE_INDENT, quote: true });
+
+        // The quote may span pages; draw its left bar on every page it touches.
+        const endPage = this.pageNumber;
+        const endY = this.y - BODY_SIZE * 0.7;
+        this.doc.setDrawColor(...this.colors.accent);
+        this.doc.setLineWidth(3);
+        for (let page = startPage; page <= endPage; page++) {
+            this.doc.setPage(page);
+            const top = page === startPage ? startY : MARGIN_TOP;
+            const bottom = page === endPage ? endY : PAGE_HEIGHT - MARGIN_BOTTOM;
+            this.doc.line(barX, top, barX, bottom);
+        }
+        this.doc.setPage(endPage);
+    }
+
+    private renderTable(token: Tokens.Table, x: number, width: number) {
+        const padding = 5;
+        const fontSize = 9;
+        const lineHeight = 12.5;
+
+        // Size columns in proportion to their widest cell, scaled to fill the available width.
+        const natural = token.header.map((cell, col) => {
+            const cells = [cell, ...token.rows.map(row => row[col]).filter(Boolean)];
+            this.applyFont('body', 'normal', fontSize);
+            const widest = Math.max(...cells.map(c => this.doc.getTextWidth(this.clean(unescapeHtml(c.text), 'body'))));
+            return Math.max(widest + padding * 2, 40);
+        });
+        const total = natural.reduce((sum, w) => sum + w, 0);
+        const widths = natural.map(w => (w / total) * width);
+
+        const measureRow = (cells: Tokens.TableCell[], bold: boolean) => {
+            const cellLines = cells.map((cell, col) => this.layout(flattenInline(cell.tokens, { bold }), widths[col] - padding * 2, fontSize, 'body'));
+            const height = Math.max(1, ...cellLines.map(lines => lines.length)) * lineHeight + padding * 2;
+            return { cellLines, height };
+        };
+
+        const drawRow = (cells: Tokens.TableCell[], bold: boolean) => {
+            const { cellLines, height } = measureRow(cells, bold);
+            // Columns run from the right in right-to-left text.
+            let cellX = this.rtl ? x + width : x;
+            cellLines.forEach((lines, col) => {
+                if (this.rtl) cellX -= widths[col];
+                if (bold) {
+                    this.doc.setFillColor(...this.colors.tableHeader);
+                    this.doc.rect(cellX, this.y, widths[col], height, 'F');
+                }
+                this.doc.setDrawColor(...this.colors.border);
+                this.doc.setLineWidth(0.5);
+                this.doc.rect(cellX, this.y, widths[col], height, 'S');
+                const align = token.align[col] ?? (this.rtl ? 'right' : 'left');
+                lines.forEach((line, lineIndex) => {
+                    const inner = widths[col] - padding * 2;
+                    const offset = align === 'right' ? inner - line.width : align === 'center' ? (inner - line.width) / 2 : 0;
+                    const baseline = this.y + padding + lineIndex * lineHeight + (lineHeight + fontSize * 0.7) / 2;
+                    this.drawLine(line, cellX + padding + offset, baseline, fontSize, 'body', bold ? this.colors.heading : this.colors.text);
+                });
+                if (!this.rtl) cellX += widths[col];
+            });
+            this.y += height;
+        };
+
+        const headerHeight = measureRow(token.header, true).height;
+        this.ensureSpace(headerHeight + measureRow(token.rows[0] ?? token.header, false).height);
+        drawRow(token.header, true);
+        token.rows.forEach(row => {
+            const { height } = measureRow(row, false);
+            if (this.y + height > PAGE_HEIGHT - MARGIN_BOTTOM) {
+                this.doc.addPage();
+                this.y = MARGIN_TOP;
+                drawRow(token.header, true); // Repeat the header on the new page
+            }
+            drawRow(row, false);
+        });
+        this.y += BODY_SIZE;
+    }
+
+    /** Draws the footer on every page once the page count is known. */
+    renderFooters() {
+        const { authorName, profileUrl, ctaText } = this.brandKit;
+        const pageCount = this.doc.getNumberOfPages();
+        const top = PAGE_HEIGHT - MARGIN_BOTTOM + 20;
+        for (let page = 1; page <= pageCount; page++) {
+            this.doc.setPage(page);
+            this.doc.setDrawColor(...this.colors.accent);
+            this.doc.setLineWidth(1.5);
+            this.doc.line(MARGIN_X, top, PAGE_WIDTH - MARGIN_X, top);
+
+            if (ctaText) {
+                this.applyFont('body', 'bold', 8);
+                this.doc.setTextColor(...this.colors.text);
+                this.doc.text(this.clean(ctaText, 'body'), PAGE_WIDTH / 2, top + 16, { align: 'center' });
+            }
+
+            if (authorName) {
+                const connect: TextRun[] = [{ text: profileUrl ? `Connect with ${authorName}: ` : authorName }];
+                if (profileUrl) connect.push({ text: profileUrl, link: profileUrl });
+                const [connectLine] = this.layout(connect, CONTENT_WIDTH * 0.8, 7.5, 'body');
+                if (connectLine) this.drawLine(connectLine, this.rtl ? PAGE_WIDTH - MARGIN_X - connectLine.width : MARGIN_X, top + 30, 7.5, 'body', this.colors.muted);
+            }
+
+            this.applyFont('body', 'normal', 7.5);
+            this.doc.setTextColor(...this.colors.muted);
+            if (this.rtl) {
+                this.doc.text(`Page ${page} of ${pageCount}`, MARGIN_X, top + 30);
+            } else {
+                this.doc.text(`Page ${page} of ${pageCount}`, PAGE_WIDTH - MARGIN_X, top + 30, { align: 'right' });
+            }
+        }
+    }
+}
+
+/**
+ * Renders Markdown into a paginated A4 PDF with real, selectable text, embedded fonts
+ * and clickable links, branded with the given kit. A leading H1 becomes the document title.
+ * Arabic, Persian and Hebrew get fonts for their script, and mostly right-to-left text is laid out from the right.
+ * @param markdown The Markdown source.
+ * @param brandKit Author details, images, colors, fonts and footer text.
+ * @returns The finished document, ready to `save()`.
+ */
+export const renderMarkdownPdf = async (markdown: string, brandKit: BrandKit): Promise<jsPDF> => {
+    const doc = new jsPDF({ unit: 'pt', format: 'a4', compress: true });
+    const fonts = await registerFonts(doc, brandKit, markdown);
+    const renderer = new MarkdownPdfRenderer(doc, fonts, brandKit, detectTextDirection(markdown));
+
+    const tokens = marked.lexer(markdown);
+    const firstContent = tokens.findIndex(token => token.type !== 'space');
+    const titleToken = tokens[firstContent];
+    let title = '';
+    if (titleToken?.type === 'heading' && (titleToken as Tokens.Heading).depth === 1) {
+        title = flattenInline((titleToken as Tokens.Heading).tokens).map(run => run.text).join('');
+        renderer.renderHeader((titleToken as Tokens.Heading).tokens);
+        tokens.splice(firstContent, 1);
+    } else {
+        renderer.renderHeader(null);
+    }
+
+    renderer.renderTokens(tokens);
+    renderer.renderFooters();
+
+    doc.setProperties({ title: title || 'Document', author: brandKit.authorName });
+    return doc;
+};
@@ -0,0 +1,131 @@
+import { CustomPersona, CustomPersonaId, HookPattern, Persona, PersonaId, VoiceFingerprint, personaDisplayNames } from '../types';
+
+const STORAGE_KEY = 'customPersonas';
+const CUSTOM_PERSONA_PREFIX = 'custom:';
+
+export const isCustomPersonaId = (id: PersonaId): id is CustomPersonaId => {
+    return id.startsWith(CUSTOM_PERSONA_PREFIX);
+};
+
+export const loadCustomPersonas = (): CustomPersona[] => {
+    try {
+        const saved = localStorage.getItem(STORAGE_KEY);
+        return saved ? JSON.parse(saved) : [];
+    } catch (e) {
+        console.error("Failed to load custom personas from localStorage:", e);
+        return [];
+    }
+};
+
+export const saveCustomPersonas = (personas: CustomPersona[]): void => {
+    try {
+        localStorage.setItem(STORAGE_KEY, JSON.stringify(personas));
+    } catch (e) {
+        console.error("Failed to save custom personas to localStorage:", e);
+    }
+};
+
+export const getCustomPersona = (id: PersonaId): CustomPersona | undefined => {
+    if (!isCustomPersonaId(id)) return undefined;
+    return loadCustomPersonas().find(persona => persona.id === id);
+};
+
+/** Resolves the label for a built-in or custom persona, falling back to the default persona. */
+export const getPersonaDisplayName = (id: PersonaId): string => {
+    if (isCustomPersonaId(id)) {
+        return getCustomPersona(id)?.name ?? personaDisplayNames[Persona.GanapathiKakarla];
+    }
+    return personaDisplayNames[id] ?? personaDisplayNames[Persona.GanapathiKakarla];
+};
+
+export const createCustomPersona = (fields: Partial<Omit<CustomPersona, 'id' | 'createdAt' | 'updatedAt'>> = {}): CustomPersona => {
+    const now = Date.now();
+    return {
+        name: 'New Persona',
+        description: '',
+        audience: '',
+        toneTraits: [],
+        bannedPhrases: [],
+        signOff: '',
+        examplePosts: [],
+        ...fields,
+        id: `${CUSTOM_PERSONA_PREFIX}${crypto.randomUUID()}`,
+        createdAt: now,
+        updatedAt: now,
+    };
+};
+
+const toStringArray = (value: unknown): string[] => {
+    return Array.isArray(value) ? value.filter((v): v is string => typeof v === 'string' && v.trim() !== '') : [];
+};
+
+const HOOK_PATTERNS: HookPattern[] = ['question', 'number', 'story', 'bold-claim', 'other'];
+
+const isFiniteNumber = (value: unknown): value is number => {
+    return typeof value === 'number' && Number.isFinite(value);
+};
+
+const isStringArray = (value: unknown): value is string[] => {
+    return Array.isArray(value) && value.every(v => typeof v === 'string');
+};
+
+// An imported fingerprint is used as-is, so every field the prompt builder, the editor and the
+// voice match read must be present and of the right type; anything less drops the fingerprint.
+const isVoiceFingerprint = (value: unknown): value is VoiceFingerprint => {
+    if (typeof value !== 'object' || value === null) return false;
+    const fingerprint = value as Record<keyof VoiceFingerprint, unknown>;
+    const hookPatterns = fingerprint.hookPatterns as Record<HookPattern, unknown> | null;
+    return isFiniteNumber(fingerprint.sampleCount)
+        && isFiniteNumber(fingerprint.avgWordsPerPost)
+        && isFiniteNumber(fingerprint.avgWordsPerSentence)
+        && isFiniteNumber(fingerprint.avgWordsPerParagraph)
+        && isFiniteNumber(fingerprint.emojisPerPost)
+        && isFiniteNumber(fingerprint.hashtagsPerPost)
+        && isFiniteNumber(fingerprint.bulletLinesPerPost)
+        && isFiniteNumber(fingerprint.analyzedAt)
+        && typeof hookPatterns === 'object' && hookPatterns !== null
+        && HOOK_PATTERNS.every(pattern => isFiniteNumber(hookPatterns[pattern]))
+        && isStringArray(fingerprint.topEmojis)
+        && isStringArray(fingerprint.topWords)
+        && isStringArray(fingerprint.signaturePhrases)
+        && isStringArray(fingerprint.exemplars);
+};
+
+/**
+ * Parses personas from an exported JSON file. Accepts a single persona or an array.
+ * Every imported persona gets a fresh id so imports never overwrite existing personas.
+ * @throws If the JSON is malformed or contains no valid persona.
+ */
+export const parsePersonaImport = (json: string): CustomPersona[] => {
+    let data: unknown;
+    try {
+        data = JSON.parse(json);
+    } catch {
+        throw new Error("The file is not valid JSON.");
+    }
+
+    const items = Array.isArray(data) ? data : [data];
+    const personas = items
+        .filter((item): item is Record<string, unknown> => typeof item === 'object' && item !== null && typeof (item as Record<string, unknown>).name === 'string')
+        .map(item => createCustomPersona({
+            name: String(item.name).trim() || 'Imported Persona',
+            description: typeof item.description === 'string' ? item.description : '',
+            audience: typeof item.audience === 'string' ? item.audience : '',
+            toneTraits: toStringArray(item.toneTraits),
+            bannedPhrases: toStringArray(item.bannedPhrases),
+            signOff: typeof item.signOff === 'string' ? item.signOff : '',
+            examplePosts: toStringArray(item.examplePosts),
+            voiceFingerprint: isVoiceFingerprint(item.voiceFingerprint) ? item.voiceFingerprint : undefined,
+        }));
+
+    if (personas.length === 0) {
+        throw new Error("No valid personas were found. Each persona needs at least a \"name\".");
+    }
+    return personas;
+};
+
+/** Serializes personas for export, omitting ids and timestamps that are meaningless elsewhere. */
+export const exportPersonas = (personas: CustomPersona[]): string => {
+    const portable = personas.map(({ id, createdAt, updatedAt, ...rest }) => rest);
+    return JSON.stringify(portable.length === 1 ? portable[0] : portable, null, 2);
+};
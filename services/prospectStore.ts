@@ -0,0 +1,78 @@
+import { CompanyProspect, GenerationType, HistoryItem, Prospect, ProspectContact, ProspectStage } from '../types';
+import { outreachGenerationTypes } from './outreachMessages';
+
+const STORAGE_KEY = 'prospects';
+
+export const prospectStages: ProspectStage[] = ['researching', 'applied', 'interviewing', 'offer', 'rejected'];
+
+export const prospectStageLabels: Record<ProspectStage, string> = {
+    researching: 'Researching',
+    applied: 'Applied',
+    interviewing: 'Interviewing',
+    offer: 'Offer',
+    rejected: 'Rejected',
+};
+
+// Generations made for a specific company that belong on its card.
+export const prospectGenerationTypes = [GenerationType.ResumeTailoring, GenerationType.InterviewQuestions, ...outreachGenerationTypes];
+
+const normalizeCompany = (name: string): string => name.trim().toLowerCase();
+
+export const createProspect = (fields: Partial<Omit<Prospect, 'id' | 'createdAt' | 'updatedAt'>> & { company: string }): Prospect => {
+    const now = Date.now();
+    return {
+        industry: '',
+        stage: 'researching',
+        targetRole: '',
+        notes: '',
+        contacts: [],
+        ...fields,
+        company: fields.company.trim(),
+        id: crypto.randomUUID(),
+        createdAt: now,
+        updatedAt: now,
+    };
+};
+
+export const createProspectContact = (): ProspectContact => {
+    return { id: crypto.randomUUID(), name: '', title: '', link: '' };
+};
+
+export const loadProspects = (): Prospect[] => {
+    try {
+        const saved = localStorage.getItem(STORAGE_KEY);
+        return saved ? JSON.parse(saved) : [];
+    } catch (e) {
+        console.error("Failed to load prospects from localStorage:", e);
+        return [];
+    }
+};
+
+export const saveProspects = (prospects: Prospect[]): void => {
+    try {
+        localStorage.setItem(STORAGE_KEY, JSON.stringify(prospects));
+    } catch (e) {
+        console.error("Failed to save prospects to localStorage:", e);
+    }
+};
+
+/** The tracked prospect for a company, matched by name regardless of case. */
+export const findProspect = (prospects: Prospect[], company: string): Prospect | undefined => {
+    const key = normalizeCompany(company);
+    return key ? prospects.find(prospect => normalizeCompany(prospect.company) === key) : undefined;
+};
+
+/** Resume tailoring, interview and outreach generations made for the prospect's company, newest first. */
+export const getProspectGenerations = (prospect: Prospect, history: HistoryItem[]): HistoryItem[] => {
+    const key = normalizeCompany(prospect.company);
+    return history.filter(item =>
+        prospectGenerationTypes.includes(item.options.type) && normalizeCompany(item.options.company ?? '') === key);
+};
+
+/** Renders prospector results as the Markdown shown in the output pane and kept in history. */
+export const prospectsToMarkdown = (role: string, companies: CompanyProspect[]): string => {
+    const items = companies.map((company, index) =>
+        `${index + 1}. **${company.name}** (${company.industry}): ${company.reason}`
+    );
+    return [`# Companies Hiring for ${role}`, items.join('\n')].join('\n\n');
+};
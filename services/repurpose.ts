@@ -0,0 +1,64 @@
+import { GenerationOptions, GenerationType, HistoryItem, RepurposeFormat, VariantMode } from '../types';
+
+export const repurposeFormats: RepurposeFormat[] = ['post', 'newsletter', 'carousel', 'thread'];
+
+export const repurposeFormatLabels: Record<RepurposeFormat, string> = {
+    post: 'Standalone Posts',
+    newsletter: 'Newsletter Edition',
+    carousel: 'Carousel',
+    thread: 'Thread',
+};
+
+// What each asset is saved as, so it opens, previews and exports like any other item of that type.
+const repurposeGenerationTypes: Record<RepurposeFormat, GenerationType> = {
+    post: GenerationType.Post,
+    newsletter: GenerationType.Document,
+    carousel: GenerationType.Carousel,
+    thread: GenerationType.Post,
+};
+
+export const MIN_REPURPOSE_POSTS = 3;
+export const MAX_REPURPOSE_POSTS = 5;
+// Carousel content slides, excluding the hook and CTA slides.
+const REPURPOSE_CAROUSEL_SLIDES = 6;
+
+/** The document's leading H1, or the topic it was generated from. */
+export const getDocumentTitle = (markdown: string, fallback: string): string => {
+    const heading = markdown.match(/^#\s+(.+)$/m);
+    return heading ? heading[1].replace(/[*_`]/g, '').trim() : fallback;
+};
+
+/**
+ * Builds the options for deriving one asset from a document.
+ * @param sourceOptions The options the document itself was generated with, with media resolved.
+ * @param angle For posts, what this post is about; `otherAngles` are what the rest of the set covers.
+ */
+export const createRepurposeOptions = (
+    sourceOptions: GenerationOptions,
+    sourceText: string,
+    format: RepurposeFormat,
+    angle?: string,
+    otherAngles?: string[]
+): GenerationOptions => {
+    const sourceTitle = getDocumentTitle(sourceText, sourceOptions.topic);
+    return {
+        ...sourceOptions,
+        type: repurposeGenerationTypes[format],
+        topic: angle ?? `${repurposeFormatLabels[format]}: ${sourceTitle}`,
+        slideCount: format === 'carousel' ? REPURPOSE_CAROUSEL_SLIDES : sourceOptions.slideCount,
+        variantMode: VariantMode.Off,
+        planDay: undefined,
+        source: undefined, // The document itself is the source now
+        repurpose: { format, sourceTitle, sourceText, angle, otherAngles },
+    };
+};
+
+/** The assets derived from a document, grouped by format, newest first within each. */
+export const groupRepurposedItems = (sourceItemId: string, history: HistoryItem[]): Record<RepurposeFormat, HistoryItem[]> => {
+    const groups: Record<RepurposeFormat, HistoryItem[]> = { post: [], newsletter: [], carousel: [], thread: [] };
+    history.forEach(item => {
+        const format = item.options.repurpose?.format;
+        if (format && item.sourceItemId === sourceItemId) groups[format].push(item);
+    });
+    return groups;
+};
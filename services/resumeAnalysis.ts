@@ -0,0 +1,34 @@
+import { ResumeKeyword } from '../types';
+
+export interface KeywordCoverageRow extends ResumeKeyword {
+    inOriginal: boolean;
+    inTailored: boolean;
+}
+
+const escapeRegExp = (text: string): string => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * Whether the text mentions the keyword as a whole term, ignoring case and treating spaces,
+ * hyphens and slashes as interchangeable ("full-stack" matches "Full Stack").
+ */
+export const containsKeyword = (text: string, keyword: string): boolean => {
+    const terms = keyword.trim().split(/[\s\-/]+/).filter(Boolean).map(escapeRegExp);
+    if (terms.length === 0) return false;
+    const pattern = new RegExp(`(?<![\\p{L}\\p{N}])${terms.join('[\\s\\-/]*')}(?![\\p{L}\\p{N}])`, 'iu');
+    return pattern.test(text);
+};
+
+/**
+ * Checks each job description keyword against the original and the tailored resume.
+ * Required keywords come first, then the ones still missing from the tailored resume.
+ */
+export const getKeywordCoverage = (keywords: ResumeKeyword[], originalResume: string, tailoredResume: string): KeywordCoverageRow[] => {
+    return keywords
+        .map(keyword => ({
+            ...keyword,
+            inOriginal: containsKeyword(originalResume, keyword.keyword),
+            inTailored: containsKeyword(tailoredResume, keyword.keyword),
+        }))
+        .sort((a, b) => (a.importance === b.importance ? 0 : a.importance === 'required' ? -1 : 1)
+            || Number(a.inTailored) - Number(b.inTailored));
+};
@@ -0,0 +1,81 @@
+import { HistoryItem, Revision, RevisionSource, CarouselSlide } from '../types';
+
+export const revisionSourceLabels: Record<RevisionSource, string> = {
+    original: 'Original',
+    humanified: 'Humanified',
+    edited: 'Edited',
+    regenerated: 'Regenerated',
+    inlineEdit: 'Inline AI Edit',
+    trimmed: 'Trimmed to Fit',
+    variant: 'Chosen Variant',
+    translated: 'Translated',
+};
+
+const createRevision = (parentId: string | null, source: RevisionSource, text: string, carouselSlides?: CarouselSlide[]): Revision => ({
+    id: crypto.randomUUID(),
+    parentId,
+    source,
+    text,
+    carouselSlides,
+    createdAt: Date.now(),
+});
+
+/** Returns the item's revisions, treating items saved before revisions existed as a single original. */
+export const getRevisions = (item: HistoryItem): { revisions: Revision[]; currentRevisionId: string } => {
+    if (item.revisions?.length && item.currentRevisionId) {
+        return { revisions: item.revisions, currentRevisionId: item.currentRevisionId };
+    }
+    // A stable id, so a revision picked in the UI can be found again on the next call.
+    const original = { ...createRevision(null, 'original', item.result.text, item.result.carouselSlides), id: `${item.id}:original`, createdAt: item.timestamp };
+    return { revisions: [original], currentRevisionId: original.id };
+};
+
+/**
+ * Adds a revision derived from the current one and makes it current.
+ * @returns The updated item; the input is not modified.
+ */
+export const addRevision = (item: HistoryItem, source: RevisionSource, text: string, carouselSlides?: CarouselSlide[]): HistoryItem => {
+    const { revisions, currentRevisionId } = getRevisions(item);
+    const revision = createRevision(currentRevisionId, source, text, carouselSlides ?? item.result.carouselSlides);
+    return {
+        ...item,
+        revisions: [...revisions, revision],
+        currentRevisionId: revision.id,
+        result: { ...item.result, text: revision.text, carouselSlides: revision.carouselSlides },
+    };
+};
+
+/** Makes an earlier revision current again. Later revisions are kept as a branch. */
+export const restoreRevision = (item: HistoryItem, revisionId: string): HistoryItem => {
+    const { revisions } = getRevisions(item);
+    const revision = revisions.find(r => r.id === revisionId);
+    if (!revision) return item;
+    return {
+        ...item,
+        revisions,
+        currentRevisionId: revision.id,
+        result: { ...item.result, text: revision.text, carouselSlides: revision.carouselSlides },
+    };
+};
+
+/** Flattens the revision tree depth-first, oldest first, with each revision's depth for indentation. */
+export const flattenRevisionTree = (revisions: Revision[]): Array<{ revision: Revision; depth: number }> => {
+    const children = new Map<string | null, Revision[]>();
+    revisions.forEach(revision => {
+        // Orphans (whose parent is missing) are shown as roots.
+        const parentId = revision.parentId && revisions.some(r => r.id === revision.parentId) ? revision.parentId : null;
+        children.set(parentId, [...(children.get(parentId) ?? []), revision]);
+    });
+
+    const flattened: Array<{ revision: Revision; depth: number }> = [];
+    const visit = (parentId: string | null, depth: number) => {
+        (children.get(parentId) ?? [])
+            .sort((a, b) => a.createdAt - b.createdAt)
+            .forEach(revision => {
+                flattened.push({ revision, depth });
+                visit(revision.id, depth + 1);
+            });
+    };
+    visit(null, 0);
+    return flattened;
+};
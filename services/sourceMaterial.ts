@@ -0,0 +1,239 @@
+import { GenerationType, SourceKind, SourceMaterial } from '../types';
+import { extractTextFromFile, SUPPORTED_DOCUMENT_EXTENSIONS } from './documentParser';
+
+export interface QuoteCheck {
+    quote: string;
+    found: boolean; // Whether the words appear in the source, ignoring case and punctuation
+}
+
+// Generation types that can be based on source material instead of only a topic.
+export const sourceGenerationTypes = [
+    GenerationType.Post,
+    GenerationType.ExamplePost,
+    GenerationType.Document,
+    GenerationType.MythBusting,
+];
+
+export const isSourceGenerationType = (type: GenerationType): boolean => sourceGenerationTypes.includes(type);
+
+const HTML_EXTENSIONS = ['.html', '.htm'];
+const TRANSCRIPT_EXTENSIONS = ['.vtt'];
+export const SOURCE_FILE_EXTENSIONS = [...SUPPORTED_DOCUMENT_EXTENSIONS, ...HTML_EXTENSIONS, ...TRANSCRIPT_EXTENSIONS];
+
+export const sourceKindLabels: Record<SourceKind, string> = {
+    pdf: 'PDF',
+    html: 'Web article',
+    transcript: 'Transcript',
+    text: 'Text file',
+    pasted: 'Pasted text',
+};
+
+// Roughly 15,000 words, which keeps the source and the content well inside one prompt.
+export const MAX_SOURCE_CHARS = 60000;
+
+const getExtension = (fileName: string): string => {
+    const dotIndex = fileName.lastIndexOf('.');
+    return dotIndex >= 0 ? fileName.slice(dotIndex).toLowerCase() : '';
+};
+
+const titleFromFileName = (fileName: string): string => {
+    const dotIndex = fileName.lastIndexOf('.');
+    return (dotIndex > 0 ? fileName.slice(0, dotIndex) : fileName).replace(/[-_]+/g, ' ').trim();
+};
+
+// Everything around an article that isn't part of it.
+const HTML_BOILERPLATE = 'script, style, noscript, template, svg, iframe, form, button, nav, header, footer, aside, [role="navigation"], [role="banner"], [role="contentinfo"], [aria-hidden="true"]';
+const HTML_BLOCKS = 'h1, h2, h3, h4, p, li, blockquote, pre, figcaption';
+
+const collapseWhitespace = (text: string): string => text.replace(/\s+/g, ' ').trim();
+
+/**
+ * Pulls the readable article out of a saved web page, with headings, list items and quotes kept
+ * as Markdown, and the title, author and address it declares for attribution.
+ */
+const parseHtmlArticle = (html: string): Pick<SourceMaterial, 'text' | 'title' | 'author' | 'url'> => {
+    const page = new DOMParser().parseFromString(html, 'text/html');
+    const meta = (selector: string): string | undefined => page.querySelector(selector)?.getAttribute('content')?.trim() || undefined;
+
+    const title = meta('meta[property="og:title"]') || collapseWhitespace(page.querySelector('h1')?.textContent ?? '') || collapseWhitespace(page.title);
+    // article:author is often a profile URL rather than a name.
+    const author = [meta('meta[name="author"]'), meta('meta[property="article:author"]'), collapseWhitespace(page.querySelector('[rel="author"], [itemprop="author"]')?.textContent ?? '')]
+        .find(candidate => candidate && !/^https?:\/\//.test(candidate));
+    const url = page.querySelector('link[rel="canonical"]')?.getAttribute('href')?.trim() || meta('meta[property="og:url"]');
+
+    const root = page.querySelector('article') ?? page.querySelector('main, [role="main"]') ?? page.body;
+    root.querySelectorAll(HTML_BOILERPLATE).forEach(node => node.remove());
+
+    // A paragraph inside a list item or quote is part of that block, not one of its own.
+    const blocks = Array.from(root.querySelectorAll(HTML_BLOCKS))
+        .filter(block => !block.parentElement?.closest(HTML_BLOCKS))
+        .map(block => {
+            const text = block.tagName === 'PRE' ? (block.textContent ?? '').trim() : collapseWhitespace(block.textContent ?? '');
+            if (!text) return '';
+            const headingLevel = Number(block.tagName.match(/^H(\d)$/)?.[1] ?? 0);
+            if (headingLevel > 0) return `${'#'.repeat(headingLevel)} ${text}`;
+            if (block.tagName === 'LI') return `- ${text}`;
+            if (block.tagName === 'BLOCKQUOTE') return `> ${text}`;
+            return text;
+        })
+        .filter(Boolean);
+
+    return {
+        text: blocks.length > 0 ? blocks.join('\n\n') : collapseWhitespace(root.textContent ?? ''),
+        title,
+        author,
+        url,
+    };
+};
+
+const HTML_ENTITIES: Record<string, string> = { '&amp;': '&', '&lt;': '<', '&gt;': '>', '&quot;': '"', '&#39;': "'", '&nbsp;': ' ' };
+// Long stretches of one speaker are broken into paragraphs of about this many characters.
+const TRANSCRIPT_PARAGRAPH_CHARS = 600;
+
+/**
+ * Turns WebVTT captions into readable paragraphs: timings, cue numbers and styling go, a speaker's
+ * consecutive cues are joined, and lines repeated by rolling captions are dropped.
+ */
+const parseVttTranscript = (vtt: string): string => {
+    const paragraphs: { speaker: string; text: string }[] = [];
+    let previousCue = '';
+    vtt.replace(/\r\n?/g, '\n').split(/\n{2,}/).forEach(block => {
+        const lines = block.split('\n');
+        const timingIndex = lines.findIndex(line => line.includes('-->'));
+        if (timingIndex < 0 || /^(NOTE|STYLE|REGION)\b/.test(lines[0])) return;
+
+        const raw = lines.slice(timingIndex + 1).join(' ');
+        const speaker = raw.match(/<v(?:\.[^\s>]*)?\s+([^>]+)>/)?.[1].trim() ?? '';
+        const cue = collapseWhitespace(raw.replace(/<[^>]+>/g, '').replace(/&(?:amp|lt|gt|quot|#39|nbsp);/g, entity => HTML_ENTITIES[entity]));
+        if (!cue || cue === previousCue) return;
+        previousCue = cue;
+
+        const current = paragraphs[paragraphs.length - 1];
+        if (current && (current.speaker === speaker || !speaker) && current.text.length < TRANSCRIPT_PARAGRAPH_CHARS) {
+            current.text += ` ${cue}`;
+        } else {
+            paragraphs.push({ speaker: speaker || current?.speaker || '', text: cue });
+        }
+    });
+    return paragraphs.map(({ speaker, text }) => speaker ? `${speaker}: ${text}` : text).join('\n\n');
+};
+
+const TIMESTAMP_PREFIX = /^\[?\(?\d{1,2}:\d{2}(?::\d{2})?(?:[.,]\d+)?\)?\]?\s*/;
+
+// A plain-text transcript exported with a timestamp at the start of most lines.
+const isTimestampedTranscript = (text: string): boolean => {
+    const lines = text.split('\n').filter(line => line.trim());
+    return lines.length > 0 && lines.filter(line => TIMESTAMP_PREFIX.test(line.trim())).length >= lines.length / 2;
+};
+
+/**
+ * Tidies extracted text: joins words hyphenated across line breaks, drops soft hyphens and odd spaces
+ * and, for PDFs, the page numbers and running headers and footers that repeat on every page.
+ */
+export const cleanSourceText = (text: string, kind: SourceKind): string => {
+    const lines = text
+        .replace(/\r\n?/g, '\n')
+        .replace(/\u00AD/g, '')
+        .replace(/[\u00A0\u2007\u202F\t]/g, ' ')
+        .replace(/(\p{Ll})-\n(\p{Ll})/gu, '$1$2')
+        .split('\n')
+        .map(line => line.replace(/ {2,}/g, ' ').trim());
+
+    let kept = lines;
+    if (kind === 'pdf') {
+        const counts = new Map<string, number>();
+        lines.forEach(line => line && line.length <= 80 && counts.set(line, (counts.get(line) ?? 0) + 1));
+        kept = lines.filter(line => !/^(?:page\s*)?\d{1,4}(?:\s*(?:of|\/)\s*\d{1,4})?$/i.test(line) && (counts.get(line) ?? 0) < 3);
+    } else if (kind === 'transcript') {
+        kept = lines.map(line => line.replace(TIMESTAMP_PREFIX, ''));
+    }
+    return kept.join('\n').replace(/\n{3,}/g, '\n\n').trim();
+};
+
+// Long sources are cut at a paragraph break, so the model never sees half a sentence.
+const createSource = (text: string, kind: SourceKind, details: Omit<SourceMaterial, 'text' | 'kind'>): SourceMaterial => {
+    const cleaned = cleanSourceText(text, kind);
+    if (!cleaned) {
+        throw new Error(`No readable text was found in "${details.fileName ?? details.title}".`);
+    }
+    if (cleaned.length <= MAX_SOURCE_CHARS) {
+        return { ...details, text: cleaned, kind };
+    }
+    const cut = cleaned.slice(0, MAX_SOURCE_CHARS);
+    const paragraphEnd = cut.lastIndexOf('\n\n');
+    return { ...details, text: paragraphEnd > MAX_SOURCE_CHARS * 0.8 ? cut.slice(0, paragraphEnd) : cut, kind, truncated: true };
+};
+
+/**
+ * Extracts and cleans the text of an uploaded source, entirely in the browser.
+ * @param file A PDF, saved web page (.html), WebVTT transcript, or Markdown, plain-text or Word file.
+ */
+export const readSourceFile = async (file: File): Promise<SourceMaterial> => {
+    const extension = getExtension(file.name);
+    if (!SOURCE_FILE_EXTENSIONS.includes(extension)) {
+        throw new Error(`Unsupported file type "${extension || file.type}". Please upload one of: ${SOURCE_FILE_EXTENSIONS.join(', ')}.`);
+    }
+
+    if (HTML_EXTENSIONS.includes(extension) || TRANSCRIPT_EXTENSIONS.includes(extension)) {
+        let content: string;
+        try {
+            content = await file.text();
+        } catch (error) {
+            console.error(`Error reading ${file.name}:`, error);
+            throw new Error(`Failed to read "${file.name}". The file may be corrupted.`);
+        }
+        if (TRANSCRIPT_EXTENSIONS.includes(extension)) {
+            return createSource(parseVttTranscript(content), 'transcript', { title: titleFromFileName(file.name), fileName: file.name });
+        }
+        const { text, title, author, url } = parseHtmlArticle(content);
+        return createSource(text, 'html', { title: title || titleFromFileName(file.name), author, url, fileName: file.name });
+    }
+
+    const text = await extractTextFromFile(file);
+    const kind: SourceKind = extension === '.pdf' ? 'pdf' : extension === '.txt' && isTimestampedTranscript(text) ? 'transcript' : 'text';
+    return createSource(text, kind, { title: titleFromFileName(file.name), fileName: file.name });
+};
+
+/** A title for pasted text: its first heading or line. */
+export const getPastedTitle = (text: string): string => {
+    const firstLine = text.split('\n').map(line => line.replace(/^#+\s*/, '').trim()).find(Boolean) ?? '';
+    return firstLine.length > 80 ? `${firstLine.slice(0, 77).trim()}...` : firstLine;
+};
+
+/**
+ * Readies a source for generation. Its text may have been pasted or edited since it was read,
+ * so it is cleaned and cut to length again.
+ */
+export const prepareSource = (source: SourceMaterial): SourceMaterial => {
+    const { text, kind, ...details } = source;
+    return createSource(text, kind, { ...details, title: details.title.trim() || getPastedTitle(text) || sourceKindLabels[kind] });
+};
+
+/** The credit line added to the end of content generated from a source. */
+export const formatSourceCredit = (source: SourceMaterial): string => {
+    const byline = source.author ? `${source.title} by ${source.author}` : source.title;
+    return `Source: ${byline}${source.url ? ` (${source.url})` : ''}`;
+};
+
+// Case, punctuation and quote styles differ between a source and a faithful quote of it.
+const normalizeForMatching = (text: string): string => {
+    return text.normalize('NFKC').toLowerCase().replace(/[^\p{L}\p{N}]+/gu, ' ').trim();
+};
+
+/** Whether a passage appears word for word in the source. Elided parts ("...") may be left out. */
+export const containsPassage = (sourceText: string, passage: string): boolean => {
+    const source = normalizeForMatching(sourceText);
+    const parts = passage.split(/\.\.\.|…/).map(normalizeForMatching).filter(Boolean);
+    return parts.length > 0 && parts.every(part => source.includes(part));
+};
+
+// Quotations of at least three words; shorter quoted phrases are usually terms, not quotes.
+const QUOTATION = /["“]([^"”\n]+)["”]/g;
+
+/** Every quotation in the content, checked against the source it claims to quote. */
+export const verifyQuotes = (text: string, sourceText: string): QuoteCheck[] => {
+    return Array.from(text.matchAll(QUOTATION))
+        .map(match => match[1].trim())
+        .filter(quote => quote.split(/\s+/).length >= 3)
+        .map(quote => ({ quote, found: containsPassage(sourceText, quote) }));
+};
@@ -0,0 +1,83 @@
+export type DiffPartType = 'equal' | 'added' | 'removed';
+
+export interface DiffPart {
+    type: DiffPartType;
+    text: string;
+}
+
+// Above this many LCS cells a word diff gets slow, so the diff falls back to whole lines.
+const MAX_LCS_CELLS = 4_000_000;
+
+const tokenizeWords = (text: string): string[] => text.match(/\s+|[^\s]+/g) ?? [];
+const tokenizeLines = (text: string): string[] => text.match(/[^\n]*\n|[^\n]+$/g) ?? [];
+
+const pushPart = (parts: DiffPart[], type: DiffPartType, text: string) => {
+    const last = parts[parts.length - 1];
+    if (last && last.type === type) {
+        last.text += text;
+    } else {
+        parts.push({ type, text });
+    }
+};
+
+const diffTokens = (a: string[], b: string[]): DiffPart[] => {
+    // Trim the common prefix and suffix so the LCS table only covers the changed middle.
+    let start = 0;
+    while (start < a.length && start < b.length && a[start] === b[start]) start++;
+    let endA = a.length;
+    let endB = b.length;
+    while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+        endA--;
+        endB--;
+    }
+
+    const parts: DiffPart[] = [];
+    if (start > 0) pushPart(parts, 'equal', a.slice(0, start).join(''));
+
+    const midA = a.slice(start, endA);
+    const midB = b.slice(start, endB);
+    const n = midA.length;
+    const m = midB.length;
+    const width = m + 1;
+    const lcs = new Uint32Array((n + 1) * width);
+    for (let i = n - 1; i >= 0; i--) {
+        for (let j = m - 1; j >= 0; j--) {
+            lcs[i * width + j] = midA[i] === midB[j]
+                ? lcs[(i + 1) * width + j + 1] + 1
+                : Math.max(lcs[(i + 1) * width + j], lcs[i * width + j + 1]);
+        }
+    }
+
+    let i = 0;
+    let j = 0;
+    while (i < n && j < m) {
+        if (midA[i] === midB[j]) {
+            pushPart(parts, 'equal', midA[i]);
+            i++;
+            j++;
+        } else if (lcs[(i + 1) * width + j] >= lcs[i * width + j + 1]) {
+            pushPart(parts, 'removed', midA[i++]);
+        } else {
+            pushPart(parts, 'added', midB[j++]);
+        }
+    }
+    while (i < n) pushPart(parts, 'removed', midA[i++]);
+    while (j < m) pushPart(parts, 'added', midB[j++]);
+
+    if (endA < a.length) pushPart(parts, 'equal', a.slice(endA).join(''));
+    return parts;
+};
+
+/**
+ * Computes a word-level diff between two texts, keeping whitespace so the parts
+ * concatenate back to either input. Very large inputs are diffed line by line.
+ * @returns Parts in reading order; `removed` parts exist only in `before`, `added` only in `after`.
+ */
+export const diffText = (before: string, after: string): DiffPart[] => {
+    const wordsBefore = tokenizeWords(before);
+    const wordsAfter = tokenizeWords(after);
+    if (wordsBefore.length * wordsAfter.length <= MAX_LCS_CELLS) {
+        return diffTokens(wordsBefore, wordsAfter);
+    }
+    return diffTokens(tokenizeLines(before), tokenizeLines(after));
+};
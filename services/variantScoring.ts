@@ -0,0 +1,73 @@
+import { toLinkedInText, splitAtFold, countLinkedInCharacters, LINKEDIN_POST_LIMIT } from './linkedinFormatter';
+
+/** Scores from 0 to 100; higher is better. */
+export interface VariantScore {
+    hook: number;
+    readability: number;
+    fold: number;
+    overall: number;
+}
+
+const GENERIC_OPENER_REGEX = /^(in today's|in this post|as an? |i'm (excited|thrilled|happy|proud)|i am (excited|thrilled|happy|proud)|we're (excited|thrilled)|hello|hi everyone|let's talk about)/i;
+const TENSION_REGEX = /\b(but|stop|never|mistake|wrong|truth|nobody|secret|why|myth|failed|lesson)\b/i;
+
+const clamp = (value: number): number => Math.round(Math.min(100, Math.max(0, value)));
+
+const getWords = (text: string): string[] => {
+    return text.toLowerCase().match(/[\p{L}'][\p{L}\p{N}'-]*/gu) ?? [];
+};
+
+const countSyllables = (word: string): number => {
+    const groups = word.replace(/'/g, '').replace(/e$/, '').match(/[aeiouy]+/g);
+    return Math.max(1, groups?.length ?? 0);
+};
+
+// The styled Unicode letters LinkedIn text may contain would hide words from the counters, so score the plain version.
+const toPlainText = (markdown: string): string => {
+    return toLinkedInText(markdown, { unicodeStyles: false, bullet: '•', spacing: 'compact' });
+};
+
+const scoreHook = (text: string): number => {
+    const hookLine = text.split('\n').map(line => line.trim()).find(Boolean) ?? '';
+    const words = getWords(hookLine).length;
+    let score = 50;
+    if (words >= 4 && words <= 14) score += 15;
+    if (words > 25) score -= 15;
+    if (/\d/.test(hookLine)) score += 10;
+    if (hookLine.endsWith('?')) score += 10;
+    if (/\byou(r)?\b/i.test(hookLine)) score += 5;
+    if (TENSION_REGEX.test(hookLine)) score += 10;
+    if (GENERIC_OPENER_REGEX.test(hookLine)) score -= 25;
+    return clamp(score);
+};
+
+// Flesch reading ease, which already runs from about 0 (very hard) to 100 (very easy).
+const scoreReadability = (text: string): number => {
+    const words = getWords(text);
+    const sentences = text.split(/(?<=[.!?])\s+|\n+/).filter(sentence => getWords(sentence).length > 0);
+    if (words.length === 0 || sentences.length === 0) return 0;
+    const syllables = words.reduce((sum, word) => sum + countSyllables(word), 0);
+    return clamp(206.835 - 1.015 * (words.length / sentences.length) - 84.6 * (syllables / words.length));
+};
+
+// Full marks when the opening sentence is complete before "see more" and the post fits the limit.
+const scoreFold = (text: string): number => {
+    const [aboveFold] = splitAtFold(text);
+    const firstSentenceEnd = text.search(/[.!?](\s|$)|\n/);
+    const hookLength = firstSentenceEnd === -1 ? text.length : firstSentenceEnd + 1;
+    let score = hookLength <= aboveFold.length ? 100 : (aboveFold.length / hookLength) * 100;
+    if (countLinkedInCharacters(text) > LINKEDIN_POST_LIMIT) score -= 40;
+    return clamp(score);
+};
+
+/**
+ * Scores a draft post with local heuristics so alternative variants can be compared at a glance.
+ * @param markdown The post as generated, in Markdown.
+ */
+export const scoreVariant = (markdown: string): VariantScore => {
+    const text = toPlainText(markdown);
+    const hook = scoreHook(text);
+    const readability = scoreReadability(text);
+    const fold = scoreFold(text);
+    return { hook, readability, fold, overall: clamp(hook * 0.45 + readability * 0.3 + fold * 0.25) };
+};
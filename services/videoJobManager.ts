@@ -0,0 +1,196 @@
+import { GenerationOptions, GenerationResult, VideoJob } from '../types';
+import { startVideoGeneration, pollVideoGeneration } from './geminiService';
+import { VideoJobPoll } from './llmTypes';
+
+const STORAGE_KEY = 'videoJobs';
+export const VIDEO_POLL_INTERVAL_MS = 10000;
+export const VIDEO_JOB_TIMEOUT_MS = 15 * 60 * 1000;
+// Polls that fail in a row before the job is marked as failed; a single network error is retried.
+const MAX_CONSECUTIVE_POLL_ERRORS = 3;
+
+type JobsListener = (jobs: VideoJob[]) => void;
+type CompletionHandler = (job: VideoJob, result: GenerationResult) => void;
+
+const loadPersistedJobs = (): VideoJob[] => {
+    try {
+        const saved = localStorage.getItem(STORAGE_KEY);
+        return saved ? JSON.parse(saved) : [];
+    } catch (e) {
+        console.error("Failed to load video jobs from localStorage:", e);
+        return [];
+    }
+};
+
+const sleep = (ms: number, signal: AbortSignal): Promise<void> => {
+    return new Promise(resolve => {
+        const timer = setTimeout(resolve, ms);
+        signal.addEventListener('abort', () => {
+            clearTimeout(timer);
+            resolve();
+        }, { once: true });
+    });
+};
+
+/**
+ * Tracks long-running video generations. Running jobs are persisted to localStorage by
+ * operation name so that polling can resume after a page reload. Each job is polled until
+ * it finishes, is reported failed by the provider, cannot be polled `MAX_CONSECUTIVE_POLL_ERRORS`
+ * times in a row, is cancelled by the user, or is still unfinished after `VIDEO_JOB_TIMEOUT_MS`.
+ *
+ * Cancelling only stops the client from polling; the provider has no API to abort a
+ * submitted video operation, so it may still run (and be billed) to completion.
+ */
+class VideoJobManager {
+    private jobs: VideoJob[] = loadPersistedJobs();
+    private listeners = new Set<JobsListener>();
+    private controllers = new Map<string, AbortController>();
+    private completionHandler: CompletionHandler | null = null;
+
+    getJobs(): VideoJob[] {
+        return this.jobs;
+    }
+
+    /**
+     * Registers a listener that is called with the full job list whenever it changes.
+     * @returns A function that removes the listener.
+     */
+    subscribe(listener: JobsListener): () => void {
+        this.listeners.add(listener);
+        return () => {
+            this.listeners.delete(listener);
+        };
+    }
+
+    /** Sets the handler that receives the result of every job that completes successfully. */
+    onComplete(handler: CompletionHandler | null): void {
+        this.completionHandler = handler;
+    }
+
+    /**
+     * Submits a new video generation and starts polling it.
+     * @returns The newly created job.
+     */
+    async start(options: GenerationOptions): Promise<VideoJob> {
+        const { operationName, prompt } = await startVideoGeneration(options);
+        const job: VideoJob = {
+            id: crypto.randomUUID(),
+            operationName,
+            prompt,
+            options,
+            startedAt: Date.now(),
+            status: 'running',
+            pollCount: 0,
+        };
+        this.setJobs([job, ...this.jobs]);
+        void this.poll(job.id);
+        return job;
+    }
+
+    /** Resumes polling every persisted job that was still running when the page was closed. */
+    resumeUnfinished(): void {
+        this.jobs
+            .filter(job => job.status === 'running' && !this.controllers.has(job.id))
+            .forEach(job => void this.poll(job.id));
+    }
+
+    cancel(id: string): void {
+        this.controllers.get(id)?.abort();
+        this.updateJob(id, { status: 'cancelled' });
+    }
+
+    /** Removes a finished job from the list. */
+    dismiss(id: string): void {
+        this.controllers.get(id)?.abort();
+        this.setJobs(this.jobs.filter(job => job.id !== id));
+    }
+
+    private async poll(id: string): Promise<void> {
+        const controller = new AbortController();
+        this.controllers.set(id, controller);
+
+        let consecutiveErrors = 0;
+        try {
+            while (!controller.signal.aborted) {
+                const job = this.jobs.find(j => j.id === id);
+                if (!job || job.status !== 'running') return;
+
+                let poll: VideoJobPoll;
+                try {
+                    poll = await pollVideoGeneration(job.operationName);
+                    consecutiveErrors = 0;
+                } catch (error) {
+                    if (++consecutiveErrors >= MAX_CONSECUTIVE_POLL_ERRORS) throw error;
+                    console.warn(`Polling video job ${id} failed; retrying.`, error);
+                    await sleep(VIDEO_POLL_INTERVAL_MS, controller.signal);
+                    continue;
+                }
+                if (controller.signal.aborted) return;
+
+                if (poll.error) {
+                    this.updateJob(id, { status: 'failed', error: poll.error, pollCount: job.pollCount + 1, lastPolledAt: Date.now() });
+                    return;
+                }
+
+                const polledJob = this.updateJob(id, {
+                    pollCount: job.pollCount + 1,
+                    lastPolledAt: Date.now(),
+                    ...(poll.done ? { status: 'succeeded' as const } : {}),
+                });
+                if (poll.done) {
+                    if (polledJob) {
+                        this.completionHandler?.(polledJob, {
+                            text: `Video generated for prompt: "${job.prompt}"`,
+                            imageUrl: poll.videoUrl,
+                        });
+                    }
+                    return;
+                }
+
+                // Checked only after asking the provider, so a job resumed long after the page was
+                // closed still picks up a video that finished in the meantime.
+                if (Date.now() - job.startedAt > VIDEO_JOB_TIMEOUT_MS) {
+                    this.updateJob(id, {
+                        status: 'timedOut',
+                        error: `No video was returned after ${Math.round(VIDEO_JOB_TIMEOUT_MS / 60000)} minutes.`,
+                    });
+                    return;
+                }
+
+                await sleep(VIDEO_POLL_INTERVAL_MS, controller.signal);
+            }
+        } catch (error) {
+            if (!controller.signal.aborted) {
+                this.updateJob(id, {
+                    status: 'failed',
+                    error: error instanceof Error ? error.message : 'An unknown error occurred while generating the video.',
+                });
+            }
+        } finally {
+            this.controllers.delete(id);
+        }
+    }
+
+    private updateJob(id: string, patch: Partial<VideoJob>): VideoJob | undefined {
+        let updated: VideoJob | undefined;
+        this.setJobs(this.jobs.map(job => {
+            if (job.id !== id) return job;
+            updated = { ...job, ...patch };
+            return updated;
+        }));
+        return updated;
+    }
+
+    private setJobs(jobs: VideoJob[]): void {
+        this.jobs = jobs;
+        try {
+            // Only unfinished jobs need to survive a reload.
+            localStorage.setItem(STORAGE_KEY, JSON.stringify(jobs.filter(job => job.status === 'running')));
+        } catch (e) {
+            console.error("Failed to save video jobs to localStorage:", e);
+        }
+        this.listeners.forEach(listener => listener(this.jobs));
+    }
+}
+
+// Global instance shared by the whole app
+export const videoJobManager = new VideoJobManager();
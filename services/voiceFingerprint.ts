@@ -0,0 +1,272 @@
+import { HookPattern, VoiceFingerprint, VoiceMatchMetric, VoiceMatchReport } from '../types';
+
+export const MIN_VOICE_SAMPLES = 5;
+export const MAX_VOICE_SAMPLES = 20;
+const EXEMPLAR_COUNT = 3;
+
+const HOOK_LABELS: Record<HookPattern, string> = {
+    'question': 'Opens with a question',
+    'number': 'Opens with a number or list',
+    'story': 'Opens with a personal story',
+    'bold-claim': 'Opens with a short, bold claim',
+    'other': 'Opens with a statement',
+};
+
+const STOP_WORDS = new Set([
+    'the', 'a', 'an', 'and', 'or', 'but', 'if', 'of', 'to', 'in', 'on', 'for', 'with', 'at', 'by', 'from', 'as',
+    'is', 'are', 'was', 'were', 'be', 'been', 'being', 'it', 'its', 'this', 'that', 'these', 'those', 'i', 'me',
+    'my', 'we', 'our', 'you', 'your', 'he', 'she', 'they', 'them', 'their', 'not', 'no', 'so', 'do', 'does', 'did',
+    'have', 'has', 'had', 'will', 'would', 'can', 'could', 'should', 'just', 'about', 'what', 'when', 'how', 'who',
+    'which', 'there', 'here', 'than', 'then', 'more', 'most', 'all', 'also', 'into', 'out', 'up', 'one', 'get',
+]);
+
+const EMOJI_REGEX = /\p{Extended_Pictographic}/gu;
+const HASHTAG_REGEX = /(^|\s)#[\p{L}\p{N}_]+/gu;
+const BULLET_LINE_REGEX = /^\s*([-*•▪►→✅✔️]|\d+[.)]|\p{Extended_Pictographic})\s*/u;
+
+/**
+ * Splits pasted writing samples into individual posts. Posts are separated by a line
+ * containing only `---` (three or more dashes).
+ */
+export const splitWritingSamples = (text: string): string[] => {
+    return text.split(/\n\s*-{3,}\s*\n/).map(sample => sample.trim()).filter(Boolean);
+};
+
+const getWords = (text: string): string[] => {
+    return text.toLowerCase().match(/[\p{L}'][\p{L}\p{N}'-]*/gu) ?? [];
+};
+
+const getSentences = (text: string): string[] => {
+    return text.split(/(?<=[.!?])\s+|\n+/).map(s => s.trim()).filter(s => getWords(s).length > 0);
+};
+
+const getParagraphs = (text: string): string[] => {
+    return text.split(/\n\s*\n/).map(p => p.trim()).filter(Boolean);
+};
+
+const average = (values: number[]): number => {
+    return values.length === 0 ? 0 : values.reduce((sum, v) => sum + v, 0) / values.length;
+};
+
+const round = (value: number, digits: number = 1): number => {
+    const factor = 10 ** digits;
+    return Math.round(value * factor) / factor;
+};
+
+const classifyHook = (text: string): HookPattern => {
+    const firstLine = text.split('\n').map(l => l.trim()).find(Boolean) ?? '';
+    const firstLineWords = getWords(firstLine);
+    if (firstLine.endsWith('?')) return 'question';
+    if (/^\p{N}/u.test(firstLine.replace(EMOJI_REGEX, '').trim())) return 'number';
+    if (/^(i|i'm|i've|my|last|when|yesterday|years ago|today)\b/i.test(firstLine)) return 'story';
+    if (firstLineWords.length > 0 && firstLineWords.length <= 8) return 'bold-claim';
+    return 'other';
+};
+
+const countTop = (items: string[], limit: number, minCount: number = 1): string[] => {
+    const counts = new Map<string, number>();
+    items.forEach(item => counts.set(item, (counts.get(item) ?? 0) + 1));
+    return Array.from(counts.entries())
+        .filter(([, count]) => count >= minCount)
+        .sort((a, b) => b[1] - a[1])
+        .slice(0, limit)
+        .map(([item]) => item);
+};
+
+const getBigrams = (words: string[]): Set<string> => {
+    const bigrams = new Set<string>();
+    for (let i = 0; i < words.length - 1; i++) {
+        bigrams.add(`${words[i]} ${words[i + 1]}`);
+    }
+    return bigrams;
+};
+
+interface TextStats {
+    words: number;
+    wordsPerSentence: number;
+    wordsPerParagraph: number;
+    emojis: string[];
+    hashtags: number;
+    bulletLines: number;
+    hook: HookPattern;
+    contentWords: string[];
+}
+
+const measureText = (text: string): TextStats => {
+    const words = getWords(text);
+    const sentences = getSentences(text);
+    const paragraphs = getParagraphs(text);
+    return {
+        words: words.length,
+        wordsPerSentence: sentences.length ? words.length / sentences.length : 0,
+        wordsPerParagraph: paragraphs.length ? words.length / paragraphs.length : 0,
+        emojis: text.match(EMOJI_REGEX) ?? [],
+        hashtags: (text.match(HASHTAG_REGEX) ?? []).length,
+        bulletLines: text.split('\n').filter(line => BULLET_LINE_REGEX.test(line)).length,
+        hook: classifyHook(text),
+        contentWords: words.filter(w => w.length > 2 && !STOP_WORDS.has(w)),
+    };
+};
+
+/**
+ * Derives a voice fingerprint from a set of the author's real posts. The analysis is
+ * local and deterministic, so the same samples always yield the same profile.
+ * @param samples Between MIN_VOICE_SAMPLES and MAX_VOICE_SAMPLES posts.
+ * @throws If too few or too many samples are provided.
+ */
+export const analyzeVoice = (samples: string[]): VoiceFingerprint => {
+    const posts = samples.map(s => s.trim()).filter(Boolean);
+    if (posts.length < MIN_VOICE_SAMPLES || posts.length > MAX_VOICE_SAMPLES) {
+        throw new Error(`Please provide between ${MIN_VOICE_SAMPLES} and ${MAX_VOICE_SAMPLES} posts. You provided ${posts.length}.`);
+    }
+
+    const stats = posts.map(measureText);
+
+    const hookPatterns: Record<HookPattern, number> = { 'question': 0, 'number': 0, 'story': 0, 'bold-claim': 0, 'other': 0 };
+    stats.forEach(s => { hookPatterns[s.hook] += 1 / posts.length; });
+    (Object.keys(hookPatterns) as HookPattern[]).forEach(key => { hookPatterns[key] = round(hookPatterns[key], 2); });
+
+    // Signature phrases: content-word bigrams that recur across different posts.
+    const bigrams = stats.flatMap(s => Array.from(getBigrams(s.contentWords)));
+
+    // Exemplars: the posts closest to the typical length make the most representative few-shot examples.
+    const avgWordsPerPost = average(stats.map(s => s.words));
+    const exemplars = posts
+        .map((post, i) => ({ post, distance: Math.abs(stats[i].words - avgWordsPerPost) }))
+        .sort((a, b) => a.distance - b.distance)
+        .slice(0, EXEMPLAR_COUNT)
+        .map(({ post }) => post);
+
+    return {
+        sampleCount: posts.length,
+        avgWordsPerPost: round(avgWordsPerPost, 0),
+        avgWordsPerSentence: round(average(stats.map(s => s.wordsPerSentence))),
+        avgWordsPerParagraph: round(average(stats.map(s => s.wordsPerParagraph))),
+        emojisPerPost: round(average(stats.map(s => s.emojis.length))),
+        topEmojis: countTop(stats.flatMap(s => s.emojis), 5),
+        hashtagsPerPost: round(average(stats.map(s => s.hashtags))),
+        bulletLinesPerPost: round(average(stats.map(s => s.bulletLines))),
+        hookPatterns,
+        topWords: countTop(stats.flatMap(s => s.contentWords), 12, 2),
+        signaturePhrases: countTop(bigrams, 6, 2),
+        exemplars,
+        analyzedAt: Date.now(),
+    };
+};
+
+const getDominantHook = (fingerprint: VoiceFingerprint): HookPattern => {
+    return (Object.entries(fingerprint.hookPatterns) as [HookPattern, number][])
+        .sort((a, b) => b[1] - a[1])[0][0];
+};
+
+/**
+ * Turns a fingerprint into prompt instructions plus few-shot examples of the author's writing.
+ */
+export const getVoiceFingerprintInstruction = (fingerprint: VoiceFingerprint): string => {
+    const hooks = (Object.entries(fingerprint.hookPatterns) as [HookPattern, number][])
+        .filter(([, share]) => share > 0)
+        .sort((a, b) => b[1] - a[1])
+        .map(([pattern, share]) => `${HOOK_LABELS[pattern].toLowerCase()} (${Math.round(share * 100)}%)`)
+        .join(', ');
+
+    const traits = [
+        `Posts average about ${fingerprint.avgWordsPerPost} words, with around ${fingerprint.avgWordsPerSentence} words per sentence and ${fingerprint.avgWordsPerParagraph} words per paragraph.`,
+        fingerprint.emojisPerPost > 0
+            ? `Uses about ${fingerprint.emojisPerPost} emoji per post${fingerprint.topEmojis.length ? `, favouring ${fingerprint.topEmojis.join(' ')}` : ''}.`
+            : 'Never uses emoji.',
+        fingerprint.hashtagsPerPost > 0 ? `Uses about ${fingerprint.hashtagsPerPost} hashtags per post.` : 'Does not use hashtags.',
+        fingerprint.bulletLinesPerPost >= 1 ? `Typically includes ${Math.round(fingerprint.bulletLinesPerPost)} bulleted or numbered lines.` : 'Rarely uses bullet points.',
+        hooks ? `Hook style: ${hooks}.` : '',
+        fingerprint.topWords.length ? `Frequently used words: ${fingerprint.topWords.join(', ')}.` : '',
+        fingerprint.signaturePhrases.length ? `Recurring phrases: ${fingerprint.signaturePhrases.map(p => `"${p}"`).join(', ')}.` : '',
+    ].filter(Boolean).map(trait => `- ${trait}`).join('\n');
+
+    const examples = fingerprint.exemplars.map((post, i) => `Example ${i + 1}:\n${post}`).join('\n\n');
+
+    return `\n\nVOICE FINGERPRINT: Write in the author's own voice, learned from ${fingerprint.sampleCount} of their real posts. Match these measured habits closely:\n${traits}\n\nHere are representative posts by the author. Imitate their voice, rhythm and formatting, but do not reuse their content:\n---\n${examples}\n---`;
+};
+
+// 1 when equal, falling towards 0 as the values diverge relative to their size.
+const ratioSimilarity = (expected: number, actual: number): number => {
+    const scale = Math.max(Math.abs(expected), Math.abs(actual), 1);
+    return Math.max(0, 1 - Math.abs(expected - actual) / scale);
+};
+
+/**
+ * Measures how closely a draft matches a voice fingerprint, metric by metric.
+ */
+export const compareToFingerprint = (text: string, fingerprint: VoiceFingerprint): VoiceMatchReport => {
+    const draft = measureText(text);
+    const dominantHook = getDominantHook(fingerprint);
+    const draftWordSet = new Set(draft.contentWords);
+    const draftBigrams = getBigrams(draft.contentWords);
+
+    const metrics: VoiceMatchMetric[] = [
+        {
+            label: 'Post length (words)',
+            fingerprint: `${fingerprint.avgWordsPerPost}`,
+            draft: `${draft.words}`,
+            similarity: ratioSimilarity(fingerprint.avgWordsPerPost, draft.words),
+        },
+        {
+            label: 'Words per sentence',
+            fingerprint: `${fingerprint.avgWordsPerSentence}`,
+            draft: `${round(draft.wordsPerSentence)}`,
+            similarity: ratioSimilarity(fingerprint.avgWordsPerSentence, draft.wordsPerSentence),
+        },
+        {
+            label: 'Words per paragraph',
+            fingerprint: `${fingerprint.avgWordsPerParagraph}`,
+            draft: `${round(draft.wordsPerParagraph)}`,
+            similarity: ratioSimilarity(fingerprint.avgWordsPerParagraph, draft.wordsPerParagraph),
+        },
+        {
+            label: 'Emoji',
+            fingerprint: `${fingerprint.emojisPerPost}${fingerprint.topEmojis.length ? ` (${fingerprint.topEmojis.join(' ')})` : ''}`,
+            draft: `${draft.emojis.length}${draft.emojis.length ? ` (${countTop(draft.emojis, 5).join(' ')})` : ''}`,
+            similarity: ratioSimilarity(fingerprint.emojisPerPost, draft.emojis.length),
+        },
+        {
+            label: 'Hashtags',
+            fingerprint: `${fingerprint.hashtagsPerPost}`,
+            draft: `${draft.hashtags}`,
+            similarity: ratioSimilarity(fingerprint.hashtagsPerPost, draft.hashtags),
+        },
+        {
+            label: 'Bullet lines',
+            fingerprint: `${fingerprint.bulletLinesPerPost}`,
+            draft: `${draft.bulletLines}`,
+            similarity: ratioSimilarity(fingerprint.bulletLinesPerPost, draft.bulletLines),
+        },
+        {
+            label: 'Hook',
+            fingerprint: HOOK_LABELS[dominantHook],
+            draft: HOOK_LABELS[draft.hook],
+            // Any hook the author actually uses counts in proportion to how often they use it.
+            similarity: draft.hook === dominantHook ? 1 : Math.min(1, fingerprint.hookPatterns[draft.hook] * 2),
+        },
+        {
+            label: 'Vocabulary',
+            fingerprint: fingerprint.topWords.slice(0, 6).join(', ') || '—',
+            draft: fingerprint.topWords.filter(w => draftWordSet.has(w)).slice(0, 6).join(', ') || 'none of the usual words',
+            similarity: fingerprint.topWords.length
+                ? Math.min(1, fingerprint.topWords.filter(w => draftWordSet.has(w)).length / Math.min(4, fingerprint.topWords.length))
+                : 1,
+        },
+    ];
+
+    if (fingerprint.signaturePhrases.length > 0) {
+        const used = fingerprint.signaturePhrases.filter(p => draftBigrams.has(p));
+        metrics.push({
+            label: 'Signature phrases',
+            fingerprint: fingerprint.signaturePhrases.slice(0, 3).map(p => `"${p}"`).join(', '),
+            draft: used.length ? used.map(p => `"${p}"`).join(', ') : 'none',
+            similarity: used.length > 0 ? 1 : 0.5,
+        });
+    }
+
+    return {
+        score: Math.round(average(metrics.map(m => m.similarity)) * 100),
+        metrics,
+    };
+};
@@ -78,6 +78,59 @@ export enum Persona {
   TelehealthCoordinator = 'telehealthCoordinator',
 }
 
+// Custom personas are created by users at runtime and identified by a prefixed id.
+export type CustomPersonaId = `custom:${string}`;
+export type PersonaId = Persona | CustomPersonaId;
+
+export interface CustomPersona {
+  id: CustomPersonaId;
+  name: string;
+  // Free-form description of who the persona is and how they write.
+  description: string;
+  audience: string;
+  toneTraits: string[];
+  bannedPhrases: string[];
+  signOff: string;
+  examplePosts: string[];
+  // Style profile learned from the persona's real posts, if the user has provided any.
+  voiceFingerprint?: VoiceFingerprint;
+  createdAt: number;
+  updatedAt: number;
+}
+
+export type HookPattern = 'question' | 'number' | 'story' | 'bold-claim' | 'other';
+
+export interface VoiceFingerprint {
+  sampleCount: number;
+  avgWordsPerPost: number;
+  avgWordsPerSentence: number;
+  avgWordsPerParagraph: number;
+  emojisPerPost: number;
+  topEmojis: string[];
+  hashtagsPerPost: number;
+  bulletLinesPerPost: number;
+  // Share of samples whose opening line follows each pattern (0-1).
+  hookPatterns: Record<HookPattern, number>;
+  topWords: string[];
+  signaturePhrases: string[];
+  // A few representative samples, used as few-shot examples.
+  exemplars: string[];
+  analyzedAt: number;
+}
+
+export interface VoiceMatchMetric {
+  label: string;
+  fingerprint: string;
+  draft: string;
+  // 0-1, how closely the draft matches the fingerprint on this metric.
+  similarity: number;
+}
+
+export interface VoiceMatchReport {
+  score: number; // 0-100
+  metrics: VoiceMatchMetric[];
+}
+
 export enum GenerationType {
   Post = 'post',
   Document = 'document',
@@ -95,8 +148,13 @@ export enum GenerationType {
   CvEnhancement = 'cvEnhancement',
   ResumeTailoring = 'resumeTailoring',
   CompanyProspector = 'companyProspector',
+  CoverLetter = 'coverLetter',
+  ConnectionRequest = 'connectionRequest',
+  RecruiterInMail = 'recruiterInMail',
+  ReferralRequest = 'referralRequest',
   DayWiseContentPlan = 'dayWiseContentPlan',
   WeeklyContentPlan = 'weeklyContentPlan',
+  Carousel = 'carousel',
 }
 
 export enum PostLength {
@@ -119,6 +177,122 @@ export enum Tone {
     Inspirational = 'inspirational',
 }
 
+// The languages content can be generated in and translated to, all of which the PDF export can typeset.
+export enum ContentLanguage {
+    English = 'en',
+    Spanish = 'es',
+    French = 'fr',
+    German = 'de',
+    Portuguese = 'pt',
+    Italian = 'it',
+    Dutch = 'nl',
+    Arabic = 'ar',
+    Hebrew = 'he',
+    Persian = 'fa',
+}
+
+export enum VariantMode {
+    Off = 'off',
+    Hooks = 'hooks',
+    Full = 'full',
+}
+
+export enum InterviewMode {
+    QuestionList = 'questionList',
+    Mock = 'mock',
+}
+
+export enum PlanDayFormat {
+    TextPost = 'textPost',
+    ImagePost = 'imagePost',
+    Poll = 'poll',
+}
+
+// One day of a structured weekly content plan.
+export interface ContentPlanDay {
+    day: number;
+    subTopic: string;
+    format: PlanDayFormat;
+    talkingPoint: string;
+    schedule?: ScheduleSlot; // Set when the day is put on the calendar before its post is generated
+}
+
+// What a single day's generation needs to know about the series it belongs to.
+export interface PlanDayContext {
+    theme: string;
+    day: ContentPlanDay;
+    plan: ContentPlanDay[];
+}
+
+export type PlanDayStatus = 'queued' | 'running' | 'done' | 'failed';
+
+export interface PlanDayRun {
+    status: PlanDayStatus;
+    attempts: number;
+    error?: string;
+}
+
+export type RepurposeFormat = 'post' | 'newsletter' | 'carousel' | 'thread';
+
+// Set on an asset derived from a document, so it can be generated again from the same source.
+export interface RepurposeContext {
+    format: RepurposeFormat;
+    sourceTitle: string;
+    sourceText: string;
+    angle?: string; // posts only
+    otherAngles?: string[]; // posts only: what the sibling posts cover, so they don't overlap
+}
+
+export interface RepurposeRun {
+    status: PlanDayStatus;
+    attempts: number;
+    error?: string;
+}
+
+export type SourceKind = 'pdf' | 'html' | 'transcript' | 'text' | 'pasted';
+
+// Material a generation is based on instead of only its topic, extracted and cleaned in the browser.
+export interface SourceMaterial {
+    text: string;
+    kind: SourceKind;
+    title: string;
+    author?: string;
+    url?: string;
+    fileName?: string;
+    truncated?: boolean; // Only the start of a very long source was kept
+}
+
+export type FaithfulnessVerdict = 'supported' | 'partial' | 'unsupported';
+
+export interface FaithfulnessClaim {
+    claim: string;
+    verdict: FaithfulnessVerdict;
+    evidence?: string; // The passage of the source that backs the claim, quoted verbatim
+    note?: string; // What is missing or overstated, for partial and unsupported claims
+}
+
+// Set once content generated from source material has been checked against it.
+export interface FaithfulnessReport {
+    claims: FaithfulnessClaim[];
+    checkedText: string; // The content as it was checked, so later edits show the report as out of date
+    checkedAt: number;
+}
+
+export enum InlineEditAction {
+    Shorten = 'shorten',
+    Expand = 'expand',
+    Punchier = 'punchier',
+    AddStatistic = 'addStatistic',
+    Bullets = 'bullets',
+    FixGrammar = 'fixGrammar',
+    ChangeTone = 'changeTone',
+}
+
+export interface TextRange {
+  start: number;
+  end: number;
+}
+
 export enum ImageStyle {
     Abstract = 'abstract',
     Minimalist = 'minimalist',
@@ -144,9 +318,45 @@ export enum PdfExportQuality {
     High = 'high',
 }
 
+export enum CarouselTemplate {
+    Bold = 'bold',
+    Minimal = 'minimal',
+    Gradient = 'gradient',
+}
+
+export enum CarouselSize {
+    Portrait = '1080x1350',
+    Square = '1080x1080',
+}
+
+export type CarouselSlideKind = 'hook' | 'content' | 'cta';
+
+export interface CarouselSlide {
+  kind: CarouselSlideKind;
+  title: string;
+  body: string;
+}
+
 export type TextOverlayFont = 'Inter' | 'Roboto Slab' | 'Playfair Display';
 export type TextOverlayPlacement = 'top' | 'center' | 'bottom';
 
+export interface BrandKit {
+  id: string;
+  name: string;
+  authorName: string;
+  headline: string;
+  profileUrl: string;
+  avatarDataUrl?: string;
+  logoDataUrl?: string;
+  primaryColor: string;
+  secondaryColor: string;
+  headingFont: TextOverlayFont;
+  bodyFont: TextOverlayFont;
+  ctaText: string;
+  createdAt: number;
+  updatedAt: number;
+}
+
 export interface TextOverlayOptions {
   text: string;
   fontFamily: TextOverlayFont;
@@ -155,12 +365,65 @@ export interface TextOverlayOptions {
   placement: TextOverlayPlacement;
 }
 
+// The candidate's resume and the target job description, parsed locally from uploads or pasted.
+export interface ResumeInput {
+  resumeText: string;
+  resumeFileName?: string;
+  jobDescription: string;
+  jobDescriptionFileName?: string;
+}
+
+export interface ResumeBulletRewrite {
+    section: string;
+    before: string;
+    after: string;
+    reason: string;
+}
+
+export type KeywordImportance = 'required' | 'preferred';
+
+export interface ResumeKeyword {
+    keyword: string;
+    importance: KeywordImportance;
+}
+
+// Coverage is worked out locally against the resume text, so it stays correct after edits.
+export interface ResumeAnalysis {
+    rewrites: ResumeBulletRewrite[];
+    keywords: ResumeKeyword[];
+}
+
+// How one answer did on one rubric criterion, from 1 (weak) to 5 (excellent).
+export interface InterviewCriterionScore {
+    criterion: string;
+    score: number;
+    comment: string;
+}
+
+// One question of a mock interview and, once answered, how the answer was assessed.
+export interface InterviewTurn {
+    id: string;
+    question: string;
+    focus: string; // What the question probes, e.g. "System design" or "Handling conflict"
+    isFollowUp: boolean;
+    answer?: string;
+    scores?: InterviewCriterionScore[];
+    feedback?: string;
+}
+
+export interface InterviewSession {
+    questionCount: number; // Planned main questions; follow-ups come on top
+    turns: InterviewTurn[];
+    startedAt: number;
+    endedAt?: number;
+}
+
 export interface GenerationOptions {
   type: GenerationType;
   topic: string;
   pageCount: number;
   postLength: PostLength;
-  persona: Persona;
+  persona: PersonaId;
   tone: Tone;
   difficultyLevel: DifficultyLevel;
   company?: string;
@@ -172,12 +435,59 @@ export interface GenerationOptions {
   textOverlay?: TextOverlayOptions;
   videoQuality?: VideoQuality;
   pdfExportQuality?: PdfExportQuality;
+  slideCount?: number; // content slides, excluding the hook and CTA slides
+  carouselTemplate?: CarouselTemplate;
+  carouselSize?: CarouselSize;
+  variantMode?: VariantMode; // posts only
+  variantCount?: number;
+  planDay?: PlanDayContext; // set when generating one day of a weekly plan
+  resume?: ResumeInput; // CV enhancement and resume tailoring only
+  interviewMode?: InterviewMode; // interview questions only
+  language?: ContentLanguage; // English when unset
+  repurpose?: RepurposeContext; // set when deriving an asset from a generated document
+  source?: SourceMaterial; // posts, documents and myth busting only
+}
+
+// One of several alternative drafts generated for the same options.
+export interface PostVariant {
+    id: string;
+    label: string;
+    text: string;
 }
 
 export interface GenerationResult {
     text: string;
     imageUrl?: string;
     sources?: Array<{ uri: string; title: string }>;
+    // Knowledge base excerpts that were injected into the prompt.
+    retrievedSnippets?: RetrievedSnippet[];
+    carouselSlides?: CarouselSlide[];
+    // Alternatives still waiting for the user to pick one; `text` is the first of them.
+    variants?: PostVariant[];
+    contentPlan?: ContentPlanDay[];
+    // Set when a resume was analysed; `text` is then the tailored resume in Markdown.
+    resumeAnalysis?: ResumeAnalysis;
+    // Set for a mock interview. `text` stays empty until the session ends, then holds its report.
+    interview?: InterviewSession;
+    // Set for company prospecting; `text` is the same list in Markdown.
+    companyProspects?: CompanyProspect[];
+    // Set for content generated from source material, once it has been checked against the source.
+    faithfulness?: FaithfulnessReport;
+}
+
+export interface KnowledgeDocument {
+    id: string;
+    name: string;
+    size: number;
+    addedAt: number;
+    chunkCount: number;
+}
+
+export interface RetrievedSnippet {
+    documentId: string;
+    documentName: string;
+    text: string;
+    similarity: number;
 }
 
 export interface CompanySuggestion {
@@ -185,11 +495,92 @@ export interface CompanySuggestion {
     industry: string;
 }
 
+// A company from the prospector, with why it's a good fit for the role.
+export interface CompanyProspect extends CompanySuggestion {
+    reason: string;
+}
+
+// Where a tracked company is in the job search.
+export type ProspectStage = 'researching' | 'applied' | 'interviewing' | 'offer' | 'rejected';
+
+export interface ProspectContact {
+    id: string;
+    name: string;
+    title: string; // e.g. "Hiring manager" or "Recruiter"
+    link: string; // LinkedIn profile URL or email address
+}
+
+// A company on the prospects board. Resume tailoring and interview generations are linked by company name.
+export interface Prospect {
+    id: string;
+    company: string;
+    industry: string;
+    stage: ProspectStage;
+    targetRole: string;
+    notes: string;
+    contacts: ProspectContact[];
+    reason?: string; // Why the prospector suggested it
+    createdAt: number;
+    updatedAt: number;
+}
+
+export type VideoJobStatus = 'running' | 'succeeded' | 'failed' | 'cancelled' | 'timedOut';
+
+export interface VideoJob {
+  id: string;
+  operationName: string;
+  prompt: string;
+  options: GenerationOptions;
+  startedAt: number;
+  status: VideoJobStatus;
+  pollCount: number;
+  lastPolledAt?: number;
+  error?: string;
+}
+
+export type RevisionSource = 'original' | 'humanified' | 'edited' | 'regenerated' | 'inlineEdit' | 'trimmed' | 'variant' | 'translated';
+
+// Revisions form a tree: each one records the revision it was derived from.
+export interface Revision {
+  id: string;
+  parentId: string | null;
+  source: RevisionSource;
+  text: string;
+  carouselSlides?: CarouselSlide[];
+  createdAt: number;
+}
+
+// Where a piece of content is in the publishing workflow.
+export type ScheduleStatus = 'idea' | 'draft' | 'approved' | 'published';
+
+export interface ScheduleSlot {
+  at: number; // Publishing date and time, epoch ms
+  status: ScheduleStatus;
+}
+
 export interface HistoryItem {
   id: string;
   timestamp: number;
   options: GenerationOptions;
-  result: GenerationResult;
+  result: GenerationResult; // Always reflects the current revision
+  tags?: string[];
+  favorite?: boolean;
+  revisions?: Revision[];
+  currentRevisionId?: string;
+  variants?: PostVariant[]; // Alternatives that weren't picked, kept for later
+  sourceItemId?: string; // The item this one was generated from, e.g. the weekly plan of a day's post
+  schedule?: ScheduleSlot;
+}
+
+export interface HistoryFilters {
+  query: string;
+  type: GenerationType | '';
+  persona: PersonaId | '';
+  tone: Tone | '';
+  tag: string;
+  from: string; // yyyy-mm-dd, inclusive
+  to: string; // yyyy-mm-dd, inclusive
+  favoritesOnly: boolean;
 }
 // FIX: Moved personaDisplayNames here to be shared across components and services.
 export const personaDisplayNames: Record<Persona, string> = {